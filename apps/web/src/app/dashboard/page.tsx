@@ -34,6 +34,7 @@ import {
 } from 'lucide-react';
 import { createClient } from '@/lib/supabase/client';
 import { Header } from '@/components/layout/header';
+import DecisionComparison from '@/components/simulation/DecisionComparison';
 
 function DashboardContent() {
   const router = useRouter();
@@ -333,6 +334,16 @@ function DashboardContent() {
               </DashboardCard>
             </motion.div>
           </div>
+
+          {/* Option Comparison */}
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 1.1 }}
+            className="mt-8"
+          >
+            <DecisionComparison />
+          </motion.div>
         </main>
       </div>
 
@@ -14,6 +14,7 @@ import {
   Celebration
 } from '@theguide/ui';
 import { createClient } from '@/lib/supabase/client';
+import QuestionsWorthAnswering from '@/components/simulation/QuestionsWorthAnswering';
 import { ArrowRight, Briefcase, DollarSign, Home, Search } from 'lucide-react';
 
 // Removed POSTGRES_ERROR_CODES as we're now using upsert which handles both insert and update cases
@@ -471,11 +472,12 @@ function FirstDecisionStep({ onBack }: { onBack: () => void }) {
   const [selectedTemplate, setSelectedTemplate] = useState<string | null>(null);
 
   const suggestions = [
-    { label: "Job offer I received", value: "job_change", icon: "💼" },
-    { label: "Moving to new city", value: "relocation", icon: "🏙️" },
-    { label: "Going back to school", value: "education", icon: "🎓" },
-    { label: "Starting a business", value: "business", icon: "🚀" }
+    { label: "Job offer I received", value: "job_change", decisionType: "job_offer", icon: "💼" },
+    { label: "Moving to new city", value: "relocation", decisionType: "relocation", icon: "🏙️" },
+    { label: "Going back to school", value: "education", decisionType: "education", icon: "🎓" },
+    { label: "Starting a business", value: "business", decisionType: "business_startup", icon: "🚀" }
   ];
+  const selectedType = suggestions.find((suggestion) => suggestion.value === selectedTemplate)?.decisionType;
 
   const handleContinue = async () => {
     const supabase = createClient();
@@ -543,6 +545,11 @@ function FirstDecisionStep({ onBack }: { onBack: () => void }) {
         </div>
       </div>
 
+      {/* What to tell us first for the chosen kind of decision */}
+      {selectedType && (
+        <QuestionsWorthAnswering key={selectedType} target={{ decisionType: selectedType }} />
+      )}
+
       <div className="flex flex-col items-center space-y-4 pt-8">
         <Button
           variant="primary"
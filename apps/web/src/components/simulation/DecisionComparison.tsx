@@ -0,0 +1,71 @@
+'use client'
+
+import { Scale } from 'lucide-react'
+import { useState } from 'react'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { useDecisions } from '@/hooks/use-decisions'
+import { useOptionComparison } from '@/hooks/use-simulation'
+import OptionComparison from './OptionComparison'
+import QuestionsWorthAnswering from './QuestionsWorthAnswering'
+
+// Pick one of the user's decisions, compare its options side by side and see which
+// answers would sharpen the comparison
+export default function DecisionComparison() {
+  const { decisions, loading } = useDecisions()
+  const comparable = decisions.filter(d => d.decision_options.length >= 2)
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const decisionId = selectedId ?? comparable[0]?.id ?? null
+  const { comparison, isComparing, error, compareOptions } = useOptionComparison()
+
+  // Nothing to compare until a decision has at least two options
+  if (loading || comparable.length === 0) return null
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Scale className="h-5 w-5" />
+            Compare Your Options
+          </CardTitle>
+          <CardDescription>
+            Simulate every option of a decision on the same market paths
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-wrap items-center gap-3">
+            <select
+              className="h-10 rounded-md border border-input bg-background px-3 text-sm"
+              value={decisionId ?? ''}
+              onChange={e => setSelectedId(e.target.value)}
+              disabled={isComparing}
+            >
+              {comparable.map(decision => (
+                <option key={decision.id} value={decision.id}>
+                  {decision.title}
+                </option>
+              ))}
+            </select>
+            <Button
+              onClick={() => decisionId && compareOptions(decisionId)}
+              disabled={!decisionId || isComparing}
+            >
+              {isComparing ? 'Comparing...' : 'Compare Options'}
+            </Button>
+          </div>
+          {error && (
+            <Alert variant="destructive" className="mt-4">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+        </CardContent>
+      </Card>
+
+      {comparison?.decisionId === decisionId && <OptionComparison comparison={comparison} />}
+
+      {decisionId && <QuestionsWorthAnswering key={decisionId} target={{ decisionId }} />}
+    </div>
+  )
+}
@@ -0,0 +1,236 @@
+'use client'
+
+import type { OptionComparisonResult, PairwiseComparison } from '@theguide/models'
+import { Scale } from 'lucide-react'
+import { useState } from 'react'
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  ResponsiveContainer,
+  Tooltip,
+  type TooltipValueType,
+  XAxis,
+  YAxis,
+} from 'recharts'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+
+interface OptionComparisonProps {
+  comparison: OptionComparisonResult
+}
+
+export default function OptionComparison({ comparison }: OptionComparisonProps) {
+  const [selectedPair, setSelectedPair] = useState(0)
+  const titles = new Map(comparison.options.map(o => [o.optionId, o.title]))
+  const pair = comparison.pairs[selectedPair]
+
+  // Format currency
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      maximumFractionDigits: 0,
+    }).format(value)
+  }
+
+  // Format percentage
+  const formatPercent = (value: number) => {
+    return `${(value * 100).toFixed(1)}%`
+  }
+
+  const deltaDistribution = pair ? prepareDeltaDistribution(pair) : []
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Scale className="h-5 w-5" />
+            Option Comparison
+          </CardTitle>
+          <CardDescription>
+            Every option was simulated on the same {comparison.scenarioCount} economic scenarios, so
+            differences reflect your choice rather than luck. Net worth after {comparison.horizon}{' '}
+            years.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-muted-foreground border-b">
+                  <th className="py-2 pr-4 font-medium">Option</th>
+                  <th className="py-2 pr-4 font-medium">Expected</th>
+                  <th className="py-2 pr-4 font-medium">Median</th>
+                  <th className="py-2 pr-4 font-medium">10th – 90th percentile</th>
+                  <th className="py-2 pr-4 font-medium">Certainty equivalent</th>
+                  <th className="py-2 font-medium">Score</th>
+                </tr>
+              </thead>
+              <tbody>
+                {comparison.options.map(option => (
+                  <tr key={option.optionId} className="border-b last:border-0">
+                    <td className="py-2 pr-4 font-medium">{option.title}</td>
+                    <td className="py-2 pr-4">{formatCurrency(option.expectedNetWorth)}</td>
+                    <td className="py-2 pr-4">{formatCurrency(option.medianNetWorth)}</td>
+                    <td className="py-2 pr-4">
+                      {formatCurrency(option.percentile10)} – {formatCurrency(option.percentile90)}
+                    </td>
+                    <td className="py-2 pr-4">
+                      {option.riskAdjusted
+                        ? formatCurrency(option.riskAdjusted.certaintyEquivalent)
+                        : '—'}
+                    </td>
+                    <td className="py-2">
+                      {option.riskAdjusted ? `${option.riskAdjusted.score.toFixed(1)} / 10` : '—'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Head-to-Head</CardTitle>
+          <CardDescription>Scenario-by-scenario difference between two options</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="flex flex-wrap gap-2">
+            {comparison.pairs.map((p, index) => (
+              <button
+                type="button"
+                key={`${p.optionA}-${p.optionB}`}
+                onClick={() => setSelectedPair(index)}
+                className={`px-3 py-1 rounded-full border text-sm ${
+                  index === selectedPair
+                    ? 'bg-primary-600 text-white border-primary-600'
+                    : 'hover:bg-gray-50'
+                }`}
+              >
+                {titles.get(p.optionA)} vs {titles.get(p.optionB)}
+              </button>
+            ))}
+          </div>
+
+          {pair && (
+            <>
+              <div className="grid gap-4 md:grid-cols-3">
+                <div>
+                  <p className="text-sm text-muted-foreground">
+                    Chance {titles.get(pair.optionA)} comes out ahead
+                  </p>
+                  <p className="text-2xl font-bold">{formatPercent(pair.probabilityABeatsB)}</p>
+                </div>
+                <div>
+                  <p className="text-sm text-muted-foreground">Average difference</p>
+                  <p className="text-2xl font-bold">{formatCurrency(pair.meanDelta)}</p>
+                  <p className="text-xs text-muted-foreground">
+                    ± {formatCurrency(1.96 * pair.deltaStandardError)} (95% CI)
+                  </p>
+                </div>
+                <div className="space-y-1">
+                  <p className="text-sm text-muted-foreground">Stochastic dominance</p>
+                  <DominanceBadge
+                    label="First order"
+                    winner={pair.dominance.firstOrder}
+                    titleA={titles.get(pair.optionA)}
+                    titleB={titles.get(pair.optionB)}
+                  />
+                  <DominanceBadge
+                    label="Second order"
+                    winner={pair.dominance.secondOrder}
+                    titleA={titles.get(pair.optionA)}
+                    titleB={titles.get(pair.optionB)}
+                  />
+                </div>
+              </div>
+
+              <ResponsiveContainer width="100%" height={300}>
+                <BarChart
+                  data={deltaDistribution}
+                  margin={{ top: 20, right: 30, left: 60, bottom: 80 }}
+                >
+                  <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+                  <XAxis
+                    dataKey="range"
+                    tick={{ fontSize: 10, fill: '#666' }}
+                    angle={-45}
+                    textAnchor="end"
+                    height={100}
+                  />
+                  <YAxis tickFormatter={value => formatPercent(value)} tick={{ fill: '#666' }} />
+                  <Tooltip
+                    formatter={(value?: TooltipValueType) =>
+                      typeof value === 'number' ? formatPercent(value) : String(value ?? '')
+                    }
+                    labelFormatter={label => `Difference: ${label}`}
+                  />
+                  <Bar dataKey="share" radius={[4, 4, 0, 0]}>
+                    {deltaDistribution.map(entry => (
+                      <Cell
+                        key={entry.midpoint}
+                        fill={entry.midpoint >= 0 ? '#10b981' : '#ef4444'}
+                      />
+                    ))}
+                  </Bar>
+                </BarChart>
+              </ResponsiveContainer>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
+
+function DominanceBadge({
+  label,
+  winner,
+  titleA,
+  titleB,
+}: {
+  label: string
+  winner: 'A' | 'B' | 'none'
+  titleA?: string
+  titleB?: string
+}) {
+  return (
+    <div className="flex items-center gap-2 text-sm">
+      <span className="w-24">{label}</span>
+      <Badge variant={winner === 'none' ? 'secondary' : 'default'}>
+        {winner === 'A' ? titleA : winner === 'B' ? titleB : 'Neither'}
+      </Badge>
+    </div>
+  )
+}
+
+// Helper functions
+function prepareDeltaDistribution(pair: PairwiseComparison) {
+  const { deltas } = pair
+  if (deltas.length === 0) return []
+
+  const min = Math.min(...deltas)
+  const max = Math.max(...deltas)
+  const bins = 20
+  const width = (max - min) / bins || 1
+
+  const counts = new Array(bins).fill(0)
+  deltas.forEach(delta => {
+    const bin = Math.min(bins - 1, Math.floor((delta - min) / width))
+    counts[bin]++
+  })
+
+  return counts.map((count, i) => {
+    const start = min + i * width
+    return {
+      range: `$${Math.round(start / 1000)}k`,
+      midpoint: start + width / 2,
+      share: count / deltas.length,
+    }
+  })
+}
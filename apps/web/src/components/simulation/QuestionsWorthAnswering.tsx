@@ -0,0 +1,114 @@
+'use client'
+
+import { HelpCircle } from 'lucide-react'
+import { useState } from 'react'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { useQuestionsWorthAnswering } from '@/hooks/use-simulation'
+
+// Answers the user can flag as rough estimates
+const ESTIMABLE_FIELDS = [
+  { field: 'career.salary', label: 'My salary is an estimate' },
+  { field: 'financial.monthlyExpenses', label: 'My expenses are an estimate' },
+]
+
+interface QuestionsWorthAnsweringProps {
+  // A saved decision, or during onboarding the kind of decision the user faces
+  target: { decisionId: string } | { decisionType: string }
+  // How many of the most valuable questions to show
+  limit?: number
+}
+
+export default function QuestionsWorthAnswering({
+  target,
+  limit = 3,
+}: QuestionsWorthAnsweringProps) {
+  const { questions, isRanking, error, findQuestions } = useQuestionsWorthAnswering()
+  const [estimatedFields, setEstimatedFields] = useState<string[]>([])
+
+  // Format currency
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      maximumFractionDigits: 0,
+    }).format(value)
+  }
+
+  const toggleEstimate = (field: string) => {
+    setEstimatedFields(fields =>
+      fields.includes(field) ? fields.filter(f => f !== field) : [...fields, field]
+    )
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <HelpCircle className="h-5 w-5" />
+          Questions Worth Answering
+        </CardTitle>
+        <CardDescription>
+          The details that would most change the recommendation if you told us them
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {'decisionId' in target && (
+          <div className="flex flex-wrap gap-4 text-sm">
+            {ESTIMABLE_FIELDS.map(({ field, label }) => (
+              <label key={field} className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={estimatedFields.includes(field)}
+                  onChange={() => toggleEstimate(field)}
+                  disabled={isRanking}
+                />
+                {label}
+              </label>
+            ))}
+          </div>
+        )}
+
+        <Button
+          variant="outline"
+          onClick={() => findQuestions(target, { estimatedFields })}
+          disabled={isRanking}
+        >
+          {isRanking ? 'Ranking questions...' : 'Find questions worth answering'}
+        </Button>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {questions &&
+          (questions.questions.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              Nothing left to ask: your answers already settle this decision.
+            </p>
+          ) : (
+            <ol className="space-y-3">
+              {questions.questions.slice(0, limit).map(question => (
+                <li key={question.field} className="rounded-lg border p-3">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-medium">{question.question}</span>
+                    {question.critical && <Badge variant="destructive">Required</Badge>}
+                    {question.estimated && <Badge variant="secondary">Estimate</Badge>}
+                  </div>
+                  <p className="mt-1 text-sm text-muted-foreground">
+                    {question.evppi > 0
+                      ? `Knowing this is worth about ${formatCurrency(question.evppi)} and changes the best option in ${Math.round(question.probabilityChangesChoice * 100)}% of cases`
+                      : `Moves the projected outcome by up to ${formatCurrency(question.outcomeSpread)}`}
+                  </p>
+                </li>
+              ))}
+            </ol>
+          ))}
+      </CardContent>
+    </Card>
+  )
+}
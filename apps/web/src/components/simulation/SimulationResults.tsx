@@ -1,6 +1,6 @@
 'use client'
 
-import type { SimulationResult } from '@theguide/models'
+import type { SimulationResult, TailRiskMetrics } from '@theguide/models'
 import {
   AlertCircle,
   Briefcase,
@@ -8,6 +8,7 @@ import {
   DollarSign,
   Heart,
   Info,
+  ShieldAlert,
   TrendingDown,
   TrendingUp,
 } from 'lucide-react'
@@ -144,6 +145,9 @@ export default function SimulationResults({
         </CardContent>
       </Card>
 
+      {/* Tail Risk */}
+      {aggregateMetrics.tailRisk && <TailRiskPanel tailRisk={aggregateMetrics.tailRisk} />}
+
       {/* Detailed Analysis Tabs */}
       <Tabs defaultValue="distribution" className="space-y-4">
         <TabsList>
@@ -577,6 +581,92 @@ function MetricCard({
   )
 }
 
+function TailRiskPanel({ tailRisk }: { tailRisk: TailRiskMetrics }) {
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      maximumFractionDigits: 0,
+    }).format(value)
+  }
+  const formatPercent = (value: number) => {
+    return `${(value * 100).toFixed(1)}%`
+  }
+  const tailShare = formatPercent(tailRisk.level)
+
+  const pathRisks = [
+    {
+      label: 'Net worth turns negative',
+      value: formatPercent(tailRisk.probabilityNegativeNetWorth),
+      detail: 'At any point in the projection',
+    },
+    {
+      label: 'Emergency fund depleted',
+      value: formatPercent(tailRisk.emergencyFund.probabilityDepleted),
+      detail: `Liquid savings below ${tailRisk.emergencyFund.months} months of expenses`,
+    },
+    {
+      label: 'Expected max drawdown',
+      value: formatPercent(tailRisk.maxDrawdown.expected),
+      detail: `${formatPercent(tailRisk.maxDrawdown.tail)} in the worst ${tailShare} of scenarios`,
+    },
+  ]
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldAlert className="h-5 w-5 text-red-500" />
+          Downside Risk
+        </CardTitle>
+        <CardDescription>
+          How bad the worst {tailShare} of scenarios get, and how often savings run short
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-4 md:grid-cols-3">
+          {pathRisks.map(risk => (
+            <div key={risk.label} className="rounded-lg border p-4">
+              <p className="text-sm font-medium text-gray-600">{risk.label}</p>
+              <p className="mt-1 text-2xl font-bold text-gray-900">{risk.value}</p>
+              <p className="mt-1 text-xs text-muted-foreground">{risk.detail}</p>
+            </div>
+          ))}
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-left text-gray-600">
+                <th className="py-2 font-medium">Year</th>
+                <th className="py-2 font-medium">Value at risk</th>
+                <th className="py-2 font-medium">Expected shortfall</th>
+                <th className="py-2 font-medium">Chance below zero</th>
+              </tr>
+            </thead>
+            <tbody>
+              {tailRisk.horizons.map(h => (
+                <tr key={h.year} className="border-b last:border-0">
+                  <td className="py-2">{h.year}</td>
+                  <td className="py-2">{formatCurrency(h.valueAtRisk)}</td>
+                  <td className={`py-2 ${h.expectedShortfall < 0 ? 'text-red-600' : ''}`}>
+                    {formatCurrency(h.expectedShortfall)}
+                  </td>
+                  <td className="py-2">{formatPercent(h.probabilityNegative)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="mt-2 text-xs text-muted-foreground">
+            Value at risk is the net worth the worst {tailShare} of scenarios fall below; expected
+            shortfall is their average.
+          </p>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
 function SensitivityAnalysis({ sensitivity }: { sensitivity: any }) {
   const formatPercent = (value: number) => {
     return `${(value * 100).toFixed(1)}%`
@@ -591,16 +681,25 @@ function SensitivityAnalysis({ sensitivity }: { sensitivity: any }) {
       <CardContent>
         <div className="space-y-4">
           {sensitivity.keyDrivers.map((driver: any) => (
-            <div key={driver.parameter} className="space-y-2">
+            <div
+              key={driver.parameter}
+              className={`space-y-2 ${driver.significant === false ? 'opacity-50' : ''}`}
+            >
               <div className="flex justify-between text-sm">
                 <span className="font-medium">{driver.parameter}</span>
                 <span>{formatPercent(driver.importance)}</span>
               </div>
               <Progress value={driver.importance * 100} className="h-2" />
-              {driver.interactions > 0.1 && (
+              {driver.significant === false ? (
                 <p className="text-xs text-muted-foreground">
-                  Strong interactions with other parameters
+                  Not distinguishable from zero at this sample size
                 </p>
+              ) : (
+                driver.interactions > 0.1 && (
+                  <p className="text-xs text-muted-foreground">
+                    Strong interactions with other parameters
+                  </p>
+                )
               )}
             </div>
           ))}
@@ -1,12 +1,18 @@
+import type { PartialMetrics } from '@theguide/models'
 import { useEffect, useState } from 'react'
-import { apiClient } from '@/lib/api/client'
+import { type AnalysisJobState, apiClient } from '@/lib/api/client'
 import { createClient } from '@/lib/supabase/client'
 import type { Database } from '@/lib/supabase/database.types'
 
 type Simulation = Database['public']['Tables']['simulations']['Row']
 
+// How often to re-read the simulation when its event stream is unavailable
+const POLL_INTERVAL_MS = 2000
+
 export function useSimulation(simulationId: string | null) {
   const [simulation, setSimulation] = useState<Simulation | null>(null)
+  const [stage, setStage] = useState<string | null>(null)
+  const [partial, setPartial] = useState<PartialMetrics | null>(null)
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
 
@@ -14,8 +20,13 @@ export function useSimulation(simulationId: string | null) {
     if (!simulationId) return
 
     const supabase = createClient()
+    const controller = new AbortController()
+    let poll: ReturnType<typeof setInterval> | undefined
+    let settled = false
+
+    setStage(null)
+    setPartial(null)
 
-    // Initial fetch
     async function fetchSimulation() {
       try {
         const { data, error } = await supabase
@@ -26,32 +37,74 @@ export function useSimulation(simulationId: string | null) {
 
         if (error) throw error
         setSimulation(data)
+        return data
       } catch (err) {
         setError(err instanceof Error ? err.message : 'Failed to fetch simulation')
+        return null
       }
     }
 
+    // Fall back to polling until the run settles if the stream fails or drops early
+    function pollUntilSettled() {
+      if (controller.signal.aborted || poll) return
+      poll = setInterval(async () => {
+        const data = await fetchSimulation()
+        if (
+          data?.status === 'completed' ||
+          data?.status === 'failed' ||
+          data?.status === 'cancelled'
+        ) {
+          clearInterval(poll)
+        }
+      }, POLL_INTERVAL_MS)
+    }
+
     fetchSimulation()
 
-    // Subscribe to real-time updates
-    const channel = supabase
-      .channel(`simulation:${simulationId}`)
-      .on(
-        'postgres_changes',
+    apiClient
+      .streamSimulationEvents(
+        simulationId,
         {
-          event: 'UPDATE',
-          schema: 'public',
-          table: 'simulations',
-          filter: `id=eq.${simulationId}`,
+          onProgress: update => {
+            setStage(update.step)
+            if (update.partial) setPartial(update.partial)
+            setSimulation(current =>
+              current
+                ? {
+                    ...current,
+                    status:
+                      current.status === 'pending' && update.percentage > 0
+                        ? 'running'
+                        : current.status,
+                    progress: update.percentage,
+                  }
+                : current
+            )
+          },
+          onCompleted: () => {
+            settled = true
+            fetchSimulation()
+          },
+          onFailed: event => {
+            settled = true
+            setError(event.error)
+            fetchSimulation()
+          },
+          onCancelled: () => {
+            settled = true
+            fetchSimulation()
+          },
         },
-        payload => {
-          setSimulation(payload.new as Simulation)
-        }
+        controller.signal
       )
-      .subscribe()
+      .then(() => {
+        if (!settled) pollUntilSettled()
+      })
+      .catch(() => pollUntilSettled())
 
     return () => {
-      supabase.removeChannel(channel)
+      controller.abort()
+      clearInterval(poll)
     }
   }, [simulationId])
 
@@ -70,13 +123,108 @@ export function useSimulation(simulationId: string | null) {
     }
   }
 
+  // The event stream reports the cancellation once the run stops
+  const cancelSimulation = async () => {
+    if (!simulationId) return
+
+    try {
+      await apiClient.cancelSimulation(simulationId)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to cancel simulation')
+      throw err
+    }
+  }
+
   return {
     simulation,
     loading,
     error,
     runSimulation,
+    cancelSimulation,
     isRunning: simulation?.status === 'running',
     isCompleted: simulation?.status === 'completed',
+    isCancelled: simulation?.status === 'cancelled',
     progress: simulation?.progress || 0,
+    stage,
+    partial,
+  }
+}
+
+// Poll an analysis job (option comparison, questions worth answering) until it settles
+function useAnalysisJob<T>(
+  getJob: (jobId: string) => Promise<{ state: AnalysisJobState; result?: T; error?: string }>
+) {
+  const [jobId, setJobId] = useState<string | null>(null)
+  const [result, setResult] = useState<T | null>(null)
+  const [isRunning, setIsRunning] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!jobId) return
+
+    const poll = setInterval(async () => {
+      try {
+        const job = await getJob(jobId)
+        if (job.state === 'completed') {
+          clearInterval(poll)
+          setResult(job.result ?? null)
+          setIsRunning(false)
+        } else if (job.state === 'failed') {
+          clearInterval(poll)
+          setError(job.error || 'Analysis failed')
+          setIsRunning(false)
+        }
+      } catch (err) {
+        clearInterval(poll)
+        setError(err instanceof Error ? err.message : 'Failed to fetch analysis')
+        setIsRunning(false)
+      }
+    }, POLL_INTERVAL_MS)
+
+    return () => clearInterval(poll)
+  }, [jobId, getJob])
+
+  const start = async (queue: () => Promise<{ jobId: string }>) => {
+    setIsRunning(true)
+    setError(null)
+    setResult(null)
+
+    try {
+      const job = await queue()
+      setJobId(job.jobId)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start analysis')
+      setIsRunning(false)
+    }
   }
+
+  return { result, isRunning, error, start }
+}
+
+const getComparison = (jobId: string) => apiClient.getComparison(jobId)
+const getQuestions = (jobId: string) => apiClient.getQuestions(jobId)
+
+// Compare a decision's options on common random numbers
+export function useOptionComparison() {
+  const { result, isRunning, error, start } = useAnalysisJob(getComparison)
+
+  const compareOptions = (
+    decisionId: string,
+    options: { optionIds?: string[]; scenarios?: number; horizon?: number } = {}
+  ) => start(() => apiClient.compareOptions(decisionId, options))
+
+  return { comparison: result, isComparing: isRunning, error, compareOptions }
+}
+
+// Rank the profile answers that would most improve a decision, or, during
+// onboarding, the projection for a kind of decision
+export function useQuestionsWorthAnswering() {
+  const { result, isRunning, error, start } = useAnalysisJob(getQuestions)
+
+  const findQuestions = (
+    target: { decisionId: string } | { decisionType: string },
+    options: { optionIds?: string[]; scenarios?: number; estimatedFields?: string[] } = {}
+  ) => start(() => apiClient.getQuestionsWorthAnswering(target, options))
+
+  return { questions: result, isRanking: isRunning, error, findQuestions }
 }
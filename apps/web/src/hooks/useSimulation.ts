@@ -2,7 +2,14 @@
  * React hook for running simulations with progress tracking
  */
 
-import type { Decision, DecisionOption, SimulationResult, UserProfile } from '@theguide/models'
+import type {
+  Decision,
+  DecisionOption,
+  OptionComparisonResult,
+  OptionSummary,
+  SimulationResult,
+  UserProfile,
+} from '@theguide/models'
 import { useCallback, useRef, useState } from 'react'
 import {
   type DataQualityReport,
@@ -182,43 +189,37 @@ export function useSimulation(options?: UseSimulationOptions) {
 }
 
 /**
- * Hook for tracking multiple simulations (e.g., comparing options)
+ * Hook for comparing options (all options run on the same economic scenarios)
  */
 export function useSimulationComparison() {
-  const [comparisons, setComparisons] = useState<Map<string, SimulationResult>>(new Map())
+  const [comparison, setComparison] = useState<OptionComparisonResult | null>(null)
   const [isComparing, setIsComparing] = useState(false)
+  const [error, setError] = useState<Error | null>(null)
 
   const compareOptions = useCallback(
     async (
       decision: Decision,
       options: DecisionOption[],
       userProfile: Partial<UserProfile>,
-      config?: SimulationConfig
+      scenarios?: number
     ) => {
-      setIsComparing(true)
-      const results = new Map<string, SimulationResult>()
-
       try {
-        // Run simulations in parallel for all options
-        const simulations = await Promise.all(
-          options.map(async option => {
-            const result = await simulationService.runSimulation(
-              decision,
-              option,
-              userProfile,
-              config
-            )
-            return { optionId: option.id, result }
-          })
-        )
+        setIsComparing(true)
+        setError(null)
 
-        // Store results
-        simulations.forEach(({ optionId, result }) => {
-          results.set(optionId, result)
-        })
+        const result = await simulationService.compareOptions(
+          decision,
+          options,
+          userProfile,
+          scenarios
+        )
 
-        setComparisons(results)
-        return results
+        setComparison(result)
+        return result
+      } catch (err) {
+        const error = err instanceof Error ? err : new Error('Comparison failed')
+        setError(error)
+        throw error
       } finally {
         setIsComparing(false)
       }
@@ -226,40 +227,29 @@ export function useSimulationComparison() {
     []
   )
 
-  const getComparison = useCallback(
-    (optionId: string) => {
-      return comparisons.get(optionId)
-    },
-    [comparisons]
-  )
-
   const getBestOption = useCallback(() => {
-    let bestOption: { id: string; result: SimulationResult } | null = null
-    let highestValue = -Infinity
+    if (!comparison) return null
 
-    comparisons.forEach((result, optionId) => {
-      const value = result.aggregateMetrics.expectedValue.overall
-      if (value > highestValue) {
-        highestValue = value
-        bestOption = { id: optionId, result }
-      }
-    })
-
-    return bestOption
-  }, [comparisons])
+    // Rank by the user's risk-adjusted score, falling back to expected net worth
+    const value = (option: OptionSummary) => option.riskAdjusted?.score ?? option.expectedNetWorth
+    return comparison.options.reduce((best, option) =>
+      value(option) > value(best) ? option : best
+    )
+  }, [comparison])
 
   const reset = useCallback(() => {
-    setComparisons(new Map())
+    setComparison(null)
+    setError(null)
     setIsComparing(false)
   }, [])
 
   return {
-    comparisons,
+    comparison,
     isComparing,
+    error,
     compareOptions,
-    getComparison,
     getBestOption,
     reset,
-    hasComparisons: comparisons.size > 0,
+    hasComparison: comparison !== null,
   }
 }
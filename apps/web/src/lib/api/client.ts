@@ -1,4 +1,28 @@
+import type {
+  AggregateMetrics,
+  OptionComparisonResult,
+  ReplayVerification,
+  SimulationManifest,
+  SimulationProgressUpdate,
+  ValueOfInformationResult,
+} from '@theguide/models'
 import { createClient } from '@/lib/supabase/client'
+import type { Database } from '@/lib/supabase/database.types'
+
+type Tables = Database['public']['Tables']
+type DecisionRow = Tables['decisions']['Row']
+type DecisionOptionRow = Tables['decision_options']['Row']
+type DecisionStatus = Database['public']['Enums']['decision_status']
+
+export interface DecisionOptionInput {
+  title: string
+  description?: string
+  parameters?: Record<string, unknown>
+  pros?: string[]
+  cons?: string[]
+}
+
+export type AnalysisJobState = 'waiting' | 'active' | 'completed' | 'failed' | 'delayed' | 'paused'
 
 export interface ApiError {
   message: string
@@ -6,6 +30,14 @@ export interface ApiError {
   status?: number
 }
 
+// Callbacks for a simulation's event stream; completed, failed or cancelled ends it
+export interface SimulationEventHandlers {
+  onProgress?: (update: SimulationProgressUpdate) => void
+  onCompleted?: (event: { id: string; aggregateMetrics?: AggregateMetrics }) => void
+  onFailed?: (event: { id: string; error: string }) => void
+  onCancelled?: (event: { id: string }) => void
+}
+
 export class ApiClient {
   private baseUrl: string
 
@@ -22,6 +54,11 @@ export class ApiClient {
   }
 
   private async request<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
+    const response = await this.send(endpoint, options)
+    return response.json()
+  }
+
+  private async send(endpoint: string, options: RequestInit): Promise<Response> {
     const token = await this.getAuthToken()
 
     const headers: Record<string, string> = {
@@ -46,7 +83,7 @@ export class ApiClient {
       } as ApiError
     }
 
-    return response.json()
+    return response
   }
 
   // Decision endpoints
@@ -65,13 +102,213 @@ export class ApiClient {
   async getSimulationStatus(simulationId: string) {
     return this.request<{
       id: string
-      status: 'pending' | 'running' | 'completed' | 'failed'
+      status: 'pending' | 'running' | 'completed' | 'failed' | 'cancelled'
       progress?: number
       results?: any
       error?: string
+      manifest?: SimulationManifest
+      replay_of?: string
+      metadata?: { replay?: ReplayVerification }
     }>(`/api/simulations/${simulationId}`)
   }
 
+  // Remove a queued simulation, or stop a running one at its next checkpoint
+  async cancelSimulation(simulationId: string) {
+    return this.request<{
+      id: string
+      status: 'cancelled'
+      message: string
+    }>(`/api/simulations/${simulationId}`, {
+      method: 'DELETE',
+    })
+  }
+
+  // Re-run a completed simulation from its manifest; poll the returned id for the verification
+  async replaySimulation(simulationId: string) {
+    return this.request<{
+      id: string
+      jobId: string
+      status: string
+      replayOf: string
+      message: string
+    }>(`/api/simulations/${simulationId}/replay`, {
+      method: 'POST',
+    })
+  }
+
+  // Download a completed simulation: per-scenario CSV, JSON Lines of scenarios,
+  // the columnar binary format for large runs, or a PDF decision report
+  async exportSimulation(
+    simulationId: string,
+    format: 'csv' | 'jsonl' | 'columnar' | 'pdf' = 'csv'
+  ): Promise<Blob> {
+    const response = await this.send(`/api/simulations/${simulationId}/export`, {
+      method: 'POST',
+      body: JSON.stringify({ format }),
+    })
+    return response.blob()
+  }
+
+  // Follow a run's progress, partial metrics and outcome over Server-Sent Events.
+  // Read with fetch rather than EventSource so the request carries the auth header;
+  // resolves when the server closes the stream.
+  async streamSimulationEvents(
+    simulationId: string,
+    handlers: SimulationEventHandlers,
+    signal?: AbortSignal
+  ): Promise<void> {
+    const response = await this.send(`/api/simulations/${simulationId}/events`, { signal })
+    if (!response.body) throw { message: 'Event stream unavailable' } as ApiError
+
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader()
+    let buffer = ''
+    for (;;) {
+      const { done, value } = await reader.read()
+      if (done) return
+      buffer += value.replace(/\r\n?/g, '\n')
+
+      let boundary = buffer.indexOf('\n\n')
+      while (boundary !== -1) {
+        dispatchSimulationEvent(buffer.slice(0, boundary), handlers)
+        buffer = buffer.slice(boundary + 2)
+        boundary = buffer.indexOf('\n\n')
+      }
+    }
+  }
+
+  // Edit a decision or move it through its lifecycle; `decided` needs a finalChoice
+  async updateDecision(
+    decisionId: string,
+    update: {
+      title?: string
+      description?: string
+      status?: DecisionStatus
+      finalChoice?: string | null
+      parameters?: Record<string, unknown>
+      constraints?: Record<string, unknown>[]
+      decisionDeadline?: string
+      implementedAt?: string
+    }
+  ) {
+    return this.request<DecisionRow & { decision_options: DecisionOptionRow[] }>(
+      `/api/decisions/${decisionId}`,
+      {
+        method: 'PUT',
+        body: JSON.stringify(update),
+      }
+    )
+  }
+
+  async deleteDecision(decisionId: string) {
+    return this.request<{ message: string }>(`/api/decisions/${decisionId}`, {
+      method: 'DELETE',
+    })
+  }
+
+  // Option changes send a simulated decision back to draft until it is simulated again
+  async addDecisionOption(decisionId: string, option: DecisionOptionInput) {
+    return this.request<DecisionOptionRow>(`/api/decisions/${decisionId}/options`, {
+      method: 'POST',
+      body: JSON.stringify(option),
+    })
+  }
+
+  async updateDecisionOption(
+    decisionId: string,
+    optionId: string,
+    update: Partial<DecisionOptionInput>
+  ) {
+    return this.request<DecisionOptionRow>(`/api/decisions/${decisionId}/options/${optionId}`, {
+      method: 'PUT',
+      body: JSON.stringify(update),
+    })
+  }
+
+  async deleteDecisionOption(decisionId: string, optionId: string) {
+    return this.request<{ message: string }>(`/api/decisions/${decisionId}/options/${optionId}`, {
+      method: 'DELETE',
+    })
+  }
+
+  // Simulate every option of a decision on one seed; the ranking lands in the
+  // decision's simulation_summary once the batch completes
+  async simulateDecision(decisionId: string) {
+    return this.request<{
+      decisionId: string
+      jobId: string
+      status: 'analyzing'
+      simulations: Array<{ id: string; optionId: string }>
+      message: string
+    }>(`/api/decisions/${decisionId}/simulate`, {
+      method: 'POST',
+    })
+  }
+
+  async getDecisionSimulationStatus(decisionId: string, jobId: string) {
+    return this.request<{
+      id: string
+      decisionId: string
+      state: 'waiting' | 'active' | 'completed' | 'failed' | 'delayed' | 'paused'
+      progress: {
+        step: string
+        percentage: number
+        runs: Array<{ simulationId: string; optionId: string; status: string; progress: number }>
+      }
+      error?: string
+    }>(`/api/decisions/${decisionId}/simulate/${jobId}`)
+  }
+
+  // Queue a comparison of a decision's options on common random numbers;
+  // poll getComparison with the job ID for the result
+  async compareOptions(
+    decisionId: string,
+    options: { optionIds?: string[]; scenarios?: number; horizon?: number } = {}
+  ) {
+    return this.request<{ jobId: string; status: 'queued'; message: string }>(
+      `/api/simulations/compare`,
+      {
+        method: 'POST',
+        body: JSON.stringify({ decisionId, ...options }),
+      }
+    )
+  }
+
+  async getComparison(jobId: string) {
+    return this.request<{
+      id: string
+      decisionId: string
+      state: AnalysisJobState
+      result?: OptionComparisonResult
+      error?: string
+    }>(`/api/simulations/compare/${jobId}`)
+  }
+
+  // Queue a ranking of missing and estimated profile answers by how much they could
+  // change the recommendation; pass a decision type instead of an ID during onboarding,
+  // and poll getQuestions with the job ID for the ranking
+  async getQuestionsWorthAnswering(
+    target: { decisionId: string } | { decisionType: string },
+    options: { optionIds?: string[]; scenarios?: number; estimatedFields?: string[] } = {}
+  ) {
+    return this.request<{ jobId: string; status: 'queued'; message: string }>(
+      `/api/simulations/questions`,
+      {
+        method: 'POST',
+        body: JSON.stringify({ ...target, ...options }),
+      }
+    )
+  }
+
+  async getQuestions(jobId: string) {
+    return this.request<{
+      id: string
+      decisionId: string
+      state: AnalysisJobState
+      result?: ValueOfInformationResult
+      error?: string
+    }>(`/api/simulations/questions/${jobId}`)
+  }
+
   // Analysis endpoints
   async analyzeDecision(decisionId: string, optionId: string) {
     return this.request<{
@@ -86,3 +323,24 @@ export class ApiClient {
 
 // Singleton instance
 export const apiClient = new ApiClient()
+
+function dispatchSimulationEvent(frame: string, handlers: SimulationEventHandlers) {
+  let event = 'message'
+  const data: string[] = []
+  for (const line of frame.split('\n')) {
+    // Lines starting with a colon are comments, used as keep-alives
+    if (line.startsWith(':')) continue
+    const separator = line.indexOf(':')
+    const field = separator === -1 ? line : line.slice(0, separator)
+    const value = separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '')
+    if (field === 'event') event = value
+    else if (field === 'data') data.push(value)
+  }
+  if (data.length === 0) return
+
+  const payload = JSON.parse(data.join('\n'))
+  if (event === 'progress') handlers.onProgress?.(payload)
+  else if (event === 'completed') handlers.onCompleted?.(payload)
+  else if (event === 'failed') handlers.onFailed?.(payload)
+  else if (event === 'cancelled') handlers.onCancelled?.(payload)
+}
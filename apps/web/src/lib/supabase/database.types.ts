@@ -103,11 +103,13 @@ export type Database = {
           created_at: string | null
           decision_deadline: string | null
           description: string | null
+          final_choice: string | null
           id: string
           implemented_at: string | null
           ip_address: unknown | null
           parameters: Json | null
           search_vector: unknown | null
+          simulation_summary: Json | null
           status: Database["public"]["Enums"]["decision_status"] | null
           title: string
           type: Database["public"]["Enums"]["decision_type"]
@@ -120,11 +122,13 @@ export type Database = {
           created_at?: string | null
           decision_deadline?: string | null
           description?: string | null
+          final_choice?: string | null
           id?: string
           implemented_at?: string | null
           ip_address?: unknown | null
           parameters?: Json | null
           search_vector?: unknown | null
+          simulation_summary?: Json | null
           status?: Database["public"]["Enums"]["decision_status"] | null
           title: string
           type: Database["public"]["Enums"]["decision_type"]
@@ -137,11 +141,13 @@ export type Database = {
           created_at?: string | null
           decision_deadline?: string | null
           description?: string | null
+          final_choice?: string | null
           id?: string
           implemented_at?: string | null
           ip_address?: unknown | null
           parameters?: Json | null
           search_vector?: unknown | null
+          simulation_summary?: Json | null
           status?: Database["public"]["Enums"]["decision_status"] | null
           title?: string
           type?: Database["public"]["Enums"]["decision_type"]
@@ -187,6 +193,7 @@ export type Database = {
           decision_id: string
           error_message: string | null
           id: string
+          invalidated_at: string | null
           iterations: number | null
           job_id: string | null
           metadata: Json | null
@@ -207,6 +214,7 @@ export type Database = {
           decision_id: string
           error_message?: string | null
           id?: string
+          invalidated_at?: string | null
           iterations?: number | null
           job_id?: string | null
           metadata?: Json | null
@@ -227,6 +235,7 @@ export type Database = {
           decision_id?: string
           error_message?: string | null
           id?: string
+          invalidated_at?: string | null
           iterations?: number | null
           job_id?: string | null
           metadata?: Json | null
@@ -394,7 +403,7 @@ export type Database = {
         | "retirement"
         | "business_startup"
       marital_status: "single" | "married" | "divorced" | "widowed"
-      simulation_status: "pending" | "running" | "completed" | "failed"
+      simulation_status: "pending" | "running" | "completed" | "failed" | "cancelled"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -542,7 +551,7 @@ export const Constants = {
         "business_startup",
       ],
       marital_status: ["single", "married", "divorced", "widowed"],
-      simulation_status: ["pending", "running", "completed", "failed"],
+      simulation_status: ["pending", "running", "completed", "failed", "cancelled"],
     },
   },
 } as const
@@ -7,6 +7,7 @@ import type {
   Decision,
   DecisionOption,
   DecisionType,
+  OptionComparisonResult,
   SimulationResult,
   UserProfile,
 } from '@theguide/models'
@@ -117,6 +118,21 @@ export class SimulationService {
     }
   }
 
+  /**
+   * Compare options on common random numbers
+   *
+   * All options are simulated on the same economic scenarios, so the
+   * scenario-by-scenario differences aren't swamped by sampling noise.
+   */
+  async compareOptions(
+    decision: Decision,
+    options: DecisionOption[],
+    userProfile: Partial<UserProfile>,
+    scenarios = 300
+  ): Promise<OptionComparisonResult> {
+    return this.engine.compareOptions(decision, options, userProfile, { scenarios })
+  }
+
   /**
    * Run quick estimation for real-time feedback
    */
@@ -343,6 +359,8 @@ export interface SensitivityResult {
     importance: number
     firstOrder: number
     interactions: number
+    confidenceInterval: [number, number]
+    significant: boolean
   }>
   recommendation: string
 }
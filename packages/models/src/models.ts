@@ -18,6 +18,8 @@ export interface Demographics {
   education: Education
   maritalStatus: 'single' | 'married' | 'divorced' | 'widowed'
   dependents: number
+  dependentAges?: number[] // one per dependent; ages not given default to school age
+  partnerIncome?: number // annual; a married partner without one is treated as not earning
   healthStatus: 'excellent' | 'good' | 'fair' | 'poor'
 }
 
@@ -88,11 +90,26 @@ export interface FinancialProfile {
     healthcare: number
     other: number
   }
+  // Per-liability terms; typical market terms are assumed where omitted
+  liabilityTerms?: {
+    [K in keyof FinancialProfile['liabilities']]?: LiabilityTerms
+  }
+  debtStrategy?: DebtPayoffStrategy
+  retirementContributionRate?: number // share of wages deferred pre-tax, e.g. 0.06
   savingsRate: number
   creditScore: number
   riskTolerance: 'conservative' | 'moderate' | 'aggressive'
 }
 
+export interface LiabilityTerms {
+  interestRate: number // annual, e.g. 0.055
+  termMonths?: number // remaining term; omit for revolving credit
+  minimumPayment?: number // monthly floor for revolving credit
+}
+
+// avalanche = highest rate first, snowball = smallest balance first, minimum = invest the surplus
+export type DebtPayoffStrategy = 'avalanche' | 'snowball' | 'minimum'
+
 export interface Goals {
   shortTerm: Goal[] // 1-2 years
   mediumTerm: Goal[] // 3-5 years
@@ -115,6 +132,13 @@ export interface UserPreferences {
   urbanVsRural: number // 0-10 (0 = rural, 10 = urban)
   familyOrientation: number // 0-10
   adventureIndex: number // 0-10
+  utility?: UtilitySettings
+}
+
+export interface UtilitySettings {
+  function: 'crra' | 'exponential'
+  riskAversion?: number // overrides the level derived from riskTolerance and stabilityVsGrowth
+  cvarLevel?: number // tail share used for CVaR, e.g. 0.05 for the worst 5% of scenarios
 }
 
 // Decision Models
@@ -136,6 +160,24 @@ export interface Decision {
   simulations?: SimulationResult[]
   finalChoice?: string // option id
   outcome?: DecisionOutcome
+  followUps?: DecisionPoint[] // contingent choices for multi-stage analysis
+}
+
+// Follow-up choice that can arise partway through the projection,
+// e.g. "if laid off in year 2, relocate or retrain"
+export interface DecisionPoint {
+  id: string
+  title: string
+  year: number // 1-9; the choice is made at the end of this year
+  trigger?: DecisionTrigger // the choice always arises when omitted
+  type: DecisionType // type of the follow-up options
+  options: DecisionOption[] // alternatives to carrying on with the current plan
+}
+
+// Conditions that must all hold in the year of the decision point
+export interface DecisionTrigger {
+  event?: KeyEvent['type']
+  netWorthBelow?: number
 }
 
 export type DecisionType =
@@ -174,6 +216,15 @@ export interface DecisionParameters {
   // Relocation
   destinationCity?: string
   costOfLivingChange?: number
+  spouseEmployment?: boolean // partner has work lined up; false = partner stops working, omitted = job search
+  spouseSalary?: number // partner's pay at the destination
+  schoolingCosts?: number // annual per school-age child, today's dollars
+
+  // Family planning
+  newDependents?: number // children added, default 1
+  dependentYear?: number // projection year they arrive, default 1
+  partnerIncomeShare?: number // share of the partner's pay kept from that year, e.g. 0.5 part-time
+  childcareCost?: number // annual per child under 5, today's dollars
 
   // Education
   programType?: string
@@ -185,10 +236,30 @@ export interface DecisionParameters {
   downPayment?: number
   mortgageRate?: number
 
+  // Investment / Retirement portfolio
+  allocation?: AssetAllocation // fixed target mix; a glide path by age applies when omitted
+  rebalancing?: RebalancingPolicy
+  monthlyContribution?: number // while earning, on top of payroll retirement deferrals
+  contributionGrowth?: number // yearly increase of the contribution, e.g. 0.03
+  contributionAccount?: AccountBucket
+
   // Custom parameters
   [key: string]: any
 }
 
+// Target weights of the invested accounts, summing to 1; property is held separately
+export interface AssetAllocation {
+  stocks: number
+  bonds: number
+  cash: number
+}
+
+// traditional = tax-deferred (pre-tax contributions), roth = tax-free growth
+export type AccountBucket = 'taxable' | 'traditional' | 'roth'
+
+// threshold = back to target when any weight drifts more than 5 points
+export type RebalancingPolicy = 'annual' | 'threshold' | 'none'
+
 export interface Impact {
   financial: {
     immediate: number
@@ -240,15 +311,172 @@ export interface SimulationResult {
   opportunities: Opportunity[]
 }
 
+// Progress of a running simulation, relayed to clients as it happens
+export interface SimulationProgressUpdate {
+  step: string // stage name, e.g. 'Running Quasi-Monte Carlo simulation'
+  percentage: number
+  partial?: PartialMetrics
+}
+
+// Running estimates from the scenarios generated so far; half-widths are at the run's
+// precision confidence, 95% by default
+export interface PartialMetrics {
+  scenarios: number
+  netWorth: { mean: number; halfWidth: number } // year-10 net worth
+  probabilityOfSuccess: { estimate: number; halfWidth: number }
+}
+
+// Everything needed to replay a simulation run and check that it reproduces
+export interface SimulationManifest {
+  engineVersion: string
+  masterSeed: string
+  config: Record<string, unknown> // resolved run configuration; time budgets are pinned to the scenarios reached
+  streams: Array<[number, number]> // Philox stream ids drawn, as inclusive ranges
+  calibration: { name: string; hash: string }
+  profileHash: string
+  inputsHash: string // decision, option and start date (config.startDate)
+  aggregateMetricsHash: string
+}
+
+export interface ReplayVerification {
+  identical: boolean // aggregate metrics hash to the same value
+  inputsChanged: boolean // profile, decision, option, start date or calibration differ
+  engineVersionChanged: boolean
+  expectedHash: string
+  actualHash: string
+  mismatches: string[] // paths of aggregate metrics that differ from the original run
+}
+
+// Options of one decision simulated on common random numbers (identical economic paths)
+export interface OptionComparisonResult {
+  decisionId: string
+  runDate: Date
+  seed: string
+  scenarioCount: number
+  horizon: number // years; outcomes are compared on net worth at this horizon
+  options: OptionSummary[]
+  pairs: PairwiseComparison[]
+}
+
+// Optimal contingent policy for a decision with follow-up decision points
+export interface ContingentPolicyResult {
+  decisionId: string
+  optionId: string
+  runDate: Date
+  seed: string
+  scenarioCount: number
+  treeLeaves: number // scenarios left after tree reduction
+  rules: PolicyRule[]
+  decisionPoints: DecisionPointSummary[]
+  // Certainty equivalents of year-10 net worth under the user's utility
+  contingentValue: number // following the policy
+  staticValue: number // carrying on with the option whatever happens
+  valueOfFlexibility: number // contingentValue - staticValue
+}
+
+// Choice at one node of the scenario tree where a follow-up decision arises
+export interface PolicyRule {
+  decisionPointId: string
+  year: number
+  probability: number // of reaching this node
+  state: {
+    netWorth: number
+    salary: number
+    liquidAssets: number
+    debt: number
+  }
+  choice: string | null // follow-up option id, null to carry on
+  values: Record<string, number> // certainty equivalent per follow-up option id, 'continue' for carrying on
+}
+
+export interface DecisionPointSummary {
+  decisionPointId: string
+  title: string
+  year: number
+  probabilityTriggered: number
+  choiceProbabilities: Record<string, number> // keyed like PolicyRule.values
+}
+
+// Missing profile answers ranked by how much knowing them could change the choice
+export interface ValueOfInformationResult {
+  decisionId: string
+  runDate: Date
+  seed: string
+  scenarioCount: number // per option and plausible answer
+  recommendedOptionId: string // best option with every missing and estimated answer still unknown
+  evpi: number // expected gain from resolving all missing and estimated answers, in certainty-equivalent dollars
+  questions: QuestionWorthAnswering[] // most valuable first
+}
+
+export interface QuestionWorthAnswering {
+  field: string // profile path, e.g. 'career.salary'
+  question: string
+  critical: boolean // required for a reliable simulation of this decision type
+  estimated: boolean // answered, but only as an estimate the user is unsure of
+  evppi: number // expected gain from answering this question alone
+  probabilityChangesChoice: number // share of plausible answers under which another option is best
+  outcomeSpread: number // range of the recommended option's certainty equivalent across answers
+}
+
+export interface OptionSummary {
+  optionId: string
+  title: string
+  expectedNetWorth: number
+  medianNetWorth: number
+  percentile10: number
+  percentile90: number
+  riskAdjusted?: RiskAdjustedMetrics
+  goalProbabilities?: GoalProbability[]
+}
+
+export interface PairwiseComparison {
+  optionA: string // option id
+  optionB: string
+  deltas: number[] // per-scenario net worth of A minus B
+  meanDelta: number
+  deltaStandardError: number
+  probabilityABeatsB: number // 0-1
+  dominance: {
+    firstOrder: 'A' | 'B' | 'none'
+    secondOrder: 'A' | 'B' | 'none'
+  }
+}
+
+// Every option of a decision simulated on one shared seed, ranked
+export interface DecisionSimulationSummary {
+  decisionId: string
+  runDate: Date
+  seed: string // shared by the options' runs
+  scenarioCount: number // scenarios in the smallest option's run
+  horizon: number
+  recommendedOptionId: string
+  ranking: RankedOption[] // best first
+  // Two-sample statistics: the runs' scenarios are reduced separately, so not paired
+  dominance: Array<Omit<PairwiseComparison, 'deltas'>>
+  failedOptionIds: string[] // options whose run failed or was cancelled
+}
+
+export interface RankedOption extends OptionSummary {
+  rank: number // 1 = recommended
+  simulationId: string
+  probabilityOfSuccess: number
+  dominatedBy: string[] // option ids that first-order dominate this one
+}
+
 export interface Scenario {
   id: string
   probability: number
+  // Path averages for rates; regime and market state are those of year 1
   economicConditions: EconomicConditions
+  // Year-by-year conditions along the simulated regime path (index 0 = year 1)
+  regimePath?: EconomicConditions[]
   outcomes: {
     year1: YearlyOutcome
     year3: YearlyOutcome
     year5: YearlyOutcome
     year10: YearlyOutcome
+    // Full year-by-year series (index 0 = year 1); the snapshots above are taken from it
+    yearly?: YearlyOutcome[]
   }
   keyEvents: KeyEvent[]
   assumptions: Record<string, any>
@@ -260,20 +488,33 @@ export interface EconomicConditions {
   unemploymentRate: number
   marketCondition: 'recession' | 'downturn' | 'stable' | 'growth' | 'boom'
   industryOutlook: 'declining' | 'stable' | 'growing' | 'booming'
+  regime?: EconomicRegime
 }
 
+// States of the regime-switching economy
+export type EconomicRegime = 'crisis' | 'recession' | 'inflation' | 'normal' | 'boom'
+
 export interface YearlyOutcome {
   year: number
   financialPosition: {
     netWorth: number
     income: number
     expenses: number
-    savings: number
+    savings: number // net income less expenses and debt interest
+    grossIncome?: number
+    taxes?: number // federal, state, FICA and capital gains
+    netIncome?: number
+    liquidAssets?: number // cash and taxable investments, excluding retirement and property
+    debt?: number // outstanding liabilities at year end
+    interestPaid?: number
+    portfolio?: PortfolioPosition // investment and retirement decisions only
+    household?: HouseholdPosition // households with an earning partner or dependents
   }
   careerProgress: {
     role: string
     seniorityLevel: number // 1-10
     marketValue: number
+    salary?: number // annual rate at year end, before time out of work
     jobSatisfaction: number // 1-10
   }
   lifeMetrics: {
@@ -284,6 +525,19 @@ export interface YearlyOutcome {
   }
 }
 
+export interface PortfolioPosition {
+  allocation: AssetAllocation // year-end weights, after any rebalancing
+  return: number // the invested accounts' return for the year
+  accounts: Record<AccountBucket, number>
+  realEstate: number
+}
+
+export interface HouseholdPosition {
+  partnerIncome: number // partner's wages earned this year
+  dependentCosts: number // childcare, schooling, college and upkeep of all dependents
+  dependents: number // children supported this year, through college
+}
+
 export interface KeyEvent {
   year: number
   type: 'promotion' | 'layoff' | 'market_crash' | 'opportunity' | 'life_event' | 'other'
@@ -312,6 +566,57 @@ export interface AggregateMetrics {
   }
   riskScore: number // 1-10
   opportunityScore: number // 1-10
+  riskAdjusted?: RiskAdjustedMetrics
+  goalProbabilities?: GoalProbability[]
+  tailRisk?: TailRiskMetrics
+}
+
+// Downside of the net worth distribution and of each scenario's path
+export interface TailRiskMetrics {
+  level: number // tail probability, e.g. 0.05
+  horizons: TailRiskHorizon[]
+  probabilityNegativeNetWorth: number // net worth below zero in any year
+  emergencyFund: {
+    months: number // of monthly expenses, inflated with each scenario's inflation
+    probabilityDepleted: number // liquid assets below the buffer in any year
+  }
+  maxDrawdown: {
+    expected: number // fraction of the prior peak lost in the largest peak-to-trough fall, at most 1
+    tail: number // drawdown exceeded with probability `level`
+    expectedAmount: number
+  }
+}
+
+export interface TailRiskHorizon {
+  year: number
+  valueAtRisk: number // net worth at the `level` quantile
+  expectedShortfall: number // expected net worth across the worst `level` share of scenarios
+  probabilityNegative: number
+}
+
+// Outcomes scored against the user's own risk attitude and preferences
+export interface RiskAdjustedMetrics {
+  utilityFunction: UtilitySettings['function']
+  riskAversion: number // relative risk aversion (CRRA) or absolute, per reference wealth (exponential)
+  certaintyEquivalent: number // sure net worth the user values as much as the uncertain outcome
+  cvar: number // expected net worth across the worst cvarLevel share of scenarios
+  cvarLevel: number
+  attributeWeights: {
+    financial: number
+    career: number
+    lifestyle: number
+  }
+  score: number // 0-10 preference-weighted multi-attribute score
+}
+
+export interface GoalProbability {
+  goalId: string
+  title: string
+  priority: Goal['priority']
+  targetYear: number // projection year the goal is evaluated at
+  requiredFunds: number // expected nominal cost of this goal and every goal due before it
+  probability: number // 0-1, share of scenarios with enough liquid assets at the target year
+  atRisk: boolean // probability below the threshold for the goal's priority
 }
 
 export interface Recommendation {
@@ -18,6 +18,9 @@ const envSchema = z.object({
   // Redis
   REDIS_URL: z.string().url(),
 
+  // Simulation runs one user may have queued or running at once
+  SIMULATION_USER_CONCURRENCY: z.string().default('3').transform(Number),
+
   // CORS
   CORS_ORIGINS: z.string().default('http://localhost:3000'),
 
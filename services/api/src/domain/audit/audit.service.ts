@@ -0,0 +1,38 @@
+import type { Request } from 'express'
+import { supabase } from '../../config/supabase.js'
+import { logger } from '../../utils/logger.js'
+
+export interface AuditEntry {
+  action: string
+  tableName: string
+  recordId: string
+  oldData?: unknown
+  newData?: unknown
+}
+
+/**
+ * Writes API changes to the audit_log table
+ *
+ * The table's triggers run without the caller's identity when the API writes
+ * with its own key, so routes record who changed what, and from where, here.
+ * The decisions trigger skips the API's writes (migration 012) so they are
+ * not logged twice. A failed write is logged rather than failing the request.
+ */
+export class AuditService {
+  static async record(req: Request, entry: AuditEntry) {
+    const { error } = await supabase.from('audit_log').insert({
+      user_id: req.user?.userId,
+      action: entry.action,
+      table_name: entry.tableName,
+      record_id: entry.recordId,
+      old_data: entry.oldData ?? null,
+      new_data: entry.newData ?? null,
+      ip_address: req.ip,
+      user_agent: req.get('user-agent'),
+    })
+
+    if (error) {
+      logger.error('Failed to write audit log entry', { ...entry, error: error.message })
+    }
+  }
+}
@@ -0,0 +1,75 @@
+import type { Decision } from '@theguide/models'
+import { createError } from '../../middleware/errorHandler.js'
+
+export type DecisionStatus = Decision['status']
+
+/**
+ * Status transitions of a decision
+ *
+ * draft → analyzing → simulated → decided → implemented, with archiving from
+ * any settled status. `analyzing` and `simulated` belong to batch simulation:
+ * starting one moves the decision to `analyzing` and the batch job moves it
+ * to `simulated` (or back where it was). If the batch job is lost before it
+ * can, a user may reopen the decision as a draft or simulate it again.
+ * Users make the other moves.
+ */
+export class DecisionLifecycle {
+  private static readonly USER_TRANSITIONS: Record<DecisionStatus, DecisionStatus[]> = {
+    draft: ['decided', 'archived'],
+    analyzing: ['draft'], // only once its batch job is no longer active
+    simulated: ['decided', 'archived'],
+    decided: ['implemented', 'draft', 'archived'],
+    implemented: ['archived'],
+    archived: ['draft'],
+  }
+
+  // Statuses a batch simulation can start from
+  private static readonly SIMULATABLE: DecisionStatus[] = ['draft', 'simulated']
+
+  // Statuses whose options can still change
+  private static readonly EDITABLE: DecisionStatus[] = ['draft', 'simulated']
+
+  static assertTransition(
+    from: DecisionStatus,
+    to: DecisionStatus,
+    finalChoice: string | null | undefined,
+    batchActive: boolean
+  ) {
+    if (from === 'analyzing' && batchActive) {
+      throw createError('Decision is being simulated; wait for it to finish', 409)
+    }
+    if (!DecisionLifecycle.USER_TRANSITIONS[from].includes(to)) {
+      const allowed = DecisionLifecycle.USER_TRANSITIONS[from]
+      throw createError(
+        `Cannot move a decision from ${from} to ${to}${allowed.length ? `; allowed: ${allowed.join(', ')}` : ''}`,
+        409
+      )
+    }
+    if (to === 'decided' && !finalChoice) {
+      throw createError('A decided decision needs a finalChoice', 400)
+    }
+  }
+
+  static assertCanSimulate(status: DecisionStatus, batchActive: boolean) {
+    if (status === 'analyzing') {
+      if (batchActive) throw createError('Decision is already being simulated', 409)
+      return
+    }
+    if (!DecisionLifecycle.SIMULATABLE.includes(status)) {
+      throw createError(`A ${status} decision cannot be simulated; reopen it as a draft first`, 409)
+    }
+  }
+
+  // A decision can go while no batch job could still write its ranking to it
+  static assertDeletable(status: DecisionStatus, batchActive: boolean) {
+    if (status === 'analyzing' && batchActive) {
+      throw createError('Decision is being simulated; wait for it to finish', 409)
+    }
+  }
+
+  static assertOptionsEditable(status: DecisionStatus) {
+    if (!DecisionLifecycle.EDITABLE.includes(status)) {
+      throw createError(`Options of a ${status} decision cannot be changed`, 409)
+    }
+  }
+}
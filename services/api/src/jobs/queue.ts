@@ -1,5 +1,12 @@
-import Queue from 'bull'
+import type {
+  Decision,
+  DecisionOption,
+  SimulationProgressUpdate,
+  UserProfile,
+} from '@theguide/models'
+import Queue, { type JobId } from 'bull'
 import { config } from '../config/env.js'
+import { createError } from '../middleware/errorHandler.js'
 import { logger } from '../utils/logger.js'
 
 // Define job types
@@ -8,6 +15,57 @@ export interface SimulationJobData {
   decisionId: string
   optionId: string
   userId: string
+  precision?: {
+    tolerance: number
+    confidence?: number
+    timeBudgetMs?: number
+    initialScenarios?: number
+    maxScenarios?: number
+  }
+  // Re-run this simulation from its manifest instead of a fresh run
+  replayOf?: string
+  // Master seed shared by the runs of one decision, so their scenarios pair up
+  seed?: string
+}
+
+// Runs every option of a decision and ranks them once all have settled
+export interface DecisionJobData {
+  decisionId: string
+  userId: string
+  seed: string
+  runs: Array<{ simulationId: string; optionId: string }>
+  // Restored if no option completes
+  previousStatus: string
+}
+
+export interface DecisionJobProgress {
+  step: string
+  percentage: number
+  runs: Array<{ simulationId: string; optionId: string; status: string; progress: number }>
+}
+
+// Analyses that simulate in a worker instead of the API process; the route
+// resolves the inputs, so the worker only computes
+interface AnalysisInputs {
+  userId: string
+  seed: string
+  decision: Decision
+  options: DecisionOption[]
+  userProfile: Partial<UserProfile>
+}
+
+export type AnalysisJobData = AnalysisInputs &
+  (
+    | { kind: 'compare'; scenarios?: number; horizon?: number }
+    | { kind: 'questions'; scenarios?: number; estimatedFields?: string[] }
+  )
+
+// Receives one job's events, wherever the job runs
+export interface JobWatcher {
+  onProgress: (progress: SimulationProgressUpdate) => void
+  onCompleted: () => void
+  onFailed: (reason: string, retrying: boolean) => void
+  onCancelled: () => void
 }
 
 // Create queues
@@ -23,6 +81,24 @@ export const simulationQueue = new Queue<SimulationJobData>('simulations', confi
   },
 })
 
+export const decisionQueue = new Queue<DecisionJobData>('decision-simulations', config.REDIS_URL, {
+  defaultJobOptions: {
+    // Keep recent batches so their progress can still be looked up
+    removeOnComplete: 100,
+    removeOnFail: 100,
+    attempts: 1,
+  },
+})
+
+export const analysisQueue = new Queue<AnalysisJobData>('simulation-analyses', config.REDIS_URL, {
+  defaultJobOptions: {
+    // The result is read from the finished job, so keep recent ones around
+    removeOnComplete: 100,
+    removeOnFail: 100,
+    attempts: 1,
+  },
+})
+
 // Queue event handlers
 simulationQueue.on('completed', (job, _result) => {
   logger.info(`Simulation job ${job.id} completed`, {
@@ -44,9 +120,18 @@ simulationQueue.on('stalled', job => {
 })
 
 // Job management functions
+
+/**
+ * Queue a simulation behind the user's own unfinished runs
+ *
+ * The priority is the number of runs the user already has waiting or
+ * active (1 is served first), so one user's backlog does not hold up
+ * another user's first run.
+ */
 export async function addSimulationJob(data: SimulationJobData) {
+  const outstanding = await countUserJobs(data.userId)
   const job = await simulationQueue.add(data, {
-    priority: 1,
+    priority: outstanding + 1,
     delay: 0,
   })
 
@@ -54,6 +139,125 @@ export async function addSimulationJob(data: SimulationJobData) {
   return job
 }
 
+/**
+ * Reject new runs beyond the user's limit of runs queued or running at once
+ *
+ * Call before creating the simulation records, with the number of runs
+ * about to be queued.
+ */
+export async function assertUserCapacity(userId: string, runs: number = 1) {
+  if ((await userJobCapacity(userId)) < runs) {
+    throw createError(
+      `At most ${config.SIMULATION_USER_CONCURRENCY} simulations can be queued or running at once`,
+      429
+    )
+  }
+}
+
+// Runs the user can still queue before reaching their limit
+export async function userJobCapacity(userId: string): Promise<number> {
+  return Math.max(0, config.SIMULATION_USER_CONCURRENCY - (await countUserJobs(userId)))
+}
+
+export async function addDecisionJob(data: DecisionJobData) {
+  const job = await decisionQueue.add(data)
+
+  logger.info(`Added decision job ${job.id}`, {
+    decisionId: data.decisionId,
+    runs: data.runs.length,
+  })
+  return job
+}
+
+export async function getDecisionJobStatus(jobId: string) {
+  const job = await decisionQueue.getJob(jobId)
+
+  if (!job) {
+    return null
+  }
+
+  return {
+    id: job.id,
+    data: job.data,
+    progress: job.progress() as DecisionJobProgress | 0,
+    state: await job.getState(),
+    failedReason: job.failedReason,
+  }
+}
+
+// Whether a batch simulation of the decision is still queued or running; one whose
+// worker died has failed (or was never picked up) and no longer counts
+export async function hasActiveDecisionJob(decisionId: string): Promise<boolean> {
+  const jobs = await decisionQueue.getJobs(['waiting', 'active', 'delayed', 'paused'])
+  return jobs.some(job => job?.data.decisionId === decisionId)
+}
+
+export async function addAnalysisJob(data: AnalysisJobData) {
+  const job = await analysisQueue.add(data)
+
+  logger.info(`Added ${data.kind} analysis job ${job.id}`, {
+    decisionId: data.decision.id,
+    options: data.options.length,
+  })
+  return job
+}
+
+export async function getAnalysisJobStatus(jobId: string) {
+  const job = await analysisQueue.getJob(jobId)
+
+  if (!job) {
+    return null
+  }
+
+  return {
+    id: job.id,
+    data: job.data,
+    state: await job.getState(),
+    result: job.returnvalue,
+    failedReason: job.failedReason,
+  }
+}
+
+/**
+ * Cancel a simulation job from any process
+ *
+ * A job still waiting is removed from the queue. A running job stays locked
+ * by its worker, so the cancellation is published to every process: the
+ * worker running it aborts at its next checkpoint and event streams close.
+ * Returns whether the job was removed before it ran.
+ */
+export async function cancelSimulationJob(jobId: string): Promise<boolean> {
+  const job = await simulationQueue.getJob(jobId)
+  let removed = !job
+  if (job && ['waiting', 'delayed', 'paused'].includes(await job.getState())) {
+    // A worker may have taken it in the meantime; it is then aborted instead
+    removed = await job.remove().then(
+      () => true,
+      () => false
+    )
+  }
+
+  await simulationQueue.client.publish(CANCEL_CHANNEL, jobId)
+  logger.info(`Cancelled simulation job ${jobId}`, { removed })
+  return removed
+}
+
+/**
+ * Abort signal for a job, fired when it is cancelled from any process
+ *
+ * Resolves once subscribed, so a cancellation published afterwards is not
+ * missed. Call `release` when the job settles.
+ */
+export async function cancellationSignal(
+  jobId: JobId
+): Promise<{ signal: AbortSignal; release: () => void }> {
+  const controller = new AbortController()
+  const release = await onJobCancelled(cancelled => {
+    if (cancelled === String(jobId)) controller.abort()
+  })
+  return { signal: controller.signal, release }
+}
+
 export async function getJobStatus(jobId: string) {
   const job = await simulationQueue.getJob(jobId)
 
@@ -70,6 +274,76 @@ export async function getJobStatus(jobId: string) {
   }
 }
 
+/**
+ * Follow one job's progress, completion and failure from any process
+ *
+ * Bull publishes job events over Redis to every queue instance; one set of
+ * `global:` listeners dispatches them to the watchers of each job. Failed
+ * attempts that Bull will retry are flagged as such. Returns a function that
+ * stops watching.
+ */
+export function watchJob(jobId: string, watcher: JobWatcher): () => void {
+  relayJobEvents()
+  const watchers = jobWatchers.get(jobId) ?? new Set<JobWatcher>()
+  watchers.add(watcher)
+  jobWatchers.set(jobId, watchers)
+
+  return () => {
+    watchers.delete(watcher)
+    if (watchers.size === 0) jobWatchers.delete(jobId)
+  }
+}
+
+const jobWatchers = new Map<string, Set<JobWatcher>>()
+let relaying = false
+
+// Cancellations are published on their own channel; one subscriber per process
+const CANCEL_CHANNEL = 'simulations:cancel'
+const cancelHandlers = new Set<(jobId: string) => void>()
+let cancelSubscription: Promise<unknown> | undefined
+
+async function onJobCancelled(handler: (jobId: string) => void): Promise<() => void> {
+  if (!cancelSubscription) {
+    const subscriber = simulationQueue.client.duplicate()
+    subscriber.on('message', (_channel: string, jobId: string) => {
+      for (const cancelled of cancelHandlers) cancelled(jobId)
+    })
+    cancelSubscription = subscriber.subscribe(CANCEL_CHANNEL)
+  }
+  cancelHandlers.add(handler)
+  await cancelSubscription
+  return () => {
+    cancelHandlers.delete(handler)
+  }
+}
+
+async function countUserJobs(userId: string): Promise<number> {
+  const jobs = await simulationQueue.getJobs(['waiting', 'active', 'delayed', 'paused'])
+  return jobs.filter(job => job?.data.userId === userId).length
+}
+
+function relayJobEvents() {
+  if (relaying) return
+  relaying = true
+
+  const notify = (jobId: JobId, event: (watcher: JobWatcher) => void) => {
+    for (const watcher of jobWatchers.get(String(jobId)) ?? []) event(watcher)
+  }
+  simulationQueue.on('global:progress', (jobId: JobId, progress: SimulationProgressUpdate) =>
+    notify(jobId, watcher => watcher.onProgress(progress))
+  )
+  simulationQueue.on('global:completed', (jobId: JobId) =>
+    notify(jobId, watcher => watcher.onCompleted())
+  )
+  simulationQueue.on('global:failed', async (jobId: JobId, reason: string) => {
+    if (!jobWatchers.has(String(jobId))) return
+    const job = await simulationQueue.getJob(jobId)
+    const retrying = job ? job.attemptsMade < (job.opts.attempts ?? 1) : false
+    notify(jobId, watcher => watcher.onFailed(reason, retrying))
+  })
+  onJobCancelled(jobId => notify(jobId, watcher => watcher.onCancelled()))
+}
+
 export async function getQueueStats() {
   const [waiting, active, completed, failed] = await Promise.all([
     simulationQueue.getWaitingCount(),
@@ -1,9 +1,11 @@
+import { pipeline } from 'node:stream/promises'
 import { Router } from 'express'
 import { z } from 'zod'
 import { prisma } from '../data/database.js'
 import { addSimulationJob } from '../jobs/queue.js'
 import { authenticate } from '../middleware/auth.middleware.js'
 import { createError } from '../middleware/errorHandler.js'
+import { EXPORT_FORMATS, exportSimulation } from '../services/export/index.js'
 
 export const simulationRouter = Router()
 
@@ -154,8 +156,14 @@ simulationRouter.get('/', async (req, res, next) => {
 })
 
 // Export simulation results
+const exportSchema = z.object({
+  format: z.enum(EXPORT_FORMATS).default('csv'),
+})
+
 simulationRouter.post('/:id/export', async (req, res, next) => {
   try {
+    const { format } = exportSchema.parse({ ...req.query, ...req.body })
+
     const simulation = await prisma.simulation.findFirst({
       where: {
         id: req.params.id,
@@ -174,17 +182,23 @@ simulationRouter.post('/:id/export', async (req, res, next) => {
       return next(createError('Simulation not found or not completed', 404))
     }
 
-    // TODO: Implement actual export logic (PDF, CSV, etc.)
-    res.json({
-      message: 'Export functionality coming soon',
-      simulation: {
+    const exported = exportSimulation(
+      {
         id: simulation.id,
         decisionTitle: simulation.decision.title,
         optionTitle: simulation.option.title,
         results: simulation.results,
       },
-    })
+      format
+    )
+    res.setHeader('Content-Type', exported.contentType)
+    res.setHeader('Content-Disposition', `attachment; filename="${exported.filename}"`)
+    await pipeline(exported.stream, res)
   } catch (error) {
+    if (res.headersSent) {
+      res.destroy(error as Error)
+      return
+    }
     next(error)
   }
 })
@@ -1,6 +1,15 @@
+import type { Request } from 'express'
 import { Router } from 'express'
 import { z } from 'zod'
 import { supabase } from '../config/supabase.js'
+import { AuditService } from '../domain/audit/audit.service.js'
+import { DecisionLifecycle, type DecisionStatus } from '../domain/decisions/decision-lifecycle.js'
+import {
+  addDecisionJob,
+  assertUserCapacity,
+  getDecisionJobStatus,
+  hasActiveDecisionJob,
+} from '../jobs/queue.js'
 import { createError } from '../middleware/errorHandler.js'
 import { authenticateSupabase } from '../middleware/supabase-auth.middleware.js'
 
@@ -55,6 +64,18 @@ decisionRouter.get('/', async (req, res, next) => {
   }
 })
 
+// A decision compares at least this many options
+const MIN_OPTIONS = 2
+
+// Option schema; parameters are free-form per decision type
+const optionSchema = z.object({
+  title: z.string().min(1).max(200),
+  description: z.string().max(2000).optional(),
+  parameters: z.record(z.unknown()).optional(),
+  pros: z.array(z.string()).optional(),
+  cons: z.array(z.string()).optional(),
+})
+
 // Create decision schema
 const createDecisionSchema = z.object({
   type: z.enum([
@@ -71,19 +92,9 @@ const createDecisionSchema = z.object({
   title: z.string().min(1).max(200),
   description: z.string().max(2000).optional(),
   decisionDeadline: z.string().datetime().optional(),
-  parameters: z.object({}).optional(),
-  constraints: z.array(z.object({})).optional(),
-  options: z
-    .array(
-      z.object({
-        title: z.string().min(1).max(200),
-        description: z.string().max(2000).optional(),
-        parameters: z.object({}).optional(),
-        pros: z.array(z.string()).optional(),
-        cons: z.array(z.string()).optional(),
-      })
-    )
-    .min(2),
+  parameters: z.record(z.unknown()).optional(),
+  constraints: z.array(z.record(z.unknown())).optional(),
+  options: z.array(optionSchema).min(MIN_OPTIONS),
 })
 
 // Create new decision
@@ -125,6 +136,13 @@ decisionRouter.post('/', async (req, res, next) => {
 
     if (optionsError) throw optionsError
 
+    await AuditService.record(req, {
+      action: 'INSERT',
+      tableName: 'decisions',
+      recordId: decision.id,
+      newData: { ...decision, decision_options: options },
+    })
+
     res.status(201).json({
       ...decision,
       decision_options: options,
@@ -151,6 +169,7 @@ decisionRouter.get('/:id', async (req, res, next) => {
           status,
           created_at,
           completed_at,
+          invalidated_at,
           aggregate_metrics
         )
       `)
@@ -176,12 +195,19 @@ decisionRouter.get('/:id', async (req, res, next) => {
 })
 
 // Update decision
+//
+// Status changes go through the decision lifecycle: `decided` needs a
+// finalChoice among the decision's options, reopening a decided decision
+// clears it, and an archived decision only changes by being restored.
 const updateDecisionSchema = z.object({
   title: z.string().min(1).max(200).optional(),
   description: z.string().max(2000).optional(),
   status: z
     .enum(['draft', 'analyzing', 'simulated', 'decided', 'implemented', 'archived'])
     .optional(),
+  finalChoice: z.string().uuid().nullable().optional(),
+  parameters: z.record(z.unknown()).optional(),
+  constraints: z.array(z.record(z.unknown())).optional(),
   decisionDeadline: z.string().datetime().optional(),
   implementedAt: z.string().datetime().optional(),
 })
@@ -189,34 +215,82 @@ const updateDecisionSchema = z.object({
 decisionRouter.put('/:id', async (req, res, next) => {
   try {
     const data = updateDecisionSchema.parse(req.body)
+    const current = await findDecision(req, req.params.id)
+    if (!current) {
+      return next(createError('Decision not found', 404))
+    }
+
+    const { status: _status, finalChoice: _finalChoice, ...details } = data
+    const status = data.status ?? current.status
+    if (
+      current.status === 'archived' &&
+      (status === 'archived' || Object.keys(details).length > 0)
+    ) {
+      return next(
+        createError('Archived decisions are read-only; restore one as a draft first', 409)
+      )
+    }
 
-    const updateData: any = { ...data }
-    if (data.decisionDeadline) {
-      updateData.decision_deadline = data.decisionDeadline
-      delete updateData.decisionDeadline
+    // Reopening drops the choice; otherwise a new one replaces the old
+    const finalChoice =
+      status === 'draft'
+        ? null
+        : data.finalChoice !== undefined
+          ? data.finalChoice
+          : current.final_choice
+    if (status !== current.status) {
+      DecisionLifecycle.assertTransition(
+        current.status,
+        status,
+        finalChoice,
+        current.status === 'analyzing' && (await hasActiveDecisionJob(current.id))
+      )
+    } else if (status === 'decided' && !finalChoice) {
+      return next(createError('A decided decision needs a finalChoice', 400))
     }
-    if (data.implementedAt) {
-      updateData.implemented_at = data.implementedAt
-      delete updateData.implementedAt
+    if (data.finalChoice) {
+      if (status !== 'decided') {
+        return next(createError('finalChoice can only be set on a decided decision', 409))
+      }
+      if (!current.decision_options.some(option => option.id === data.finalChoice)) {
+        return next(createError('finalChoice must be one of the decision options', 400))
+      }
+    }
+
+    const updateData: Record<string, unknown> = {
+      title: data.title,
+      description: data.description,
+      parameters: data.parameters,
+      constraints: data.constraints,
+      decision_deadline: data.decisionDeadline,
+      implemented_at:
+        data.implementedAt ??
+        (status === 'implemented' && current.status !== 'implemented'
+          ? new Date().toISOString()
+          : undefined),
+      status,
+      final_choice: finalChoice,
     }
 
     const { data: decision, error } = await supabase
       .from('decisions')
       .update(updateData)
-      .eq('id', req.params.id)
-      .eq('user_id', req.user?.userId)
+      .eq('id', current.id)
       .select(`
         *,
         decision_options (*)
       `)
       .single()
 
-    if (error) {
-      if (error.code === 'PGRST116') {
-        return next(createError('Decision not found', 404))
-      }
-      throw error
-    }
+    if (error) throw error
+
+    await AuditService.record(req, {
+      action: status !== current.status ? 'STATUS_CHANGE' : 'UPDATE',
+      tableName: 'decisions',
+      recordId: current.id,
+      oldData: current,
+      newData: decision,
+    })
 
     res.json(decision)
   } catch (error) {
@@ -224,14 +298,149 @@ decisionRouter.put('/:id', async (req, res, next) => {
   }
 })
 
-// Delete decision
-decisionRouter.delete('/:id', async (req, res, next) => {
+// Add an option
+decisionRouter.post('/:id/options', async (req, res, next) => {
   try {
-    const { error } = await supabase
+    const data = optionSchema.parse(req.body)
+    const decision = await findDecision(req, req.params.id)
+    if (!decision) {
+      return next(createError('Decision not found', 404))
+    }
+    DecisionLifecycle.assertOptionsEditable(decision.status)
+
+    const { data: option, error } = await supabase
+      .from('decision_options')
+      .insert({
+        decision_id: decision.id,
+        title: data.title,
+        description: data.description,
+        parameters: data.parameters || {},
+        pros: data.pros || [],
+        cons: data.cons || [],
+      })
+      .select()
+      .single()
+
+    if (error) throw error
+
+    await AuditService.record(req, {
+      action: 'INSERT',
+      tableName: 'decision_options',
+      recordId: option.id,
+      newData: option,
+    })
+    // The decision's ranking does not cover the new option
+    await invalidateSimulations(req, decision)
+
+    res.status(201).json(option)
+  } catch (error) {
+    next(error)
+  }
+})
+
+// Edit an option; changed parameters invalidate its earlier simulations
+decisionRouter.put('/:id/options/:optionId', async (req, res, next) => {
+  try {
+    const data = optionSchema.partial().parse(req.body)
+    const decision = await findDecision(req, req.params.id)
+    if (!decision) {
+      return next(createError('Decision not found', 404))
+    }
+    DecisionLifecycle.assertOptionsEditable(decision.status)
+
+    const current = decision.decision_options.find(option => option.id === req.params.optionId)
+    if (!current) {
+      return next(createError('Option not found', 404))
+    }
+
+    const { data: option, error } = await supabase
+      .from('decision_options')
+      .update(data)
+      .eq('id', current.id)
+      .select()
+      .single()
+
+    if (error) throw error
+
+    await AuditService.record(req, {
+      action: 'UPDATE',
+      tableName: 'decision_options',
+      recordId: current.id,
+      oldData: current,
+      newData: option,
+    })
+    if (
+      data.parameters !== undefined &&
+      JSON.stringify(data.parameters) !== JSON.stringify(current.parameters)
+    ) {
+      await invalidateSimulations(req, decision, current.id)
+    }
+
+    res.json(option)
+  } catch (error) {
+    next(error)
+  }
+})
+
+// Remove an option along with its simulations
+decisionRouter.delete('/:id/options/:optionId', async (req, res, next) => {
+  try {
+    const decision = await findDecision(req, req.params.id)
+    if (!decision) {
+      return next(createError('Decision not found', 404))
+    }
+    DecisionLifecycle.assertOptionsEditable(decision.status)
+
+    const current = decision.decision_options.find(option => option.id === req.params.optionId)
+    if (!current) {
+      return next(createError('Option not found', 404))
+    }
+    if (decision.decision_options.length <= MIN_OPTIONS) {
+      return next(createError(`A decision needs at least ${MIN_OPTIONS} options`, 409))
+    }
+
+    const { error } = await supabase.from('decision_options').delete().eq('id', current.id)
+
+    if (error) throw error
+
+    await AuditService.record(req, {
+      action: 'DELETE',
+      tableName: 'decision_options',
+      recordId: current.id,
+      oldData: current,
+    })
+    await invalidateSimulations(req, decision)
+
+    res.json({ message: 'Option deleted successfully' })
+  } catch (error) {
+    next(error)
+  }
+})
+
+// Simulate every option of a decision
+//
+// Creates one simulation per option and queues a batch job that runs them on
+// a shared seed as the user's queue capacity allows. Once all have settled it
+// ranks the options into the decision's simulation_summary and moves the
+// decision from `analyzing` to `simulated`.
+decisionRouter.post('/:id/simulate', async (req, res, next) => {
+  try {
+    if (!req.user?.userId) {
+      return res.status(401).json({ message: 'User not authenticated' })
+    }
+
+    const { data: decision, error } = await supabase
       .from('decisions')
-      .delete()
+      .select(`
+        id,
+        status,
+        decision_options (
+          id
+        )
+      `)
       .eq('id', req.params.id)
-      .eq('user_id', req.user?.userId)
+      .eq('user_id', req.user.userId)
+      .single()
 
     if (error) {
       if (error.code === 'PGRST116') {
@@ -240,8 +449,173 @@ decisionRouter.delete('/:id', async (req, res, next) => {
       throw error
     }
 
+    DecisionLifecycle.assertCanSimulate(
+      decision.status,
+      decision.status === 'analyzing' && (await hasActiveDecisionJob(decision.id))
+    )
+    if (decision.decision_options.length === 0) {
+      return next(createError('Decision has no options to simulate', 400))
+    }
+
+    // The batch queues the remaining runs as earlier ones finish
+    await assertUserCapacity(req.user.userId)
+
+    const { data: simulations, error: simulationError } = await supabase
+      .from('simulations')
+      .insert(
+        decision.decision_options.map((option: { id: string }) => ({
+          decision_id: decision.id,
+          option_id: option.id,
+          status: 'pending',
+        }))
+      )
+      .select('id, option_id')
+
+    if (simulationError) throw simulationError
+
+    await supabase.from('decisions').update({ status: 'analyzing' }).eq('id', decision.id)
+    await AuditService.record(req, {
+      action: 'STATUS_CHANGE',
+      tableName: 'decisions',
+      recordId: decision.id,
+      oldData: { status: decision.status },
+      newData: { status: 'analyzing' },
+    })
+
+    const job = await addDecisionJob({
+      decisionId: decision.id,
+      userId: req.user.userId,
+      // Same seed for the same decision, like option comparisons
+      seed: `decision-${decision.id}`,
+      runs: simulations.map(simulation => ({
+        simulationId: simulation.id,
+        optionId: simulation.option_id,
+      })),
+      // A decision left analyzing by a lost batch job falls back to a draft
+      previousStatus: decision.status === 'analyzing' ? 'draft' : decision.status,
+    })
+
+    res.status(202).json({
+      decisionId: decision.id,
+      jobId: job.id,
+      status: 'analyzing',
+      simulations: simulations.map(simulation => ({
+        id: simulation.id,
+        optionId: simulation.option_id,
+      })),
+      message: 'Options queued for simulation; the ranking is in simulation_summary once simulated',
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+// Aggregate progress of a decision's batch simulation
+decisionRouter.get('/:id/simulate/:jobId', async (req, res, next) => {
+  try {
+    const status = await getDecisionJobStatus(req.params.jobId)
+
+    if (
+      !status ||
+      status.data.decisionId !== req.params.id ||
+      status.data.userId !== req.user?.userId
+    ) {
+      return next(createError('Batch simulation not found', 404))
+    }
+
+    res.json({
+      id: status.id,
+      decisionId: status.data.decisionId,
+      state: status.state,
+      progress: status.progress || { step: 'Queued', percentage: 0, runs: [] },
+      error: status.failedReason,
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+// Delete decision
+decisionRouter.delete('/:id', async (req, res, next) => {
+  try {
+    const decision = await findDecision(req, req.params.id)
+    if (!decision) {
+      return next(createError('Decision not found', 404))
+    }
+    // The batch job would write its ranking to a missing decision
+    DecisionLifecycle.assertDeletable(
+      decision.status,
+      decision.status === 'analyzing' && (await hasActiveDecisionJob(decision.id))
+    )
+
+    const { error } = await supabase.from('decisions').delete().eq('id', decision.id)
+
+    if (error) throw error
+
+    await AuditService.record(req, {
+      action: 'DELETE',
+      tableName: 'decisions',
+      recordId: decision.id,
+      oldData: decision,
+    })
+
     res.json({ message: 'Decision deleted successfully' })
   } catch (error) {
     next(error)
   }
 })
+
+// The user's decision with its options, or null
+async function findDecision(req: Request, id: string): Promise<DecisionRow | null> {
+  const { data, error } = await supabase
+    .from('decisions')
+    .select(`
+      *,
+      decision_options (*)
+    `)
+    .eq('id', id)
+    .eq('user_id', req.user?.userId)
+    .single()
+
+  if (error) {
+    if (error.code === 'PGRST116') return null
+    throw error
+  }
+  return data
+}
+
+// Earlier simulations of a changed option no longer describe it, and the
+// decision's ranking no longer covers its options: a simulated decision
+// goes back to draft until it is simulated again
+async function invalidateSimulations(req: Request, decision: DecisionRow, optionId?: string) {
+  if (optionId) {
+    await supabase
+      .from('simulations')
+      .update({ invalidated_at: new Date().toISOString() })
+      .eq('option_id', optionId)
+      .is('invalidated_at', null)
+  }
+
+  const status: DecisionStatus = decision.status === 'simulated' ? 'draft' : decision.status
+  await supabase
+    .from('decisions')
+    .update({ status, simulation_summary: null })
+    .eq('id', decision.id)
+
+  if (status !== decision.status) {
+    await AuditService.record(req, {
+      action: 'STATUS_CHANGE',
+      tableName: 'decisions',
+      recordId: decision.id,
+      oldData: { status: decision.status },
+      newData: { status, reason: 'options changed' },
+    })
+  }
+}
+
+interface DecisionRow {
+  id: string
+  status: DecisionStatus
+  final_choice: string | null
+  decision_options: Array<{ id: string; parameters: Record<string, unknown> | null }>
+}
@@ -1,9 +1,20 @@
-import { Router } from 'express'
+import { pipeline } from 'node:stream/promises'
+import type { Decision, DecisionOption, Demographics, UserProfile } from '@theguide/models'
+import { type RequestHandler, Router } from 'express'
 import { z } from 'zod'
 import { supabase } from '../config/supabase.js'
-import { addSimulationJob } from '../jobs/queue.js'
+import {
+  type AnalysisJobData,
+  addAnalysisJob,
+  addSimulationJob,
+  assertUserCapacity,
+  cancelSimulationJob,
+  getAnalysisJobStatus,
+  watchJob,
+} from '../jobs/queue.js'
 import { createError } from '../middleware/errorHandler.js'
 import { authenticateSupabase } from '../middleware/supabase-auth.middleware.js'
+import { EXPORT_FORMATS, exportSimulation } from '../services/export/index.js'
 
 export const simulationRouter = Router()
 
@@ -14,11 +25,21 @@ simulationRouter.use(authenticateSupabase)
 const runSimulationSchema = z.object({
   decisionId: z.string().uuid(),
   optionId: z.string().uuid(),
+  // Run until confidence intervals are this narrow instead of a fixed scenario count
+  precision: z
+    .object({
+      tolerance: z.number().positive().max(1),
+      confidence: z.union([z.literal(0.9), z.literal(0.95), z.literal(0.99)]).optional(),
+      timeBudgetMs: z.number().int().positive().max(600000).optional(),
+      initialScenarios: z.number().int().min(2).max(65536).optional(),
+      maxScenarios: z.number().int().min(2).max(65536).optional(),
+    })
+    .optional(),
 })
 
 simulationRouter.post('/run', async (req, res, next) => {
   try {
-    const { decisionId, optionId } = runSimulationSchema.parse(req.body)
+    const { decisionId, optionId, precision } = runSimulationSchema.parse(req.body)
 
     if (!req.user?.userId) {
       return res.status(401).json({ message: 'User not authenticated' })
@@ -48,6 +69,8 @@ simulationRouter.post('/run', async (req, res, next) => {
       return next(createError('Option not found', 404))
     }
 
+    await assertUserCapacity(req.user.userId)
+
     // Create simulation record
     const { data: simulation, error: simulationError } = await supabase
       .from('simulations')
@@ -67,6 +90,7 @@ simulationRouter.post('/run', async (req, res, next) => {
       decisionId,
       optionId,
       userId: req.user.userId,
+      precision,
     })
 
     // Update simulation with job ID
@@ -83,6 +107,224 @@ simulationRouter.post('/run', async (req, res, next) => {
   }
 })
 
+// Compare options on common random numbers
+//
+// The comparison runs in a worker; poll GET /compare/:jobId for the result.
+const compareOptionsSchema = z.object({
+  decisionId: z.string().uuid(),
+  optionIds: z.array(z.string().uuid()).min(2).optional(),
+  scenarios: z.number().int().min(50).max(2000).optional(),
+  horizon: z.number().int().min(1).max(10).optional(),
+})
+
+simulationRouter.post('/compare', async (req, res, next) => {
+  try {
+    const { decisionId, optionIds, scenarios, horizon } = compareOptionsSchema.parse(req.body)
+
+    if (!req.user?.userId) {
+      return res.status(401).json({ message: 'User not authenticated' })
+    }
+
+    const { data: decision, error: decisionError } = await supabase
+      .from('decisions')
+      .select(`
+        *,
+        decision_options (*)
+      `)
+      .eq('id', decisionId)
+      .eq('user_id', req.user.userId)
+      .single()
+
+    if (decisionError || !decision) {
+      return next(createError('Decision not found', 404))
+    }
+
+    const options: DecisionOptionRow[] = decision.decision_options.filter(
+      (option: DecisionOptionRow) => !optionIds || optionIds.includes(option.id)
+    )
+    if (options.length < 2 || (optionIds && options.length !== optionIds.length)) {
+      return next(createError('At least two options of this decision are required', 400))
+    }
+
+    const { data: profile } = await supabase
+      .from('user_profiles')
+      .select('*')
+      .eq('id', req.user.userId)
+      .single()
+
+    const job = await addAnalysisJob({
+      kind: 'compare',
+      userId: req.user.userId,
+      // Same seed for the same decision so repeated comparisons are reproducible
+      seed: `compare-${decisionId}`,
+      decision: toDecision(decision),
+      options: options.map(toDecisionOption),
+      userProfile: profile ? toUserProfile(profile) : {},
+      scenarios,
+      horizon,
+    })
+
+    res.status(202).json({
+      jobId: job.id,
+      status: 'queued',
+      message: 'Comparison queued; poll its job for the result',
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+// Status of one of the user's analysis jobs of the given kind, with its result once completed
+function analysisJobStatus(kind: AnalysisJobData['kind'], notFound: string): RequestHandler {
+  return async (req, res, next) => {
+    try {
+      const status = await getAnalysisJobStatus(req.params.jobId)
+
+      if (status?.data.kind !== kind || status.data.userId !== req.user?.userId) {
+        return next(createError(notFound, 404))
+      }
+
+      res.json({
+        id: status.id,
+        decisionId: status.data.decision.id,
+        state: status.state,
+        result: status.state === 'completed' ? status.result : undefined,
+        error: status.failedReason,
+      })
+    } catch (error) {
+      next(error)
+    }
+  }
+}
+
+simulationRouter.get('/compare/:jobId', analysisJobStatus('compare', 'Comparison not found'))
+
+// Rank missing profile answers by how much they could change the recommendation
+const questionsSchema = z
+  .object({
+    decisionId: z.string().uuid().optional(),
+    // Onboarding has no decision yet, only the kind the user is facing
+    decisionType: z
+      .enum([
+        'career_change',
+        'job_offer',
+        'relocation',
+        'education',
+        'home_purchase',
+        'investment',
+        'family_planning',
+        'retirement',
+        'business_startup',
+      ])
+      .optional(),
+    optionIds: z.array(z.string().uuid()).min(1).optional(),
+    scenarios: z.number().int().min(20).max(500).optional(),
+    // Answers the user gave only as rough estimates
+    estimatedFields: z
+      .array(
+        z.enum([
+          'career.salary',
+          'financial.monthlyExpenses',
+          'financial.assets',
+          'financial.liabilities',
+        ])
+      )
+      .optional(),
+  })
+  .refine(body => body.decisionId || body.decisionType, {
+    message: 'Either decisionId or decisionType is required',
+  })
+
+simulationRouter.post('/questions', async (req, res, next) => {
+  try {
+    const { decisionId, decisionType, optionIds, scenarios, estimatedFields } =
+      questionsSchema.parse(req.body)
+
+    if (!req.user?.userId) {
+      return res.status(401).json({ message: 'User not authenticated' })
+    }
+
+    let decision: Decision
+    let options: DecisionOption[]
+    if (decisionId) {
+      const { data: row, error: decisionError } = await supabase
+        .from('decisions')
+        .select(`
+          *,
+          decision_options (*)
+        `)
+        .eq('id', decisionId)
+        .eq('user_id', req.user.userId)
+        .single()
+
+      if (decisionError || !row) {
+        return next(createError('Decision not found', 404))
+      }
+
+      const rows: DecisionOptionRow[] = row.decision_options.filter(
+        (option: DecisionOptionRow) => !optionIds || optionIds.includes(option.id)
+      )
+      if (rows.length === 0 || (optionIds && rows.length !== optionIds.length)) {
+        return next(createError('At least one option of this decision is required', 400))
+      }
+
+      decision = toDecision(row)
+      options = rows.map(toDecisionOption)
+    } else {
+      // Before a decision exists the only path to score is carrying on as things are
+      const now = new Date()
+      options = [
+        toDecisionOption({
+          id: 'current',
+          title: 'Current path',
+          description: null,
+          parameters: null,
+          pros: null,
+          cons: null,
+        }),
+      ]
+      decision = {
+        id: 'onboarding',
+        userId: req.user.userId,
+        type: decisionType,
+        title: 'Onboarding',
+        description: '',
+        status: 'draft',
+        options,
+        constraints: [],
+        timeline: { createdAt: now, decisionDeadline: now, implementationDate: now },
+      } as Decision
+    }
+
+    const { data: profile } = await supabase
+      .from('user_profiles')
+      .select('*')
+      .eq('id', req.user.userId)
+      .single()
+
+    const job = await addAnalysisJob({
+      kind: 'questions',
+      userId: req.user.userId,
+      seed: `questions-${decisionId ?? req.user.userId}`,
+      decision,
+      options,
+      userProfile: profile ? toUserProfile(profile) : {},
+      scenarios,
+      estimatedFields,
+    })
+
+    res.status(202).json({
+      jobId: job.id,
+      status: 'queued',
+      message: 'Questions queued; poll their job for the ranking',
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+simulationRouter.get('/questions/:jobId', analysisJobStatus('questions', 'Questions not found'))
+
 // Get simulation by ID
 simulationRouter.get('/:id', async (req, res, next) => {
   try {
@@ -136,6 +378,205 @@ simulationRouter.get('/:id', async (req, res, next) => {
   }
 })
 
+// Comment frames keep proxies from closing an idle event stream
+const HEARTBEAT_INTERVAL_MS = 15000
+// How often to look for the job of a batch run that is not queued yet
+const JOB_POLL_INTERVAL_MS = 2000
+
+// Stream simulation progress as Server-Sent Events
+//
+// Sends `progress` events ({ step, percentage, partial? }) while the job runs,
+// then one `completed` ({ id, aggregateMetrics }), `failed` ({ error }) or
+// `cancelled` ({ id }) event and closes. The stored state is sent first, so late subscribers catch up.
+// A batch run without a job yet is polled until it is queued.
+simulationRouter.get('/:id/events', async (req, res, next) => {
+  try {
+    const { data: simulation, error } = await supabase
+      .from('simulations')
+      .select(`
+        id,
+        status,
+        progress,
+        job_id,
+        metadata,
+        results,
+        decisions!inner (
+          user_id
+        )
+      `)
+      .eq('id', req.params.id)
+      .eq('decisions.user_id', req.user?.userId)
+      .single()
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        return next(createError('Simulation not found', 404))
+      }
+      throw error
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    })
+
+    let closed = false
+    let unwatch = () => {}
+    const send = (event: string, data: unknown) => {
+      if (closed) return
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+      // Compression buffers the body otherwise
+      res.flush()
+    }
+    const heartbeat = setInterval(() => {
+      res.write(': keep-alive\n\n')
+      res.flush()
+    }, HEARTBEAT_INTERVAL_MS)
+    const close = () => {
+      if (closed) return
+      closed = true
+      clearInterval(heartbeat)
+      unwatch()
+      res.end()
+    }
+    req.on('close', close)
+
+    const sendCompleted = (results: typeof simulation.results) => {
+      send('completed', { id: simulation.id, aggregateMetrics: results?.aggregateMetrics })
+      close()
+    }
+    const sendCancelled = () => {
+      send('cancelled', { id: simulation.id })
+      close()
+    }
+    const sendFailed = (message: string) => {
+      send('failed', { id: simulation.id, error: message })
+      close()
+    }
+
+    type SimulationState = Pick<
+      typeof simulation,
+      'status' | 'progress' | 'job_id' | 'metadata' | 'results'
+    >
+
+    // Sends the final event if the stored state has settled
+    const sendSettled = (state: SimulationState) => {
+      if (state.status === 'completed') sendCompleted(state.results)
+      else if (state.status === 'failed') sendFailed('Simulation failed')
+      else if (state.status === 'cancelled') sendCancelled()
+      else return false
+      return true
+    }
+    const readState = async () => {
+      const { data } = await supabase
+        .from('simulations')
+        .select('status, progress, job_id, metadata, results')
+        .eq('id', simulation.id)
+        .single()
+      return data
+    }
+    const sendSnapshot = (state: SimulationState) =>
+      send('progress', {
+        step: state.metadata?.currentStage ?? 'Queued',
+        percentage: state.progress ?? 0,
+      })
+
+    if (sendSettled(simulation)) return
+
+    // Batch runs are queued as the user's capacity frees up, so the job may not exist yet
+    let state: SimulationState = simulation
+    if (!state.job_id) sendSnapshot(state)
+    while (!state.job_id) {
+      await new Promise(resolve => setTimeout(resolve, JOB_POLL_INTERVAL_MS))
+      if (closed) return
+      const next = await readState()
+      if (!next) return sendFailed('Simulation not found')
+      if (sendSettled(next)) return
+      state = next
+    }
+
+    if (closed) return
+
+    // Subscribe, then re-read the stored state, so no update falls in between
+    unwatch = watchJob(state.job_id, {
+      onProgress: progress => send('progress', progress),
+      onCompleted: async () => {
+        // The worker stores the results, or the cancellation, before the job completes
+        const completed = await readState()
+        if (completed?.status === 'cancelled') sendCancelled()
+        else sendCompleted(completed?.results)
+      },
+      onFailed: (reason, retrying) => {
+        if (retrying) send('progress', { step: 'Retrying simulation', percentage: 0 })
+        else sendFailed(reason)
+      },
+      onCancelled: sendCancelled,
+    })
+    const latest = await readState()
+    if (!latest) return sendFailed('Simulation not found')
+    if (sendSettled(latest)) return
+    sendSnapshot(latest)
+  } catch (error) {
+    if (res.headersSent) {
+      res.destroy(error as Error)
+      return
+    }
+    next(error)
+  }
+})
+
+// Cancel a queued or running simulation
+//
+// A queued run is removed from the queue (200); a running one stops at its
+// next checkpoint (202). Either way the simulation ends as `cancelled`.
+simulationRouter.delete('/:id', async (req, res, next) => {
+  try {
+    const { data: simulation, error } = await supabase
+      .from('simulations')
+      .select(`
+        id,
+        status,
+        job_id,
+        decisions!inner (
+          user_id
+        )
+      `)
+      .eq('id', req.params.id)
+      .eq('decisions.user_id', req.user?.userId)
+      .single()
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        return next(createError('Simulation not found', 404))
+      }
+      throw error
+    }
+
+    if (simulation.status !== 'pending' && simulation.status !== 'running') {
+      return next(createError(`Simulation is already ${simulation.status}`, 409))
+    }
+
+    // Mark it before cancelling the job: a worker that takes the job in the
+    // meantime checks the status once it listens for cancellations
+    await supabase
+      .from('simulations')
+      .update({ status: 'cancelled', completed_at: new Date().toISOString() })
+      .eq('id', simulation.id)
+
+    const removed = simulation.job_id ? await cancelSimulationJob(simulation.job_id) : true
+
+    res.status(removed ? 200 : 202).json({
+      id: simulation.id,
+      status: 'cancelled',
+      message: removed ? 'Simulation removed from the queue' : 'Simulation is stopping',
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
 // Get simulation history
 simulationRouter.get('/', async (req, res, next) => {
   try {
@@ -208,9 +649,86 @@ simulationRouter.get('/', async (req, res, next) => {
   }
 })
 
+// Replay a completed simulation from its manifest and verify the metrics reproduce
+simulationRouter.post('/:id/replay', async (req, res, next) => {
+  try {
+    if (!req.user?.userId) {
+      return res.status(401).json({ message: 'User not authenticated' })
+    }
+
+    const { data: original, error } = await supabase
+      .from('simulations')
+      .select(`
+        id,
+        decision_id,
+        option_id,
+        manifest,
+        decisions!inner (
+          user_id
+        )
+      `)
+      .eq('id', req.params.id)
+      .eq('status', 'completed')
+      .eq('decisions.user_id', req.user.userId)
+      .single()
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        return next(createError('Simulation not found or not completed', 404))
+      }
+      throw error
+    }
+
+    if (!original.manifest) {
+      return next(createError('Simulation has no reproducibility manifest', 409))
+    }
+
+    await assertUserCapacity(req.user.userId)
+
+    const { data: simulation, error: simulationError } = await supabase
+      .from('simulations')
+      .insert({
+        decision_id: original.decision_id,
+        option_id: original.option_id,
+        status: 'pending',
+        replay_of: original.id,
+      })
+      .select()
+      .single()
+
+    if (simulationError) throw simulationError
+
+    const job = await addSimulationJob({
+      simulationId: simulation.id,
+      decisionId: original.decision_id,
+      optionId: original.option_id,
+      userId: req.user.userId,
+      replayOf: original.id,
+    })
+
+    await supabase.from('simulations').update({ job_id: job.id.toString() }).eq('id', simulation.id)
+
+    res.status(202).json({
+      id: simulation.id,
+      jobId: job.id,
+      status: 'pending',
+      replayOf: original.id,
+      message: 'Replay queued; the verification is in metadata.replay once completed',
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
 // Export simulation results
+const exportSchema = z.object({
+  format: z.enum(EXPORT_FORMATS).default('csv'),
+})
+
 simulationRouter.post('/:id/export', async (req, res, next) => {
   try {
+    const { format } = exportSchema.parse({ ...req.query, ...req.body })
+
     const { data: simulation, error } = await supabase
       .from('simulations')
       .select(`
@@ -237,17 +755,122 @@ simulationRouter.post('/:id/export', async (req, res, next) => {
       throw error
     }
 
-    // TODO: Implement actual export logic (PDF, CSV, etc.)
-    res.json({
-      message: 'Export functionality coming soon',
-      simulation: {
+    const exported = exportSimulation(
+      {
         id: simulation.id,
         decisionTitle: simulation.decisions.title,
         optionTitle: simulation.decision_options.title,
         results: simulation.results,
       },
-    })
+      format
+    )
+    res.setHeader('Content-Type', exported.contentType)
+    res.setHeader('Content-Disposition', `attachment; filename="${exported.filename}"`)
+    await pipeline(exported.stream, res)
   } catch (error) {
+    if (res.headersSent) {
+      res.destroy(error as Error)
+      return
+    }
     next(error)
   }
 })
+
+function toDecision(row: DecisionRow): Decision {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    type: row.type,
+    title: row.title,
+    description: row.description ?? '',
+    status: row.status,
+    options: [],
+    constraints: row.constraints ?? [],
+    timeline: {
+      createdAt: new Date(row.created_at),
+      decisionDeadline: new Date(row.decision_deadline ?? row.created_at),
+      implementationDate: new Date(row.implemented_at ?? row.created_at),
+    },
+  } as Decision
+}
+
+function toDecisionOption(row: DecisionOptionRow): DecisionOption {
+  return {
+    id: row.id,
+    title: row.title,
+    description: row.description ?? '',
+    parameters: row.parameters ?? {},
+    pros: row.pros ?? [],
+    cons: row.cons ?? [],
+  } as DecisionOption
+}
+
+// Map a user_profiles row onto the engine's profile shape; missing fields are enriched later
+function toUserProfile(row: UserProfileRow): Partial<UserProfile> {
+  return {
+    demographics: {
+      age: row.age ?? undefined,
+      location: {
+        city: row.city ?? '',
+        state: row.state ?? '',
+        country: row.country ?? '',
+        zipCode: row.zip_code ?? '',
+        coordinates: { lat: 0, lng: 0 },
+      },
+      maritalStatus: row.marital_status ?? undefined,
+      dependents: row.dependents ?? 0,
+      dependentAges: row.dependent_ages ?? undefined,
+      partnerIncome: row.partner_income ?? undefined,
+    } as Demographics,
+    career: {
+      currentRole: row.current_job_role ?? undefined,
+      industry: row.industry ?? undefined,
+      company: row.company ?? undefined,
+      yearsExperience: row.years_experience ?? undefined,
+      salary: row.salary ?? undefined,
+    } as UserProfile['career'],
+    ...(row.financial_data && Object.keys(row.financial_data).length > 0
+      ? { financial: row.financial_data as unknown as UserProfile['financial'] }
+      : {}),
+  }
+}
+
+interface DecisionRow {
+  id: string
+  user_id: string
+  type: Decision['type']
+  title: string
+  description: string | null
+  status: Decision['status']
+  constraints: Decision['constraints'] | null
+  created_at: string
+  decision_deadline: string | null
+  implemented_at: string | null
+}
+
+interface DecisionOptionRow {
+  id: string
+  title: string
+  description: string | null
+  parameters: Record<string, unknown> | null
+  pros: string[] | null
+  cons: string[] | null
+}
+
+interface UserProfileRow {
+  age: number | null
+  city: string | null
+  state: string | null
+  country: string | null
+  zip_code: string | null
+  marital_status: Demographics['maritalStatus'] | null
+  dependents: number | null
+  dependent_ages: number[] | null
+  partner_income: number | null
+  salary: number | null
+  current_job_role: string | null
+  industry: string | null
+  company: string | null
+  years_experience: number | null
+  financial_data: Record<string, unknown> | null
+}
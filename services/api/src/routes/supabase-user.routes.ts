@@ -68,6 +68,8 @@ const updateProfileSchema = z.object({
   zipCode: z.string().max(20).optional(),
   maritalStatus: z.enum(['single', 'married', 'divorced', 'widowed']).optional(),
   dependents: z.number().min(0).max(20).optional(),
+  dependentAges: z.array(z.number().int().min(0).max(30)).max(20).optional(),
+  partnerIncome: z.number().min(0).max(10000000).optional(),
   currentRole: z.string().max(100).optional(),
   industry: z.string().max(100).optional(),
   company: z.string().max(100).optional(),
@@ -90,6 +92,8 @@ userRouter.put('/profile', async (req, res, next) => {
     if (data.zipCode !== undefined) dbData.zip_code = data.zipCode
     if (data.maritalStatus !== undefined) dbData.marital_status = data.maritalStatus
     if (data.dependents !== undefined) dbData.dependents = data.dependents
+    if (data.dependentAges !== undefined) dbData.dependent_ages = data.dependentAges
+    if (data.partnerIncome !== undefined) dbData.partner_income = data.partnerIncome
     if (data.currentRole !== undefined) dbData.current_role = data.currentRole
     if (data.industry !== undefined) dbData.industry = data.industry
     if (data.company !== undefined) dbData.company = data.company
@@ -0,0 +1,99 @@
+import type { ExportSource } from './index.js'
+import { OUTCOME_COLUMNS, yearlyOutcomes } from './tabular.js'
+
+/**
+ * Compact columnar binary export for large runs, laid out like Parquet
+ *
+ * The file opens with an 8-byte magic and is written in row groups of the
+ * per-scenario yearly rows. Each row group stores its columns one after
+ * another as little-endian arrays: `scenario` (Int32 index into the footer's
+ * scenario list), `year` (Int32) and every outcome column (Float64, NaN when
+ * missing). A UTF-8 JSON footer holds the schema, the byte offset of every
+ * column chunk, the scenario ids and probabilities, and the run's aggregate
+ * metrics; it is followed by its length (UInt32 LE) and the magic again, so
+ * readers seek to the end, read the footer and then fetch only the columns
+ * they need.
+ */
+export function* writeColumnar(source: ExportSource): Generator<Buffer> {
+  const scenarios = source.results.scenarios ?? []
+  const columns = [
+    { name: 'scenario', type: 'int32' as const },
+    { name: 'year', type: 'int32' as const },
+    ...OUTCOME_COLUMNS.map(column => ({ name: column.name, type: 'float64' as const })),
+  ]
+
+  yield COLUMNAR_MAGIC
+  let offset = COLUMNAR_MAGIC.length
+  const rowGroups: ColumnarFooter['rowGroups'] = []
+  let rows: Array<{ scenario: number; year: number; values: Array<number | undefined> }> = []
+
+  function* flush(): Generator<Buffer> {
+    if (rows.length === 0) return
+    const chunks = columns.map((column, c) => {
+      if (column.type === 'int32') {
+        const chunk = Buffer.alloc(rows.length * 4)
+        for (const [r, row] of rows.entries()) {
+          chunk.writeInt32LE(c === 0 ? row.scenario : row.year, r * 4)
+        }
+        return chunk
+      }
+      const chunk = Buffer.alloc(rows.length * 8)
+      for (const [r, row] of rows.entries()) {
+        chunk.writeDoubleLE(row.values[c - 2] ?? Number.NaN, r * 8)
+      }
+      return chunk
+    })
+
+    const group: ColumnarFooter['rowGroups'][number] = { rows: rows.length, columns: [] }
+    for (const chunk of chunks) {
+      group.columns.push({ offset, length: chunk.length })
+      offset += chunk.length
+      yield chunk
+    }
+    rowGroups.push(group)
+    rows = []
+  }
+
+  for (const [index, scenario] of scenarios.entries()) {
+    for (const outcome of yearlyOutcomes(scenario)) {
+      rows.push({
+        scenario: index,
+        year: outcome.year,
+        values: OUTCOME_COLUMNS.map(column => column.value(outcome)),
+      })
+    }
+    if (rows.length >= ROW_GROUP_SIZE) yield* flush()
+  }
+  yield* flush()
+
+  const footer: ColumnarFooter = {
+    format: 'tgcol',
+    version: 1,
+    simulationId: source.id,
+    rows: rowGroups.reduce((sum, group) => sum + group.rows, 0),
+    columns,
+    rowGroups,
+    scenarios: scenarios.map(scenario => ({ id: scenario.id, probability: scenario.probability })),
+    aggregateMetrics: source.results.aggregateMetrics,
+  }
+  const encoded = Buffer.from(JSON.stringify(footer), 'utf8')
+  const length = Buffer.alloc(4)
+  length.writeUInt32LE(encoded.length)
+  yield Buffer.concat([encoded, length, COLUMNAR_MAGIC])
+}
+
+// Type definitions
+export interface ColumnarFooter {
+  format: 'tgcol'
+  version: number
+  simulationId: string
+  rows: number
+  columns: Array<{ name: string; type: 'int32' | 'float64' }>
+  rowGroups: Array<{ rows: number; columns: Array<{ offset: number; length: number }> }>
+  scenarios: Array<{ id: string; probability: number }>
+  aggregateMetrics: unknown
+}
+
+const COLUMNAR_MAGIC = Buffer.from('TGCOL001', 'ascii')
+// Rows per row group; a group is buffered in memory before it is written
+const ROW_GROUP_SIZE = 8192
@@ -0,0 +1,27 @@
+import type { ExportSource } from './index.js'
+import { OUTCOME_COLUMNS, yearlyOutcomes } from './tabular.js'
+
+/**
+ * One row per scenario and projected year, written a scenario at a time
+ */
+export function* writeCsv(source: ExportSource): Generator<string> {
+  yield `${['scenario_id', 'probability', 'year', ...OUTCOME_COLUMNS.map(c => c.name)].join(',')}\n`
+
+  for (const scenario of source.results.scenarios ?? []) {
+    let chunk = ''
+    for (const outcome of yearlyOutcomes(scenario)) {
+      const values = OUTCOME_COLUMNS.map(column => column.value(outcome))
+      chunk += `${[
+        escapeCsv(scenario.id),
+        scenario.probability,
+        outcome.year,
+        ...values.map(value => (value === undefined || value === null ? '' : value)),
+      ].join(',')}\n`
+    }
+    yield chunk
+  }
+}
+
+function escapeCsv(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
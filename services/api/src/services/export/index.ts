@@ -0,0 +1,52 @@
+import { Readable } from 'node:stream'
+import type { SimulationResult } from '@theguide/models'
+import { writeColumnar } from './columnar.js'
+import { writeCsv } from './csv.js'
+import { writeJsonLines } from './jsonl.js'
+import { writePdfReport } from './pdf.js'
+
+export const EXPORT_FORMATS = ['csv', 'jsonl', 'columnar', 'pdf'] as const
+
+const EXPORTERS: Record<ExportFormat, Exporter> = {
+  csv: { contentType: 'text/csv; charset=utf-8', extension: 'csv', write: writeCsv },
+  jsonl: { contentType: 'application/x-ndjson', extension: 'jsonl', write: writeJsonLines },
+  columnar: { contentType: 'application/octet-stream', extension: 'tgcol', write: writeColumnar },
+  pdf: { contentType: 'application/pdf', extension: 'pdf', write: writePdfReport },
+}
+
+/**
+ * Stream a completed simulation in the requested format
+ *
+ * Output is produced lazily as the stream is read, so large runs are never
+ * held in memory in their exported form.
+ */
+export function exportSimulation(source: ExportSource, format: ExportFormat): SimulationExport {
+  const exporter = EXPORTERS[format]
+  return {
+    contentType: exporter.contentType,
+    filename: `simulation-${source.id}.${exporter.extension}`,
+    stream: Readable.from(exporter.write(source), { objectMode: false }),
+  }
+}
+
+// Type definitions
+export type ExportFormat = (typeof EXPORT_FORMATS)[number]
+
+export interface ExportSource {
+  id: string
+  decisionTitle: string
+  optionTitle: string
+  results: SimulationResult // as stored by the worker; dates are ISO strings
+}
+
+export interface SimulationExport {
+  contentType: string
+  filename: string
+  stream: Readable
+}
+
+interface Exporter {
+  contentType: string
+  extension: string
+  write: (source: ExportSource) => Iterable<string | Buffer>
+}
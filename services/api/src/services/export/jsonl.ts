@@ -0,0 +1,10 @@
+import type { ExportSource } from './index.js'
+
+/**
+ * One complete `Scenario` object per line
+ */
+export function* writeJsonLines(source: ExportSource): Generator<string> {
+  for (const scenario of source.results.scenarios ?? []) {
+    yield `${JSON.stringify(scenario)}\n`
+  }
+}
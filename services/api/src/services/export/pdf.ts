@@ -0,0 +1,525 @@
+import type { Scenario } from '@theguide/models'
+import type { ExportSource } from './index.js'
+import { yearlyOutcomes } from './tabular.js'
+
+/**
+ * Decision report as a PDF, written page by page
+ *
+ * Pages go out as soon as they are laid out; the page tree, catalog and
+ * cross-reference table come last, once every object's byte offset is known.
+ * Text uses the standard Helvetica fonts, so nothing is embedded.
+ */
+export function* writePdfReport(source: ExportSource): Generator<Buffer> {
+  const writer = new PdfWriter()
+  yield writer.header()
+  yield writer.object(FONT_REGULAR, FONT_DICTIONARY('Helvetica'))
+  yield writer.object(FONT_BOLD, FONT_DICTIONARY('Helvetica-Bold'))
+
+  const pageIds: number[] = []
+  function* emit(pages: string[]): Generator<Buffer> {
+    for (const content of pages) {
+      const pageId = writer.allocate()
+      const contentId = writer.allocate()
+      yield writer.object(
+        contentId,
+        `<< /Length ${Buffer.byteLength(content, 'latin1')} >>`,
+        content
+      )
+      yield writer.object(
+        pageId,
+        `<< /Type /Page /Parent ${PAGES} 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+          `/Resources << /Font << /F1 ${FONT_REGULAR} 0 R /F2 ${FONT_BOLD} 0 R >> >> ` +
+          `/Contents ${contentId} 0 R >>`
+      )
+      pageIds.push(pageId)
+    }
+  }
+
+  const layout = new ReportLayout(`Simulation ${source.id}`)
+  const report = new DecisionReport(source)
+  for (const section of report.sections()) {
+    section(layout)
+    yield* emit(layout.drain())
+  }
+  yield* emit(layout.finish())
+
+  yield writer.object(
+    PAGES,
+    `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`
+  )
+  yield writer.object(CATALOG, `<< /Type /Catalog /Pages ${PAGES} 0 R >>`)
+  yield writer.trailer(CATALOG)
+}
+
+/**
+ * Content of the decision report: summary metrics, distribution charts,
+ * risks and recommendations
+ */
+class DecisionReport {
+  private source: ExportSource
+  private scenarios: Scenario[]
+
+  constructor(source: ExportSource) {
+    this.source = source
+    this.scenarios = source.results.scenarios ?? []
+  }
+
+  sections(): Array<(layout: ReportLayout) => void> {
+    return [
+      layout => this.title(layout),
+      layout => this.summary(layout),
+      layout => this.distribution(layout),
+      layout => this.risks(layout),
+      layout => this.recommendations(layout),
+    ]
+  }
+
+  private title(layout: ReportLayout): void {
+    const { results } = this.source
+    layout.text('Decision report', { size: 20, bold: true })
+    layout.paragraph(this.source.decisionTitle, { size: 14 })
+    layout.paragraph(`Option: ${this.source.optionTitle}`, { size: 11 })
+    const runDate = results.runDate ? new Date(results.runDate).toISOString().slice(0, 10) : ''
+    layout.paragraph(
+      `Simulated ${runDate} - ${this.scenarios.length} scenarios - simulation ${this.source.id}`,
+      { size: 9, gray: true }
+    )
+    layout.space(12)
+  }
+
+  private summary(layout: ReportLayout): void {
+    const metrics = this.source.results.aggregateMetrics
+    const final = this.netWorthAt(10)
+    layout.heading('Summary')
+
+    const rows: Array<[string, string]> = [
+      ['Expected net worth, year 10', money(final.mean)],
+      [
+        'Median (5th - 95th percentile)',
+        `${money(final.p50)} (${money(final.p5)} - ${money(final.p95)})`,
+      ],
+    ]
+    if (metrics) {
+      rows.push(
+        ['Probability of success', percent(metrics.probabilityOfSuccess)],
+        [
+          `${percent(metrics.confidenceInterval.confidence)} confidence interval`,
+          `${money(metrics.confidenceInterval.lower)} - ${money(metrics.confidenceInterval.upper)}`,
+        ],
+        ['Risk score', `${metrics.riskScore.toFixed(1)} / 10`],
+        ['Opportunity score', `${metrics.opportunityScore.toFixed(1)} / 10`]
+      )
+      if (metrics.riskAdjusted) {
+        rows.push(['Certainty equivalent', money(metrics.riskAdjusted.certaintyEquivalent)])
+      }
+      const tail = metrics.tailRisk
+      const horizon = tail?.horizons[tail.horizons.length - 1]
+      if (tail && horizon) {
+        rows.push(
+          [
+            `Value at risk (${percent(tail.level)}), year ${horizon.year}`,
+            money(horizon.valueAtRisk),
+          ],
+          ['Expected shortfall', money(horizon.expectedShortfall)],
+          ['Chance of negative net worth in any year', percent(tail.probabilityNegativeNetWorth)]
+        )
+      }
+    }
+    for (const [label, value] of rows) layout.row([label, value], [0, 250])
+    layout.space(10)
+
+    layout.row(['Net worth', '5th pct', 'Median', 'Mean', '95th pct'], TABLE_COLUMNS, {
+      bold: true,
+    })
+    for (const year of [1, 3, 5, 10]) {
+      const at = this.netWorthAt(year)
+      layout.row(
+        [`Year ${year}`, money(at.p5), money(at.p50), money(at.mean), money(at.p95)],
+        TABLE_COLUMNS
+      )
+    }
+    layout.space(12)
+  }
+
+  private distribution(layout: ReportLayout): void {
+    if (this.scenarios.length === 0) return
+    layout.heading('Distribution')
+
+    // Histogram of year-10 net worth, weighted by scenario probability
+    const values = this.scenarios.map(s => s.outcomes.year10.financialPosition.netWorth)
+    const weights = this.scenarios.map(s => s.probability)
+    const low = Math.min(...values)
+    const high = Math.max(...values)
+    const width = (high - low) / HISTOGRAM_BINS || 1
+    const bins = new Array<number>(HISTOGRAM_BINS).fill(0)
+    values.forEach((value, i) => {
+      bins[Math.min(HISTOGRAM_BINS - 1, Math.floor((value - low) / width))] += weights[i]
+    })
+    layout.paragraph('Net worth in year 10', { size: 10, bold: true })
+    layout.bars(bins, [money(low), money((low + high) / 2), money(high)])
+    layout.space(10)
+
+    // Fan chart of net worth over the projection
+    const years = yearlyOutcomes(this.scenarios[0]).map(o => o.year)
+    const bands = years.map(year => this.netWorthAt(year))
+    layout.paragraph('Net worth over time (median, 10th - 90th percentile band)', {
+      size: 10,
+      bold: true,
+    })
+    layout.fan(
+      bands.map(b => b.p10),
+      bands.map(b => b.p50),
+      bands.map(b => b.p90),
+      years.map(year => `Y${year}`),
+      [money(Math.min(...bands.map(b => b.p10))), money(Math.max(...bands.map(b => b.p90)))]
+    )
+    layout.space(12)
+  }
+
+  private risks(layout: ReportLayout): void {
+    const risks = this.source.results.risks ?? []
+    if (risks.length === 0) return
+    layout.heading('Risks')
+    for (const risk of risks) {
+      layout.paragraph(
+        `${risk.severity.toUpperCase()} - ${risk.description} (${percent(risk.probability)} chance)`,
+        { size: 10, bold: true }
+      )
+      for (const mitigation of risk.mitigation ?? []) layout.bullet(mitigation)
+      layout.space(6)
+    }
+  }
+
+  private recommendations(layout: ReportLayout): void {
+    const recommendations = this.source.results.recommendations ?? []
+    if (recommendations.length === 0) return
+    layout.heading('Recommendations')
+    for (const recommendation of recommendations) {
+      layout.paragraph(`${recommendation.priority.toUpperCase()} - ${recommendation.title}`, {
+        size: 10,
+        bold: true,
+      })
+      layout.paragraph(recommendation.description, { size: 10 })
+      for (const action of recommendation.actions ?? []) layout.bullet(action)
+      layout.space(6)
+    }
+  }
+
+  // Probability-weighted net worth quantiles and mean in a projection year
+  private netWorthAt(year: number): Record<'mean' | 'p5' | 'p10' | 'p50' | 'p90' | 'p95', number> {
+    const points = this.scenarios
+      .map(scenario => ({
+        value: yearlyOutcomes(scenario).find(o => o.year === year)?.financialPosition.netWorth,
+        weight: scenario.probability,
+      }))
+      .filter((p): p is { value: number; weight: number } => p.value !== undefined)
+      .sort((a, b) => a.value - b.value)
+    const total = points.reduce((sum, p) => sum + p.weight, 0)
+    const quantile = (q: number) => {
+      let cumulative = 0
+      for (const point of points) {
+        cumulative += point.weight
+        if (cumulative >= q * total) return point.value
+      }
+      return points[points.length - 1]?.value ?? 0
+    }
+
+    return {
+      mean: total > 0 ? points.reduce((sum, p) => sum + p.value * p.weight, 0) / total : 0,
+      p5: quantile(0.05),
+      p10: quantile(0.1),
+      p50: quantile(0.5),
+      p90: quantile(0.9),
+      p95: quantile(0.95),
+    }
+  }
+}
+
+/**
+ * Lays report content out top to bottom, breaking pages as they fill
+ */
+class ReportLayout {
+  private pages: string[] = []
+  private content: string[] = []
+  private y: number
+  private pageNumber = 1
+  private footer: string
+
+  constructor(footer: string) {
+    this.footer = footer
+    this.y = PAGE_HEIGHT - MARGIN
+  }
+
+  heading(text: string): void {
+    this.ensure(40)
+    this.space(4)
+    this.text(text, { size: 14, bold: true })
+    this.content.push(
+      `0.6 G 0.5 w ${MARGIN} ${this.y + 4} m ${PAGE_WIDTH - MARGIN} ${this.y + 4} l S 0 G`
+    )
+    this.space(6)
+  }
+
+  text(text: string, style: TextStyle = {}): void {
+    const size = style.size ?? 10
+    this.ensure(size * LINE_HEIGHT)
+    this.y -= size * LINE_HEIGHT
+    this.write(text, MARGIN + (style.indent ?? 0), this.y, style)
+  }
+
+  paragraph(text: string, style: TextStyle = {}): void {
+    const size = style.size ?? 10
+    const available = PAGE_WIDTH - 2 * MARGIN - (style.indent ?? 0)
+    for (const line of wrap(text, available / (size * (style.bold ? 0.56 : 0.5)))) {
+      this.text(line, style)
+    }
+  }
+
+  bullet(text: string): void {
+    const size = 10
+    const lines = wrap(text, (PAGE_WIDTH - 2 * MARGIN - 16) / (size * 0.5))
+    lines.forEach((line, i) => {
+      this.text(line, { size, indent: 16 })
+      if (i === 0) this.write('-', MARGIN + 6, this.y, { size })
+    })
+  }
+
+  // One line of cells at fixed x offsets from the margin
+  row(cells: string[], offsets: number[], style: TextStyle = {}): void {
+    const size = style.size ?? 10
+    this.ensure(size * LINE_HEIGHT)
+    this.y -= size * LINE_HEIGHT
+    for (const [i, cell] of cells.entries()) {
+      this.write(cell, MARGIN + offsets[i], this.y, { ...style, size })
+    }
+  }
+
+  space(height: number): void {
+    this.y -= height
+  }
+
+  // Bar chart of values with labels under its left edge, middle and right edge
+  bars(values: number[], labels: [string, string, string]): void {
+    this.ensure(CHART_HEIGHT + 24)
+    const top = this.y - 4
+    const bottom = top - CHART_HEIGHT
+    const width = (PAGE_WIDTH - 2 * MARGIN) / values.length
+    const max = Math.max(...values) || 1
+    const ops = ['0.25 0.45 0.75 rg']
+    values.forEach((value, i) => {
+      const height = (value / max) * CHART_HEIGHT
+      ops.push(
+        `${fixed(MARGIN + i * width + 1)} ${fixed(bottom)} ${fixed(width - 2)} ${fixed(height)} re f`
+      )
+    })
+    ops.push(`0 g 0.5 w ${MARGIN} ${fixed(bottom)} m ${PAGE_WIDTH - MARGIN} ${fixed(bottom)} l S`)
+    this.content.push(ops.join('\n'))
+    this.y = bottom
+    this.axisLabels(labels)
+  }
+
+  // Median line over a shaded low-high band, one point per label
+  fan(
+    low: number[],
+    median: number[],
+    high: number[],
+    labels: string[],
+    range: [string, string]
+  ): void {
+    this.ensure(CHART_HEIGHT + 24)
+    const top = this.y - 4
+    const bottom = top - CHART_HEIGHT
+    const min = Math.min(...low)
+    const span = Math.max(...high) - min || 1
+    const step = (PAGE_WIDTH - 2 * MARGIN) / Math.max(1, labels.length - 1)
+    const x = (i: number) => fixed(MARGIN + i * step)
+    const y = (value: number) => fixed(bottom + ((value - min) / span) * CHART_HEIGHT)
+
+    const band = [
+      ...high.map((v, i) => `${x(i)} ${y(v)}`),
+      ...low.map((v, i) => `${x(i)} ${y(v)}`).reverse(),
+    ]
+    const ops = [
+      '0.8 0.86 0.95 rg',
+      `${band[0]} m ${band
+        .slice(1)
+        .map(p => `${p} l`)
+        .join(' ')} h f`,
+      '0.2 0.4 0.75 RG 1.5 w',
+      `${x(0)} ${y(median[0])} m ${median
+        .slice(1)
+        .map((v, i) => `${x(i + 1)} ${y(v)} l`)
+        .join(' ')} S`,
+      `0 G 0.5 w ${MARGIN} ${fixed(bottom)} m ${PAGE_WIDTH - MARGIN} ${fixed(bottom)} l S`,
+    ]
+    this.content.push(ops.join('\n'))
+    this.write(range[1], MARGIN, top - 8, { size: 8, gray: true })
+    this.y = bottom
+    this.axisLabels([labels[0], range[0], labels[labels.length - 1]])
+  }
+
+  // Finished pages since the last call
+  drain(): string[] {
+    const pages = this.pages
+    this.pages = []
+    return pages
+  }
+
+  // The last page, with everything else still pending
+  finish(): string[] {
+    if (this.content.length > 0) this.breakPage()
+    return this.drain()
+  }
+
+  private axisLabels([left, middle, right]: [string, string, string]): void {
+    const y = this.y - 10
+    this.write(left, MARGIN, y, { size: 8, gray: true })
+    this.write(middle, PAGE_WIDTH / 2 - middle.length * 2, y, { size: 8, gray: true })
+    this.write(right, PAGE_WIDTH - MARGIN - right.length * 4, y, { size: 8, gray: true })
+    this.y = y - 6
+  }
+
+  private ensure(height: number): void {
+    if (this.y - height < MARGIN + 20) this.breakPage()
+  }
+
+  private breakPage(): void {
+    this.write(`${this.footer} - page ${this.pageNumber}`, MARGIN, MARGIN - 20, {
+      size: 8,
+      gray: true,
+    })
+    this.pages.push(this.content.join('\n'))
+    this.content = []
+    this.y = PAGE_HEIGHT - MARGIN
+    this.pageNumber++
+  }
+
+  private write(text: string, x: number, y: number, style: TextStyle): void {
+    const color = style.gray ? '0.45 g' : '0 g'
+    this.content.push(
+      `BT ${color} /${style.bold ? 'F2' : 'F1'} ${style.size ?? 10} Tf ${fixed(x)} ${fixed(y)} Td (${pdfText(text)}) Tj ET`
+    )
+  }
+}
+
+/**
+ * Low-level PDF serialization: numbered objects with tracked byte offsets
+ * and the closing cross-reference table
+ */
+class PdfWriter {
+  private offsets = new Map<number, number>()
+  private position = 0
+  private nextId: number
+
+  constructor() {
+    this.nextId = FIRST_PAGE_OBJECT
+  }
+
+  allocate(): number {
+    return this.nextId++
+  }
+
+  header(): Buffer {
+    // The comment line of high-bit bytes marks the file as binary
+    return this.emit(Buffer.from('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n', 'latin1'))
+  }
+
+  object(id: number, dictionary: string, stream?: string): Buffer {
+    this.offsets.set(id, this.position)
+    const body = stream === undefined ? dictionary : `${dictionary}\nstream\n${stream}\nendstream`
+    return this.emit(Buffer.from(`${id} 0 obj\n${body}\nendobj\n`, 'latin1'))
+  }
+
+  trailer(root: number): Buffer {
+    const size = this.nextId
+    const entries = ['0000000000 65535 f ']
+    for (let id = 1; id < size; id++) {
+      const offset = this.offsets.get(id)
+      entries.push(
+        offset === undefined
+          ? '0000000000 65535 f '
+          : `${String(offset).padStart(10, '0')} 00000 n `
+      )
+    }
+    return this.emit(
+      Buffer.from(
+        `xref\n0 ${size}\n${entries.join('\n')}\ntrailer\n<< /Size ${size} /Root ${root} 0 R >>\n` +
+          `startxref\n${this.position}\n%%EOF\n`,
+        'latin1'
+      )
+    )
+  }
+
+  private emit(chunk: Buffer): Buffer {
+    this.position += chunk.length
+    return chunk
+  }
+}
+
+function wrap(text: string, maxChars: number): string[] {
+  const lines: string[] = []
+  let line = ''
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    if (line && line.length + 1 + word.length > maxChars) {
+      lines.push(line)
+      line = word
+    } else {
+      line = line ? `${line} ${word}` : word
+    }
+  }
+  if (line) lines.push(line)
+  return lines
+}
+
+// Latin-1 text with PDF string escapes; characters outside the fonts' encoding become '?'
+function pdfText(text: string): string {
+  return text
+    .replace(/[–—]/g, '-')
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, '?')
+    .replace(/[\\()]/g, match => `\\${match}`)
+}
+
+function money(value: number): string {
+  const sign = value < 0 ? '-' : ''
+  const abs = Math.abs(value)
+  if (abs >= 1e6) return `${sign}$${(abs / 1e6).toFixed(2)}M`
+  if (abs >= 1e3) return `${sign}$${(abs / 1e3).toFixed(0)}k`
+  return `${sign}$${abs.toFixed(0)}`
+}
+
+function percent(value: number): string {
+  return `${(value * 100).toFixed(value < 0.1 ? 1 : 0)}%`
+}
+
+function fixed(value: number): string {
+  return value.toFixed(2)
+}
+
+// Type definitions
+interface TextStyle {
+  size?: number
+  bold?: boolean
+  gray?: boolean
+  indent?: number
+}
+
+// Object numbers fixed ahead of the pages, which are numbered as they are written
+const CATALOG = 1
+const PAGES = 2
+const FONT_REGULAR = 3
+const FONT_BOLD = 4
+const FIRST_PAGE_OBJECT = 5
+const FONT_DICTIONARY = (name: string) =>
+  `<< /Type /Font /Subtype /Type1 /BaseFont /${name} /Encoding /WinAnsiEncoding >>`
+
+// US Letter in points
+const PAGE_WIDTH = 612
+const PAGE_HEIGHT = 792
+const MARGIN = 54
+const LINE_HEIGHT = 1.4
+const CHART_HEIGHT = 140
+const HISTOGRAM_BINS = 24
+// x offsets of the net worth table's columns
+const TABLE_COLUMNS = [0, 110, 210, 310, 410]
@@ -0,0 +1,36 @@
+import type { Scenario, YearlyOutcome } from '@theguide/models'
+
+// Per-year outcome columns shared by the CSV and columnar exports
+export const OUTCOME_COLUMNS: Array<{
+  name: string
+  value: (outcome: YearlyOutcome) => number | undefined
+}> = [
+  { name: 'net_worth', value: o => o.financialPosition.netWorth },
+  { name: 'income', value: o => o.financialPosition.income },
+  { name: 'expenses', value: o => o.financialPosition.expenses },
+  { name: 'savings', value: o => o.financialPosition.savings },
+  { name: 'taxes', value: o => o.financialPosition.taxes },
+  { name: 'net_income', value: o => o.financialPosition.netIncome },
+  { name: 'liquid_assets', value: o => o.financialPosition.liquidAssets },
+  { name: 'debt', value: o => o.financialPosition.debt },
+  { name: 'interest_paid', value: o => o.financialPosition.interestPaid },
+  { name: 'partner_income', value: o => o.financialPosition.household?.partnerIncome },
+  { name: 'dependent_costs', value: o => o.financialPosition.household?.dependentCosts },
+  { name: 'salary', value: o => o.careerProgress.salary },
+  { name: 'seniority_level', value: o => o.careerProgress.seniorityLevel },
+  { name: 'market_value', value: o => o.careerProgress.marketValue },
+  { name: 'job_satisfaction', value: o => o.careerProgress.jobSatisfaction },
+  { name: 'overall_happiness', value: o => o.lifeMetrics.overallHappiness },
+  { name: 'stress', value: o => o.lifeMetrics.stress },
+  { name: 'work_life_balance', value: o => o.lifeMetrics.workLifeBalance },
+  { name: 'health_score', value: o => o.lifeMetrics.healthScore },
+]
+
+// Every projected year, or the snapshot years for runs stored without the full series
+export function yearlyOutcomes(scenario: Scenario): YearlyOutcome[] {
+  const { outcomes } = scenario
+  return (
+    outcomes.yearly ??
+    [outcomes.year1, outcomes.year3, outcomes.year5, outcomes.year10].filter(Boolean)
+  )
+}
@@ -2,7 +2,9 @@
 import { config } from './config/env.js'
 import { logger } from './utils/logger.js'
 
-// Import the worker to start processing
+// Import the workers to start processing
+import './workers/analysis.worker.js'
+import './workers/decision.worker.js'
 import './workers/simulation.worker.js'
 
 logger.info('Simulation worker started', {
@@ -0,0 +1,19 @@
+import { AdvancedSimulationEngine } from '@theguide/sim-engine'
+import { analysisQueue } from '../jobs/queue.js'
+import { logger } from '../utils/logger.js'
+
+// Analyses are CPU-bound; one at a time per worker process
+const ANALYSIS_JOB_CONCURRENCY = 1
+
+// Run analyses off the API process; the result is the job's return value
+analysisQueue.process(ANALYSIS_JOB_CONCURRENCY, async job => {
+  // Only settings the route was given are left in the rest; the others keep the engine's defaults
+  const { kind, userId: _userId, seed, decision, options, userProfile, ...config } = job.data
+  logger.info(`Running ${kind} analysis for decision ${decision.id}`)
+
+  const engine = new AdvancedSimulationEngine(seed)
+  if (kind === 'questions') {
+    return engine.analyzeValueOfInformation(decision, options, userProfile, config)
+  }
+  return engine.compareOptions(decision, options, userProfile, config)
+})
@@ -0,0 +1,142 @@
+import type { DecisionOption, SimulationResult } from '@theguide/models'
+import { AdvancedSimulationEngine } from '@theguide/sim-engine'
+import { prisma } from '../data/database.js'
+import {
+  addSimulationJob,
+  type DecisionJobProgress,
+  decisionQueue,
+  simulationQueue,
+  userJobCapacity,
+} from '../jobs/queue.js'
+import { logger } from '../utils/logger.js'
+
+// Batch jobs mostly wait on their runs, so many can be in flight at once
+const DECISION_JOB_CONCURRENCY = 10
+const POLL_INTERVAL_MS = 2000
+
+// Fan a decision's option runs out to the simulation queue, then rank them
+decisionQueue.process(DECISION_JOB_CONCURRENCY, async job => {
+  const { decisionId, userId, seed, runs, previousStatus } = job.data
+  const simulationIds = runs.map(run => run.simulationId)
+
+  try {
+    logger.info(`Simulating ${runs.length} options of decision ${decisionId}`)
+
+    let simulations: SimulationRow[]
+    while (true) {
+      simulations = await prisma.simulation.findMany({ where: { id: { in: simulationIds } } })
+
+      // Queue runs as the user's capacity frees up. A run that already has a job (from
+      // an earlier attempt of this batch) or is no longer pending (e.g. was cancelled) is skipped.
+      const rows = new Map(simulations.map(simulation => [simulation.id, simulation]))
+      for (const run of runs) {
+        const row = rows.get(run.simulationId)
+        if (!row || row.jobId || row.status !== 'pending') continue
+        if ((await userJobCapacity(userId)) === 0) break
+
+        const child = await addSimulationJob({
+          simulationId: run.simulationId,
+          decisionId,
+          optionId: run.optionId,
+          userId,
+          seed,
+        })
+        await prisma.simulation.update({
+          where: { id: run.simulationId },
+          data: { jobId: child.id.toString() },
+        })
+        row.jobId = child.id.toString()
+      }
+
+      const settled = await Promise.all(simulations.map(hasSettled))
+      const finished = settled.filter(Boolean).length
+
+      const progress: DecisionJobProgress = {
+        step: `${finished} of ${runs.length} options simulated`,
+        percentage: Math.floor(
+          simulations.reduce(
+            (sum, simulation, i) => sum + (settled[i] ? 100 : (simulation.progress ?? 0)),
+            0
+          ) / runs.length
+        ),
+        runs: simulations.map(simulation => ({
+          simulationId: simulation.id,
+          optionId: simulation.optionId,
+          status: simulation.status,
+          progress: simulation.progress ?? 0,
+        })),
+      }
+      await job.progress(progress)
+
+      if (finished === runs.length) break
+      await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS))
+    }
+
+    const completed = simulations.filter(simulation => simulation.status === 'completed')
+    if (completed.length === 0) {
+      throw new Error('No option was simulated successfully')
+    }
+
+    const [options, userProfile] = await Promise.all([
+      prisma.decisionOption.findMany({ where: { decisionId } }),
+      prisma.userProfile.findUnique({ where: { userId } }),
+    ])
+    const optionsById = new Map<string, DecisionOption>(
+      options.map((option: DecisionOption) => [option.id, option])
+    )
+
+    // The runs' scenarios are reduced separately, so options are compared as distributions
+    const summary = new AdvancedSimulationEngine(seed).summarizeOptions(
+      decisionId,
+      completed.map(simulation => ({
+        option: optionsById.get(simulation.optionId) as DecisionOption,
+        simulationId: simulation.id,
+        result: simulation.results as SimulationResult,
+      })),
+      userProfile || {},
+      simulations
+        .filter(simulation => simulation.status !== 'completed')
+        .map(simulation => simulation.optionId)
+    )
+
+    await prisma.decision.update({
+      where: { id: decisionId },
+      data: {
+        status: 'simulated',
+        simulationSummary: summary,
+      },
+    })
+
+    logger.info(`Decision ${decisionId} simulated`, {
+      recommendedOptionId: summary.recommendedOptionId,
+    })
+    return { decisionId, recommendedOptionId: summary.recommendedOptionId }
+  } catch (error) {
+    logger.error(`Simulating decision ${decisionId} failed:`, error)
+
+    await prisma.decision.update({
+      where: { id: decisionId },
+      data: { status: previousStatus },
+    })
+
+    throw error
+  }
+})
+
+// A failed attempt that Bull will retry is not settled yet
+async function hasSettled(simulation: SimulationRow) {
+  if (simulation.status === 'completed' || simulation.status === 'cancelled') return true
+  if (simulation.status !== 'failed') return false
+
+  const child = simulation.jobId ? await simulationQueue.getJob(simulation.jobId) : null
+  return !child || (await child.getState()) === 'failed'
+}
+
+interface SimulationRow {
+  id: string
+  optionId: string
+  status: string
+  progress: number | null
+  jobId: string | null
+  results: unknown
+}
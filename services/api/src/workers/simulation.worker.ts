@@ -1,16 +1,31 @@
-import type { Decision, DecisionOption } from '@theguide/models'
+import type {
+  AggregateMetrics,
+  Decision,
+  DecisionOption,
+  ReplayVerification,
+  SimulationManifest,
+  SimulationProgressUpdate,
+} from '@theguide/models'
 import { AdvancedSimulationEngine } from '@theguide/sim-engine'
 import { prisma } from '../data/database.js'
-import { simulationQueue } from '../jobs/queue.js'
+import { cancellationSignal, simulationQueue } from '../jobs/queue.js'
 import { logger } from '../utils/logger.js'
 
 // Process simulation jobs
 simulationQueue.process(async job => {
-  const { simulationId, decisionId, optionId, userId } = job.data
+  const { simulationId, decisionId, optionId, userId, precision, replayOf, seed } = job.data
+  // Listen before reading the status, so a cancellation is either seen here or aborts the run
+  const cancellation = await cancellationSignal(job.id)
 
   try {
     logger.info(`Processing simulation ${simulationId}`)
 
+    const current = await prisma.simulation.findUnique({ where: { id: simulationId } })
+    if (current?.status === 'cancelled') {
+      logger.info(`Simulation ${simulationId} was cancelled before it started`)
+      return { simulationId, status: 'cancelled' }
+    }
+
     // Update simulation status to running
     await prisma.simulation.update({
       where: { id: simulationId },
@@ -31,45 +46,76 @@ simulationQueue.process(async job => {
       throw new Error('Decision or option not found')
     }
 
-    // Initialize simulation engine
-    const engine = new AdvancedSimulationEngine(`worker-${simulationId}`)
-
-    // Configure simulation based on user preferences or defaults
-    const config = {
-      targetScenarios: 1000,
-      useQMC: true,
-      useMLMC: true,
-      useCopulas: true,
-      reduceScenarios: true,
-      runSensitivity: true,
-      sensitivitySamples: 512,
-    }
+    const onProgress = async (progress: SimulationProgressUpdate) => {
+      // Update job progress; Bull publishes it to every queue instance for event streams
+      await job.progress(progress)
 
-    // Run simulation with progress updates
-    const result = await engine.runAdvancedSimulation(
-      decision as Decision,
-      option as DecisionOption,
-      userProfile || {},
-      config,
-      async progress => {
-        // Update job progress
-        await job.progress(progress.percentage)
-
-        // Optionally update simulation with progress info
-        if (progress.percentage % 10 === 0) {
-          await prisma.simulation.update({
-            where: { id: simulationId },
-            data: {
-              progress: progress.percentage,
-              metadata: {
-                lastProgressUpdate: new Date(),
-                currentStage: progress.step,
-              },
+      // Optionally update simulation with progress info
+      if (progress.percentage % 10 === 0) {
+        await prisma.simulation.update({
+          where: { id: simulationId },
+          data: {
+            progress: progress.percentage,
+            metadata: {
+              lastProgressUpdate: new Date(),
+              currentStage: progress.step,
             },
-          })
-        }
+          },
+        })
+      }
+    }
+
+    let result: Awaited<ReturnType<AdvancedSimulationEngine['runAdvancedSimulation']>>
+    let replay: ReplayVerification | undefined
+    if (replayOf) {
+      // Re-run the original from its manifest and check the metrics reproduce
+      const original = await prisma.simulation.findUnique({ where: { id: replayOf } })
+      const manifest = original?.manifest as SimulationManifest | null | undefined
+      if (!manifest) {
+        throw new Error('Original simulation has no reproducibility manifest')
+      }
+
+      const engine = new AdvancedSimulationEngine(manifest.masterSeed)
+      const replayed = await engine.replaySimulation(
+        manifest,
+        decision as Decision,
+        option as DecisionOption,
+        userProfile || {},
+        (original.results as { aggregateMetrics?: AggregateMetrics } | null)?.aggregateMetrics,
+        onProgress,
+        cancellation.signal
+      )
+      result = replayed.result
+      replay = replayed.verification
+    } else {
+      // Initialize simulation engine; a decision's runs share one seed
+      const engine = new AdvancedSimulationEngine(seed ?? `worker-${simulationId}`)
+
+      // Configure simulation based on user preferences or defaults
+      const config = {
+        targetScenarios: 1000,
+        useQMC: true,
+        useMLMC: true,
+        useCopulas: true,
+        reduceScenarios: true,
+        runSensitivity: true,
+        sensitivitySamples: 512,
+        // Scenario count adapts to the requested precision when one is given
+        precision,
       }
-    )
+
+      // Run simulation with progress updates
+      result = await engine.runAdvancedSimulation(
+        decision as Decision,
+        option as DecisionOption,
+        userProfile || {},
+        config,
+        onProgress,
+        cancellation.signal
+      )
+    }
+    // A cancellation after the last checkpoint still discards the results
+    cancellation.signal.throwIfAborted()
 
     // Save simulation results
     await prisma.simulation.update({
@@ -79,9 +125,12 @@ simulationQueue.process(async job => {
         completedAt: new Date(),
         progress: 100,
         results: result as any, // Store the entire result object
+        manifest: result.metadata.manifest,
+        replayOf,
         metadata: {
-          engineConfig: config,
+          engineConfig: result.metadata.manifest.config,
           processingTime: Date.now() - job.timestamp,
+          replay,
         },
       },
     })
@@ -89,6 +138,19 @@ simulationQueue.process(async job => {
     logger.info(`Simulation ${simulationId} completed successfully`)
     return { simulationId, status: 'completed' }
   } catch (error) {
+    if (cancellation.signal.aborted) {
+      // Cancelled runs end here rather than being retried
+      logger.info(`Simulation ${simulationId} cancelled`)
+      await prisma.simulation.update({
+        where: { id: simulationId },
+        data: {
+          status: 'cancelled',
+          completedAt: new Date(),
+        },
+      })
+      return { simulationId, status: 'cancelled' }
+    }
+
     logger.error(`Simulation ${simulationId} failed:`, error)
 
     // Update simulation status to failed
@@ -105,6 +167,8 @@ simulationQueue.process(async job => {
     })
 
     throw error
+  } finally {
+    cancellation.release()
   }
 })
 
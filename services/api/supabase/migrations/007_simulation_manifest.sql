@@ -0,0 +1,10 @@
+-- Reproducibility manifest recorded by each simulation run
+ALTER TABLE simulations
+ADD COLUMN manifest JSONB,
+ADD COLUMN replay_of UUID REFERENCES simulations(id) ON DELETE SET NULL;
+
+-- Find the replays of a run
+CREATE INDEX idx_simulations_replay_of ON simulations(replay_of);
+
+COMMENT ON COLUMN simulations.manifest IS 'Engine version, resolved config, master seed, Philox stream ids and input/output hashes needed to replay the run';
+COMMENT ON COLUMN simulations.replay_of IS 'Simulation this run replays; the verification is stored in metadata.replay';
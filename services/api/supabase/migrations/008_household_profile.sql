@@ -0,0 +1,7 @@
+-- Household details used by the projection: the partner's income and the dependents' ages
+ALTER TABLE user_profiles
+ADD COLUMN partner_income DECIMAL(12, 2) CHECK (partner_income >= 0),
+ADD COLUMN dependent_ages INTEGER[] DEFAULT '{}';
+
+COMMENT ON COLUMN user_profiles.partner_income IS 'Annual income of a married partner; treated as not earning when null';
+COMMENT ON COLUMN user_profiles.dependent_ages IS 'Age of each dependent; ages not given default to school age';
@@ -0,0 +1,2 @@
+-- Simulations can be cancelled while queued or running
+ALTER TYPE simulation_status ADD VALUE IF NOT EXISTS 'cancelled';
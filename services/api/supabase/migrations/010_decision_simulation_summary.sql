@@ -0,0 +1,5 @@
+-- Ranking of a decision's options from its latest batch simulation
+ALTER TABLE decisions
+ADD COLUMN simulation_summary JSONB;
+
+COMMENT ON COLUMN decisions.simulation_summary IS 'Options ranked by certainty equivalent, pairwise dominance and the recommended option, from runs on one shared seed';
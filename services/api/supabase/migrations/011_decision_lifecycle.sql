@@ -0,0 +1,11 @@
+-- Chosen option of a decided decision
+ALTER TABLE decisions
+ADD COLUMN final_choice UUID REFERENCES decision_options(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN decisions.final_choice IS 'Option chosen when the decision moved to decided; cleared when it is reopened as a draft';
+
+-- Simulations whose option has changed since they ran
+ALTER TABLE simulations
+ADD COLUMN invalidated_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN simulations.invalidated_at IS 'When the option parameters changed after this run; the results no longer describe the option';
@@ -0,0 +1,11 @@
+-- The API records its decision changes in audit_log itself, with the caller's
+-- identity and request details; its writes use the service role, so the row
+-- trigger logged each of them a second time without a user. Skip those here.
+-- Writes by users through RLS and by the worker's direct connection are still
+-- logged by the trigger.
+DROP TRIGGER IF EXISTS audit_decisions ON decisions;
+
+CREATE TRIGGER audit_decisions AFTER INSERT OR UPDATE OR DELETE ON decisions
+  FOR EACH ROW
+  WHEN (COALESCE(auth.jwt()->>'role', '') <> 'service_role')
+  EXECUTE FUNCTION audit_trigger_function();
@@ -4,51 +4,130 @@
  */
 
 import type {
+  AggregateMetrics,
+  ContingentPolicyResult,
+  DebtPayoffStrategy,
   Decision,
   DecisionOption,
+  DecisionSimulationSummary,
   EconomicConditions,
+  EconomicRegime,
+  GoalProbability,
+  OptionComparisonResult,
+  PartialMetrics,
+  Recommendation,
+  ReplayVerification,
   Scenario,
+  SimulationManifest,
+  SimulationProgressUpdate,
   SimulationResult,
   UserProfile,
+  ValueOfInformationResult,
 } from '@theguide/models'
-import { VineCopula } from './copulas'
-import { SimulationEngine } from './engine'
-import { MLMCEngine, type PathGenerator } from './mlmc-engine'
+import { DEFAULT_CALIBRATION } from '../src/data/calibrations'
+import { type CalibrationModel, CalibrationRegistry } from './calibration'
+import { CancellationCheckpoint } from './cancellation'
+import { type ProjectionOptions, type ProjectionResolution, SimulationEngine } from './engine'
+import { GoalAnalyzer } from './goals'
+import { ManifestRecorder } from './manifest'
+import { MLMCEngine } from './mlmc-engine'
+import { OptionComparator } from './option-comparison'
+import type { OutcomeModelRegistry } from './outcome-models'
 import { PhiloxStreamFactory } from './philox-rng'
-import { QMCEngine } from './qmc-engine'
+import { type MarketParameters, QMCEngine } from './qmc-engine'
+import { RecoursePlanner } from './recourse'
+import { RegimeSwitchingEconomy } from './regime-switching'
 import { ScenarioReducer } from './scenario-reduction'
-import { SensitivityAnalyzer } from './sensitivity-analysis'
+import { SensitivityAnalyzer, type SobolIndicesResult } from './sensitivity-analysis'
+import { QMCSampleSizer } from './sobol'
+import { TailRiskAnalyzer } from './tail-risk'
+import type { TaxModel } from './tax'
+import { UtilityModel } from './utility'
+import { ValueOfInformationAnalyzer } from './value-of-information'
+import {
+  VARIANCE_REDUCTION_TECHNIQUES,
+  VarianceReducer,
+  type VarianceReductionConfig,
+  type VarianceReductionReport,
+} from './variance-reduction'
+import { type MarketAssumptions, WealthPathGenerator } from './wealth-paths'
 
 export class AdvancedSimulationEngine {
+  // Copula coordinates QMCEngine.transformToScenarios reads, in order
+  private static readonly CALIBRATION_VARIABLES = [
+    'gdpGrowth',
+    'inflation',
+    'equityReturn',
+    'unemployment',
+  ]
+  private static readonly DEFAULT_PRECISION = {
+    confidence: 0.95,
+    initialScenarios: 128,
+    maxScenarios: 16384,
+  }
+  // Two-sided normal quantiles for the supported confidence levels
+  private static readonly Z_SCORES: Record<number, number> = { 0.9: 1.645, 0.95: 1.96, 0.99: 2.576 }
+
   private qmcEngine: QMCEngine
   private mlmcEngine: MLMCEngine
-  private vineCopula: VineCopula
   private scenarioReducer: ScenarioReducer
   private sensitivityAnalyzer: SensitivityAnalyzer
   private baseEngine: SimulationEngine
   private masterSeed: string
   private streamFactory: PhiloxStreamFactory
-
-  constructor(masterSeed: string) {
+  private optionComparator: OptionComparator
+  private recoursePlanner: RecoursePlanner
+  private valueOfInformation: ValueOfInformationAnalyzer
+  private goalAnalyzer: GoalAnalyzer
+  private tailRiskAnalyzer: TailRiskAnalyzer
+  private economy: RegimeSwitchingEconomy
+  private calibrations: CalibrationRegistry
+  private varianceReducer: VarianceReducer
+  private manifestRecorder: ManifestRecorder
+
+  constructor(
+    masterSeed: string,
+    outcomeModels?: OutcomeModelRegistry,
+    taxModel?: TaxModel,
+    economy?: RegimeSwitchingEconomy,
+    calibrations?: CalibrationRegistry
+  ) {
     this.masterSeed = masterSeed
     this.streamFactory = new PhiloxStreamFactory(masterSeed)
-    this.qmcEngine = new QMCEngine(10, masterSeed)
+    this.optionComparator = new OptionComparator()
+    this.goalAnalyzer = new GoalAnalyzer()
+    this.tailRiskAnalyzer = new TailRiskAnalyzer()
+    this.manifestRecorder = new ManifestRecorder()
+    // QMC and path-based engines share one regime-switching economy
+    this.economy = economy ?? new RegimeSwitchingEconomy()
+    this.qmcEngine = new QMCEngine(10, masterSeed, this.economy)
+    this.varianceReducer = new VarianceReducer(this.economy, this.qmcEngine)
     this.mlmcEngine = new MLMCEngine(masterSeed)
-    this.vineCopula = new VineCopula()
+    this.calibrations = calibrations ?? CalibrationRegistry.createDefault()
     this.scenarioReducer = new ScenarioReducer()
     this.sensitivityAnalyzer = new SensitivityAnalyzer(masterSeed)
-    this.baseEngine = new SimulationEngine()
+    this.baseEngine = new SimulationEngine(undefined, outcomeModels, taxModel, this.economy)
+    this.recoursePlanner = new RecoursePlanner(
+      this.baseEngine,
+      this.scenarioReducer,
+      this.streamFactory
+    )
+    this.valueOfInformation = new ValueOfInformationAnalyzer(this.baseEngine, this.streamFactory)
   }
 
   /**
    * Run advanced simulation with all optimizations
+   *
+   * Aborting `signal` stops the run between steps, batches and samples by
+   * rejecting with the signal's reason.
    */
   async runAdvancedSimulation(
     decision: Decision,
     option: DecisionOption,
     userProfile: Partial<UserProfile>,
     config: SimulationConfig = {},
-    progressCallback?: (progress: { step: string; percentage: number }) => void
+    progressCallback?: (progress: SimulationProgressUpdate) => void,
+    signal?: AbortSignal
   ): Promise<AdvancedSimulationResult> {
     console.log('=== Starting Advanced Simulation ===')
     console.log('Decision:', decision.type)
@@ -66,11 +145,20 @@ export class AdvancedSimulationEngine {
       useCopulas: false, // Disable copulas for now
       reduceScenarios: true,
       runSensitivity: false, // Disable sensitivity analysis by default
+      projectionResolution: 'annual' as ProjectionResolution,
+      calibration: DEFAULT_CALIBRATION,
+      // Goal horizons count from here; a replay reuses the original run's
+      startDate: new Date().toISOString(),
       ...config,
     }
+    // Resolve the calibration up front so an unknown name fails before any work
+    const calibration = this.calibrations.get(finalConfig.calibration)
+    this.streamFactory.clearIssued()
+    const checkpoint = new CancellationCheckpoint(signal)
 
     // Step 1: Sensitivity analysis to identify important parameters
     let sensitivityResult = null
+    await checkpoint.check()
     if (finalConfig.runSensitivity) {
       console.log('Step 1: Running sensitivity analysis...')
       console.log('Samples:', finalConfig.sensitivitySamples)
@@ -79,7 +167,8 @@ export class AdvancedSimulationEngine {
         decision,
         option,
         userProfile,
-        finalConfig.sensitivitySamples
+        finalConfig.sensitivitySamples,
+        signal
       )
       console.log('Sensitivity analysis complete')
       progressCallback?.({ step: 'Sensitivity analysis complete', percentage: 25 })
@@ -88,15 +177,43 @@ export class AdvancedSimulationEngine {
     }
 
     // Step 2: Generate scenarios using appropriate method
+    await checkpoint.check()
     console.log('Step 2: Generating scenarios...')
     progressCallback?.({
       step: 'Generating scenarios',
       percentage: finalConfig.runSensitivity ? 30 : 10,
     })
     let scenarios: Scenario[]
+    let generationMethod: string
     let generationMetadata: any = {}
+    let varianceReduction: VarianceReductionReport | undefined
+    // Debt payoff comparisons come from the base engine's profile-level run
+    let baseRecommendations: Recommendation[] = []
+    const projection: ProjectionOptions = {
+      resolution: finalConfig.projectionResolution,
+      debtStrategy: finalConfig.debtStrategy,
+    }
 
-    if (finalConfig.useMLMC && this.isPathDependent(decision.type)) {
+    // A precision target decides the scenario count, so it takes priority over MLMC
+    if (finalConfig.precision) {
+      console.log('Using sequential simulation to tolerance', finalConfig.precision.tolerance)
+      progressCallback?.({ step: 'Running sequential simulation', percentage: 40 })
+      const sequential = await this.runSequentialSimulation(
+        decision,
+        option,
+        userProfile,
+        projection,
+        finalConfig.precision,
+        finalConfig.varianceReduction,
+        progressCallback,
+        checkpoint
+      )
+      scenarios = sequential.scenarios
+      baseRecommendations = sequential.recommendations
+      varianceReduction = sequential.varianceReduction
+      generationMetadata = { precision: sequential.precision, varianceReduction }
+      generationMethod = `Sequential ${sequential.method}`
+    } else if (finalConfig.useMLMC && this.isPathDependent(decision.type)) {
       console.log('Using MLMC for path-dependent decision')
       progressCallback?.({ step: 'Running Multi-Level Monte Carlo', percentage: 40 })
       // Use MLMC for path-dependent decisions
@@ -104,20 +221,48 @@ export class AdvancedSimulationEngine {
         decision,
         option,
         userProfile,
-        finalConfig.mlmcTargetMSE
+        finalConfig.mlmcTargetMSE,
+        projection,
+        calibration,
+        signal
       )
       scenarios = mlmcResult.scenarios
+      baseRecommendations = mlmcResult.recommendations
       generationMetadata = mlmcResult.metadata
+      generationMethod = 'MLMC'
+    } else if (
+      finalConfig.varianceReduction &&
+      VARIANCE_REDUCTION_TECHNIQUES.some(t => finalConfig.varianceReduction?.[t])
+    ) {
+      console.log('Using variance-reduced simulation')
+      progressCallback?.({ step: 'Running variance-reduced simulation', percentage: 40 })
+      const vrResult = await this.runVarianceReducedSimulation(
+        decision,
+        option,
+        userProfile,
+        finalConfig.targetScenarios,
+        projection,
+        finalConfig.varianceReduction
+      )
+      scenarios = vrResult.scenarios
+      varianceReduction = vrResult.report
+      generationMetadata = { varianceReduction }
+      generationMethod = 'Variance-reduced MC'
     } else if (finalConfig.useQMC) {
       console.log('Using QMC simulation with', finalConfig.targetScenarios, 'samples')
       progressCallback?.({ step: 'Running Quasi-Monte Carlo simulation', percentage: 40 })
       // Use QMC for better convergence
-      scenarios = await this.runQMCSimulation(
+      const qmcResult = await this.runQMCSimulation(
         decision,
         option,
         userProfile,
-        finalConfig.targetScenarios // Don't multiply - use exact number requested
+        finalConfig.targetScenarios, // Don't multiply - use exact number requested
+        projection,
+        calibration
       )
+      scenarios = qmcResult.scenarios
+      baseRecommendations = qmcResult.recommendations
+      generationMethod = 'QMC'
     } else {
       console.log('Using standard simulation')
       progressCallback?.({ step: 'Running standard simulation', percentage: 40 })
@@ -125,17 +270,32 @@ export class AdvancedSimulationEngine {
       const result = await this.baseEngine.runSimulation(
         decision,
         option,
-        userProfile as UserProfile
+        userProfile as UserProfile,
+        this.masterSeed,
+        projection
       )
       scenarios = result.scenarios
+      baseRecommendations = result.recommendations
+      generationMethod = 'Standard'
     }
     console.log('Generated', scenarios.length, 'scenarios')
-    progressCallback?.({ step: 'Scenarios generated', percentage: 60 })
+    progressCallback?.({
+      step: 'Scenarios generated',
+      percentage: 60,
+      partial: this.partialMetrics(
+        scenarios,
+        AdvancedSimulationEngine.Z_SCORES[
+          finalConfig.precision?.confidence ?? AdvancedSimulationEngine.DEFAULT_PRECISION.confidence
+        ],
+        varianceReduction
+      ),
+    })
 
     // Step 3: Apply copulas for realistic dependencies
+    await checkpoint.check()
     if (finalConfig.useCopulas) {
       progressCallback?.({ step: 'Applying dependency structures', percentage: 70 })
-      scenarios = await this.applyCopulaDependence(scenarios, userProfile)
+      scenarios = this.applyCopulaDependence(scenarios, calibration)
     }
 
     // Step 4: Reduce scenarios while preserving distribution
@@ -143,7 +303,13 @@ export class AdvancedSimulationEngine {
     let reducedScenarios = scenarios
     let reductionMetadata = null
 
-    if (finalConfig.reduceScenarios && scenarios.length > finalConfig.targetScenarios) {
+    // A precision run keeps every scenario: its achieved precision describes
+    // the full set, and reducing thousands of scenarios would take minutes
+    if (
+      finalConfig.reduceScenarios &&
+      !finalConfig.precision &&
+      scenarios.length > finalConfig.targetScenarios
+    ) {
       const reduction = this.scenarioReducer.reduceScenarios(scenarios, finalConfig.targetScenarios)
       reducedScenarios = reduction.scenarios
       reductionMetadata = {
@@ -154,9 +320,24 @@ export class AdvancedSimulationEngine {
     }
 
     // Step 5: Calculate final metrics from our scenarios
+    await checkpoint.check()
     progressCallback?.({ step: 'Calculating metrics', percentage: 85 })
-    const aggregatedMetrics = this.aggregateScenarios(reducedScenarios)
-    const recommendations = this.generateRecommendations(reducedScenarios, decision, option)
+    const aggregatedMetrics = this.aggregateScenarios(
+      reducedScenarios,
+      userProfile,
+      new Date(finalConfig.startDate)
+    )
+    if (varianceReduction && reducedScenarios === scenarios) {
+      // The control-variate estimate of the mean is sharper than the sample mean
+      aggregatedMetrics.expectedValue.financial = varianceReduction.expectedNetWorth
+    }
+    const recommendations = this.generateRecommendations(
+      reducedScenarios,
+      decision,
+      option,
+      baseRecommendations,
+      aggregatedMetrics.goalProbabilities
+    )
     const risks = this.identifyRisks(reducedScenarios, decision)
     const opportunities = this.identifyOpportunities(reducedScenarios, decision)
 
@@ -173,6 +354,21 @@ export class AdvancedSimulationEngine {
       runDate: new Date(),
     }
 
+    // A time budget stops at a machine-dependent point, so replays stop at
+    // the scenario count it reached instead
+    const precision: AchievedPrecision | undefined = generationMetadata.precision
+    const replayConfig: SimulationConfig =
+      finalConfig.precision && precision
+        ? {
+            ...finalConfig,
+            precision: {
+              ...finalConfig.precision,
+              timeBudgetMs: undefined,
+              maxScenarios: precision.scenarios,
+            },
+          }
+        : finalConfig
+
     // Add advanced metadata
     const advancedResult: AdvancedSimulationResult = {
       ...result,
@@ -181,10 +377,22 @@ export class AdvancedSimulationEngine {
         seed: this.masterSeed,
         config: finalConfig,
         sensitivityAnalysis: sensitivityResult,
-        generationMethod: finalConfig.useMLMC ? 'MLMC' : finalConfig.useQMC ? 'QMC' : 'Standard',
+        generationMethod,
         generationMetadata,
+        calibration: { name: calibration.name, source: calibration.source },
         reductionMetadata,
         dataQuality: this.assessDataQuality(userProfile),
+        manifest: this.manifestRecorder.record({
+          masterSeed: this.masterSeed,
+          config: { ...replayConfig },
+          streams: this.streamFactory.issuedStreams(),
+          calibration,
+          userProfile,
+          decision,
+          option,
+          startDate: finalConfig.startDate,
+          aggregateMetrics: aggregatedMetrics,
+        }),
       },
     }
 
@@ -192,6 +400,260 @@ export class AdvancedSimulationEngine {
     return advancedResult
   }
 
+  /**
+   * Compare options of one decision on common random numbers
+   *
+   * Every option is simulated on the same economic scenario paths (scenario i
+   * replays Philox stream i for each option), so the per-scenario deltas
+   * isolate the effect of the choice from sampling noise.
+   */
+  async compareOptions(
+    decision: Decision,
+    options: DecisionOption[],
+    userProfile: Partial<UserProfile>,
+    config: ComparisonConfig = {}
+  ): Promise<OptionComparisonResult> {
+    if (options.length < 2) {
+      throw new Error('At least two options are required for a comparison')
+    }
+
+    const finalConfig = {
+      scenarios: 500,
+      horizon: 10,
+      projectionResolution: 'annual' as ProjectionResolution,
+      ...config,
+    }
+    if (finalConfig.horizon < 1 || finalConfig.horizon > 10) {
+      throw new Error('Comparison horizon must be between 1 and 10 years')
+    }
+
+    const scenarioSets = await this.baseEngine.runOnCommonPaths(
+      decision,
+      options,
+      userProfile,
+      index => this.streamFactory.createScenarioStreamsAt(index),
+      finalConfig.scenarios,
+      { resolution: finalConfig.projectionResolution, debtStrategy: finalConfig.debtStrategy }
+    )
+    const comparison = this.optionComparator.compare(options, scenarioSets, finalConfig.horizon)
+    const startDate = new Date()
+    const utilityModel = UtilityModel.fromProfile(userProfile)
+    comparison.options.forEach((summary, i) => {
+      summary.riskAdjusted = utilityModel.evaluate(scenarioSets[i], finalConfig.horizon)
+      summary.goalProbabilities = this.goalAnalyzer.analyze(
+        scenarioSets[i],
+        userProfile.goals,
+        startDate
+      )
+    })
+
+    return {
+      decisionId: decision.id,
+      runDate: new Date(),
+      seed: this.masterSeed,
+      scenarioCount: finalConfig.scenarios,
+      horizon: finalConfig.horizon,
+      ...comparison,
+    }
+  }
+
+  /**
+   * Rank a decision's options from their separate runs
+   *
+   * Each run's scenarios were reduced and reweighted on their own, so they
+   * are not paired across options: the pairwise statistics and dominance
+   * tests compare the runs' distributions (see OptionComparator). Options are
+   * ranked by the certainty equivalent of net worth at the horizon under the
+   * user's utility. For paired comparisons use compareOptions.
+   */
+  summarizeOptions(
+    decisionId: string,
+    runs: Array<{ option: DecisionOption; simulationId: string; result: SimulationResult }>,
+    userProfile: Partial<UserProfile>,
+    failedOptionIds: string[] = [],
+    horizon: number = 10
+  ): DecisionSimulationSummary {
+    if (runs.length === 0) {
+      throw new Error('No completed runs to summarize')
+    }
+
+    const scenarioSets = runs.map(run => run.result.scenarios)
+    const comparison = this.optionComparator.compareIndependent(
+      runs.map(run => run.option),
+      scenarioSets,
+      horizon
+    )
+    const utilityModel = UtilityModel.fromProfile(userProfile)
+    const startDate = new Date()
+
+    const ranking = comparison.options
+      .map((summary, i) => ({
+        ...summary,
+        riskAdjusted: utilityModel.evaluate(scenarioSets[i], horizon),
+        goalProbabilities: this.goalAnalyzer.analyze(scenarioSets[i], userProfile.goals, startDate),
+        rank: 0,
+        simulationId: runs[i].simulationId,
+        probabilityOfSuccess: runs[i].result.aggregateMetrics.probabilityOfSuccess,
+        dominatedBy: comparison.pairs.flatMap(pair => {
+          if (pair.optionA === summary.optionId && pair.dominance.firstOrder === 'B') {
+            return [pair.optionB]
+          }
+          if (pair.optionB === summary.optionId && pair.dominance.firstOrder === 'A') {
+            return [pair.optionA]
+          }
+          return []
+        }),
+      }))
+      .sort((a, b) => b.riskAdjusted.certaintyEquivalent - a.riskAdjusted.certaintyEquivalent)
+    for (const [i, option] of ranking.entries()) option.rank = i + 1
+
+    return {
+      decisionId,
+      runDate: new Date(),
+      seed: this.masterSeed,
+      scenarioCount: Math.min(...scenarioSets.map(scenarios => scenarios.length)),
+      horizon,
+      recommendedOptionId: ranking[0].optionId,
+      ranking,
+      dominance: comparison.pairs,
+      failedOptionIds,
+    }
+  }
+
+  /**
+   * Optimal contingent policy for an option of a multi-stage decision
+   *
+   * The decision's `followUps` are solved by backward induction over a
+   * reduced scenario tree (see RecoursePlanner), maximizing the user's
+   * expected utility of year-10 net worth. The result compares the policy's
+   * certainty equivalent with that of carrying on with the option regardless.
+   */
+  async planContingentPolicy(
+    decision: Decision,
+    option: DecisionOption,
+    userProfile: Partial<UserProfile>,
+    config: ContingentPolicyConfig = {}
+  ): Promise<ContingentPolicyResult> {
+    if (!decision.followUps?.length) {
+      throw new Error('The decision has no follow-up decision points')
+    }
+
+    const finalConfig = {
+      scenarios: 500,
+      treeSize: 64,
+      continuationScenarios: 100,
+      projectionResolution: 'annual' as ProjectionResolution,
+      ...config,
+    }
+
+    const plan = await this.recoursePlanner.plan(
+      decision,
+      option,
+      userProfile,
+      UtilityModel.fromProfile(userProfile),
+      {
+        scenarios: finalConfig.scenarios,
+        treeSize: finalConfig.treeSize,
+        continuationScenarios: finalConfig.continuationScenarios,
+        projection: {
+          resolution: finalConfig.projectionResolution,
+          debtStrategy: finalConfig.debtStrategy,
+        },
+      }
+    )
+
+    return {
+      decisionId: decision.id,
+      optionId: option.id,
+      runDate: new Date(),
+      seed: this.masterSeed,
+      scenarioCount: finalConfig.scenarios,
+      ...plan,
+    }
+  }
+
+  /**
+   * Questions worth asking the user before deciding, ranked by value of information
+   *
+   * Each missing or estimated profile answer is scored by how much knowing it would
+   * improve the choice between `options` (see ValueOfInformationAnalyzer).
+   * With a single option, as in onboarding, the ranking falls back to how
+   * much the answer moves the projected outcome.
+   */
+  async analyzeValueOfInformation(
+    decision: Decision,
+    options: DecisionOption[],
+    userProfile: Partial<UserProfile>,
+    config: ValueOfInformationConfig = {}
+  ): Promise<ValueOfInformationResult> {
+    const finalConfig = {
+      scenarios: 100,
+      ...config,
+    }
+
+    const analysis = await this.valueOfInformation.analyze(
+      decision,
+      options,
+      userProfile,
+      finalConfig.scenarios,
+      finalConfig.estimatedFields
+    )
+
+    return {
+      decisionId: decision.id,
+      runDate: new Date(),
+      seed: this.masterSeed,
+      scenarioCount: finalConfig.scenarios,
+      ...analysis,
+    }
+  }
+
+  /**
+   * Re-run a simulation from its manifest and check that it reproduces
+   *
+   * The engine must use the manifest's master seed and the same outcome,
+   * tax and economy models as the original run; goals are measured from the
+   * original run's start date, kept in its configuration. Inputs that no
+   * longer hash as recorded are reported in the verification rather than
+   * rejected.
+   *
+   * @param manifest - Manifest recorded by the original run
+   * @param original - The original run's aggregate metrics, to locate differences
+   */
+  async replaySimulation(
+    manifest: SimulationManifest,
+    decision: Decision,
+    option: DecisionOption,
+    userProfile: Partial<UserProfile>,
+    original?: AggregateMetrics,
+    progressCallback?: (progress: SimulationProgressUpdate) => void,
+    signal?: AbortSignal
+  ): Promise<{ result: AdvancedSimulationResult; verification: ReplayVerification }> {
+    if (manifest.masterSeed !== this.masterSeed) {
+      throw new Error(
+        `Replay needs an engine seeded with '${manifest.masterSeed}', not '${this.masterSeed}'`
+      )
+    }
+
+    const result = await this.runAdvancedSimulation(
+      decision,
+      option,
+      userProfile,
+      manifest.config as SimulationConfig,
+      progressCallback,
+      signal
+    )
+    return {
+      result,
+      verification: this.manifestRecorder.verify(
+        manifest,
+        result.metadata.manifest,
+        result.aggregateMetrics,
+        original
+      ),
+    }
+  }
+
   /**
    * Run sensitivity analysis to identify important parameters
    */
@@ -199,18 +661,22 @@ export class AdvancedSimulationEngine {
     decision: Decision,
     option: DecisionOption,
     userProfile: Partial<UserProfile>,
-    numSamples: number
+    numSamples: number,
+    signal?: AbortSignal
   ): Promise<SensitivityResult> {
     // Define parameter ranges based on decision type
     const paramRanges = this.getParameterRanges(decision.type, userProfile)
 
-    // Create model wrapper
+    // Create model wrapper; only the expected value is read, so the debt
+    // payoff comparison is left to the top-level run
     const model = async (inputs: number[]): Promise<number> => {
       const modifiedProfile = this.applyParameterValues(userProfile, paramRanges, inputs)
       const result = await this.baseEngine.runSimulation(
         decision,
         option,
-        modifiedProfile as UserProfile
+        modifiedProfile as UserProfile,
+        this.masterSeed,
+        { compareDebtStrategies: false }
       )
 
       // Return expected NPV as primary metric
@@ -221,7 +687,9 @@ export class AdvancedSimulationEngine {
     const sobolResult = await this.sensitivityAnalyzer.computeSobolIndices(
       model,
       paramRanges,
-      numSamples
+      numSamples,
+      undefined,
+      signal
     )
 
     // Identify key drivers
@@ -231,6 +699,8 @@ export class AdvancedSimulationEngine {
         importance: sobolResult.totalOrder[i],
         firstOrder: sobolResult.firstOrder[i],
         interactions: sobolResult.totalOrder[i] - sobolResult.firstOrder[i],
+        confidenceInterval: sobolResult.confidence.totalOrderCI[i],
+        significant: !sobolResult.straddlesZero.totalOrder[i],
       }))
       .filter(d => d.importance > 0.05)
       .sort((a, b) => b.importance - a.importance)
@@ -244,34 +714,62 @@ export class AdvancedSimulationEngine {
 
   /**
    * Run MLMC simulation for path-dependent outcomes
+   *
+   * MLMC estimates expected year-10 net worth from wealth paths refined
+   * level by level. Scenario-level outcomes still come from the base engine,
+   * whose paths are not decomposed into levels.
    */
   private async runMLMCSimulation(
     decision: Decision,
     option: DecisionOption,
     userProfile: Partial<UserProfile>,
-    targetMSE: number
+    targetMSE: number,
+    projection: ProjectionOptions,
+    calibration: CalibrationModel,
+    signal?: AbortSignal
   ): Promise<MLMCSimulationResult> {
     // Create path generator for financial paths
-    const pathGenerator = this.createPathGenerator(decision, option, userProfile)
+    const pathGenerator = WealthPathGenerator.fromDecision(
+      decision,
+      option,
+      userProfile,
+      this.getMarketAssumptions(calibration)
+    )
 
-    // Run MLMC
+    // Run MLMC; targetMSE is in units of the generator's scale squared
     const mlmcResult = await this.mlmcEngine.runMLMC(
       pathGenerator,
       targetMSE,
-      6 // max levels
+      6, // max levels
+      signal
     )
 
-    // Convert MLMC paths to scenarios
-    const scenarios = await this.convertMLMCToScenarios(mlmcResult, decision, option, userProfile)
+    const baseResult = await this.baseEngine.runSimulation(
+      decision,
+      option,
+      userProfile as UserProfile,
+      this.masterSeed,
+      projection
+    )
 
     return {
-      scenarios,
+      scenarios: baseResult.scenarios,
+      recommendations: baseResult.recommendations,
       metadata: {
         levels: mlmcResult.levels.length,
         totalCost: mlmcResult.totalCost,
         costReduction: mlmcResult.costReduction,
-        estimate: mlmcResult.estimate,
-        confidence95: mlmcResult.confidence95,
+        estimate: mlmcResult.estimate * pathGenerator.scale,
+        confidence95: mlmcResult.confidence95.map(bound => bound * pathGenerator.scale),
+        levelStatistics: mlmcResult.levels.map(({ level, samples, mean, variance, cost }) => ({
+          level,
+          stepsPerYear: 2 ** level,
+          samples,
+          mean: mean * pathGenerator.scale,
+          variance: variance * pathGenerator.scale ** 2,
+          cost,
+        })),
+        convergence: mlmcResult.convergence,
       },
     }
   }
@@ -283,12 +781,49 @@ export class AdvancedSimulationEngine {
     decision: Decision,
     option: DecisionOption,
     userProfile: Partial<UserProfile>,
-    numScenarios: number
-  ): Promise<Scenario[]> {
+    numScenarios: number,
+    projection: ProjectionOptions,
+    calibration: CalibrationModel
+  ): Promise<{ scenarios: Scenario[]; recommendations: Recommendation[] }> {
     console.log('runQMCSimulation started with', numScenarios, 'scenarios')
 
+    // Convert to full scenarios by running a single base simulation
+    // and then applying the QMC-generated economic conditions
+    console.log('Running base simulation to get template scenario...')
+    const baseResult = await this.baseEngine.runSimulation(
+      decision,
+      option,
+      userProfile as UserProfile,
+      this.masterSeed,
+      projection
+    )
+
+    const scenarios = this.generateQMCScenarios(
+      baseResult.scenarios[0],
+      decision.type,
+      numScenarios,
+      calibration
+    )
+    console.log('Created', scenarios.length, 'QMC scenarios')
+
+    return { scenarios, recommendations: baseResult.recommendations }
+  }
+
+  /**
+   * Apply the next QMC points' economic conditions to a template scenario
+   *
+   * The scrambled Sobol sequence continues across calls, so successive
+   * batches extend one point set; `offset` numbers the batch's scenarios.
+   */
+  private generateQMCScenarios(
+    template: Scenario,
+    decisionType: Decision['type'],
+    numScenarios: number,
+    calibration: CalibrationModel,
+    offset: number = 0
+  ): Scenario[] {
     // Determine dimension based on decision type and time horizon
-    const dimension = this.getSimulationDimension(decision.type)
+    const dimension = this.getSimulationDimension(decisionType)
     console.log('Simulation dimension:', dimension)
 
     // Generate QMC points
@@ -298,65 +833,256 @@ export class AdvancedSimulationEngine {
 
     // Transform to economic scenarios
     console.log('Getting market parameters...')
-    const marketParams = await this.getMarketParameters(userProfile)
+    const marketParams = this.getMarketParameters(calibration)
     console.log('Transforming to scenarios...')
     const economicScenarios = this.qmcEngine.transformToScenarios(qmcSamples, marketParams)
     console.log('Created', economicScenarios.length, 'economic scenarios')
 
-    // Convert to full scenarios by running a single base simulation
-    // and then applying the QMC-generated economic conditions
-    console.log('Running base simulation to get template scenario...')
-    const baseResult = await this.baseEngine.runSimulation(
-      decision,
-      option,
-      userProfile as UserProfile,
-      this.masterSeed
-    )
-
     console.log('Applying QMC economic conditions to scenarios...')
-    const scenarios: Scenario[] = economicScenarios.map((econScenario, index) => {
-      // Use the first scenario as a template
-      const template = baseResult.scenarios[0]
-
-      // Convert EconomicScenario to EconomicConditions
-      const economicConditions: EconomicConditions = {
-        gdpGrowth: econScenario.wageGrowth * 100, // Convert to percentage
+    return economicScenarios.map((econScenario, index) => {
+      // Convert EconomicScenario to EconomicConditions; years after the first
+      // take the mean conditions of their regime on the path
+      const gdpGrowth = econScenario.wageGrowth * 100 // Convert to percentage
+      const firstYear: EconomicConditions = {
+        gdpGrowth,
         inflationRate: econScenario.inflation * 100,
         unemploymentRate: econScenario.unemployment * 100,
-        marketCondition: this.mapRegimeToCondition(econScenario.marketRegime),
+        marketCondition: RegimeSwitchingEconomy.marketCondition(
+          econScenario.marketRegime,
+          gdpGrowth
+        ),
         industryOutlook: this.mapRegimeToOutlook(econScenario.marketRegime),
+        regime: econScenario.marketRegime,
       }
+      const regimePath = econScenario.regimePath.map((regime, year) =>
+        year === 0 ? firstYear : this.economy.expectedConditions(regime)
+      )
 
       return {
         ...template,
-        id: `qmc-scenario-${index}`,
-        economicConditions,
+        id: `qmc-scenario-${offset + index}`,
+        economicConditions: RegimeSwitchingEconomy.summarize(regimePath),
+        regimePath,
         probability: 1 / economicScenarios.length,
       }
     })
-    console.log('Created', scenarios.length, 'QMC scenarios')
+  }
 
-    return scenarios
+  /**
+   * Run the base engine with variance reduction
+   *
+   * Scenarios are projected on Philox streams, mirrored in antithetic pairs,
+   * with regime paths drawn from the importance-sampling proposal when it is
+   * enabled and then reweighted to the target economy. Debt payoff
+   * comparisons are not run, as in option comparisons.
+   */
+  private async runVarianceReducedSimulation(
+    decision: Decision,
+    option: DecisionOption,
+    userProfile: Partial<UserProfile>,
+    numScenarios: number,
+    projection: ProjectionOptions,
+    config: VarianceReductionConfig,
+    offset: number = 0
+  ): Promise<{ scenarios: Scenario[]; report: VarianceReductionReport }> {
+    // Antithetic pairs need an even count
+    const count = config.antithetic ? Math.max(2, 2 * Math.floor(numScenarios / 2)) : numScenarios
+    const proposal = this.varianceReducer.samplingEconomy(config)
+    const streamAt = this.varianceReducer.streamAt(this.streamFactory, config)
+    const [scenarios] = await this.baseEngine.runOnCommonPaths(
+      decision,
+      [option],
+      userProfile,
+      index => streamAt(offset + index),
+      count,
+      projection,
+      proposal
+    )
+    if (config.importanceSampling) this.varianceReducer.reweight(scenarios, proposal)
+
+    return { scenarios, report: this.varianceReducer.assess(scenarios, config) }
   }
 
   /**
-   * Apply copula-based dependence structure
+   * Generate scenarios in batches until a target precision is reached
+   *
+   * The first batch is a power of two (QMCSampleSizer) and every later batch
+   * doubles the total. After each batch the confidence intervals of expected
+   * net worth and probability of success are checked against the tolerance;
+   * generation also stops before a batch that would overrun the time budget
+   * or the scenario cap. Every batch is fully projected on fresh Philox
+   * streams (with any variance reduction). `useQMC` does not apply: QMC points
+   * only perturb one projected scenario, so their intervals would shrink to
+   * nothing and stop the run at the first batch.
    */
-  private async applyCopulaDependence(
+  private async runSequentialSimulation(
+    decision: Decision,
+    option: DecisionOption,
+    userProfile: Partial<UserProfile>,
+    projection: ProjectionOptions,
+    precision: PrecisionTarget,
+    varianceReduction?: VarianceReductionConfig,
+    progressCallback?: (progress: SimulationProgressUpdate) => void,
+    checkpoint: CancellationCheckpoint = new CancellationCheckpoint()
+  ): Promise<{
+    scenarios: Scenario[]
+    recommendations: Recommendation[]
+    method: string
+    precision: AchievedPrecision
+    varianceReduction?: VarianceReductionReport
+  }> {
+    const target = { ...AdvancedSimulationEngine.DEFAULT_PRECISION, ...precision }
+    const z = AdvancedSimulationEngine.Z_SCORES[target.confidence]
+    if (z === undefined) {
+      throw new Error(
+        `Unsupported confidence level ${target.confidence}. Use one of: ${Object.keys(AdvancedSimulationEngine.Z_SCORES).join(', ')}`
+      )
+    }
+    const startTime = Date.now()
+
+    const reduction = VARIANCE_REDUCTION_TECHNIQUES.some(t => varianceReduction?.[t])
+      ? varianceReduction
+      : undefined
+    const method = reduction ? 'Variance-reduced MC' : 'MC'
+    const generateBatch = async (offset: number, size: number) =>
+      (
+        await this.runVarianceReducedSimulation(
+          decision,
+          option,
+          userProfile,
+          size,
+          projection,
+          reduction ?? {},
+          offset
+        )
+      ).scenarios
+
+    const batches: Scenario[][] = []
+    let total = 0
+    let size = QMCSampleSizer.getOptimalSize(Math.min(target.initialScenarios, target.maxScenarios))
+    while (true) {
+      await checkpoint.check()
+      const batchStart = Date.now()
+      batches.push(await generateBatch(total, size))
+      total += size
+      const msPerScenario = (Date.now() - batchStart) / size
+
+      // Each batch's probabilities sum to one; weight batches by their size
+      const scenarios = batches.flatMap(batch =>
+        batch.map(s => ({ ...s, probability: (s.probability * batch.length) / total }))
+      )
+      const report = reduction ? this.varianceReducer.assess(scenarios, reduction) : undefined
+      const measured = this.measurePrecision(scenarios, z, report)
+      const elapsedMs = Date.now() - startTime
+      progressCallback?.({
+        step: 'Running sequential simulation',
+        percentage: Math.min(59, 40 + Math.floor((20 * total) / target.maxScenarios)),
+        partial: this.partialMetrics(scenarios, z, report),
+      })
+
+      // Double the total with the next batch
+      size = total
+      let stopReason: AchievedPrecision['stopReason'] | undefined
+      if (
+        measured.netWorth.relativeHalfWidth <= target.tolerance &&
+        measured.probabilityOfSuccess.halfWidth <= target.tolerance
+      ) {
+        stopReason = 'tolerance'
+      } else if (total + size > target.maxScenarios) {
+        stopReason = 'maxScenarios'
+      } else if (
+        target.timeBudgetMs !== undefined &&
+        elapsedMs + msPerScenario * size > target.timeBudgetMs
+      ) {
+        stopReason = 'timeBudget'
+      }
+
+      if (stopReason) {
+        console.log(`Sequential simulation stopped (${stopReason}) after ${total} scenarios`)
+        return {
+          scenarios,
+          recommendations: [],
+          method,
+          varianceReduction: report,
+          precision: {
+            converged: stopReason === 'tolerance',
+            stopReason,
+            tolerance: target.tolerance,
+            confidence: target.confidence,
+            scenarios: total,
+            batches: batches.length,
+            elapsedMs,
+            ...measured,
+          },
+        }
+      }
+    }
+  }
+
+  /**
+   * Confidence-interval half-widths of expected net worth and probability of success
+   *
+   * Half-widths come from the self-normalized weighted estimator, which
+   * reduces to the usual z * s / sqrt(n) for equal weights; with variance
+   * reduction the net worth interval uses the reduced standard error.
+   */
+  private measurePrecision(
     scenarios: Scenario[],
-    _userProfile: Partial<UserProfile>
-  ): Promise<Scenario[]> {
-    // Extract key variables from scenarios
-    const data = this.extractVariablesFromScenarios(scenarios)
+    z: number,
+    report?: VarianceReductionReport
+  ): Pick<AchievedPrecision, 'netWorth' | 'probabilityOfSuccess'> {
+    const weights = this.scenarioWeights(scenarios)
+    const standardError = (values: number[], mean: number) =>
+      Math.sqrt(values.reduce((sum, v, i) => sum + (weights[i] * (v - mean)) ** 2, 0))
+
+    const netWorth = scenarios.map(s => s.outcomes.year10.financialPosition.netWorth)
+    const mean = report?.expectedNetWorth ?? netWorth.reduce((sum, v, i) => sum + weights[i] * v, 0)
+    const halfWidth = z * (report?.standardError ?? standardError(netWorth, mean))
 
-    // Fit vine copula
-    this.vineCopula.fit(data)
+    const successes = scenarios.map(s => (this.isSuccess(s) ? 1 : 0))
+    const probability = successes.reduce((sum: number, v, i) => sum + weights[i] * v, 0)
+
+    return {
+      netWorth: {
+        mean,
+        halfWidth,
+        relativeHalfWidth: mean !== 0 ? halfWidth / Math.abs(mean) : Number.POSITIVE_INFINITY,
+      },
+      probabilityOfSuccess: {
+        estimate: probability,
+        halfWidth: z * standardError(successes, probability),
+      },
+    }
+  }
+
+  // Running estimates for progress updates
+  private partialMetrics(
+    scenarios: Scenario[],
+    z: number,
+    report?: VarianceReductionReport
+  ): PartialMetrics {
+    const { netWorth, probabilityOfSuccess } = this.measurePrecision(scenarios, z, report)
+    return {
+      scenarios: scenarios.length,
+      netWorth: { mean: netWorth.mean, halfWidth: netWorth.halfWidth },
+      probabilityOfSuccess,
+    }
+  }
+
+  /**
+   * Apply copula-based dependence structure
+   *
+   * The copula comes from the historical calibration rather than being
+   * re-fitted to the scenarios it is meant to adjust.
+   */
+  private applyCopulaDependence(scenarios: Scenario[], calibration: CalibrationModel): Scenario[] {
+    const copula = this.calibrations.loadCopula(calibration.name)
 
     // Re-sample with proper dependence
-    const dependentSamples = this.vineCopula.simulate(scenarios.length)
+    const dependentSamples = copula.simulate(scenarios.length)
 
     // Update scenarios with dependent values
-    return this.updateScenariosWithDependence(scenarios, dependentSamples, data)
+    return this.updateScenariosWithDependence(scenarios, dependentSamples, calibration)
   }
 
   /**
@@ -364,7 +1090,7 @@ export class AdvancedSimulationEngine {
    */
 
   private isPathDependent(decisionType: Decision['type']): boolean {
-    return ['career_change', 'job_offer', 'education', 'retirement'].includes(decisionType)
+    return ['home_purchase', 'investment', 'retirement'].includes(decisionType)
   }
 
   private getParameterRanges(
@@ -439,39 +1165,28 @@ export class AdvancedSimulationEngine {
     return ranges
   }
 
-  private createPathGenerator(
-    _decision: Decision,
-    _option: DecisionOption,
-    _userProfile: Partial<UserProfile>
-  ): PathGenerator {
-    // Simplified implementation - would create proper path generator
-    const getStepsForLevel = (level: number) => 2 ** (level + 2)
+  /**
+   * Annual market assumptions implied by a calibration's marginals
+   */
+  private getMarketAssumptions(calibration: CalibrationModel): MarketAssumptions {
+    const moments = (variable: string) => {
+      const dist = calibration.marginals[variable].distribution
+      if (dist.type === 'lognormal') {
+        const logMean = dist.logMean ?? 0
+        const logVariance = (dist.logStd ?? 0) ** 2
+        const mean = Math.exp(logMean + logVariance / 2)
+        return { mean, std: mean * Math.sqrt(Math.exp(logVariance) - 1) }
+      }
+      return { mean: dist.mean ?? 0, std: dist.std ?? 0 }
+    }
+
+    const equity = moments('equityReturn')
+    const inflation = moments('inflation').mean
     return {
-      getStepsForLevel,
-      generate: async (level, _rng) => ({
-        times: Array(getStepsForLevel(level))
-          .fill(0)
-          .map((_, i) => i),
-        values: Array(getStepsForLevel(level))
-          .fill(0)
-          .map(() => [0]),
-        level,
-      }),
-      generateFromNoise: async (level, noise) => ({
-        times: Array(noise.length)
-          .fill(0)
-          .map((_, i) => i),
-        values: noise,
-        level,
-      }),
-      generateFromUniform: async (level, uniform) => ({
-        times: Array(level)
-          .fill(0)
-          .map((_, i) => i),
-        values: [uniform],
-        level,
-      }),
-      evaluate: path => path.values.reduce((sum, v) => sum + v[0], 0),
+      equityReturn: equity.mean,
+      equityVolatility: equity.std,
+      inflation,
+      wageGrowth: moments('gdpGrowth').mean + inflation,
     }
   }
 
@@ -480,25 +1195,28 @@ export class AdvancedSimulationEngine {
     return 50
   }
 
-  private async getMarketParameters(_userProfile: Partial<UserProfile>): Promise<any> {
-    // Would fetch real market data
+  /**
+   * Market parameters from a calibration
+   *
+   * The QMC engine reads copula coordinates positionally, so the calibration
+   * must list its variables in QMC order. Housing is not in the bundled
+   * datasets and keeps a fixed assumption.
+   */
+  private getMarketParameters(calibration: CalibrationModel): MarketParameters {
+    const expected = AdvancedSimulationEngine.CALIBRATION_VARIABLES
+    if (expected.some((variable, i) => calibration.variables[i] !== variable)) {
+      throw new Error(
+        `Calibration '${calibration.name}' must provide variables in the order ${expected.join(', ')}`
+      )
+    }
+
+    const { marginals } = calibration
     return {
-      historicalWageGrowth: Array(100)
-        .fill(0)
-        .map(() => Math.random() * 0.1),
-      historicalInflation: Array(100)
-        .fill(0)
-        .map(() => Math.random() * 0.05),
-      historicalReturns: Array(100)
-        .fill(0)
-        .map(() => Math.random() * 0.3 - 0.1),
-      historicalUnemployment: Array(100)
-        .fill(0)
-        .map(() => Math.random() * 0.1),
-      wageGrowthDist: { type: 'normal', mean: 0.03, std: 0.02 },
-      inflationDist: { type: 'normal', mean: 0.025, std: 0.01 },
-      assetReturnDist: { type: 'normal', mean: 0.08, std: 0.15 },
-      unemploymentDist: { type: 'beta', alpha: 2, beta: 20, min: 0, max: 0.15 },
+      copula: this.calibrations.loadCopula(calibration.name),
+      wageGrowthDist: marginals.gdpGrowth.distribution,
+      inflationDist: marginals.inflation.distribution,
+      assetReturnDist: marginals.equityReturn.distribution,
+      unemploymentDist: marginals.unemployment.distribution,
       housingDist: { type: 'normal', mean: 0.035, std: 0.03 },
     }
   }
@@ -545,123 +1263,78 @@ export class AdvancedSimulationEngine {
   private generateSensitivityRecommendation(keyDrivers: any[]): string {
     if (keyDrivers.length === 0) return 'Results are robust to parameter uncertainty'
 
-    const top = keyDrivers[0]
-    return `Focus on ${top.parameter} - accounts for ${(top.importance * 100).toFixed(1)}% of uncertainty`
-  }
-
-  private async convertMLMCToScenarios(
-    _mlmcResult: any,
-    _decision: Decision,
-    _option: DecisionOption,
-    _userProfile: Partial<UserProfile>
-  ): Promise<Scenario[]> {
-    // Convert MLMC paths to scenarios
-    // This is a placeholder - would properly convert MLMC results to scenarios
-    const scenarios: Scenario[] = []
-
-    // Create a simple scenario for now
-    scenarios.push({
-      id: `mlmc-scenario-${Date.now()}`,
-      probability: 1,
-      economicConditions: {
-        gdpGrowth: 2.5,
-        inflationRate: 2.5,
-        unemploymentRate: 4,
-        marketCondition: 'stable',
-        industryOutlook: 'stable',
-      },
-      outcomes: {} as any, // Would be properly generated from MLMC paths
-      keyEvents: [],
-      assumptions: {},
-    })
-
-    return scenarios
-  }
-
-  private extractVariablesFromScenarios(scenarios: Scenario[]): any {
-    // Extract key variables for copula fitting
-    if (scenarios.length === 0) {
-      console.log('[AdvancedEngine] No scenarios to extract variables from')
-      return {}
-    }
-
-    // Extract economic variables from scenarios
-    const gdpGrowth = scenarios.map(s => s.economicConditions.gdpGrowth)
-    const inflation = scenarios.map(s => s.economicConditions.inflationRate)
-    const unemployment = scenarios.map(s => s.economicConditions.unemploymentRate)
-
-    // Use market condition as a proxy for returns (map to numeric values)
-    const marketReturns = scenarios.map(s => {
-      const conditionMap = {
-        recession: -0.15,
-        downturn: -0.05,
-        stable: 0.05,
-        growth: 0.1,
-        boom: 0.2,
-      }
-      return conditionMap[s.economicConditions.marketCondition] || 0.05
-    })
-
-    return {
-      gdpGrowth,
-      inflation,
-      unemployment,
-      marketReturns,
+    const top = keyDrivers.find(d => d.significant)
+    if (!top) {
+      return 'No parameter stands out from sampling noise - increase sensitivity samples to rank them'
     }
+    return `Focus on ${top.parameter} - accounts for ${(top.importance * 100).toFixed(1)}% of uncertainty`
   }
 
   private updateScenariosWithDependence(
     scenarios: Scenario[],
     _samples: number[][],
-    _originalData: any
+    _calibration: CalibrationModel
   ): Scenario[] {
     // For now, return scenarios as-is since copula simulation needs proper implementation
     // TODO: Apply the dependent samples back to the scenarios
     return scenarios
   }
 
-  private aggregateScenarios(scenarios: Scenario[]): SimulationResult['aggregateMetrics'] {
+  private aggregateScenarios(
+    scenarios: Scenario[],
+    userProfile: Partial<UserProfile>,
+    startDate: Date
+  ): SimulationResult['aggregateMetrics'] {
     // Extract financial outcomes
     const financialValues = scenarios.map(s => s.outcomes.year10.financialPosition.netWorth)
     const careerValues = scenarios.map(s => s.outcomes.year10.careerProgress.jobSatisfaction)
     const lifestyleValues = scenarios.map(s => s.outcomes.year10.lifeMetrics.overallHappiness)
+    // Scenario probabilities, which importance sampling makes non-uniform
+    const weights = this.scenarioWeights(scenarios)
 
     // Calculate statistics
     const calculateStats = (values: number[]) => {
-      const sorted = [...values].sort((a, b) => a - b)
-      const mean = values.reduce((sum, v) => sum + v, 0) / values.length
-      const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length
+      const order = values.map((_, i) => i).sort((a, b) => values[a] - values[b])
+      const mean = values.reduce((sum, v, i) => sum + weights[i] * v, 0)
+      const variance = values.reduce((sum, v, i) => sum + weights[i] * (v - mean) ** 2, 0)
       const std = Math.sqrt(variance)
+      const quantile = (p: number) => {
+        let cumulative = 0
+        for (const i of order) {
+          cumulative += weights[i]
+          if (cumulative > p) return values[i]
+        }
+        return values[order[order.length - 1]]
+      }
 
       return {
         mean,
         std,
-        min: sorted[0],
-        max: sorted[sorted.length - 1],
-        p5: sorted[Math.floor(0.05 * sorted.length)],
-        p95: sorted[Math.floor(0.95 * sorted.length)],
-        median: sorted[Math.floor(0.5 * sorted.length)],
+        min: values[order[0]],
+        max: values[order[order.length - 1]],
+        p5: quantile(0.05),
+        p95: quantile(0.95),
+        median: quantile(0.5),
       }
     }
 
     const financialStats = calculateStats(financialValues)
     const careerStats = calculateStats(careerValues)
     const lifestyleStats = calculateStats(lifestyleValues)
+    const riskAdjusted = UtilityModel.fromProfile(userProfile).evaluate(scenarios)
 
     // Calculate probability of success (positive outcome in all dimensions)
-    const successCount = scenarios.filter(
-      s =>
-        s.outcomes.year10.financialPosition.netWorth > 0 &&
-        s.outcomes.year10.careerProgress.jobSatisfaction > 6 &&
-        s.outcomes.year10.lifeMetrics.overallHappiness > 6
-    ).length
+    const successProbability = scenarios.reduce(
+      (sum, s, i) => (this.isSuccess(s) ? sum + weights[i] : sum),
+      0
+    )
 
     return {
       expectedValue: {
         financial: financialStats.mean,
         career: careerStats.mean,
         lifestyle: lifestyleStats.mean,
-        overall: (financialStats.mean / 100000 + careerStats.mean + lifestyleStats.mean) / 3,
+        overall: riskAdjusted.score,
       },
       volatility: {
         financial: financialStats.std / Math.abs(financialStats.mean),
@@ -674,17 +1347,22 @@ export class AdvancedSimulationEngine {
         confidence: 0.9,
       },
       riskScore: this.calculateRiskScore(scenarios),
-      probabilityOfSuccess: successCount / scenarios.length,
+      probabilityOfSuccess: successProbability,
       opportunityScore: this.calculateOpportunityScore(scenarios),
+      riskAdjusted,
+      goalProbabilities: this.goalAnalyzer.analyze(scenarios, userProfile.goals, startDate),
+      tailRisk: this.tailRiskAnalyzer.analyze(scenarios, userProfile),
     }
   }
 
   private generateRecommendations(
     scenarios: Scenario[],
     decision: Decision,
-    _option: DecisionOption
+    _option: DecisionOption,
+    baseRecommendations: Recommendation[] = [],
+    goalProbabilities: GoalProbability[] = []
   ): SimulationResult['recommendations'] {
-    const recommendations = []
+    const recommendations: Recommendation[] = []
 
     // Analyze scenarios to find patterns
     const _goodScenarios = scenarios.filter(
@@ -743,6 +1421,12 @@ export class AdvancedSimulationEngine {
       potentialImpact: 10,
     })
 
+    // Pay off loans vs invest, compared by the base engine on common random paths
+    recommendations.push(...baseRecommendations.filter(r => r.category === 'optimization'))
+
+    // Goals this option leaves underfunded
+    recommendations.push(...this.goalAnalyzer.recommend(goalProbabilities))
+
     return recommendations
   }
 
@@ -819,15 +1503,18 @@ export class AdvancedSimulationEngine {
 
   private calculateRiskScore(scenarios: Scenario[]): number {
     // Simple risk score based on downside probability and severity
-    const negativeOutcomes = scenarios.filter(s => s.outcomes.year10.financialPosition.netWorth < 0)
+    const weights = this.scenarioWeights(scenarios)
+    const negative = scenarios
+      .map((s, i) => ({
+        netWorth: s.outcomes.year10.financialPosition.netWorth,
+        weight: weights[i],
+      }))
+      .filter(o => o.netWorth < 0)
 
-    const downsideProbability = negativeOutcomes.length / scenarios.length
+    const downsideProbability = negative.reduce((sum, o) => sum + o.weight, 0)
     const avgDownside =
-      negativeOutcomes.length > 0
-        ? negativeOutcomes.reduce(
-            (sum, s) => sum + s.outcomes.year10.financialPosition.netWorth,
-            0
-          ) / negativeOutcomes.length
+      downsideProbability > 0
+        ? negative.reduce((sum, o) => sum + o.weight * o.netWorth, 0) / downsideProbability
         : 0
 
     // Risk score from 0-10
@@ -837,44 +1524,46 @@ export class AdvancedSimulationEngine {
 
   private calculateOpportunityScore(scenarios: Scenario[]): number {
     // Opportunity score based on upside potential
-    const positiveOutcomes = scenarios.filter(
-      s =>
-        s.outcomes.year10.financialPosition.netWorth > 100000 &&
-        s.outcomes.year10.careerProgress.jobSatisfaction > 7 &&
-        s.outcomes.year10.lifeMetrics.overallHappiness > 7
-    )
+    const weights = this.scenarioWeights(scenarios)
+    const positive = scenarios
+      .map((s, i) => ({ scenario: s, weight: weights[i] }))
+      .filter(
+        ({ scenario: s }) =>
+          s.outcomes.year10.financialPosition.netWorth > 100000 &&
+          s.outcomes.year10.careerProgress.jobSatisfaction > 7 &&
+          s.outcomes.year10.lifeMetrics.overallHappiness > 7
+      )
 
-    const upsideProbability = positiveOutcomes.length / scenarios.length
+    const upsideProbability = positive.reduce((sum, o) => sum + o.weight, 0)
     const avgUpside =
-      positiveOutcomes.length > 0
-        ? positiveOutcomes.reduce(
-            (sum, s) => sum + s.outcomes.year10.financialPosition.netWorth,
+      upsideProbability > 0
+        ? positive.reduce(
+            (sum, o) => sum + o.weight * o.scenario.outcomes.year10.financialPosition.netWorth,
             0
-          ) / positiveOutcomes.length
+          ) / upsideProbability
         : 0
 
     // Opportunity score from 0-10
     const opportunityScore = Math.min(10, upsideProbability * 10 + avgUpside / 100000)
     return Math.round(opportunityScore * 10) / 10
   }
+  // Positive outcome in all dimensions at year 10
+  private isSuccess(scenario: Scenario): boolean {
+    const year10 = scenario.outcomes.year10
+    return (
+      year10.financialPosition.netWorth > 0 &&
+      year10.careerProgress.jobSatisfaction > 6 &&
+      year10.lifeMetrics.overallHappiness > 6
+    )
+  }
 
-  private mapRegimeToCondition(regime: any): EconomicConditions['marketCondition'] {
-    switch (regime) {
-      case 'crisis':
-      case 'recession':
-        return 'recession'
-      case 'normal':
-        return 'stable'
-      case 'boom':
-        return 'boom'
-      case 'inflation':
-        return 'growth' // High inflation often comes with growth
-      default:
-        return 'stable'
-    }
+  // Scenario probabilities normalized to sum to one (uniform when all are zero)
+  private scenarioWeights(scenarios: Scenario[]): number[] {
+    const total = scenarios.reduce((sum, s) => sum + (s.probability ?? 0), 0)
+    return scenarios.map(s => (total > 0 ? (s.probability ?? 0) / total : 1 / scenarios.length))
   }
 
-  private mapRegimeToOutlook(regime: any): EconomicConditions['industryOutlook'] {
+  private mapRegimeToOutlook(regime: EconomicRegime): EconomicConditions['industryOutlook'] {
     switch (regime) {
       case 'crisis':
         return 'declining'
@@ -902,6 +1591,54 @@ interface SimulationConfig {
   useCopulas?: boolean
   reduceScenarios?: boolean
   runSensitivity?: boolean
+  projectionResolution?: ProjectionResolution
+  debtStrategy?: DebtPayoffStrategy
+  calibration?: string // name of a registered historical calibration
+  startDate?: string // ISO time goal horizons count from; defaults to now
+  varianceReduction?: VarianceReductionConfig
+  // Run in batches until reached instead of a fixed count; overrides useQMC, useMLMC
+  // and reduceScenarios
+  precision?: PrecisionTarget
+}
+
+interface PrecisionTarget {
+  tolerance: number // CI half-width: relative for expected net worth, absolute for probability of success
+  confidence?: number // 0.9, 0.95 or 0.99
+  timeBudgetMs?: number
+  initialScenarios?: number // rounded up to a power of two
+  maxScenarios?: number
+}
+
+interface AchievedPrecision {
+  converged: boolean
+  stopReason: 'tolerance' | 'timeBudget' | 'maxScenarios'
+  tolerance: number
+  confidence: number
+  scenarios: number
+  batches: number
+  elapsedMs: number
+  netWorth: { mean: number; halfWidth: number; relativeHalfWidth: number }
+  probabilityOfSuccess: { estimate: number; halfWidth: number }
+}
+
+interface ComparisonConfig {
+  scenarios?: number
+  horizon?: number
+  projectionResolution?: ProjectionResolution
+  debtStrategy?: DebtPayoffStrategy
+}
+
+interface ContingentPolicyConfig {
+  scenarios?: number
+  treeSize?: number // target leaves of the reduced scenario tree
+  continuationScenarios?: number // per follow-up option at each decision node
+  projectionResolution?: ProjectionResolution
+  debtStrategy?: DebtPayoffStrategy
+}
+
+interface ValueOfInformationConfig {
+  scenarios?: number // per option and plausible answer
+  estimatedFields?: string[] // answered profile paths that are only rough estimates
 }
 
 interface AdvancedSimulationResult extends SimulationResult {
@@ -912,8 +1649,10 @@ interface AdvancedSimulationResult extends SimulationResult {
     sensitivityAnalysis: SensitivityResult | null
     generationMethod: string
     generationMetadata: any
+    calibration: { name: string; source: string }
     reductionMetadata: any
     dataQuality: DataQualityAssessment
+    manifest: SimulationManifest
   }
 }
 
@@ -923,13 +1662,16 @@ interface SensitivityResult {
     importance: number
     firstOrder: number
     interactions: number
+    confidenceInterval: [number, number] // total-order index
+    significant: boolean // false when the confidence interval includes zero
   }>
-  sobolIndices: any
+  sobolIndices: SobolIndicesResult
   recommendation: string
 }
 
 interface MLMCSimulationResult {
   scenarios: Scenario[]
+  recommendations: Recommendation[]
   metadata: any
 }
 
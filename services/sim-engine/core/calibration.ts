@@ -0,0 +1,185 @@
+/**
+ * Historical calibration
+ * Fits marginal distributions and a vine copula to a historical dataset and
+ * keeps the fitted models in a registry engines can load by name
+ */
+
+import { BUNDLED_CALIBRATIONS } from '../src/data/calibrations'
+import { VineCopula, type VineCopulaSpec } from './copulas'
+import type { Distribution } from './qmc-engine'
+
+export class Calibrator {
+  /**
+   * Parse a historical CSV
+   *
+   * Lines starting with `#` are comments. Snake-case headers become camelCase
+   * variable names; a `_pct` suffix marks a percentage column, which is
+   * converted to a decimal (`inflation_pct` 3.2 → `inflation` 0.032). The
+   * `year` column is kept as the period index.
+   */
+  static parseCSV(text: string): HistoricalDataset {
+    const lines = text
+      .split(/\r?\n/)
+      .map(line => line.trim())
+      .filter(line => line.length > 0 && !line.startsWith('#'))
+    if (lines.length < 2) throw new Error('Historical dataset needs a header and at least one row')
+
+    const headers = lines[0].split(',').map(h => h.trim())
+    const yearIndex = headers.indexOf('year')
+    const columns = headers
+      .map((header, index) => ({ header, index }))
+      .filter(({ index }) => index !== yearIndex)
+
+    const dataset: HistoricalDataset = { years: [], series: {} }
+    for (const { header } of columns) dataset.series[Calibrator.variableName(header)] = []
+
+    for (const [row, line] of lines.slice(1).entries()) {
+      const cells = line.split(',')
+      if (cells.length !== headers.length) {
+        throw new Error(`Row ${row + 1} has ${cells.length} columns, expected ${headers.length}`)
+      }
+      if (yearIndex >= 0) dataset.years.push(Number(cells[yearIndex]))
+      for (const { header, index } of columns) {
+        const value = Number(cells[index])
+        if (!Number.isFinite(value)) {
+          throw new Error(`Row ${row + 1} has a non-numeric '${header}' value`)
+        }
+        dataset.series[Calibrator.variableName(header)].push(
+          header.endsWith('_pct') ? value / 100 : value
+        )
+      }
+    }
+
+    return dataset
+  }
+
+  /**
+   * Fit marginals and a vine copula to every series in the dataset
+   *
+   * Each marginal is the normal or lognormal distribution with the lower
+   * AIC (lognormal only for strictly positive series). Copula families are
+   * selected per vine edge by `VineCopula.fit`.
+   */
+  calibrate(name: string, dataset: HistoricalDataset, source: string): CalibrationModel {
+    const variables = Object.keys(dataset.series)
+    const observations = dataset.series[variables[0]]?.length ?? 0
+    if (variables.length < 2 || observations < 10) {
+      throw new Error('Calibration needs at least two series with ten observations each')
+    }
+
+    const copula = new VineCopula()
+    copula.fit(dataset.series)
+
+    return {
+      name,
+      source,
+      fittedAt: new Date().toISOString(),
+      observations,
+      period: dataset.years.length > 0 ? [dataset.years[0], dataset.years.at(-1)!] : undefined,
+      variables,
+      marginals: Object.fromEntries(
+        variables.map(variable => [variable, this.fitMarginal(dataset.series[variable])])
+      ),
+      copula: copula.toJSON(),
+    }
+  }
+
+  private fitMarginal(values: number[]): MarginalFit {
+    const n = values.length
+    const mean = values.reduce((sum, v) => sum + v, 0) / n
+    // Maximum-likelihood (biased) standard deviation, as AIC assumes the MLE
+    const std = Math.sqrt(values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / n)
+    const normal: MarginalFit = {
+      distribution: { type: 'normal', mean, std },
+      aic: 4 - 2 * this.normalLogLikelihood(values, mean, std),
+    }
+    if (values.some(v => v <= 0)) return normal
+
+    const logs = values.map(Math.log)
+    const logMean = logs.reduce((sum, v) => sum + v, 0) / n
+    const logStd = Math.sqrt(logs.reduce((sum, v) => sum + (v - logMean) ** 2, 0) / n)
+    // Lognormal density carries the 1/x Jacobian of the log transform
+    const logLikelihood =
+      this.normalLogLikelihood(logs, logMean, logStd) - logs.reduce((sum, v) => sum + v, 0)
+    const lognormal: MarginalFit = {
+      distribution: { type: 'lognormal', logMean, logStd },
+      aic: 4 - 2 * logLikelihood,
+    }
+
+    return lognormal.aic < normal.aic ? lognormal : normal
+  }
+
+  private normalLogLikelihood(values: number[], mean: number, std: number): number {
+    const variance = Math.max(1e-12, std * std)
+    return values.reduce(
+      (sum, v) => sum - 0.5 * Math.log(2 * Math.PI * variance) - (v - mean) ** 2 / (2 * variance),
+      0
+    )
+  }
+
+  private static variableName(header: string): string {
+    return header.replace(/_pct$/, '').replace(/_([a-z])/g, (_, c: string) => c.toUpperCase())
+  }
+}
+
+export class CalibrationRegistry {
+  private models = new Map<string, CalibrationModel>()
+
+  register(model: CalibrationModel): this {
+    this.models.set(model.name, model)
+    return this
+  }
+
+  /**
+   * Calibration registered under `name`
+   */
+  get(name: string): CalibrationModel {
+    const model = this.models.get(name)
+    if (!model) {
+      throw new Error(`Unknown calibration '${name}'. Available: ${this.names().join(', ')}`)
+    }
+    return model
+  }
+
+  names(): string[] {
+    return [...this.models.keys()]
+  }
+
+  /**
+   * Vine copula of a registered calibration, ready to transform samples
+   */
+  loadCopula(name: string): VineCopula {
+    return VineCopula.fromJSON(this.get(name).copula)
+  }
+
+  /**
+   * Registry with the calibrations bundled in `src/data/calibrations`
+   */
+  static createDefault(): CalibrationRegistry {
+    const registry = new CalibrationRegistry()
+    for (const model of BUNDLED_CALIBRATIONS) registry.register(model)
+    return registry
+  }
+}
+
+// Type definitions
+export interface HistoricalDataset {
+  years: number[]
+  series: Record<string, number[]>
+}
+
+export interface MarginalFit {
+  distribution: Distribution
+  aic: number
+}
+
+export interface CalibrationModel {
+  name: string
+  source: string
+  fittedAt: string // ISO timestamp
+  observations: number
+  period?: [number, number] // first and last year of the data
+  variables: string[] // copula variable order
+  marginals: Record<string, MarginalFit>
+  copula: VineCopulaSpec
+}
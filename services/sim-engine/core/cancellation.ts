@@ -0,0 +1,34 @@
+/**
+ * Cooperative cancellation for long-running simulation loops
+ *
+ * Loops call `check()` between units of work. Once the signal is aborted it
+ * throws the signal's reason (an AbortError unless the caller gave one).
+ * The loops are CPU bound, so an abort requested by I/O (a queue message, a
+ * closed request) only lands if they yield; `check()` hands control back to
+ * the event loop every few milliseconds while a signal is attached.
+ */
+
+export class CancellationCheckpoint {
+  private static readonly YIELD_INTERVAL_MS = 20
+
+  private signal?: AbortSignal
+  private lastYield: number
+
+  constructor(signal?: AbortSignal) {
+    this.signal = signal
+    this.lastYield = Date.now()
+  }
+
+  /**
+   * Throw if cancelled, yielding to the event loop first when due
+   */
+  async check(): Promise<void> {
+    if (!this.signal) return
+
+    if (Date.now() - this.lastYield >= CancellationCheckpoint.YIELD_INTERVAL_MS) {
+      await new Promise(resolve => setTimeout(resolve, 0))
+      this.lastYield = Date.now()
+    }
+    this.signal.throwIfAborted()
+  }
+}
@@ -9,6 +9,7 @@ export class VineCopula {
   private tree: VineTree
   private copulas: Map<string, BivariateCopula>
   private rng: PhiloxRNG
+  private samplingPlan?: SamplingStep[]
 
   constructor() {
     this.tree = { dimension: 0, variables: [], levels: [] }
@@ -16,6 +17,44 @@ export class VineCopula {
     this.rng = new PhiloxRNG('vine-copula')
   }
 
+  /**
+   * Restore a vine copula persisted with `toJSON`
+   */
+  static fromJSON(spec: VineCopulaSpec): VineCopula {
+    const vine = new VineCopula()
+    vine.tree = {
+      dimension: spec.variables.length,
+      variables: [...spec.variables],
+      levels: spec.levels.map(level => level.map(edge => ({ ...edge }))),
+    }
+    for (const pair of spec.pairs) {
+      vine.copulas.set(pair.edge, createBivariateCopula(pair.family, pair.parameters))
+    }
+    return vine
+  }
+
+  /**
+   * Serializable form of the fitted structure and pair copulas
+   */
+  toJSON(): VineCopulaSpec {
+    return {
+      variables: [...this.tree.variables],
+      levels: this.tree.levels.map(level => level.map(edge => ({ ...edge }))),
+      pairs: [...this.copulas.entries()].map(([edge, copula]) => ({
+        edge,
+        family: copula.family,
+        parameters: copula.parameters(),
+      })),
+    }
+  }
+
+  /**
+   * Variables in the order `transform` and `simulate` return them
+   */
+  get variables(): string[] {
+    return [...this.tree.variables]
+  }
+
   /**
    * Fit vine copula to historical data
    */
@@ -29,16 +68,14 @@ export class VineCopula {
     })
 
     const variables = Object.keys(data)
-    const _n = variables.length
 
     // Convert to uniform margins using empirical CDF
     const uniformData = this.toUniformMargins(data)
 
-    // Build vine structure using maximum spanning tree
+    // Build the vine tree by tree, fitting each edge's bivariate copula on the way
+    this.copulas = new Map()
+    this.samplingPlan = undefined
     this.tree = this.buildVineStructure(uniformData, variables)
-
-    // Fit bivariate copulas for each edge
-    this.fitBivariateCopulas(uniformData)
   }
 
   /**
@@ -89,6 +126,10 @@ export class VineCopula {
 
   /**
    * Build vine structure using Dissmann et al. algorithm
+   *
+   * Each tree is a maximum spanning tree on |tau|. A tree's pair copulas are
+   * fitted before the next tree is built, because that tree's pseudo-observations
+   * are their conditional distributions (h-functions).
    */
   private buildVineStructure(data: UniformData, variables: string[]): VineTree {
     console.log('[VineCopula] Building vine structure with variables:', variables)
@@ -107,8 +148,13 @@ export class VineCopula {
       levels: [],
     }
 
-    // Level 1: Build maximum spanning tree based on Kendall's tau
-    const edges: Edge[] = []
+    // F(variable | conditioning set) for every conditional a later tree may need
+    const pseudo = new Map<string, number[]>(
+      variables.map(variable => [conditionalKey(variable, []), data[variable]])
+    )
+
+    // Level 1: candidate edges between every pair of variables
+    let candidates: CandidateEdge[] = []
     for (let i = 0; i < n - 1; i++) {
       for (let j = i + 1; j < n; j++) {
         const var1 = variables[i]
@@ -120,30 +166,23 @@ export class VineCopula {
         }
 
         const tau = this.kendallsTau(data[var1], data[var2])
-        edges.push({
-          node1: var1,
-          node2: var2,
-          weight: Math.abs(tau),
-          tau,
+        candidates.push({
+          ends: [var1, var2],
+          edge: { node1: var1, node2: var2, conditioning: [], weight: Math.abs(tau), tau },
         })
       }
     }
 
-    // Sort by absolute tau (strongest dependencies first)
-    edges.sort((a, b) => b.weight - a.weight)
-
-    // Build maximum spanning tree using Kruskal's algorithm
-    const level1 = this.kruskal(edges, n)
-    console.log(`[VineCopula] Level 1 edges built: ${level1.length} edges`)
-    tree.levels.push(level1)
+    // Higher levels: the nodes of each tree are the edges of the one before
+    let nodes = n
+    while (candidates.length > 0) {
+      const level = this.kruskal(candidates, nodes)
+      for (const { edge } of level) this.fitPairCopula(edge, pseudo)
+      tree.levels.push(level.map(({ edge }) => edge))
+      console.log(`[VineCopula] Level ${tree.levels.length} edges built: ${level.length} edges`)
 
-    // Higher levels: Sequential tree construction
-    for (let level = 2; level < n; level++) {
-      console.log(`[VineCopula] Building tree level ${level}, prevLevel: ${level - 1}`)
-      console.log(`[VineCopula] Current tree levels length: ${tree.levels.length}`)
-      const nextLevel = this.buildNextTreeLevel(tree, level - 1, data)
-      if (nextLevel.length === 0) break
-      tree.levels.push(nextLevel)
+      candidates = this.nextLevelCandidates(level, pseudo)
+      nodes = level.length
     }
 
     return tree
@@ -152,9 +191,9 @@ export class VineCopula {
   /**
    * Kruskal's algorithm for maximum spanning tree
    */
-  private kruskal(edges: Edge[], n: number): Edge[] {
+  private kruskal(edges: CandidateEdge[], n: number): CandidateEdge[] {
     const parent = new Map<string, string>()
-    const mst: Edge[] = []
+    const mst: CandidateEdge[] = []
 
     // Initialize union-find
     const find = (x: string): string => {
@@ -174,9 +213,9 @@ export class VineCopula {
     }
 
     // Add edges in decreasing order of weight
-    for (const edge of edges) {
-      if (union(edge.node1, edge.node2)) {
-        mst.push(edge)
+    for (const candidate of [...edges].sort((a, b) => b.edge.weight - a.edge.weight)) {
+      if (union(...candidate.ends)) {
+        mst.push(candidate)
         if (mst.length === n - 1) break
       }
     }
@@ -185,91 +224,86 @@ export class VineCopula {
   }
 
   /**
-   * Build next level of vine tree
+   * Candidate edges of the next tree: pairs of edges sharing a node (proximity condition)
+   *
+   * Joining a|D with b|D gives the edge (a, b | D), where D is what the two
+   * constraint sets have in common.
    */
-  private buildNextTreeLevel(tree: VineTree, prevLevel: number, data: UniformData): Edge[] {
-    // Safety check: ensure previous level exists
-    if (!tree.levels[prevLevel] || tree.levels[prevLevel].length === 0) {
-      console.log(`[VineCopula] No edges at level ${prevLevel}, cannot build next level`)
-      return []
-    }
-
-    const prevEdges = tree.levels[prevLevel]
-    const edges: Edge[] = []
-
-    // Find edges that share a node in previous level
-    for (let i = 0; i < prevEdges.length - 1; i++) {
-      for (let j = i + 1; j < prevEdges.length; j++) {
-        const shared = this.getSharedNode(prevEdges[i], prevEdges[j])
-        if (shared) {
-          // Compute conditional data
-          const cond1 = this.computeConditional(prevEdges[i], data, tree)
-          const cond2 = this.computeConditional(prevEdges[j], data, tree)
-
-          const tau = this.kendallsTau(cond1, cond2)
-          edges.push({
-            node1: `${prevEdges[i].node1}|${prevEdges[i].node2}`,
-            node2: `${prevEdges[j].node1}|${prevEdges[j].node2}`,
-            weight: Math.abs(tau),
-            tau,
-            conditioning: shared,
-          })
-        }
+  private nextLevelCandidates(
+    level: CandidateEdge[],
+    pseudo: Map<string, number[]>
+  ): CandidateEdge[] {
+    const candidates: CandidateEdge[] = []
+
+    for (let i = 0; i < level.length - 1; i++) {
+      for (let j = i + 1; j < level.length; j++) {
+        const [first, second] = [level[i], level[j]]
+        if (!first.ends.some(end => second.ends.includes(end))) continue
+
+        const set1 = constraintSet(first.edge)
+        const set2 = constraintSet(second.edge)
+        const conditioning = set1.filter(v => set2.includes(v)).sort()
+        const node1 = set1.find(v => !set2.includes(v))!
+        const node2 = set2.find(v => !set1.includes(v))!
+
+        const tau = this.kendallsTau(
+          pseudo.get(conditionalKey(node1, conditioning))!,
+          pseudo.get(conditionalKey(node2, conditioning))!
+        )
+        candidates.push({
+          ends: [edgeKey(first.edge), edgeKey(second.edge)],
+          edge: { node1, node2, conditioning, weight: Math.abs(tau), tau },
+        })
       }
     }
 
-    return this.kruskal(edges, edges.length)
-  }
-
-  /**
-   * Get shared node between two edges
-   */
-  private getSharedNode(edge1: Edge, edge2: Edge): string | null {
-    if (edge1.node1 === edge2.node1 || edge1.node1 === edge2.node2) return edge1.node1
-    if (edge1.node2 === edge2.node1 || edge1.node2 === edge2.node2) return edge1.node2
-    return null
+    return candidates
   }
 
   /**
-   * Compute conditional data for vine construction
+   * Fit the copula of an edge and record the conditionals it passes to the next tree
    */
-  private computeConditional(edge: Edge, data: UniformData, _tree: VineTree): number[] {
-    // Simplified: return pseudo-observations
-    // In practice, use h-functions for conditioning
-    return data[edge.node1.split('|')[0]]
+  private fitPairCopula(edge: Edge, pseudo: Map<string, number[]>): void {
+    const u = pseudo.get(conditionalKey(edge.node1, edge.conditioning))!
+    const v = pseudo.get(conditionalKey(edge.node2, edge.conditioning))!
+    const copula = this.selectBivariateCopula(u, v)
+    this.copulas.set(edgeKey(edge), copula)
+
+    const given = (other: string) => [...edge.conditioning, other].sort()
+    pseudo.set(
+      conditionalKey(edge.node1, given(edge.node2)),
+      u.map((ui, i) => clampUnit(copula.conditional(ui, v[i])))
+    )
+    pseudo.set(
+      conditionalKey(edge.node2, given(edge.node1)),
+      v.map((vi, i) => clampUnit(copula.conditional(vi, u[i])))
+    )
   }
 
   /**
-   * Fit bivariate copulas for each edge
+   * Select the copula family with the lowest AIC
+   *
+   * Parameters come from inverting Kendall's tau; Clayton and Gumbel only
+   * model positive dependence, so they are candidates only when tau > 0.
    */
-  private fitBivariateCopulas(data: UniformData): void {
-    for (const level of this.tree.levels) {
-      for (const edge of level) {
-        // Select copula family based on dependence pattern
-        const copulaFamily = this.selectCopulaFamily(edge.tau!)
-
-        // Fit parameters
-        const copula = this.fitBivariateCopula(
-          copulaFamily,
-          data[edge.node1.split('|')[0]],
-          data[edge.node2.split('|')[0]]
-        )
-
-        this.copulas.set(`${edge.node1}-${edge.node2}`, copula)
+  private selectBivariateCopula(u: number[], v: number[]): BivariateCopula {
+    const tau = this.kendallsTau(u, v)
+    const families: CopulaFamily[] =
+      tau > 0 ? ['gaussian', 't', 'clayton', 'gumbel'] : ['gaussian', 't']
+
+    let best: { copula: BivariateCopula; aic: number } | null = null
+    for (const family of families) {
+      const copula = this.fitBivariateCopula(family, u, v)
+      const aic = 2 * copula.parameters().length - 2 * this.logLikelihood(copula, u, v)
+      if (Number.isFinite(aic) && (!best || aic < best.aic)) {
+        best = { copula, aic }
       }
     }
+    return best?.copula ?? new GaussianCopula(this.tauToRho(tau))
   }
 
-  /**
-   * Select appropriate copula family based on tau
-   */
-  private selectCopulaFamily(tau: number): CopulaFamily {
-    const absTau = Math.abs(tau)
-
-    if (absTau < 0.1) return 'gaussian'
-    if (tau > 0.5) return 'clayton' // Lower tail dependence
-    if (tau < -0.3) return 'gumbel' // Upper tail dependence
-    return 't' // Symmetric tail dependence
+  private logLikelihood(copula: BivariateCopula, u: number[], v: number[]): number {
+    return u.reduce((sum, ui, i) => sum + Math.log(Math.max(1e-300, copula.pdf(ui, v[i]))), 0)
   }
 
   /**
@@ -301,40 +335,101 @@ export class VineCopula {
 
   /**
    * Transform independent uniforms through vine
+   *
+   * Variables are sampled in the plan's order. Each one inverts the h-functions
+   * of its edges, from the highest tree down, given the variables sampled before it.
    */
   private vineTransform(independent: number[]): number[] {
-    const n = independent.length
-    const v = [...independent] // Working array
-    const result = new Array(n)
+    this.samplingPlan ??= this.buildSamplingPlan()
+    const result = new Array(this.tree.dimension)
+    const sampled = new Map<string, number>() // conditional key -> value
+
+    for (const { variable, index, edges } of this.samplingPlan) {
+      let w = independent[index]
+      for (let k = edges.length - 1; k >= 0; k--) {
+        const edge = edges[k]
+        const partner = edge.node1 === variable ? edge.node2 : edge.node1
+        const given = this.conditionalValue(partner, edge.conditioning, sampled)
+        // Every family is exchangeable, so one h-function serves both ends of an edge
+        w = clampUnit(this.copulas.get(edgeKey(edge))!.inverseConditional(w, given))
+      }
 
-    // R-vine transformation algorithm
-    result[0] = v[0]
+      sampled.set(conditionalKey(variable, []), w)
+      result[index] = w
+    }
+
+    return result
+  }
 
-    for (let i = 1; i < n; i++) {
-      result[i] = v[i]
+  /**
+   * F(variable | given) at the sampled values, by the recursion
+   * F(x | D) = h(F(x | D - p), F(p | D - p)) over the edge (x, p | D - p)
+   */
+  private conditionalValue(variable: string, given: string[], sampled: Map<string, number>) {
+    const key = conditionalKey(variable, given)
+    const cached = sampled.get(key)
+    if (cached !== undefined) return cached
+
+    for (const partner of given) {
+      const rest = given.filter(v => v !== partner)
+      const copula =
+        this.copulas.get(edgeKey({ node1: variable, node2: partner, conditioning: rest })) ??
+        this.copulas.get(edgeKey({ node1: partner, node2: variable, conditioning: rest }))
+      if (!copula) continue
+
+      const value = clampUnit(
+        copula.conditional(
+          this.conditionalValue(variable, rest, sampled),
+          this.conditionalValue(partner, rest, sampled)
+        )
+      )
+      sampled.set(key, value)
+      return value
+    }
 
-      // Apply conditional transformations
-      for (let k = i - 1; k >= 0; k--) {
-        const edge = this.findEdge(k, i)
-        const copula = this.copulas.get(edge)
+    throw new Error(`Vine copula has no edge giving ${key}`)
+  }
 
-        if (copula) {
-          v[i] = copula.conditional(v[i], v[k])
-        }
-      }
+  /**
+   * Order in which variables can be sampled one at a time
+   *
+   * Repeatedly peels off a variable that no remaining edge conditions on and
+   * whose edges each condition on the partners of the ones below them. Sampling
+   * runs in reverse, so a variable's edges only reach variables already sampled.
+   */
+  private buildSamplingPlan(): SamplingStep[] {
+    let edges = this.tree.levels.flat()
+    const remaining = [...this.tree.variables]
+    const plan: SamplingStep[] = []
+
+    while (remaining.length > 0) {
+      const variable = remaining.find(v => this.linkedEdges(v, edges) !== null)
+      if (!variable) throw new Error('Vine copula structure has no sampling order')
+
+      const linked = this.linkedEdges(variable, edges)!
+      plan.unshift({ variable, index: this.tree.variables.indexOf(variable), edges: linked })
+      edges = edges.filter(edge => !linked.includes(edge))
+      remaining.splice(remaining.indexOf(variable), 1)
     }
 
-    return result
+    return plan
   }
 
   /**
-   * Find edge identifier in vine structure
+   * Edges of a variable that can be peeled off, lowest tree first, or null if it can't be
    */
-  private findEdge(i: number, j: number): string {
-    // Simplified for demonstration
-    const var1 = this.tree.variables[i]
-    const var2 = this.tree.variables[j]
-    return `${var1}-${var2}`
+  private linkedEdges(variable: string, edges: Edge[]): Edge[] | null {
+    if (edges.some(edge => edge.conditioning.includes(variable))) return null
+
+    const linked = edges
+      .filter(edge => edge.node1 === variable || edge.node2 === variable)
+      .sort((a, b) => a.conditioning.length - b.conditioning.length)
+    const partners = linked.map(edge => (edge.node1 === variable ? edge.node2 : edge.node1))
+    const chained = linked.every(
+      (edge, k) => edgeKey(edge) === edgeKey({ ...edge, conditioning: partners.slice(0, k).sort() })
+    )
+
+    return chained ? linked : null
   }
 
   /**
@@ -371,10 +466,16 @@ export class VineCopula {
     return 1 / (1 - tau)
   }
 
-  private estimateTDegrees(_u: number[], _v: number[], _rho: number): number {
-    // Simplified: use fixed degrees of freedom
-    // In practice, use maximum likelihood
-    return 5
+  /**
+   * Degrees of freedom by profile likelihood over a grid, holding rho fixed
+   */
+  private estimateTDegrees(u: number[], v: number[], rho: number): number {
+    let best = { nu: 5, logLikelihood: Number.NEGATIVE_INFINITY }
+    for (const nu of [3, 4, 5, 7, 10, 15, 30]) {
+      const logLikelihood = this.logLikelihood(new TCopula(rho, nu), u, v)
+      if (logLikelihood > best.logLikelihood) best = { nu, logLikelihood }
+    }
+    return best.nu
   }
 }
 
@@ -382,20 +483,42 @@ export class VineCopula {
  * Base class for bivariate copulas
  */
 abstract class BivariateCopula {
+  abstract readonly family: CopulaFamily
+  abstract parameters(): number[]
   abstract cdf(u: number, v: number): number
   abstract pdf(u: number, v: number): number
   abstract conditional(u: number, v: number): number
   abstract simulate(n: number, rng: PhiloxRNG): [number[], number[]]
+
+  /**
+   * Inverse of `conditional` in its first argument, by bisection
+   */
+  inverseConditional(w: number, v: number): number {
+    let lower = 1e-10
+    let upper = 1 - 1e-10
+    for (let i = 0; i < 50; i++) {
+      const mid = (lower + upper) / 2
+      if (this.conditional(mid, v) < w) lower = mid
+      else upper = mid
+    }
+    return (lower + upper) / 2
+  }
 }
 
 /**
  * Gaussian copula
  */
 class GaussianCopula extends BivariateCopula {
+  readonly family = 'gaussian'
+
   constructor(private rho: number) {
     super()
   }
 
+  parameters(): number[] {
+    return [this.rho]
+  }
+
   cdf(u: number, v: number): number {
     const x = this.quantileNormal(u)
     const y = this.quantileNormal(v)
@@ -403,13 +526,14 @@ class GaussianCopula extends BivariateCopula {
   }
 
   pdf(u: number, v: number): number {
+    // Bivariate normal density divided by the product of its marginal densities
     const x = this.quantileNormal(u)
     const y = this.quantileNormal(v)
-    const factor = Math.sqrt(1 - this.rho * this.rho)
+    const r2 = this.rho * this.rho
 
     return (
-      Math.exp(-(x * x - 2 * this.rho * x * y + y * y) / (2 * factor * factor)) /
-      (2 * Math.PI * factor)
+      Math.exp(-(r2 * x * x - 2 * this.rho * x * y + r2 * y * y) / (2 * (1 - r2))) /
+      Math.sqrt(1 - r2)
     )
   }
 
@@ -420,6 +544,13 @@ class GaussianCopula extends BivariateCopula {
     return this.cdfNormal(z)
   }
 
+  inverseConditional(w: number, v: number): number {
+    const y = this.quantileNormal(v)
+    return this.cdfNormal(
+      this.rho * y + Math.sqrt(1 - this.rho * this.rho) * this.quantileNormal(w)
+    )
+  }
+
   simulate(n: number, rng: PhiloxRNG): [number[], number[]] {
     const u: number[] = []
     const v: number[] = []
@@ -536,10 +667,16 @@ class GaussianCopula extends BivariateCopula {
  * Clayton copula (lower tail dependence)
  */
 class ClaytonCopula extends BivariateCopula {
+  readonly family = 'clayton'
+
   constructor(private theta: number) {
     super()
   }
 
+  parameters(): number[] {
+    return [this.theta]
+  }
+
   cdf(u: number, v: number): number {
     return (u ** -this.theta + v ** -this.theta - 1) ** (-1 / this.theta)
   }
@@ -553,7 +690,7 @@ class ClaytonCopula extends BivariateCopula {
   }
 
   conditional(u: number, v: number): number {
-    return (1 + u ** -this.theta * (v ** -this.theta - 1)) ** (-1 - 1 / this.theta)
+    return (1 + v ** this.theta * (u ** -this.theta - 1)) ** (-1 - 1 / this.theta)
   }
 
   simulate(n: number, rng: PhiloxRNG): [number[], number[]] {
@@ -578,10 +715,16 @@ class ClaytonCopula extends BivariateCopula {
  * Gumbel copula (upper tail dependence)
  */
 class GumbelCopula extends BivariateCopula {
+  readonly family = 'gumbel'
+
   constructor(private theta: number) {
     super()
   }
 
+  parameters(): number[] {
+    return [this.theta]
+  }
+
   cdf(u: number, v: number): number {
     return Math.exp(
       -(((-Math.log(u)) ** this.theta + (-Math.log(v)) ** this.theta) ** (1 / this.theta))
@@ -595,7 +738,7 @@ class GumbelCopula extends BivariateCopula {
     const A = sum ** (1 / this.theta)
 
     const factor1 = (this.cdf(u, v) * (logu * logv) ** (this.theta - 1)) / (u * v)
-    const factor2 = A ** -this.theta / sum
+    const factor2 = sum ** (1 / this.theta - 2)
     const factor3 = this.theta - 1 + A
 
     return factor1 * factor2 * factor3
@@ -606,7 +749,7 @@ class GumbelCopula extends BivariateCopula {
     const logv = -Math.log(v)
     const sum = logu ** this.theta + logv ** this.theta
 
-    return this.cdf(u, v) * (logv / v) ** (this.theta - 1) * sum ** (1 / this.theta - 1)
+    return (this.cdf(u, v) * logv ** (this.theta - 1) * sum ** (1 / this.theta - 1)) / v
   }
 
   simulate(n: number, rng: PhiloxRNG): [number[], number[]] {
@@ -641,6 +784,8 @@ class GumbelCopula extends BivariateCopula {
  * Student's t copula (symmetric tail dependence)
  */
 class TCopula extends BivariateCopula {
+  readonly family = 't'
+
   constructor(
     private rho: number,
     private nu: number
@@ -648,6 +793,10 @@ class TCopula extends BivariateCopula {
     super()
   }
 
+  parameters(): number[] {
+    return [this.rho, this.nu]
+  }
+
   cdf(u: number, v: number): number {
     // Numerical integration required
     // Simplified implementation
@@ -884,21 +1033,75 @@ class TCopula extends BivariateCopula {
   }
 }
 
+function createBivariateCopula(family: CopulaFamily, parameters: number[]): BivariateCopula {
+  switch (family) {
+    case 'clayton':
+      return new ClaytonCopula(parameters[0])
+    case 'gumbel':
+      return new GumbelCopula(parameters[0])
+    case 't':
+      return new TCopula(parameters[0], parameters[1])
+    default:
+      return new GaussianCopula(parameters[0])
+  }
+}
+
+// Copula map key; the first tree keeps the plain `a-b` form
+function edgeKey(edge: Pick<Edge, 'node1' | 'node2' | 'conditioning'>): string {
+  const pair = `${edge.node1}-${edge.node2}`
+  return edge.conditioning.length > 0 ? `${pair}|${edge.conditioning.join(',')}` : pair
+}
+
+// Key of F(variable | given), with `given` sorted
+function conditionalKey(variable: string, given: string[]): string {
+  return `${variable}|${given.join(',')}`
+}
+
+// Conditioning variables plus the conditioned pair
+function constraintSet(edge: Edge): string[] {
+  return [edge.node1, edge.node2, ...edge.conditioning]
+}
+
+// Keeps h-function values off 0 and 1, where the normal and t quantiles diverge
+function clampUnit(u: number): number {
+  return Math.min(1 - 1e-10, Math.max(1e-10, u))
+}
+
 // Type definitions
+export interface VineCopulaSpec {
+  variables: string[]
+  levels: Edge[][]
+  pairs: { edge: string; family: CopulaFamily; parameters: number[] }[]
+}
+
 interface VineTree {
   dimension: number
   variables: string[]
   levels: Edge[][]
 }
 
+// Pair copula of node1 and node2 given the conditioning variables (none in the first tree)
 interface Edge {
   node1: string
   node2: string
+  conditioning: string[] // sorted
   weight: number
   tau?: number
-  conditioning?: string
+}
+
+// Edge while its tree is built, with the nodes it joins in that tree
+interface CandidateEdge {
+  ends: [string, string] // variables in the first tree, previous-tree edge keys after that
+  edge: Edge
+}
+
+// A variable and its edges to variables sampled before it, lowest tree first
+interface SamplingStep {
+  variable: string
+  index: number // position in `variables`
+  edges: Edge[]
 }
 
 type UniformData = { [key: string]: number[] }
 
-type CopulaFamily = 'gaussian' | 'clayton' | 'gumbel' | 't'
+export type CopulaFamily = 'gaussian' | 'clayton' | 'gumbel' | 't'
@@ -1,9 +1,12 @@
 import type {
   AggregateMetrics,
+  DebtPayoffStrategy,
   Decision,
   DecisionOption,
   EconomicConditions,
+  GoalProbability,
   KeyEvent,
+  Location,
   Opportunity,
   Recommendation,
   Risk,
@@ -14,7 +17,20 @@ import type {
 } from '@theguide/models'
 import { v4 as uuidv4 } from 'uuid'
 import { DataEnrichmentService } from '../src/data/data-enrichment'
-import { type RNG, SeededRNG } from './rng'
+import { GoalAnalyzer } from './goals'
+import { HouseholdModel, type HouseholdState, type UnemploymentSpell } from './household'
+import { LiabilityLedger } from './liabilities'
+import {
+  type OutcomeAdjustment,
+  type OutcomeModelContext,
+  OutcomeModelRegistry,
+} from './outcome-models'
+import { PortfolioModel, type PortfolioState } from './portfolio'
+import { RegimeSwitchingEconomy } from './regime-switching'
+import { type RNG, type ScenarioStreams, SeededRNG } from './rng'
+import { TailRiskAnalyzer } from './tail-risk'
+import { type FilingStatus, TaxEngine, type TaxModel } from './tax'
+import { UtilityModel } from './utility'
 
 /**
  * Monte Carlo simulation engine for decision analysis
@@ -26,16 +42,41 @@ import { type RNG, SeededRNG } from './rng'
 export class SimulationEngine {
   private static readonly SIMULATION_COUNT = 1000
   private static readonly TIME_HORIZONS = [1, 3, 5, 10]
+  private static readonly PROJECTION_YEARS = 10
+  private static readonly DEBT_COMPARISON_COUNT = 200
+  private static readonly DEFAULT_RETIREMENT_CONTRIBUTION_RATE = 0.05
+  // Share of taxable investment gains realized (and taxed) each year
+  private static readonly GAIN_REALIZATION_RATE = 0.25
+  private static readonly goalAnalyzer = new GoalAnalyzer()
+  private static readonly tailRiskAnalyzer = new TailRiskAnalyzer()
 
   private dataEnrichment: DataEnrichmentService
+  private outcomeModels: OutcomeModelRegistry
+  private taxModel: TaxModel
+  private economy: RegimeSwitchingEconomy
+  private portfolioModel: PortfolioModel
+  private householdModel: HouseholdModel
 
   /**
    * Creates a new simulation engine instance
    *
    * @param dataSources - Optional data sources for enrichment service
+   * @param outcomeModels - Decision-type-specific outcome models (defaults to the built-ins)
+   * @param taxModel - Tax rules applied to projected income (defaults to the latest bundled US table)
+   * @param economy - Regime-switching model that generates economic paths
    */
-  constructor(dataSources?: any) {
+  constructor(
+    dataSources?: any,
+    outcomeModels?: OutcomeModelRegistry,
+    taxModel?: TaxModel,
+    economy?: RegimeSwitchingEconomy
+  ) {
     this.dataEnrichment = new DataEnrichmentService(dataSources || {})
+    this.outcomeModels = outcomeModels ?? OutcomeModelRegistry.createDefault()
+    this.taxModel = taxModel ?? new TaxEngine()
+    this.economy = economy ?? new RegimeSwitchingEconomy()
+    this.portfolioModel = new PortfolioModel(this.economy)
+    this.householdModel = new HouseholdModel()
   }
 
   /**
@@ -48,17 +89,21 @@ export class SimulationEngine {
    * @param decision - The decision being analyzed
    * @param option - The specific option to simulate
    * @param partialProfile - User profile data (may be incomplete)
-   * @param seed - Optional seed for reproducible results
+   * @param seed - Seed for reproducible results; defaults to one derived from the decision and option
+   * @param options - Projection options (resolution, debt payoff strategy) and
+   *   whether to compare debt payoff strategies for the recommendations
    * @returns Complete simulation results with scenarios and metrics
    */
   async runSimulation(
     decision: Decision,
     option: DecisionOption,
     partialProfile: Partial<UserProfile>,
-    seed?: string
+    seed?: string,
+    options: SimulationRunOptions = {}
   ): Promise<SimulationResult> {
     // Create seeded RNG for reproducibility
-    const rng = new SeededRNG(seed || `${decision.id}-${option.id}-${Date.now()}`)
+    const seedKey = seed || `${decision.id}-${option.id}`
+    const rng = new SeededRNG(seedKey)
 
     // Assess data quality and enrich profile
     const dataQuality = this.assessDataQuality(partialProfile, decision.type)
@@ -69,14 +114,35 @@ export class SimulationEngine {
       SimulationEngine.SIMULATION_COUNT,
       dataQuality.completeness
     )
-    const scenarios = this.generateScenarios(decision, option, userProfile, rng, iterationCount)
+    const settings: Required<ProjectionOptions> = {
+      resolution: options.resolution ?? 'annual',
+      debtStrategy: SimulationEngine.resolveDebtStrategy(option, userProfile, options),
+    }
+    const scenarios = this.generateScenarios(
+      decision,
+      option,
+      userProfile,
+      rng,
+      iterationCount,
+      settings
+    )
 
     // Normalize probabilities
     this.normalizeScenarioProbabilities(scenarios)
 
     // Calculate weighted metrics
-    const aggregateMetrics = this.calculateAggregateMetrics(scenarios, dataQuality)
-    const recommendations = SimulationEngine.generateRecommendations(scenarios, option, userProfile)
+    const aggregateMetrics = this.calculateAggregateMetrics(scenarios, dataQuality, userProfile)
+    const debtComparison =
+      (options.compareDebtStrategies ?? true)
+        ? this.compareDebtStrategies(decision, option, userProfile, seedKey, settings)
+        : null
+    const recommendations = SimulationEngine.generateRecommendations(
+      scenarios,
+      option,
+      userProfile,
+      debtComparison,
+      aggregateMetrics.goalProbabilities
+    )
     const risks = SimulationEngine.identifyRisks(scenarios, option)
     const opportunities = SimulationEngine.identifyOpportunities(scenarios, option)
 
@@ -101,183 +167,448 @@ export class SimulationEngine {
     option: DecisionOption,
     userProfile: UserProfile,
     rng: RNG,
-    count: number
+    count: number,
+    settings: Required<ProjectionOptions>
   ): Scenario[] {
     const scenarios: Scenario[] = []
+    // One sequential stream feeds every draw; runs are not paired across options
+    const streams: ScenarioStreams = { economy: rng, idiosyncratic: rng }
 
     for (let i = 0; i < count; i++) {
-      const economicConditions = this.generateEconomicConditions(rng)
-      const outcomes = this.projectOutcomes(decision, option, userProfile, economicConditions, rng)
-      const keyEvents = this.generateKeyEvents(economicConditions, rng)
-
-      scenarios.push({
-        id: uuidv4(),
-        probability: 1 / count, // Initial uniform probability
-        economicConditions,
-        outcomes,
-        keyEvents,
-        assumptions: this.getAssumptions(economicConditions),
-      })
+      scenarios.push(this.generateScenario(decision, option, userProfile, streams, count, settings))
     }
 
     return scenarios
   }
 
   /**
-   * Generate random but realistic economic conditions
+   * Simulate several options of one decision on common random numbers
+   *
+   * Scenario i of every option is driven by its own replay of streams i. The
+   * regime path and market returns come from the economy stream alone, so all
+   * options face the same economic conditions and market path however many
+   * idiosyncratic draws they make, and the differences between them reflect
+   * the options rather than sampling noise.
+   *
+   * @param streamAt - Returns fresh streams for a scenario index; the same index must replay the same streams
+   * @param economy - Economy regime paths are drawn from, e.g. an importance-sampling proposal; probabilities stay uniform for the caller to reweight
+   * @returns One scenario list per option, aligned by scenario index
    */
-  private generateEconomicConditions(rng: RNG): EconomicConditions {
-    // Use historical distributions and correlations
-    const marketRand = rng.next()
-    let marketCondition: EconomicConditions['marketCondition']
-    let gdpGrowth: number
-    let inflationRate: number
-    let unemploymentRate: number
-
-    if (marketRand < 0.1) {
-      // Recession (10% probability)
-      marketCondition = 'recession'
-      gdpGrowth = rng.normal(-2, 1)
-      inflationRate = rng.normal(1, 0.5)
-      unemploymentRate = rng.normal(8, 2)
-    } else if (marketRand < 0.25) {
-      // Downturn (15% probability)
-      marketCondition = 'downturn'
-      gdpGrowth = rng.normal(0.5, 0.5)
-      inflationRate = rng.normal(2, 0.5)
-      unemploymentRate = rng.normal(5.5, 1)
-    } else if (marketRand < 0.75) {
-      // Stable (50% probability)
-      marketCondition = 'stable'
-      gdpGrowth = rng.normal(2.5, 0.5)
-      inflationRate = rng.normal(2.5, 0.5)
-      unemploymentRate = rng.normal(4, 0.5)
-    } else if (marketRand < 0.9) {
-      // Growth (15% probability)
-      marketCondition = 'growth'
-      gdpGrowth = rng.normal(3.5, 0.5)
-      inflationRate = rng.normal(3, 0.5)
-      unemploymentRate = rng.normal(3.5, 0.5)
-    } else {
-      // Boom (10% probability)
-      marketCondition = 'boom'
-      gdpGrowth = rng.normal(4.5, 0.5)
-      inflationRate = rng.normal(3.5, 0.5)
-      unemploymentRate = rng.normal(3, 0.5)
-    }
+  async runOnCommonPaths(
+    decision: Decision,
+    options: DecisionOption[],
+    partialProfile: Partial<UserProfile>,
+    streamAt: (scenarioIndex: number) => ScenarioStreams,
+    count: number,
+    projection: ProjectionOptions = {},
+    economy: RegimeSwitchingEconomy = this.economy
+  ): Promise<Scenario[][]> {
+    const userProfile = await this.enrichUserProfile(partialProfile, decision.type)
+
+    return options.map(option => {
+      const settings: Required<ProjectionOptions> = {
+        resolution: projection.resolution ?? 'annual',
+        debtStrategy: SimulationEngine.resolveDebtStrategy(option, userProfile, projection),
+      }
+      const scenarios: Scenario[] = []
+      for (let i = 0; i < count; i++) {
+        scenarios.push(
+          this.generateScenario(
+            decision,
+            option,
+            userProfile,
+            streamAt(i),
+            count,
+            settings,
+            economy
+          )
+        )
+      }
+      this.normalizeScenarioProbabilities(scenarios)
+      return scenarios
+    })
+  }
 
-    const industryOutlook = SimulationEngine.determineIndustryOutlook(marketCondition, rng)
+  /**
+   * Draw an economic regime path and project one scenario along it
+   */
+  private generateScenario(
+    decision: Decision,
+    option: DecisionOption,
+    userProfile: UserProfile,
+    streams: ScenarioStreams,
+    count: number,
+    settings: Required<ProjectionOptions>,
+    economy: RegimeSwitchingEconomy = this.economy
+  ): Scenario {
+    const regimePath = economy.generatePath(SimulationEngine.PROJECTION_YEARS, streams.economy)
+    const economicConditions = RegimeSwitchingEconomy.summarize(regimePath)
+    const { outcomes, keyEvents } = this.projectOutcomes(
+      decision,
+      option,
+      userProfile,
+      regimePath,
+      streams,
+      settings
+    )
 
     return {
-      gdpGrowth,
-      inflationRate,
-      unemploymentRate,
-      marketCondition,
-      industryOutlook,
+      id: uuidv4(),
+      probability: 1 / count, // Initial uniform probability
+      economicConditions,
+      regimePath,
+      outcomes,
+      keyEvents,
+      assumptions: this.getAssumptions(economicConditions),
     }
   }
 
   /**
-   * Project outcomes for different time horizons
+   * Project outcomes year by year
+   *
+   * Runs a path-dependent state machine: each year starts from the previous
+   * year's salary, balances and employment status, so a layoff or crash in
+   * one year carries into every later year. With monthly resolution each year
+   * is stepped in twelve periods, which changes the timing of cash flows and
+   * unemployment spells but not the annual return draw. Decision types with a
+   * registered outcome model layer their own cash flows and balances on top.
+   * Debts are serviced from a liability ledger; the payoff strategy only moves
+   * cash and never draws from the RNG, so strategies compare on identical paths.
+   * Each year sees the economic conditions of its regime on the path; market
+   * returns come from the economy stream and every other draw from the
+   * idiosyncratic one.
    */
   private projectOutcomes(
     decision: Decision,
     option: DecisionOption,
     userProfile: UserProfile,
-    economicConditions: EconomicConditions,
-    rng: RNG
-  ): Scenario['outcomes'] {
-    const outcomes: any = {}
-    let previousFinancials = SimulationEngine.calculateBaselineFinancials(userProfile)
+    regimePath: EconomicConditions[],
+    streams: ScenarioStreams,
+    settings: Required<ProjectionOptions>
+  ): { outcomes: Scenario['outcomes']; keyEvents: KeyEvent[] } {
+    const periodsPerYear = settings.resolution === 'monthly' ? 12 : 1
+    const yearly: YearlyOutcome[] = []
+    const keyEvents: KeyEvent[] = []
+    const context: OutcomeModelContext = {
+      decision,
+      option,
+      userProfile,
+      economicConditions: regimePath[0],
+    }
+    let state = this.createInitialState(context, streams.idiosyncratic)
+
+    for (let year = 1; year <= SimulationEngine.PROJECTION_YEARS; year++) {
+      const step = this.projectYear(
+        year,
+        periodsPerYear,
+        settings.debtStrategy,
+        { ...context, economicConditions: regimePath[year - 1] },
+        state,
+        streams
+      )
+      yearly.push(step.outcome)
+      keyEvents.push(...step.events)
+      state = step.state
+    }
 
-    // Project for each time horizon
+    const outcomes: any = { yearly }
     for (const horizon of SimulationEngine.TIME_HORIZONS) {
-      const yearOutcome = this.projectYear(
-        horizon,
-        decision,
-        option,
-        userProfile,
-        economicConditions,
-        previousFinancials,
-        rng
-      )
-      outcomes[`year${horizon}`] = yearOutcome
-      previousFinancials = yearOutcome.financialPosition
+      outcomes[`year${horizon}`] = yearly[horizon - 1]
     }
 
-    return outcomes
+    return { outcomes, keyEvents }
   }
 
   /**
-   * Project outcomes for a specific year
+   * Advance the projection state by one year
    */
   private projectYear(
     year: number,
-    decision: Decision,
-    option: DecisionOption,
-    userProfile: UserProfile,
-    economicConditions: EconomicConditions,
-    previousFinancials: any,
-    rng: RNG
-  ): YearlyOutcome {
-    // Income projection based on decision type and economic conditions
-    let income = userProfile.career.salary
-
-    if (
-      (decision.type === 'career_change' || decision.type === 'job_offer') &&
-      option.parameters?.newSalary
-    ) {
-      income = option.parameters.newSalary as number
-    }
+    periodsPerYear: number,
+    debtStrategy: DebtPayoffStrategy,
+    context: OutcomeModelContext,
+    previous: ProjectionState,
+    streams: ScenarioStreams
+  ): { outcome: YearlyOutcome; state: ProjectionState; events: KeyEvent[] } {
+    const { decision, option, userProfile, economicConditions } = context
+    const rng = streams.idiosyncratic
+    const events: KeyEvent[] = []
 
-    // Apply wage growth with randomness
+    // Wage growth compounds on last year's salary, not on the baseline
     const wageInflation = economicConditions.inflationRate / 100
     const baseCareerGrowth = this.calculateCareerGrowthRate(userProfile, economicConditions)
 
     // Add random variation to growth rate (-2% to +2%)
     const growthVariation = (rng.uniform(0, 1) - 0.5) * 0.04
-    const careerGrowthRate = baseCareerGrowth + growthVariation
-    const totalGrowthRate = wageInflation + careerGrowthRate
+    const totalGrowthRate = wageInflation + baseCareerGrowth + growthVariation
+    let salary = previous.salary * (1 + totalGrowthRate)
+
+    // Let the decision's outcome model adjust this year's cash flows
+    let modelState = previous.modelState
+    let adjustment: OutcomeAdjustment = {}
+    const model = this.outcomeModels.get(decision.type)
+    if (model) {
+      const step = model.projectYear(context, previous.modelState, year, rng)
+      modelState = step.state
+      adjustment = step.adjustment
+      events.push(...(adjustment.events ?? []))
+    }
+    salary *= adjustment.salaryMultiplier ?? 1
+    const incomeShare = adjustment.incomeShare ?? 1
+
+    // Random promotion chance (15% per year after year 2) while fully employed
+    let promotions = previous.promotions
+    if (incomeShare === 1 && year > 2 && rng.uniform(0, 1) < 0.15) {
+      promotions++
+      salary *= rng.uniform(1.05, 1.15)
+      events.push({
+        year,
+        type: 'promotion',
+        description: 'Promotion with a salary increase',
+        impact: 'positive',
+      })
+    }
 
-    income = income * (1 + totalGrowthRate) ** year
+    // Unemployment: finish a spell carried over from last year, or draw a new layoff
+    let unemployment: UnemploymentSpell | null = null
+    let carryoverMonths = 0
+    if (previous.monthsUnemployed > 0) {
+      const months = Math.min(12, previous.monthsUnemployed)
+      unemployment = { start: 0, end: months }
+      carryoverMonths = previous.monthsUnemployed - months
+    } else if (
+      incomeShare === 1 &&
+      rng.uniform(0, 1) < SimulationEngine.layoffProbability(economicConditions)
+    ) {
+      const start = Math.floor(rng.uniform(0, 12))
+      const duration = Math.round(rng.uniform(2, 9))
+      unemployment = { start, end: Math.min(12, start + duration) }
+      carryoverMonths = start + duration - unemployment.end
 
-    // Calculate expenses with inflation and random variation
-    const monthlyExpenses = this.getMonthlyExpenses(userProfile)
+      // Re-employment usually comes at a discount to the previous salary
+      salary *= rng.uniform(0.85, 1.0)
+      events.push({
+        year,
+        type: 'layoff',
+        description: `Job loss with ${duration} months out of work`,
+        impact: 'negative',
+        financialImpact: -(salary * duration) / 12,
+      })
+    }
+    const monthsUnemployed = unemployment ? unemployment.end - unemployment.start : 0
+
+    // A partner's career runs alongside, with its own layoffs in the same economy
+    const household = previous.household
+    const partner =
+      household &&
+      this.householdModel.projectPartner(
+        household,
+        year,
+        economicConditions,
+        SimulationEngine.layoffProbability(economicConditions),
+        rng
+      )
+    events.push(...(partner?.events ?? []))
+    const partnerWages = partner
+      ? partner.salary *
+        partner.share *
+        ((12 - SimulationEngine.idleMonths(partner.unemployment, 0, 12)) / 12)
+      : 0
+
+    // Expenses grow with inflation from last year's level, plus yearly noise.
+    // Dependents' costs follow their ages on top of what the baseline covers
+    const priceLevel = previous.priceLevel * (1 + economicConditions.inflationRate / 100)
+    const dependentCosts =
+      household && this.householdModel.dependentCosts(household.plan, year, priceLevel)
+    events.push(...(dependentCosts?.events ?? []))
+    const expenseLevel = previous.expenseLevel * (1 + economicConditions.inflationRate / 100)
     const expenseVariation = 1 + (rng.uniform(0, 1) - 0.5) * 0.2 // +/- 10% variation
     const expenses =
-      monthlyExpenses * 12 * expenseVariation * (1 + economicConditions.inflationRate / 100) ** year
+      expenseLevel * expenseVariation * (adjustment.expenseMultiplier ?? 1) +
+      (adjustment.additionalExpenses ?? 0) +
+      (dependentCosts?.change ?? 0)
 
     // Add unexpected expenses occasionally (20% chance per year)
-    const unexpectedExpenses = rng.uniform(0, 1) < 0.2 ? income * rng.uniform(0.05, 0.15) : 0
+    const unexpectedExpenses = rng.uniform(0, 1) < 0.2 ? salary * rng.uniform(0.05, 0.15) : 0
     const totalExpenses = expenses + unexpectedExpenses
 
-    // Savings calculation
-    const savings = income - totalExpenses
-
-    // Investment returns on investable assets only
-    const investableAssets =
-      previousFinancials.netWorth - (userProfile.financial.assets.cash ?? 20000)
-    const baseReturn = this.calculateInvestmentReturn(economicConditions, rng)
-
-    // Add market volatility
-    const volatilityMultiplier = 1 + (rng.uniform(0, 1) - 0.5) * 0.3 // +/- 15% volatility
-    const investmentReturn = baseReturn * volatilityMultiplier
-    const investmentGains = Math.max(0, investableAssets) * investmentReturn
+    // Annual market return from this year's regime; a crisis year is a crash.
+    // Investment and retirement decisions hold a multi-asset portfolio instead
+    const regime = RegimeSwitchingEconomy.regimeOf(economicConditions)
+    const portfolio = previous.portfolio
+    const assetReturns =
+      portfolio && this.portfolioModel.drawReturns(economicConditions, streams.economy)
+    const annualReturn = assetReturns?.stocks ?? this.economy.drawReturn(regime, streams.economy)
+    if (regime === 'crisis' && annualReturn < 0) {
+      events.push({
+        year,
+        type: 'market_crash',
+        description: 'Major market downturn affecting investments',
+        impact: 'negative',
+        financialImpact: previous.investments * annualReturn,
+      })
+    }
+    const periodReturn = (1 + annualReturn) ** (1 / periodsPerYear) - 1
+
+    // Taxes on the year's regular income are withheld pro rata as it is earned;
+    // pre-tax retirement deferrals come out of each paycheck
+    const taxProfile = SimulationEngine.getTaxProfile(context)
+    const regularWages = salary * incomeShare * ((12 - monthsUnemployed) / 12)
+    const otherIncome = adjustment.additionalIncome ?? 0
+
+    // Scheduled portfolio contributions are made from months with a paycheck;
+    // traditional ones are extra pre-tax deferrals, the rest come from cash
+    const scheduled =
+      portfolio && regularWages > 0
+        ? this.portfolioModel.contribution(portfolio.plan, year, priceLevel) *
+          ((12 - monthsUnemployed) / 12)
+        : 0
+    const extraDeferral = portfolio?.plan.contributionAccount === 'traditional' ? scheduled : 0
+    const afterTaxContribution = scheduled - extraDeferral
+
+    const regularTax = this.taxModel.calculate({
+      wages: regularWages,
+      spouseWages: partnerWages,
+      otherIncome,
+      pretaxContributions: regularWages * taxProfile.contributionRate + extraDeferral,
+      filingStatus: taxProfile.filingStatus,
+      state: taxProfile.state,
+      priceLevel,
+    })
+    const householdIncome = regularWages + partnerWages + otherIncome
+    const withholdingRate = householdIncome > 0 ? regularTax.total / householdIncome : 0
+    const deferralRate = regularWages > 0 ? regularTax.pretaxContributions / regularWages : 0
+
+    // Step through the periods of the year, moving cash between balances.
+    // Debt service is paid on top of living expenses.
+    let { cash, investments, retirement, roth } = previous
+    let weights = portfolio?.weights
+    let portfolioGrowth = 1
+    const liabilities = previous.liabilities.clone()
+    let earned = 0
+    let investmentGain = 0
+    let interestPaid = adjustment.interestPaid ?? 0
+    let withdrawals = 0
+    const periodMonths = 12 / periodsPerYear
+    for (let period = 0; period < periodsPerYear; period++) {
+      const periodStart = period * periodMonths
+      const idleMonths = SimulationEngine.idleMonths(unemployment, periodStart, periodMonths)
+      const periodWages = (salary / periodsPerYear) * incomeShare * (1 - idleMonths / periodMonths)
+      const periodPartnerWages = partner
+        ? (partner.salary / periodsPerYear) *
+          partner.share *
+          (1 -
+            SimulationEngine.idleMonths(partner.unemployment, periodStart, periodMonths) /
+              periodMonths)
+        : 0
+      const periodIncome = periodWages + periodPartnerWages + otherIncome / periodsPerYear
+      const periodDeferral = periodWages * deferralRate
+      earned += periodIncome
+
+      let growth = periodReturn
+      if (assetReturns && weights) {
+        const grown = this.portfolioModel.grow(weights, assetReturns, periodsPerYear)
+        weights = grown.weights
+        growth = grown.periodReturn
+      }
+      portfolioGrowth *= 1 + growth
+
+      investmentGain += investments * growth
+      investments += investments * growth
+      retirement += retirement * growth + periodDeferral
+      roth += roth * growth
+      const serviced = liabilities.advance(periodMonths)
+      interestPaid += serviced.interest
+      cash +=
+        periodIncome * (1 - withholdingRate) -
+        periodDeferral -
+        totalExpenses / periodsPerYear -
+        serviced.paid
+
+      // Contributions go in with each paycheck, as far as cash allows
+      if (afterTaxContribution > 0 && periodWages > 0) {
+        const contributed = Math.min(
+          (afterTaxContribution * periodWages) / regularWages,
+          Math.max(0, cash)
+        )
+        cash -= contributed
+        if (portfolio?.plan.contributionAccount === 'roth') roth += contributed
+        else investments += contributed
+      }
 
-    // Bonus income (10% chance)
-    const bonusIncome = rng.uniform(0, 1) < 0.1 ? income * rng.uniform(0.1, 0.3) : 0
+      // Surplus above the reserve goes to debt first unless paying minimums only
+      if (cash > previous.cashReserve) {
+        cash -= liabilities.prepay(cash - previous.cashReserve, debtStrategy)
+      }
 
-    const netWorth = previousFinancials.netWorth + savings + investmentGains + bonusIncome
+      const settled = SimulationEngine.settleCash(
+        { cash, investments, retirement, roth },
+        previous.cashReserve
+      )
+      ;({ cash, investments, retirement, roth } = settled)
+      liabilities.borrow(settled.borrowed)
+      withdrawals += settled.withdrawn
+    }
 
-    // Career progression with random events
+    // Bonus income (10% chance, only in years with a full paycheck)
+    const bonusIncome =
+      monthsUnemployed === 0 && incomeShare === 1 && rng.uniform(0, 1) < 0.1
+        ? salary * rng.uniform(0.1, 0.3)
+        : 0
+
+    // Year-end settlement: tax on the bonus and on realized investment gains,
+    // including gains the decision's model realized (e.g. startup exit proceeds).
+    // Traditional withdrawals are ordinary income; those made to settle last
+    // year's bill are taxed this year
+    const wages = regularWages + bonusIncome
+    const modelGains = adjustment.capitalGains ?? 0
+    const yearTax = this.taxModel.calculate({
+      wages,
+      spouseWages: partnerWages,
+      otherIncome: otherIncome + withdrawals + previous.untaxedWithdrawals,
+      pretaxContributions: wages * taxProfile.contributionRate + extraDeferral,
+      capitalGains:
+        Math.max(0, investmentGain) * SimulationEngine.GAIN_REALIZATION_RATE + modelGains,
+      filingStatus: taxProfile.filingStatus,
+      state: taxProfile.state,
+      priceLevel,
+    })
+    const bonusDeferral = yearTax.pretaxContributions - regularTax.pretaxContributions
+    retirement += bonusDeferral
+    investments += bonusIncome - bonusDeferral + modelGains
+    const settled = SimulationEngine.settleCash(
+      { cash: cash - (yearTax.total - regularTax.total), investments, retirement, roth },
+      previous.cashReserve
+    )
+    ;({ cash, investments, retirement, roth } = settled)
+    liabilities.borrow(settled.borrowed)
+
+    const income = earned + bonusIncome + modelGains
+    const taxes = yearTax.total
+    const netIncome = income - taxes
+    // Interest on ledger debts is a cost on top of expenses; model interest is already in them
+    const savings = netIncome - totalExpenses - (interestPaid - (adjustment.interestPaid ?? 0))
+    const modelAssets = adjustment.assetValue ?? previous.modelAssets
+    const modelLiabilities = adjustment.liabilityBalance ?? previous.modelLiabilities
+    const debt = liabilities.balance + modelLiabilities
+    // Property appreciates only where the portfolio model prices it
+    const otherAssets = assetReturns
+      ? previous.otherAssets * (1 + assetReturns.realEstate)
+      : previous.otherAssets
+    const netWorth = cash + investments + retirement + roth + otherAssets + modelAssets - debt
+
+    // Year-end rebalancing, which also steps the glide path to next year's target
+    const nextPortfolio: PortfolioState | null =
+      portfolio && weights
+        ? { ...portfolio, weights: this.portfolioModel.rebalance(weights, portfolio.plan, year) }
+        : null
+
+    // Career progression accumulates promotions on top of experience
     const experience = userProfile.career.yearsExperience + year
-
-    // Random promotion chance (15% per year after year 2)
-    const promotionBonus = year > 2 && rng.uniform(0, 1) < 0.15 ? 1 : 0
-    const seniorityLevel = Math.min(10, Math.floor(experience / 3) + promotionBonus)
+    const seniorityLevel = Math.min(10, Math.floor(experience / 3) + promotions)
 
     // Market value varies more widely
-    const marketValue = income * rng.uniform(0.9, 1.25)
+    const marketValue = salary * rng.uniform(0.9, 1.25)
 
     // Extract impact values safely
     const impactValues = this.extractImpactValues(option)
@@ -287,9 +618,13 @@ export class SimulationEngine {
       Math.min(10, baseJobSatisfaction + (rng.uniform(0, 1) - 0.5) * 2)
     )
 
-    // Life metrics with more variation
+    // Life metrics with more variation; time out of work adds stress
     const baseStress = this.calculateStress(decision, impactValues, economicConditions, year, rng)
-    const stress = Math.max(1, Math.min(10, baseStress + (rng.uniform(0, 1) - 0.5) * 2))
+    const unemploymentStress = monthsUnemployed > 0 ? 1.5 : 0
+    const stress = Math.max(
+      1,
+      Math.min(10, baseStress + unemploymentStress + (rng.uniform(0, 1) - 0.5) * 2)
+    )
 
     const baseBalance = this.calculateWorkLifeBalance(decision, impactValues, year, rng)
     const workLifeBalance = Math.max(1, Math.min(10, baseBalance + (rng.uniform(0, 1) - 0.5) * 1.5))
@@ -303,15 +638,70 @@ export class SimulationEngine {
     const healthScore = Math.max(1, Math.min(10, 10 - stress * 0.2 + (rng.uniform(0, 1) - 0.5)))
 
     return {
-      year,
-      financialPosition: { netWorth, income, expenses, savings },
-      careerProgress: {
-        role: (option.parameters?.newRole as string) || userProfile.career.currentRole,
-        seniorityLevel,
-        marketValue,
-        jobSatisfaction,
+      outcome: {
+        year,
+        financialPosition: {
+          netWorth,
+          income,
+          expenses: totalExpenses,
+          savings,
+          grossIncome: income,
+          taxes,
+          netIncome,
+          liquidAssets: cash + investments,
+          debt,
+          interestPaid,
+          ...(nextPortfolio && {
+            portfolio: {
+              allocation: nextPortfolio.weights,
+              return: portfolioGrowth - 1,
+              accounts: { taxable: investments, traditional: retirement, roth },
+              realEstate: otherAssets,
+            },
+          }),
+          ...(dependentCosts && {
+            household: {
+              partnerIncome: partnerWages,
+              dependentCosts: dependentCosts.total,
+              dependents: dependentCosts.count,
+            },
+          }),
+        },
+        careerProgress: {
+          role: (option.parameters?.newRole as string) || userProfile.career.currentRole,
+          seniorityLevel,
+          marketValue,
+          salary,
+          jobSatisfaction,
+        },
+        lifeMetrics: { overallHappiness, stress, workLifeBalance, healthScore },
+      },
+      state: {
+        ...previous,
+        salary,
+        expenseLevel,
+        cash,
+        investments,
+        retirement,
+        roth,
+        untaxedWithdrawals: settled.withdrawn,
+        priceLevel,
+        otherAssets,
+        portfolio: nextPortfolio,
+        household: household &&
+          partner && {
+            ...household,
+            partnerSalary: partner.salary,
+            partnerMonthsUnemployed: partner.carryoverMonths,
+          },
+        liabilities,
+        promotions,
+        monthsUnemployed: carryoverMonths,
+        modelState,
+        modelAssets,
+        modelLiabilities,
       },
-      lifeMetrics: { overallHappiness, stress, workLifeBalance, healthScore },
+      events,
     }
   }
 
@@ -319,28 +709,7 @@ export class SimulationEngine {
    * Normalize scenario probabilities
    */
   private normalizeScenarioProbabilities(scenarios: Scenario[]): void {
-    // Adjust based on market condition likelihood
-    scenarios.forEach(scenario => {
-      let adjustment = 1.0
-      switch (scenario.economicConditions.marketCondition) {
-        case 'recession':
-          adjustment = 0.8
-          break
-        case 'downturn':
-          adjustment = 0.9
-          break
-        case 'stable':
-          adjustment = 1.2
-          break
-        case 'growth':
-          adjustment = 1.0
-          break
-        case 'boom':
-          adjustment = 0.7
-          break
-      }
-      scenario.probability *= adjustment
-    })
+    // Regime frequencies already follow the Markov chain, so no market reweighting
 
     // Normalize to sum to 1
     const sum = scenarios.reduce((a, s) => a + s.probability, 0)
@@ -354,7 +723,8 @@ export class SimulationEngine {
    */
   private calculateAggregateMetrics(
     scenarios: Scenario[],
-    dataQuality: DataQuality
+    dataQuality: DataQuality,
+    userProfile: UserProfile
   ): AggregateMetrics {
     // Extract values and weights
     const weights = scenarios.map(s => s.probability)
@@ -366,7 +736,10 @@ export class SimulationEngine {
     const expectedFinancial = this.weightedMean(financialValues, weights)
     const expectedCareer = this.weightedMean(careerValues, weights)
     const expectedLifestyle = this.weightedMean(lifestyleValues, weights)
-    const expectedOverall = (expectedFinancial / 100000 + expectedCareer + expectedLifestyle) / 3
+    const blendedOverall = (expectedFinancial / 100000 + expectedCareer + expectedLifestyle) / 3
+
+    // Overall value is scored against the user's own risk attitude and preferences
+    const riskAdjusted = UtilityModel.fromProfile(userProfile).evaluate(scenarios)
 
     // Weighted volatility
     const financialVolatility =
@@ -395,14 +768,14 @@ export class SimulationEngine {
 
     // Risk and opportunity scores
     const riskScore = Math.min(10, financialVolatility * 10 * uncertaintyMultiplier)
-    const opportunityScore = Math.min(10, expectedOverall * 2)
+    const opportunityScore = Math.min(10, blendedOverall * 2)
 
     return {
       expectedValue: {
         financial: expectedFinancial,
         career: expectedCareer,
         lifestyle: expectedLifestyle,
-        overall: expectedOverall,
+        overall: riskAdjusted.score,
       },
       volatility: {
         financial: financialVolatility * uncertaintyMultiplier,
@@ -417,6 +790,13 @@ export class SimulationEngine {
       },
       riskScore,
       opportunityScore,
+      riskAdjusted,
+      goalProbabilities: SimulationEngine.goalAnalyzer.analyze(
+        scenarios,
+        userProfile.goals,
+        new Date()
+      ),
+      tailRisk: SimulationEngine.tailRiskAnalyzer.analyze(scenarios, userProfile),
     }
   }
 
@@ -426,7 +806,9 @@ export class SimulationEngine {
   private static generateRecommendations(
     scenarios: Scenario[],
     _option: DecisionOption,
-    userProfile: UserProfile
+    userProfile: UserProfile,
+    debtComparison: Record<DebtPayoffStrategy, number> | null = null,
+    goalProbabilities: GoalProbability[] = []
   ): Recommendation[] {
     const recommendations: Recommendation[] = []
 
@@ -474,6 +856,52 @@ export class SimulationEngine {
       })
     }
 
+    // Pay off loans vs invest: compare the payoff strategies on common paths
+    if (debtComparison) {
+      const invested = debtComparison.minimum
+      const prepay: DebtPayoffStrategy =
+        debtComparison.avalanche >= debtComparison.snowball ? 'avalanche' : 'snowball'
+      const difference = debtComparison[prepay] - invested
+      const potentialImpact = Math.round(
+        (Math.abs(difference) / Math.max(1, Math.abs(invested))) * 100
+      )
+
+      if (potentialImpact >= 1 && difference > 0) {
+        recommendations.push({
+          id: uuidv4(),
+          priority: potentialImpact >= 5 ? 'high' : 'medium',
+          category: 'optimization',
+          title: 'Pay Down Debt Before Investing',
+          description: `Putting surplus cash toward debt ends year 10 about $${Math.round(difference).toLocaleString()} ahead of investing it`,
+          actions: [
+            prepay === 'avalanche'
+              ? 'Direct extra payments to the highest-rate balance first'
+              : 'Direct extra payments to the smallest balance first',
+            'Keep making minimum payments on every other debt',
+            'Resume investing the surplus once the debt is cleared',
+          ],
+          potentialImpact,
+        })
+      } else if (potentialImpact >= 1) {
+        recommendations.push({
+          id: uuidv4(),
+          priority: 'medium',
+          category: 'optimization',
+          title: 'Invest Surplus Instead of Prepaying Debt',
+          description: `Your debt costs less than expected market returns; investing the surplus ends year 10 about $${Math.round(-difference).toLocaleString()} ahead`,
+          actions: [
+            'Keep making minimum payments on schedule',
+            'Invest surplus cash above your emergency fund',
+            'Revisit if interest rates on your debt rise',
+          ],
+          potentialImpact,
+        })
+      }
+    }
+
+    // Goals this option leaves underfunded
+    recommendations.push(...SimulationEngine.goalAnalyzer.recommend(goalProbabilities))
+
     return recommendations
   }
 
@@ -564,56 +992,199 @@ export class SimulationEngine {
   }
 
   /**
-   * Determines the industry outlook based on market conditions
-   *
-   * Uses a probabilistic approach where market conditions influence
-   * the likelihood of different industry outlooks. Uses RNG for
-   * deterministic randomness.
-   *
-   * @param marketCondition - Current market condition (recession/downturn/stable/growth/boom)
-   * @param rng - Random number generator instance
-   * @returns Industry outlook (declining/stable/growing/booming)
-   * @private
-   * @static
+   * Build the year-0 projection state from the profile and chosen option
    */
-  private static determineIndustryOutlook(
-    marketCondition: EconomicConditions['marketCondition'],
-    rng: RNG
-  ): EconomicConditions['industryOutlook'] {
-    const rand = rng.uniform(0, 1)
-    switch (marketCondition) {
-      case 'recession':
-        return rand < 0.7 ? 'declining' : 'stable'
-      case 'downturn':
-        return rand < 0.5 ? 'declining' : rand < 0.9 ? 'stable' : 'growing'
-      case 'stable':
-        return rand < 0.1
-          ? 'declining'
-          : rand < 0.7
-            ? 'stable'
-            : rand < 0.95
-              ? 'growing'
-              : 'booming'
-      case 'growth':
-        return rand < 0.3 ? 'stable' : rand < 0.8 ? 'growing' : 'booming'
-      case 'boom':
-        return rand < 0.4 ? 'growing' : 'booming'
+  private createInitialState(context: OutcomeModelContext, rng: RNG): ProjectionState {
+    const { decision, option, userProfile } = context
+    const { assets } = userProfile.financial
+
+    let salary = userProfile.career.salary
+    if (
+      (decision.type === 'career_change' || decision.type === 'job_offer') &&
+      option.parameters?.newSalary
+    ) {
+      salary = option.parameters.newSalary as number
     }
-  }
 
-  private static calculateBaselineFinancials(userProfile: UserProfile) {
-    const totalAssets = Object.values(userProfile.financial.assets).reduce((a, b) => a + b, 0)
-    const totalLiabilities = Object.values(userProfile.financial.liabilities).reduce(
-      (a, b) => a + b,
-      0
+    const initialCash = assets.cash ?? 20000
+    const cashReserve = Math.max(0, initialCash)
+
+    // Upfront costs of the decision (down payment, startup capital) come out of savings
+    const model = this.outcomeModels.get(decision.type)
+    const initialized = model?.initialize(context, rng)
+    const { borrowed, withdrawn, ...balances } = SimulationEngine.settleCash(
+      {
+        cash: initialCash - (initialized?.upfrontCost ?? 0),
+        investments: assets.investments + assets.other,
+        retirement: assets.retirement,
+        roth: 0,
+      },
+      cashReserve
     )
+    const liabilities = LiabilityLedger.fromProfile(userProfile.financial)
+    liabilities.borrow(borrowed)
+    const portfolioPlan = PortfolioModel.appliesTo(decision.type)
+      ? this.portfolioModel.createPlan(context)
+      : null
+    const household = this.householdModel.createPlan(context, rng)
+
+    return {
+      salary,
+      expenseLevel: this.getMonthlyExpenses(userProfile) * 12,
+      ...balances,
+      cashReserve,
+      untaxedWithdrawals: withdrawn,
+      priceLevel: 1,
+      otherAssets: assets.realEstate,
+      portfolio: portfolioPlan && {
+        plan: portfolioPlan,
+        weights: this.portfolioModel.target(portfolioPlan, 1),
+      },
+      household,
+      liabilities,
+      promotions: 0,
+      monthsUnemployed: 0,
+      modelState: initialized?.state,
+      modelAssets: 0,
+      modelLiabilities: 0,
+    }
+  }
+
+  /**
+   * Cover a cash shortfall from taxable investments, then the traditional
+   * retirement bucket, then Roth, and report what must still be borrowed;
+   * sweep cash above the reserve into investments. The traditional amount
+   * drawn is reported so it can be taxed as income
+   */
+  private static settleCash(
+    balances: AccountBalances,
+    cashReserve: number
+  ): AccountBalances & { borrowed: number; withdrawn: number } {
+    const { cash, investments, retirement, roth } = balances
+    if (cash < 0) {
+      const fromInvestments = Math.min(investments, -cash)
+      const withdrawn = Math.min(retirement, -cash - fromInvestments)
+      const fromRoth = Math.min(roth, -cash - fromInvestments - withdrawn)
+      return {
+        cash: 0,
+        investments: investments - fromInvestments,
+        retirement: retirement - withdrawn,
+        roth: roth - fromRoth,
+        borrowed: Math.max(0, -cash - fromInvestments - withdrawn - fromRoth),
+        withdrawn,
+      }
+    }
+    if (cash > cashReserve) {
+      return {
+        ...balances,
+        cash: cashReserve,
+        investments: investments + cash - cashReserve,
+        borrowed: 0,
+        withdrawn: 0,
+      }
+    }
+    return { ...balances, borrowed: 0, withdrawn: 0 }
+  }
+
+  /**
+   * Filing status, state of residence and retirement deferral rate; a
+   * relocation or job in another state moves the income to that state
+   */
+  private static getTaxProfile(context: OutcomeModelContext): {
+    filingStatus: FilingStatus
+    state?: string
+    contributionRate: number
+  } {
+    const { option, userProfile } = context
+    const newLocation = option.parameters?.newLocation as Location | undefined
+
     return {
-      netWorth: totalAssets - totalLiabilities,
-      income: userProfile.career.salary,
-      expenses:
-        Object.values(userProfile.financial.monthlyExpenses).reduce((a, b) => a + b, 0) * 12,
-      savings: userProfile.career.salary * (userProfile.financial.savingsRate / 100),
+      filingStatus: userProfile.demographics?.maritalStatus === 'married' ? 'married' : 'single',
+      state: newLocation?.state ?? userProfile.demographics?.location?.state,
+      contributionRate:
+        userProfile.financial.retirementContributionRate ??
+        SimulationEngine.DEFAULT_RETIREMENT_CONTRIBUTION_RATE,
+    }
+  }
+
+  /**
+   * Pick the payoff strategy: explicit option, then the decision option's
+   * parameters, then the profile, defaulting to minimum payments
+   */
+  private static resolveDebtStrategy(
+    option: DecisionOption,
+    userProfile: UserProfile,
+    options: ProjectionOptions
+  ): DebtPayoffStrategy {
+    return (
+      options.debtStrategy ??
+      (option.parameters?.debtStrategy as DebtPayoffStrategy | undefined) ??
+      userProfile.financial.debtStrategy ??
+      'minimum'
+    )
+  }
+
+  /**
+   * Expected year-10 net worth under each payoff strategy
+   *
+   * Every strategy is run from the same seed, so differences come from where
+   * surplus cash goes and not from sampling noise. Returns null when the
+   * profile carries no debt.
+   */
+  private compareDebtStrategies(
+    decision: Decision,
+    option: DecisionOption,
+    userProfile: UserProfile,
+    seed: string,
+    settings: Required<ProjectionOptions>
+  ): Record<DebtPayoffStrategy, number> | null {
+    if (LiabilityLedger.fromProfile(userProfile.financial).balance <= 0) return null
+
+    const strategies: DebtPayoffStrategy[] = ['avalanche', 'snowball', 'minimum']
+    const comparison = {} as Record<DebtPayoffStrategy, number>
+    for (const debtStrategy of strategies) {
+      const scenarios = this.generateScenarios(
+        decision,
+        option,
+        userProfile,
+        new SeededRNG(`${seed}-debt`),
+        SimulationEngine.DEBT_COMPARISON_COUNT,
+        { ...settings, debtStrategy }
+      )
+      comparison[debtStrategy] =
+        scenarios.reduce((sum, s) => sum + s.outcomes.year10.financialPosition.netWorth, 0) /
+        scenarios.length
     }
+    return comparison
+  }
+
+  /**
+   * Annual probability of a layoff given the economy and industry
+   */
+  private static layoffProbability(economicConditions: EconomicConditions): number {
+    const industryFactor = {
+      declining: 1.5,
+      stable: 1,
+      growing: 0.7,
+      booming: 0.5,
+    }[economicConditions.industryOutlook]
+
+    return Math.min(0.5, Math.max(0, (economicConditions.unemploymentRate / 100) * industryFactor))
+  }
+
+  /**
+   * Months of an unemployment spell that fall within a period of the year
+   */
+  private static idleMonths(
+    spell: UnemploymentSpell | null,
+    periodStart: number,
+    periodMonths: number
+  ): number {
+    if (!spell) return 0
+    return Math.max(
+      0,
+      Math.min(periodStart + periodMonths, spell.end) - Math.max(periodStart, spell.start)
+    )
   }
 
   private calculateCareerGrowthRate(
@@ -646,36 +1217,20 @@ export class SimulationEngine {
     return baseGrowth
   }
 
-  private calculateInvestmentReturn(economicConditions: EconomicConditions, rng: RNG): number {
-    const baseReturn = 0.07
-    const volatility = 0.15
-
-    let meanReturn: number
-    switch (economicConditions.marketCondition) {
-      case 'recession':
-        meanReturn = baseReturn - 0.15
-        break
-      case 'downturn':
-        meanReturn = baseReturn - 0.05
-        break
-      case 'stable':
-        meanReturn = baseReturn
-        break
-      case 'growth':
-        meanReturn = baseReturn + 0.05
-        break
-      case 'boom':
-        meanReturn = baseReturn + 0.1
-        break
-    }
-
-    return rng.normal(meanReturn, volatility)
-  }
-
   // Moved to earlier in the file
 
   // Methods for data quality assessment and enrichment
 
+  /**
+   * Profile fields a decision type relies on that the profile leaves empty
+   */
+  getMissingFields(profile: Partial<UserProfile>, decisionType: Decision['type']): RequiredField[] {
+    return this.getRequiredFields(decisionType).filter(field => {
+      const value = this.getNestedValue(profile, field.path)
+      return value === undefined || value === null
+    })
+  }
+
   private assessDataQuality(
     profile: Partial<UserProfile>,
     decisionType: Decision['type']
@@ -760,6 +1315,13 @@ export class SimulationEngine {
           { path: 'financial.creditScore', critical: false }
         )
         break
+      case 'relocation':
+      case 'family_planning':
+        base.push(
+          { path: 'demographics.maritalStatus', critical: false },
+          { path: 'demographics.dependents', critical: false }
+        )
+        break
     }
 
     return base
@@ -976,33 +1538,6 @@ export class SimulationEngine {
     return Math.max(1, Math.min(10, balance))
   }
 
-  private generateKeyEvents(economicConditions: EconomicConditions, rng: RNG): KeyEvent[] {
-    const events: KeyEvent[] = []
-
-    // Market-based events
-    if (economicConditions.marketCondition === 'recession' && rng.uniform(0, 1) < 0.3) {
-      events.push({
-        year: Math.floor(rng.uniform(1, 11)),
-        type: 'market_crash',
-        description: 'Major market downturn affecting investments',
-        impact: 'negative',
-        financialImpact: -50000,
-      })
-    }
-
-    // Career events
-    if (economicConditions.industryOutlook === 'booming' && rng.uniform(0, 1) < 0.4) {
-      events.push({
-        year: Math.floor(rng.uniform(2, 8)),
-        type: 'promotion',
-        description: 'Promotion opportunity due to industry growth',
-        impact: 'positive',
-      })
-    }
-
-    return events
-  }
-
   // Statistical utility methods
   private weightedMean(values: number[], weights: number[]): number {
     if (values.length !== weights.length || values.length === 0) return 0
@@ -1067,7 +1602,7 @@ export class SimulationEngine {
 }
 
 // Type definitions
-interface RequiredField {
+export interface RequiredField {
   path: string
   critical: boolean
 }
@@ -1077,3 +1612,46 @@ interface DataQuality {
   criticalCompleteness: number
   confidence: 'high' | 'medium' | 'low'
 }
+
+export type ProjectionResolution = 'annual' | 'monthly'
+
+export interface ProjectionOptions {
+  resolution?: ProjectionResolution
+  /** Overrides the option's and profile's debt payoff strategy */
+  debtStrategy?: DebtPayoffStrategy
+}
+
+export interface SimulationRunOptions extends ProjectionOptions {
+  /**
+   * Re-project the option under each debt payoff strategy to recommend one
+   * (default true). Callers that only read aggregate metrics, such as
+   * sensitivity analysis, turn it off.
+   */
+  compareDebtStrategies?: boolean
+}
+
+// Cash and the account buckets a shortfall can be drawn from
+interface AccountBalances {
+  cash: number
+  investments: number // taxable brokerage and other liquid assets
+  retirement: number // tax-deferred; pre-tax contributions land here
+  roth: number // tax-free growth; after-tax Roth contributions land here
+}
+
+// Balances and status carried from one projected year into the next
+interface ProjectionState extends AccountBalances {
+  salary: number
+  expenseLevel: number
+  cashReserve: number
+  untaxedWithdrawals: number // traditional withdrawals made at last year-end, taxed this year
+  priceLevel: number // cumulative inflation, used to index tax thresholds
+  otherAssets: number
+  portfolio: PortfolioState | null // asset mix for investment and retirement decisions
+  household: HouseholdState | null // partner's income and dependents
+  liabilities: LiabilityLedger
+  promotions: number
+  monthsUnemployed: number
+  modelState: unknown
+  modelAssets: number
+  modelLiabilities: number
+}
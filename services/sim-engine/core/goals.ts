@@ -0,0 +1,137 @@
+/**
+ * Goal-achievement analysis
+ * Probability that each of the user's goals can be funded by its target date
+ */
+
+import type {
+  Goal,
+  GoalProbability,
+  Goals,
+  Recommendation,
+  Scenario,
+  YearlyOutcome,
+} from '@theguide/models'
+
+export class GoalAnalyzer {
+  private static readonly MS_PER_YEAR = 365.25 * 24 * 60 * 60 * 1000
+
+  // Minimum funding probability before a goal is flagged, by priority
+  private static readonly AT_RISK_THRESHOLDS: Record<Goal['priority'], number> = {
+    critical: 0.9,
+    high: 0.75,
+    medium: 0.6,
+    low: 0.5,
+  }
+
+  /**
+   * Estimate the funding probability of every goal with a cost
+   *
+   * Goals are funded in target-date order from liquid assets, so a goal only
+   * counts as funded when the scenario also covers every goal due before it.
+   * Costs are in today's dollars and inflate with each scenario's inflation
+   * rate; goals due after the projection horizon are evaluated at its end.
+   *
+   * @param scenarios - Simulated scenarios with year-by-year outcomes
+   * @param goals - The user's goals
+   * @param startDate - Date the projection starts from
+   */
+  analyze(
+    scenarios: Scenario[],
+    goals: Partial<Goals> | undefined,
+    startDate: Date
+  ): GoalProbability[] {
+    const pending = [
+      ...(goals?.shortTerm ?? []),
+      ...(goals?.mediumTerm ?? []),
+      ...(goals?.longTerm ?? []),
+    ]
+      .filter(goal => goal.estimatedCost > 0 && goal.progress < 100)
+      .map(goal => ({ goal, years: this.yearsUntil(goal.targetDate, startDate) }))
+      .sort((a, b) => a.years - b.years)
+    if (pending.length === 0 || scenarios.length === 0) return []
+
+    const weights = this.normalizeWeights(scenarios.map(s => s.probability))
+    const horizon = Math.max(1, scenarios[0].outcomes.yearly?.length ?? 10)
+
+    return pending.map(({ goal, years }, index) => {
+      const targetYear = Math.min(horizon, Math.max(1, Math.ceil(years)))
+      const due = pending.slice(0, index + 1)
+
+      let probability = 0
+      let requiredFunds = 0
+      scenarios.forEach((scenario, i) => {
+        const inflation = scenario.economicConditions.inflationRate / 100
+        const required = due.reduce(
+          (sum, d) => sum + this.remainingCost(d.goal) * (1 + inflation) ** Math.max(0, d.years),
+          0
+        )
+        requiredFunds += required * weights[i]
+
+        const position = this.outcomeAt(scenario, targetYear).financialPosition
+        if ((position.liquidAssets ?? position.netWorth) >= required) {
+          probability += weights[i]
+        }
+      })
+
+      return {
+        goalId: goal.id,
+        title: goal.title,
+        priority: goal.priority,
+        targetYear,
+        requiredFunds,
+        probability: Math.min(1, probability),
+        atRisk: probability < GoalAnalyzer.AT_RISK_THRESHOLDS[goal.priority],
+      }
+    })
+  }
+
+  /**
+   * Recommendations for goals whose funding probability is below threshold
+   */
+  recommend(goalProbabilities: GoalProbability[] = []): Recommendation[] {
+    return goalProbabilities
+      .filter(g => g.atRisk)
+      .map(g => ({
+        id: `goal-${g.goalId}`,
+        priority: g.priority === 'critical' || g.priority === 'high' ? 'high' : 'medium',
+        category: 'risk_mitigation',
+        title: `"${g.title}" Is At Risk`,
+        description: `Only a ${Math.round(g.probability * 100)}% chance of having $${Math.round(g.requiredFunds).toLocaleString()} available by year ${g.targetYear} under this option`,
+        actions: [
+          'Raise your monthly savings toward this goal',
+          'Push the target date back or reduce the budget',
+          'Defer lower-priority goals that are due earlier',
+        ],
+        potentialImpact: Math.round(
+          (GoalAnalyzer.AT_RISK_THRESHOLDS[g.priority] - g.probability) * 100
+        ),
+      }))
+  }
+
+  private yearsUntil(targetDate: Date | string, startDate: Date): number {
+    const target = new Date(targetDate).getTime()
+    if (Number.isNaN(target)) return 0
+    return (target - startDate.getTime()) / GoalAnalyzer.MS_PER_YEAR
+  }
+
+  private remainingCost(goal: Goal): number {
+    return goal.estimatedCost * (1 - Math.max(0, goal.progress) / 100)
+  }
+
+  private outcomeAt(scenario: Scenario, year: number): YearlyOutcome {
+    const { outcomes } = scenario
+    if (outcomes.yearly?.[year - 1]) return outcomes.yearly[year - 1]
+    // Without a yearly series, use the latest snapshot on or before the target year
+    if (year >= 10) return outcomes.year10
+    if (year >= 5) return outcomes.year5
+    if (year >= 3) return outcomes.year3
+    return outcomes.year1
+  }
+
+  private normalizeWeights(probabilities: number[]): number[] {
+    const total = probabilities.reduce((sum, p) => sum + p, 0)
+    return total > 0
+      ? probabilities.map(p => p / total)
+      : probabilities.map(() => 1 / probabilities.length)
+  }
+}
@@ -0,0 +1,229 @@
+/**
+ * Household model
+ * A partner's income with its own career risk, and the cost of dependents as
+ * they move through childcare, school and college
+ */
+
+import type { DecisionType, Demographics, EconomicConditions, KeyEvent } from '@theguide/models'
+import type { OutcomeModelContext } from './outcome-models'
+import type { RNG } from './rng'
+
+export class HouseholdModel {
+  // Decision types whose options add dependents, one unless the option says otherwise
+  static readonly FAMILY_DECISION_TYPES: DecisionType[] = ['family', 'family_planning']
+  // Age assumed for dependents whose age the profile doesn't give
+  private static readonly DEFAULT_DEPENDENT_AGE = 8
+  // Real pay growth of the partner's career, before yearly noise
+  private static readonly PARTNER_CAREER_GROWTH = 0.02
+  // Months a partner spends finding work after a move without a job lined up
+  private static readonly JOB_SEARCH_MONTHS: [number, number] = [2, 8]
+
+  /**
+   * Household at the start of the projection, or null for a single earner
+   * without dependents
+   *
+   * A relocating partner keeps earning only with work lined up
+   * (`spouseEmployment`); otherwise they start with a job search, or stop
+   * working when the option says so. Only that job search draws from the RNG.
+   */
+  createPlan(context: OutcomeModelContext, rng: RNG): HouseholdState | null {
+    const { decision, option, userProfile } = context
+    const params = option.parameters ?? {}
+    const demographics: Partial<Demographics> = userProfile.demographics ?? {}
+
+    const ages = demographics.dependentAges ?? []
+    const existing = Array.from(
+      { length: demographics.dependents ?? ages.length },
+      (_, i) => ages[i] ?? HouseholdModel.DEFAULT_DEPENDENT_AGE
+    )
+    const added = Math.max(
+      0,
+      Math.round(
+        params.newDependents ??
+          (HouseholdModel.FAMILY_DECISION_TYPES.includes(decision.type) ? 1 : 0)
+      )
+    )
+    const dependentYear = Math.max(1, params.dependentYear ?? 1)
+
+    let partnerSalary =
+      demographics.maritalStatus === 'married' ? Math.max(0, demographics.partnerIncome ?? 0) : 0
+    let partnerMonthsUnemployed = 0
+    if (decision.type === 'relocation' && demographics.maritalStatus === 'married') {
+      partnerSalary =
+        params.spouseEmployment === false ? 0 : Math.max(0, params.spouseSalary ?? partnerSalary)
+      if (params.spouseEmployment === undefined && partnerSalary > 0) {
+        const [low, high] = HouseholdModel.JOB_SEARCH_MONTHS
+        partnerMonthsUnemployed = Math.round(rng.uniform(low, high))
+      }
+    }
+
+    if (partnerSalary <= 0 && existing.length === 0 && added === 0) return null
+
+    // Ages in year 1; children yet to arrive start below zero
+    const dependents = [...existing, ...Array.from({ length: added }, () => 1 - dependentYear)]
+    const plan: HouseholdPlan = {
+      dependents,
+      arrivals: added > 0 ? { year: dependentYear, count: added } : null,
+      partnerShare:
+        params.partnerIncomeShare !== undefined
+          ? { fromYear: dependentYear, share: Math.min(1, Math.max(0, params.partnerIncomeShare)) }
+          : null,
+      tuition: {
+        childcare: params.childcareCost,
+        school: params.schoolingCosts,
+      },
+      // Living expenses in the profile already cover today's dependents at today's ages
+      baselineCosts: existing.reduce((sum, age) => sum + this.annualCost(age), 0),
+    }
+
+    return { plan, partnerSalary, partnerMonthsUnemployed }
+  }
+
+  /**
+   * One year of the partner's career: pay growth and layoffs, drawn
+   * independently of the primary earner's but from the same economy
+   *
+   * Makes no draws when the partner doesn't earn, so single-earner paths
+   * are unchanged.
+   */
+  projectPartner(
+    household: HouseholdState,
+    year: number,
+    economicConditions: EconomicConditions,
+    layoffProbability: number,
+    rng: RNG
+  ): PartnerYear {
+    const { plan, partnerMonthsUnemployed } = household
+    if (household.partnerSalary <= 0) {
+      return { salary: 0, share: 0, unemployment: null, carryoverMonths: 0, events: [] }
+    }
+
+    const events: KeyEvent[] = []
+    const share =
+      plan.partnerShare && year >= plan.partnerShare.fromYear ? plan.partnerShare.share : 1
+    const growth =
+      economicConditions.inflationRate / 100 +
+      HouseholdModel.PARTNER_CAREER_GROWTH +
+      (rng.uniform(0, 1) - 0.5) * 0.04
+    let salary = household.partnerSalary * (1 + growth)
+
+    let unemployment: UnemploymentSpell | null = null
+    let carryoverMonths = 0
+    if (partnerMonthsUnemployed > 0) {
+      const months = Math.min(12, partnerMonthsUnemployed)
+      unemployment = { start: 0, end: months }
+      carryoverMonths = partnerMonthsUnemployed - months
+      if (year === 1) {
+        events.push({
+          year,
+          type: 'life_event',
+          description: `Partner looking for work after the move for ${partnerMonthsUnemployed} months`,
+          impact: 'negative',
+          financialImpact: -(salary * months) / 12,
+        })
+      }
+    } else if (share > 0 && rng.uniform(0, 1) < layoffProbability) {
+      const start = Math.floor(rng.uniform(0, 12))
+      const duration = Math.round(rng.uniform(2, 9))
+      unemployment = { start, end: Math.min(12, start + duration) }
+      carryoverMonths = start + duration - unemployment.end
+
+      salary *= rng.uniform(0.85, 1.0)
+      events.push({
+        year,
+        type: 'life_event',
+        description: `Partner's job loss with ${duration} months out of work`,
+        impact: 'negative',
+        financialImpact: -(salary * share * duration) / 12,
+      })
+    }
+
+    return { salary, share, unemployment, carryoverMonths, events }
+  }
+
+  /**
+   * Cost of the household's dependents in a projection year, in that year's
+   * dollars
+   *
+   * `change` is the cost beyond what the profile's living expenses already
+   * cover; it turns negative once childcare or college ends.
+   */
+  dependentCosts(
+    plan: HouseholdPlan,
+    year: number,
+    priceLevel: number
+  ): { total: number; change: number; count: number; events: KeyEvent[] } {
+    const ages = plan.dependents.map(age => age + year - 1)
+    const total = ages.reduce((sum, age) => sum + this.annualCost(age, plan.tuition), 0)
+    const events: KeyEvent[] = []
+    if (plan.arrivals?.year === year) {
+      events.push({
+        year,
+        type: 'life_event',
+        description:
+          plan.arrivals.count === 1
+            ? 'A child joined the household'
+            : `${plan.arrivals.count} children joined the household`,
+        impact: 'neutral',
+        financialImpact: -this.annualCost(0, plan.tuition) * plan.arrivals.count * priceLevel,
+      })
+    }
+
+    return {
+      total: total * priceLevel,
+      change: (total - plan.baselineCosts) * priceLevel,
+      count: ages.filter(age => age >= 0 && DEPENDENT_COSTS.some(band => age < band.untilAge))
+        .length,
+      events,
+    }
+  }
+
+  // Annual cost of one dependent at an age, in today's dollars
+  private annualCost(age: number, tuition: HouseholdPlan['tuition'] = {}): number {
+    if (age < 0) return 0
+    const band = DEPENDENT_COSTS.find(b => age < b.untilAge)
+    return band ? (tuition[band.stage] ?? band.tuition) + band.upkeep : 0
+  }
+}
+
+// Type definitions
+export type DependentStage = 'childcare' | 'school' | 'college'
+
+export interface HouseholdPlan {
+  dependents: number[] // ages in year 1; below zero for children yet to arrive
+  arrivals: { year: number; count: number } | null
+  partnerShare: { fromYear: number; share: number } | null // reduced hours after an arrival
+  tuition: Partial<Record<DependentStage, number>> // option overrides of the yearly care or tuition
+  baselineCosts: number // today's dependents at today's ages, already in living expenses
+}
+
+export interface HouseholdState {
+  plan: HouseholdPlan
+  partnerSalary: number // annual rate; 0 when the partner doesn't earn
+  partnerMonthsUnemployed: number // carried into next year
+}
+
+export interface UnemploymentSpell {
+  start: number // month of the year, 0-12
+  end: number
+}
+
+export interface PartnerYear {
+  salary: number // annual rate at year end
+  share: number // share of full-time pay earned
+  unemployment: UnemploymentSpell | null
+  carryoverMonths: number
+  events: KeyEvent[]
+}
+
+// Annual cost per dependent by age in today's dollars: care or tuition, plus upkeep
+const DEPENDENT_COSTS: Array<{
+  untilAge: number
+  stage: DependentStage
+  tuition: number
+  upkeep: number
+}> = [
+  { untilAge: 5, stage: 'childcare', tuition: 13000, upkeep: 9000 },
+  { untilAge: 18, stage: 'school', tuition: 3000, upkeep: 11000 },
+  { untilAge: 22, stage: 'college', tuition: 25000, upkeep: 4000 },
+]
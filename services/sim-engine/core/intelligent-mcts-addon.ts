@@ -31,6 +31,9 @@ interface IntelligentMCTSConfig {
   algorithmWeight: number // Weight given to algorithmic results (0-1)
   llmWeight: number // Weight given to LLM insights (0-1)
 
+  // Master seed; instances with the same seed reproduce each other's algorithmic results
+  seed?: string
+
   // API configuration
   enableLLM: boolean
   apiKey?: string
@@ -48,9 +51,7 @@ export class IntelligentMCTSAddon {
     // Initialize core algorithmic engines that form our foundation
     this.coreEngine = new SimulationEngine()
 
-    // Create a unique seed for this instance
-    const seed = `mcts-${Date.now()}-${Math.random()}`
-    this.advancedEngine = new AdvancedSimulationEngine(seed)
+    this.advancedEngine = new AdvancedSimulationEngine(config.seed ?? 'mcts')
 
     // Initialize LLM service if enabled
     if (config.enableLLM && config.apiKey) {
@@ -0,0 +1,157 @@
+/**
+ * Liability ledger for debt amortization and payoff strategies
+ * Accrues interest monthly, pays minimums and directs extra cash by strategy
+ */
+
+import type { DebtPayoffStrategy, FinancialProfile, LiabilityTerms } from '@theguide/models'
+
+export class LiabilityLedger {
+  private accounts: LiabilityAccount[]
+
+  constructor(accounts: LiabilityAccount[]) {
+    this.accounts = accounts.filter(a => a.balance > 0).map(a => ({ ...a }))
+  }
+
+  /**
+   * Build a ledger from the profile's liabilities, using the profile's
+   * terms where given and typical market terms otherwise
+   */
+  static fromProfile(financial: FinancialProfile): LiabilityLedger {
+    const accounts = (Object.keys(DEFAULT_TERMS) as LiabilityName[]).map(name => {
+      const terms = { ...DEFAULT_TERMS[name], ...financial.liabilityTerms?.[name] }
+      return {
+        name,
+        balance: financial.liabilities[name] || 0,
+        annualRate: terms.interestRate,
+        remainingMonths: terms.termMonths,
+        minimumPayment: terms.minimumPayment,
+      }
+    })
+    return new LiabilityLedger(accounts)
+  }
+
+  /**
+   * Total outstanding balance
+   */
+  get balance(): number {
+    return this.accounts.reduce((sum, a) => sum + a.balance, 0)
+  }
+
+  clone(): LiabilityLedger {
+    return new LiabilityLedger(this.accounts)
+  }
+
+  /**
+   * Advance the ledger month by month, accruing interest and paying the
+   * minimum due on every account
+   *
+   * @returns Interest accrued and total payments made
+   */
+  advance(months: number): { interest: number; paid: number } {
+    let interest = 0
+    let paid = 0
+
+    for (let month = 0; month < months; month++) {
+      for (const account of this.accounts) {
+        if (account.balance <= 0) continue
+
+        const accrued = account.balance * (account.annualRate / 12)
+        account.balance += accrued
+        interest += accrued
+
+        const payment = Math.min(account.balance, this.minimumDue(account))
+        account.balance -= payment
+        paid += payment
+        if (account.remainingMonths !== undefined) {
+          account.remainingMonths = Math.max(1, account.remainingMonths - 1)
+        }
+      }
+    }
+
+    this.accounts = this.accounts.filter(a => a.balance > 0.01)
+    return { interest, paid }
+  }
+
+  /**
+   * Apply an extra payment on top of the minimums
+   *
+   * Avalanche targets the highest rate first, snowball the smallest balance.
+   * The minimum strategy never prepays.
+   *
+   * @returns Amount actually applied (less than offered once debt-free)
+   */
+  prepay(amount: number, strategy: DebtPayoffStrategy): number {
+    if (strategy === 'minimum' || amount <= 0) return 0
+
+    const ordered = [...this.accounts].sort((a, b) =>
+      strategy === 'avalanche' ? b.annualRate - a.annualRate : a.balance - b.balance
+    )
+
+    let remaining = amount
+    for (const account of ordered) {
+      if (remaining <= 0) break
+      const payment = Math.min(account.balance, remaining)
+      account.balance -= payment
+      remaining -= payment
+    }
+
+    this.accounts = this.accounts.filter(a => a.balance > 0.01)
+    return amount - remaining
+  }
+
+  /**
+   * Add a cash shortfall to revolving credit
+   */
+  borrow(amount: number): void {
+    if (amount <= 0) return
+
+    const revolving = this.accounts.find(a => a.name === 'creditCards')
+    if (revolving) {
+      revolving.balance += amount
+    } else {
+      this.accounts.push({
+        name: 'creditCards',
+        balance: amount,
+        annualRate: DEFAULT_TERMS.creditCards.interestRate,
+        minimumPayment: DEFAULT_TERMS.creditCards.minimumPayment,
+      })
+    }
+  }
+
+  /**
+   * Monthly minimum: level amortizing payment for term loans,
+   * a share of the balance (with a floor) for revolving credit
+   */
+  private minimumDue(account: LiabilityAccount): number {
+    const monthlyRate = account.annualRate / 12
+
+    if (account.remainingMonths !== undefined) {
+      const n = account.remainingMonths
+      return monthlyRate > 0
+        ? (account.balance * monthlyRate) / (1 - (1 + monthlyRate) ** -n)
+        : account.balance / n
+    }
+
+    return Math.max(account.minimumPayment ?? 25, account.balance * 0.03)
+  }
+}
+
+// Typical terms when the profile doesn't specify them
+const DEFAULT_TERMS: Record<LiabilityName, LiabilityTerms> = {
+  creditCards: { interestRate: 0.22, minimumPayment: 25 },
+  studentLoans: { interestRate: 0.055, termMonths: 120 },
+  mortgage: { interestRate: 0.065, termMonths: 300 },
+  other: { interestRate: 0.09, termMonths: 60 },
+}
+
+// Type definitions
+type LiabilityName = keyof FinancialProfile['liabilities']
+
+export interface LiabilityAccount {
+  name: string
+  balance: number
+  annualRate: number
+  /** Remaining term for amortizing loans; undefined for revolving credit */
+  remainingMonths?: number
+  minimumPayment?: number
+}
@@ -0,0 +1,136 @@
+/**
+ * Reproducibility manifests
+ * Hashes of a run's inputs and aggregate metrics, recorded with its seed and
+ * configuration so the run can be replayed and checked bit for bit
+ */
+
+import { createHash } from 'node:crypto'
+import type {
+  AggregateMetrics,
+  Decision,
+  DecisionOption,
+  ReplayVerification,
+  SimulationManifest,
+  UserProfile,
+} from '@theguide/models'
+import packageJson from '../package.json'
+import type { CalibrationModel } from './calibration'
+
+export class ManifestRecorder {
+  private static readonly ENGINE_VERSION: string = packageJson.version
+
+  /**
+   * Manifest of a finished run
+   */
+  record(run: ManifestInputs): SimulationManifest {
+    return {
+      engineVersion: ManifestRecorder.ENGINE_VERSION,
+      masterSeed: run.masterSeed,
+      config: run.config,
+      streams: run.streams,
+      calibration: {
+        name: run.calibration.name,
+        hash: this.hash(run.calibration),
+      },
+      profileHash: this.hash(run.userProfile),
+      inputsHash: this.hash({
+        decision: run.decision,
+        option: run.option,
+        startDate: run.startDate,
+      }),
+      aggregateMetricsHash: this.hash(run.aggregateMetrics),
+    }
+  }
+
+  /**
+   * Compare a replay's manifest with the original's
+   *
+   * @param expected - Manifest recorded by the original run
+   * @param actual - Manifest of the replay
+   * @param replayed - Aggregate metrics of the replay
+   * @param original - Aggregate metrics of the original run, to locate differences
+   */
+  verify(
+    expected: SimulationManifest,
+    actual: SimulationManifest,
+    replayed: AggregateMetrics,
+    original?: AggregateMetrics
+  ): ReplayVerification {
+    const identical = expected.aggregateMetricsHash === actual.aggregateMetricsHash
+    let mismatches: string[] = []
+    if (!identical) {
+      mismatches = original
+        ? this.differences(
+            JSON.parse(this.canonical(original)),
+            JSON.parse(this.canonical(replayed))
+          )
+        : ['aggregateMetrics']
+    }
+
+    return {
+      identical,
+      inputsChanged:
+        expected.profileHash !== actual.profileHash ||
+        expected.inputsHash !== actual.inputsHash ||
+        expected.calibration.hash !== actual.calibration.hash,
+      engineVersionChanged: expected.engineVersion !== actual.engineVersion,
+      expectedHash: expected.aggregateMetricsHash,
+      actualHash: actual.aggregateMetricsHash,
+      mismatches,
+    }
+  }
+
+  /**
+   * SHA-256 of a value's canonical JSON
+   *
+   * Object keys are sorted and undefined fields dropped, so equal values hash
+   * alike whatever their key order. Numbers serialize as the shortest string
+   * that round-trips, so equal hashes mean bit-identical doubles (bar the
+   * sign of zero).
+   */
+  hash(value: unknown): string {
+    return createHash('sha256').update(this.canonical(value)).digest('hex')
+  }
+
+  private canonical(value: unknown): string {
+    return (
+      JSON.stringify(value, (_key, v) =>
+        v && typeof v === 'object' && !Array.isArray(v)
+          ? Object.fromEntries(
+              Object.keys(v)
+                .sort()
+                .map(key => [key, v[key]])
+            )
+          : v
+      ) ?? 'null'
+    )
+  }
+
+  // Paths at which two parsed JSON values differ
+  private differences(a: unknown, b: unknown, path = ''): string[] {
+    if (a && b && typeof a === 'object' && typeof b === 'object') {
+      const keys = new Set([...Object.keys(a), ...Object.keys(b)])
+      return [...keys].flatMap(key =>
+        this.differences(
+          (a as Record<string, unknown>)[key],
+          (b as Record<string, unknown>)[key],
+          path ? `${path}.${key}` : key
+        )
+      )
+    }
+    return a === b ? [] : [path || '(root)']
+  }
+}
+
+// Type definitions
+export interface ManifestInputs {
+  masterSeed: string
+  config: Record<string, unknown>
+  streams: Array<[number, number]>
+  calibration: CalibrationModel
+  userProfile: Partial<UserProfile>
+  decision: Decision
+  option: DecisionOption
+  startDate: string // goal horizons count from here, so replays must reuse it
+  aggregateMetrics: AggregateMetrics
+}
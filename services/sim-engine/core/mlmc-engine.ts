@@ -3,33 +3,47 @@
  * Reduces computational cost by orders of magnitude for time-series outcomes
  */
 
+import { CancellationCheckpoint } from './cancellation'
 import { PhiloxRNG } from './philox-rng'
-import { QMCEngine } from './qmc-engine'
 
 export class MLMCEngine {
-  private qmcEngine: QMCEngine
-  private baseRng: PhiloxRNG
+  private static readonly PILOT_SAMPLES = 100
+  private static readonly MAX_SAMPLES_PER_LEVEL = 50000
+
+  private seed: string
 
   constructor(seed: string) {
-    this.qmcEngine = new QMCEngine(10, seed) // 10 dimensions typical
-    this.baseRng = new PhiloxRNG(seed)
+    this.seed = seed
   }
 
   /**
    * Run multilevel Monte Carlo simulation
    * Combines coarse and fine path simulations for efficiency
+   *
+   * A pilot run estimates each level's variance and cost and adds levels
+   * until the estimated bias is below half the target MSE; Giles' formula
+   * then allocates samples so the estimator variance meets the other half.
+   * Aborting `signal` stops sampling with the signal's reason.
    */
   async runMLMC(
     pathGenerator: PathGenerator,
     targetMSE: number,
-    maxLevels: number = 6
+    maxLevels: number = 6,
+    signal?: AbortSignal
   ): Promise<MLMCResult> {
     const levels: LevelResult[] = []
     let totalCost = 0
+    const checkpoint = new CancellationCheckpoint(signal)
 
     // Step 1: Pilot run to estimate variances and costs
-    const pilotSamples = 100
-    const { variances, costs } = await this.runPilotStudy(pathGenerator, pilotSamples, maxLevels)
+    const pilot = await this.runPilotStudy(
+      pathGenerator,
+      MLMCEngine.PILOT_SAMPLES,
+      maxLevels,
+      targetMSE,
+      checkpoint
+    )
+    const { variances, costs } = pilot
 
     // Step 2: Optimal sample allocation using Giles' formula
     const optimalSamples = this.computeOptimalSamples(variances, costs, targetMSE)
@@ -39,7 +53,7 @@ export class MLMCEngine {
       const samples = optimalSamples[level]
       if (samples === 0) continue
 
-      const levelResult = await this.simulateLevel(pathGenerator, level, samples)
+      const levelResult = await this.simulateLevel(pathGenerator, level, samples, checkpoint)
 
       levels.push(levelResult)
       totalCost += samples * costs[level]
@@ -47,6 +61,7 @@ export class MLMCEngine {
 
     // Step 4: Combine estimates from all levels
     const finalEstimate = this.combineEstimates(levels)
+    const finestSteps = pathGenerator.getStepsForLevel(levels.length - 1)
 
     return {
       estimate: finalEstimate.mean,
@@ -54,163 +69,100 @@ export class MLMCEngine {
       confidence95: finalEstimate.confidence95,
       levels,
       totalCost,
-      costReduction: this.estimateCostReduction(totalCost, variances[0], targetMSE),
+      costReduction: this.estimateCostReduction(totalCost, variances[0], finestSteps, targetMSE),
+      convergence: {
+        meanDecay: -this.log2Slope(levels.map(l => Math.abs(l.mean))),
+        varianceDecay: -this.log2Slope(levels.map(l => l.variance)),
+        costGrowth: this.log2Slope(costs),
+        biasEstimate: pilot.biasEstimate,
+      },
     }
   }
 
   /**
    * Run pilot study to estimate level variances and costs
+   *
+   * Cost is counted in time steps simulated per sample (fine plus coarse
+   * path), which grows as 2^L and does not depend on timer resolution.
    */
   private async runPilotStudy(
     pathGenerator: PathGenerator,
     samplesPerLevel: number,
-    maxLevels: number
-  ): Promise<{ variances: number[]; costs: number[] }> {
+    maxLevels: number,
+    targetMSE: number,
+    checkpoint: CancellationCheckpoint
+  ): Promise<{ variances: number[]; costs: number[]; biasEstimate: number }> {
     const variances: number[] = []
     const costs: number[] = []
+    const means: number[] = []
+    let biasEstimate = Number.POSITIVE_INFINITY
 
     for (let level = 0; level < maxLevels; level++) {
-      const startTime = Date.now()
       const values: number[] = []
 
       // Generate pilot samples
       for (let i = 0; i < samplesPerLevel; i++) {
-        const rng = this.baseRng.split()
-
-        if (level === 0) {
-          // Coarsest level: just evaluate on coarse grid
-          const coarsePath = await pathGenerator.generate(level, rng)
-          values.push(pathGenerator.evaluate(coarsePath))
-        } else {
-          // Finer levels: compute difference
-          const [finePath, coarsePath] = await this.generateCoupledPaths(pathGenerator, level, rng)
-
-          const fineValue = pathGenerator.evaluate(finePath)
-          const coarseValue = pathGenerator.evaluate(coarsePath)
-          values.push(fineValue - coarseValue)
-        }
+        await checkpoint.check()
+        values.push(await this.sampleLevel(pathGenerator, level, this.pilotStream(level, i)))
       }
 
       // Estimate variance and cost
-      variances.push(this.sampleVariance(values))
-      costs.push((Date.now() - startTime) / samplesPerLevel)
-
-      // Check for convergence
-      if (level > 2 && variances[level] < variances[level - 1] * 0.1) {
-        break // Variance decaying rapidly, can stop
+      means.push(this.mean(values))
+      variances.push(Math.max(this.sampleVariance(values), Number.EPSILON))
+      costs.push(this.levelCost(pathGenerator, level))
+
+      // Stop once the weak error of the finest level is within the bias budget
+      if (level >= 2) {
+        // Richardson-style bias estimate assuming first-order weak convergence
+        biasEstimate = Math.max(Math.abs(means[level]), Math.abs(means[level - 1]) / 2)
+        if (biasEstimate < Math.sqrt(targetMSE / 2)) break
       }
     }
 
-    return { variances, costs }
+    return { variances, costs, biasEstimate }
   }
 
   /**
-   * Generate coupled fine and coarse paths for level l
-   * Uses Brownian bridge or similar coupling for correlation
+   * One sample of the level-l correction: P_0 at level 0, P_l - P_(l-1) above
    */
-  private async generateCoupledPaths(
+  private async sampleLevel(
     pathGenerator: PathGenerator,
     level: number,
     rng: PhiloxRNG
-  ): Promise<[Path, Path]> {
-    const fineSteps = pathGenerator.getStepsForLevel(level)
-    const coarseSteps = pathGenerator.getStepsForLevel(level - 1)
-
-    // Generate coarse path first
-    const coarseNoise = this.generateBrownianIncrements(coarseSteps, rng)
-    const coarsePath = await pathGenerator.generateFromNoise(level - 1, coarseNoise)
-
-    // Generate fine path using Brownian bridge
-    const fineNoise = this.refineBrownianPath(coarseNoise, fineSteps, rng)
-    const finePath = await pathGenerator.generateFromNoise(level, fineNoise)
-
-    return [finePath, coarsePath]
-  }
-
-  /**
-   * Refine Brownian path using Brownian bridge construction
-   */
-  private refineBrownianPath(
-    coarseIncrements: number[][],
-    fineSteps: number,
-    rng: PhiloxRNG
-  ): number[][] {
-    const dimension = coarseIncrements[0].length
-    const coarseSteps = coarseIncrements.length
-    const refinementFactor = Math.floor(fineSteps / coarseSteps)
-
-    const fineIncrements: number[][] = []
-
-    for (let i = 0; i < coarseSteps; i++) {
-      // For each coarse interval, generate fine increments
-      const coarseIncrement = coarseIncrements[i]
-
-      // Subdivide using Brownian bridge
-      const subIncrements = this.brownianBridge(coarseIncrement, refinementFactor, dimension, rng)
-
-      fineIncrements.push(...subIncrements)
+  ): Promise<number> {
+    if (level === 0) {
+      // Coarsest level: just evaluate on coarse grid
+      const coarsePath = await pathGenerator.generate(level, rng)
+      return pathGenerator.evaluate(coarsePath)
     }
 
-    return fineIncrements
+    // Finer levels: compute difference
+    const [finePath, coarsePath] = await this.generateCoupledPaths(pathGenerator, level, rng)
+    return pathGenerator.evaluate(finePath) - pathGenerator.evaluate(coarsePath)
   }
 
   /**
-   * Brownian bridge construction for path refinement
+   * Generate coupled fine and coarse paths for level l
+   *
+   * The coarse path is driven by sums of the fine path's Brownian increments,
+   * so both discretize the same Brownian path and their difference has small
+   * variance.
    */
-  private brownianBridge(
-    totalIncrement: number[],
-    subdivisions: number,
-    dimension: number,
+  private async generateCoupledPaths(
+    pathGenerator: PathGenerator,
+    level: number,
     rng: PhiloxRNG
-  ): number[][] {
-    const dt = 1 / subdivisions
-    const increments: number[][] = []
-
-    // Generate intermediate points
-    const points: number[][] = [new Array(dimension).fill(0)]
-
-    // Final point
-    const finalPoint = totalIncrement.slice()
-    points[subdivisions] = finalPoint
-
-    // Fill in using bridge construction (recursive midpoint)
-    this.fillBrownianBridge(points, 0, subdivisions, Math.sqrt(dt), rng)
-
-    // Convert to increments
-    for (let i = 1; i <= subdivisions; i++) {
-      const increment = points[i].map((val, d) => val - (points[i - 1]?.[d] || 0))
-      increments.push(increment)
-    }
+  ): Promise<[Path, Path]> {
+    const fineSteps = pathGenerator.getStepsForLevel(level)
+    const coarseSteps = pathGenerator.getStepsForLevel(level - 1)
 
-    return increments
-  }
+    const fineNoise = this.generateBrownianIncrements(fineSteps, rng, pathGenerator.dimension)
+    const coarseNoise = this.coarsenPath(fineNoise, coarseSteps)
 
-  /**
-   * Recursive Brownian bridge construction
-   */
-  private fillBrownianBridge(
-    points: number[][],
-    start: number,
-    end: number,
-    scale: number,
-    rng: PhiloxRNG
-  ): void {
-    if (end - start <= 1) return
-
-    const mid = Math.floor((start + end) / 2)
-    const dimension = points[start].length
-
-    // Interpolate midpoint
-    points[mid] = new Array(dimension)
-    for (let d = 0; d < dimension; d++) {
-      const mean = (points[start][d] + points[end][d]) / 2
-      const std = scale * Math.sqrt(((end - mid) * (mid - start)) / (end - start))
-      points[mid][d] = mean + rng.normal(0, std)
-    }
+    const finePath = await pathGenerator.generateFromNoise(level, fineNoise)
+    const coarsePath = await pathGenerator.generateFromNoise(level - 1, coarseNoise)
 
-    // Recursively fill left and right
-    this.fillBrownianBridge(points, start, mid, scale, rng)
-    this.fillBrownianBridge(points, mid, end, scale, rng)
+    return [finePath, coarsePath]
   }
 
   /**
@@ -238,10 +190,12 @@ export class MLMCEngine {
   /**
    * Compute optimal number of samples per level
    * Using Giles' optimal allocation formula
+   *
+   * N_l = (2 / MSE) * sqrt(V_l / C_l) * sum_k sqrt(V_k * C_k), which puts the
+   * estimator variance at half the target MSE.
    */
   private computeOptimalSamples(variances: number[], costs: number[], targetMSE: number): number[] {
     const L = variances.length
-    const epsilon = Math.sqrt(targetMSE / 2) // Split MSE between bias and variance
 
     // Compute sum for normalization
     let sum = 0
@@ -249,11 +203,11 @@ export class MLMCEngine {
       sum += Math.sqrt(variances[l] * costs[l])
     }
 
-    // Optimal samples per level
+    // Optimal samples per level, at least two so a variance can be estimated
     const samples: number[] = []
     for (let l = 0; l < L; l++) {
-      const nl = Math.ceil((2 / (epsilon * epsilon)) * sum * Math.sqrt(variances[l] / costs[l]))
-      samples.push(nl)
+      const nl = Math.ceil((2 / targetMSE) * sum * Math.sqrt(variances[l] / costs[l]))
+      samples.push(Math.min(MLMCEngine.MAX_SAMPLES_PER_LEVEL, Math.max(2, nl)))
     }
 
     return samples
@@ -265,89 +219,40 @@ export class MLMCEngine {
   private async simulateLevel(
     pathGenerator: PathGenerator,
     level: number,
-    numSamples: number
+    numSamples: number,
+    checkpoint: CancellationCheckpoint
   ): Promise<LevelResult> {
     const values: number[] = []
     const startTime = Date.now()
 
-    // Use QMC for better convergence
-    const qmcDimension = pathGenerator.getStepsForLevel(level) * 5 // 5 risk factors
-    const qmcSamples = this.qmcEngine.generateQMCSamples(numSamples, qmcDimension)
-
     for (let i = 0; i < numSamples; i++) {
-      const _rng = new PhiloxRNG(this.baseRng.nextInt(1e9), level, i)
-
-      if (level === 0) {
-        const path = await pathGenerator.generateFromUniform(level, qmcSamples[i])
-        values.push(pathGenerator.evaluate(path))
-      } else {
-        // Generate coupled paths using QMC points
-        const [finePath, coarsePath] = await this.generateCoupledPathsQMC(
-          pathGenerator,
-          level,
-          qmcSamples[i]
-        )
-
-        const fineValue = pathGenerator.evaluate(finePath)
-        const coarseValue = pathGenerator.evaluate(coarsePath)
-        values.push(fineValue - coarseValue)
-      }
+      await checkpoint.check()
+      values.push(await this.sampleLevel(pathGenerator, level, this.sampleStream(level, i)))
     }
 
-    const mean = this.mean(values)
-    const variance = this.sampleVariance(values)
-    const cost = Date.now() - startTime
-
     return {
       level,
       samples: numSamples,
-      mean,
-      variance,
-      cost,
+      mean: this.mean(values),
+      variance: this.sampleVariance(values),
+      cost: this.levelCost(pathGenerator, level),
+      wallTime: Date.now() - startTime,
       values,
     }
   }
 
-  /**
-   * Generate coupled paths using QMC points
-   */
-  private async generateCoupledPathsQMC(
-    pathGenerator: PathGenerator,
-    level: number,
-    qmcPoint: number[]
-  ): Promise<[Path, Path]> {
-    // Transform QMC points to Brownian increments
-    const fineSteps = pathGenerator.getStepsForLevel(level)
-    const coarseSteps = pathGenerator.getStepsForLevel(level - 1)
-
-    // Use antithetic variates for variance reduction
-    const fineNoise = this.qmcToBrownian(qmcPoint, fineSteps)
-    const coarseNoise = this.coarsenPath(fineNoise, coarseSteps)
-
-    const finePath = await pathGenerator.generateFromNoise(level, fineNoise)
-    const coarsePath = await pathGenerator.generateFromNoise(level - 1, coarseNoise)
-
-    return [finePath, coarsePath]
+  // Pilot and main samples draw from disjoint substreams of each level's stream
+  private pilotStream(level: number, sample: number): PhiloxRNG {
+    return new PhiloxRNG(this.seed, level, sample)
   }
 
-  /**
-   * Transform QMC points to Brownian increments
-   */
-  private qmcToBrownian(qmcPoint: number[], steps: number): number[][] {
-    const dimension = Math.floor(qmcPoint.length / steps)
-    const increments: number[][] = []
-
-    for (let t = 0; t < steps; t++) {
-      const increment: number[] = []
-      for (let d = 0; d < dimension; d++) {
-        const u = qmcPoint[t * dimension + d]
-        // Transform uniform to normal
-        increment.push(this.inverseNormalCDF(u))
-      }
-      increments.push(increment)
-    }
+  private sampleStream(level: number, sample: number): PhiloxRNG {
+    return new PhiloxRNG(this.seed, level, MLMCEngine.PILOT_SAMPLES + sample)
+  }
 
-    return increments
+  private levelCost(pathGenerator: PathGenerator, level: number): number {
+    const fine = pathGenerator.getStepsForLevel(level)
+    return level === 0 ? fine : fine + pathGenerator.getStepsForLevel(level - 1)
   }
 
   /**
@@ -405,19 +310,38 @@ export class MLMCEngine {
 
   /**
    * Estimate cost reduction vs standard MC
+   *
+   * Standard MC at the finest level needs 2 * V / MSE samples, each costing
+   * the finest level's step count.
    */
   private estimateCostReduction(
     mlmcCost: number,
     level0Variance: number,
+    finestSteps: number,
     targetMSE: number
   ): number {
-    // Standard MC would need this many samples
-    const standardMCSamples = Math.ceil(level0Variance / targetMSE)
-    const standardMCCost = standardMCSamples // Assuming unit cost
+    const standardMCSamples = Math.ceil((2 * level0Variance) / targetMSE)
+    const standardMCCost = standardMCSamples * finestSteps
 
     return standardMCCost / mlmcCost
   }
 
+  /**
+   * Least-squares slope of log2(values) against level, from level 1 up
+   */
+  private log2Slope(values: number[]): number {
+    const points = values
+      .map((v, level) => ({ level, y: Math.log2(v) }))
+      .filter(p => p.level >= 1 && Number.isFinite(p.y))
+    if (points.length < 2) return 0
+
+    const meanX = points.reduce((sum, p) => sum + p.level, 0) / points.length
+    const meanY = points.reduce((sum, p) => sum + p.y, 0) / points.length
+    const sxy = points.reduce((sum, p) => sum + (p.level - meanX) * (p.y - meanY), 0)
+    const sxx = points.reduce((sum, p) => sum + (p.level - meanX) ** 2, 0)
+    return sxy / sxx
+  }
+
   // Statistical utilities
   private mean(values: number[]): number {
     return values.reduce((sum, v) => sum + v, 0) / values.length
@@ -427,46 +351,11 @@ export class MLMCEngine {
     const m = this.mean(values)
     return values.reduce((sum, v) => sum + (v - m) ** 2, 0) / (values.length - 1)
   }
-
-  private inverseNormalCDF(p: number): number {
-    // Use same implementation as in QMCEngine
-    const a = [
-      -3.969683028665376e1, 2.209460984245205e2, -2.759285104469687e2, 1.38357751867269e2,
-      -3.066479806614716e1, 2.506628277459239,
-    ]
-    const b = [
-      -5.447609879822406e1, 1.615858368580409e2, -1.556989798598866e2, 6.680131188771972e1,
-      -1.328068155288572e1,
-    ]
-
-    const p_low = 0.02425
-    const p_high = 1 - p_low
-
-    if (p < p_low) {
-      const q = Math.sqrt(-2 * Math.log(p))
-      return (
-        (((((a[0] * q + a[1]) * q + a[2]) * q + a[3]) * q + a[4]) * q + a[5]) /
-        (((((b[0] * q + b[1]) * q + b[2]) * q + b[3]) * q + b[4]) * q + 1)
-      )
-    } else if (p <= p_high) {
-      const q = p - 0.5
-      const r = q * q
-      return (
-        ((((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q) /
-        (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1)
-      )
-    } else {
-      const q = Math.sqrt(-2 * Math.log(1 - p))
-      return (
-        -(((((a[0] * q + a[1]) * q + a[2]) * q + a[3]) * q + a[4]) * q + a[5]) /
-        (((((b[0] * q + b[1]) * q + b[2]) * q + b[3]) * q + b[4]) * q + 1)
-      )
-    }
-  }
 }
 
 // Type definitions
 export interface PathGenerator {
+  dimension: number // Brownian factors per time step
   getStepsForLevel(level: number): number
   generate(level: number, rng: PhiloxRNG): Promise<Path>
   generateFromNoise(level: number, noise: number[][]): Promise<Path>
@@ -485,7 +374,8 @@ interface LevelResult {
   samples: number
   mean: number
   variance: number
-  cost: number
+  cost: number // time steps per sample
+  wallTime: number // milliseconds for the level
   values: number[]
 }
 
@@ -496,4 +386,10 @@ interface MLMCResult {
   levels: LevelResult[]
   totalCost: number
   costReduction: number
+  convergence: {
+    meanDecay: number // alpha: |E[P_l - P_(l-1)]| ~ 2^(-alpha l)
+    varianceDecay: number // beta: V_l ~ 2^(-beta l)
+    costGrowth: number // gamma: C_l ~ 2^(gamma l)
+    biasEstimate: number
+  }
 }
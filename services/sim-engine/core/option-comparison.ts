@@ -0,0 +1,272 @@
+/**
+ * Pairwise comparison of decision options simulated on common random numbers
+ * Paired deltas, win probabilities and stochastic dominance tests, with
+ * two-sample versions for runs whose scenarios are not aligned
+ */
+
+import type {
+  DecisionOption,
+  OptionSummary,
+  PairwiseComparison,
+  Scenario,
+  YearlyOutcome,
+} from '@theguide/models'
+
+export class OptionComparator {
+  /**
+   * Compare options whose scenario lists are aligned by index
+   *
+   * @param options - The options, in the same order as `scenarioSets`
+   * @param scenarioSets - One scenario list per option; scenario i shares its economic path across options
+   * @param horizon - Year whose net worth is compared
+   */
+  compare(
+    options: DecisionOption[],
+    scenarioSets: Scenario[][],
+    horizon: number
+  ): { options: OptionSummary[]; pairs: PairwiseComparison[] } {
+    const values = scenarioSets.map(scenarios => scenarios.map(s => this.netWorthAt(s, horizon)))
+    // Scenario weights depend only on the shared economic conditions
+    const weights = this.normalizeWeights(scenarioSets[0].map(s => s.probability))
+
+    const summaries = options.map((option, i) => this.summarize(option, values[i], weights))
+
+    const pairs: PairwiseComparison[] = []
+    for (let a = 0; a < options.length; a++) {
+      for (let b = a + 1; b < options.length; b++) {
+        pairs.push(this.comparePair(options[a], options[b], values[a], values[b], weights))
+      }
+    }
+
+    return { options: summaries, pairs }
+  }
+
+  /**
+   * Compare options from independent runs, whose scenarios are not aligned
+   *
+   * Each run keeps its own scenario weights, e.g. after scenario reduction.
+   * Pairs carry only two-sample statistics: the difference in expected net
+   * worth with its standard error, the probability that an independent draw
+   * of A beats one of B, and dominance of the weighted distributions.
+   *
+   * @param options - The options, in the same order as `scenarioSets`
+   * @param scenarioSets - One scenario list per option, of any length
+   * @param horizon - Year whose net worth is compared
+   */
+  compareIndependent(
+    options: DecisionOption[],
+    scenarioSets: Scenario[][],
+    horizon: number
+  ): { options: OptionSummary[]; pairs: Array<Omit<PairwiseComparison, 'deltas'>> } {
+    const values = scenarioSets.map(scenarios => scenarios.map(s => this.netWorthAt(s, horizon)))
+    const weights = scenarioSets.map(scenarios =>
+      this.normalizeWeights(scenarios.map(s => s.probability))
+    )
+
+    const summaries = options.map((option, i) => this.summarize(option, values[i], weights[i]))
+
+    const pairs: Array<Omit<PairwiseComparison, 'deltas'>> = []
+    for (let a = 0; a < options.length; a++) {
+      for (let b = a + 1; b < options.length; b++) {
+        pairs.push({
+          optionA: options[a].id,
+          optionB: options[b].id,
+          meanDelta: summaries[a].expectedNetWorth - summaries[b].expectedNetWorth,
+          deltaStandardError: Math.sqrt(
+            this.meanVariance(values[a], weights[a], summaries[a].expectedNetWorth) +
+              this.meanVariance(values[b], weights[b], summaries[b].expectedNetWorth)
+          ),
+          probabilityABeatsB: this.probabilityBeats(values[a], weights[a], values[b], weights[b]),
+          dominance: {
+            firstOrder: this.testDominance(values[a], weights[a], values[b], weights[b], 1),
+            secondOrder: this.testDominance(values[a], weights[a], values[b], weights[b], 2),
+          },
+        })
+      }
+    }
+
+    return { options: summaries, pairs }
+  }
+
+  // Mean and quantiles both use the scenario weights, so reduced runs stay consistent
+  private summarize(option: DecisionOption, values: number[], weights: number[]): OptionSummary {
+    const order = values.map((_, i) => i).sort((a, b) => values[a] - values[b])
+    return {
+      optionId: option.id,
+      title: option.title,
+      expectedNetWorth: values.reduce((sum, v, k) => sum + v * weights[k], 0),
+      medianNetWorth: this.quantile(values, weights, order, 0.5),
+      percentile10: this.quantile(values, weights, order, 0.1),
+      percentile90: this.quantile(values, weights, order, 0.9),
+    }
+  }
+
+  // Variance of a weighted mean; var / n for equal weights
+  private meanVariance(values: number[], weights: number[], mean: number): number {
+    return values.reduce((sum, v, i) => sum + weights[i] ** 2 * (v - mean) ** 2, 0)
+  }
+
+  // Probability that an independent draw of A exceeds one of B; ties count half
+  private probabilityBeats(
+    valuesA: number[],
+    weightsA: number[],
+    valuesB: number[],
+    weightsB: number[]
+  ): number {
+    const order = valuesB.map((_, i) => i).sort((x, y) => valuesB[x] - valuesB[y])
+    const sorted = order.map(i => valuesB[i])
+    // cumulative[k]: weight of the k smallest values of B
+    const cumulative = [0]
+    for (const i of order) cumulative.push(cumulative[cumulative.length - 1] + weightsB[i])
+
+    return valuesA.reduce((sum, a, i) => {
+      const below = cumulative[this.countBelow(sorted, a, false)]
+      const atOrBelow = cumulative[this.countBelow(sorted, a, true)]
+      return sum + weightsA[i] * (below + (atOrBelow - below) / 2)
+    }, 0)
+  }
+
+  // Number of sorted values below x (or at most x when inclusive)
+  private countBelow(sorted: number[], x: number, inclusive: boolean): number {
+    let lo = 0
+    let hi = sorted.length
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1
+      if (sorted[mid] < x || (inclusive && sorted[mid] === x)) lo = mid + 1
+      else hi = mid
+    }
+    return lo
+  }
+
+  private comparePair(
+    optionA: DecisionOption,
+    optionB: DecisionOption,
+    valuesA: number[],
+    valuesB: number[],
+    weights: number[]
+  ): PairwiseComparison {
+    const deltas = valuesA.map((v, i) => v - valuesB[i])
+    const meanDelta = deltas.reduce((sum, d, i) => sum + d * weights[i], 0)
+    const variance = deltas.reduce((sum, d, i) => sum + weights[i] * (d - meanDelta) ** 2, 0)
+
+    // Ties count half to each side
+    const probabilityABeatsB = deltas.reduce(
+      (sum, d, i) => sum + (d > 0 ? weights[i] : d === 0 ? weights[i] / 2 : 0),
+      0
+    )
+
+    return {
+      optionA: optionA.id,
+      optionB: optionB.id,
+      deltas,
+      meanDelta,
+      deltaStandardError: Math.sqrt(variance / deltas.length),
+      probabilityABeatsB,
+      dominance: {
+        firstOrder: this.testDominance(valuesA, weights, valuesB, weights, 1),
+        secondOrder: this.testDominance(valuesA, weights, valuesB, weights, 2),
+      },
+    }
+  }
+
+  /**
+   * Empirical stochastic dominance test on the weighted distributions
+   *
+   * First order: one CDF lies on or below the other everywhere. Second order:
+   * the integrated CDF does (every risk-averse investor prefers that option).
+   */
+  private testDominance(
+    valuesA: number[],
+    weightsA: number[],
+    valuesB: number[],
+    weightsB: number[],
+    order: 1 | 2
+  ): 'A' | 'B' | 'none' {
+    const grid = [...new Set([...valuesA, ...valuesB])].sort((a, b) => a - b)
+    const cdfA = this.weightedCDF(valuesA, weightsA, grid)
+    const cdfB = this.weightedCDF(valuesB, weightsB, grid)
+
+    let curveA = cdfA
+    let curveB = cdfB
+    if (order === 2) {
+      curveA = this.integrate(cdfA, grid)
+      curveB = this.integrate(cdfB, grid)
+    }
+
+    const scale = order === 2 ? Math.max(1, grid[grid.length - 1] - grid[0]) : 1
+    const tolerance = 1e-9 * scale
+    let aBelow = true
+    let bBelow = true
+    let differs = false
+    for (let i = 0; i < grid.length; i++) {
+      const diff = curveA[i] - curveB[i]
+      if (diff > tolerance) aBelow = false
+      if (diff < -tolerance) bBelow = false
+      if (Math.abs(diff) > tolerance) differs = true
+    }
+
+    if (!differs) return 'none'
+    if (aBelow) return 'A'
+    if (bBelow) return 'B'
+    return 'none'
+  }
+
+  private weightedCDF(values: number[], weights: number[], grid: number[]): number[] {
+    const order = values.map((_, i) => i).sort((a, b) => values[a] - values[b])
+    const cdf: number[] = []
+    let cumulative = 0
+    let k = 0
+    for (const x of grid) {
+      while (k < order.length && values[order[k]] <= x) {
+        cumulative += weights[order[k]]
+        k++
+      }
+      cdf.push(cumulative)
+    }
+    return cdf
+  }
+
+  /**
+   * Running integral of a step CDF over the grid
+   */
+  private integrate(cdf: number[], grid: number[]): number[] {
+    const integral = [0]
+    for (let i = 1; i < grid.length; i++) {
+      integral.push(integral[i - 1] + cdf[i - 1] * (grid[i] - grid[i - 1]))
+    }
+    return integral
+  }
+
+  private normalizeWeights(probabilities: number[]): number[] {
+    const total = probabilities.reduce((sum, p) => sum + p, 0)
+    return total > 0
+      ? probabilities.map(p => p / total)
+      : probabilities.map(() => 1 / probabilities.length)
+  }
+
+  private netWorthAt(scenario: Scenario, horizon: number): number {
+    const outcome =
+      scenario.outcomes.yearly?.[horizon - 1] ??
+      (scenario.outcomes as unknown as Record<string, YearlyOutcome | undefined>)[
+        `year${horizon}`
+      ] ??
+      scenario.outcomes.year10
+    return outcome.financialPosition.netWorth
+  }
+
+  /**
+   * Smallest value whose cumulative weight exceeds q
+   *
+   * With equal weights this is the value at index floor(q * n) of the sorted list.
+   */
+  private quantile(values: number[], weights: number[], order: number[], q: number): number {
+    if (order.length === 0) return 0
+    let cumulative = 0
+    for (const i of order) {
+      cumulative += weights[i]
+      // Tolerance for rounding in the running sum of equal weights
+      if (cumulative > q + 1e-12) return values[i]
+    }
+    return values[order[order.length - 1]]
+  }
+}
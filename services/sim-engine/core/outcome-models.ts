@@ -0,0 +1,495 @@
+/**
+ * Decision-type-specific outcome models
+ * Plug into the year-by-year projection to model what a decision actually changes
+ */
+
+import type {
+  Decision,
+  DecisionOption,
+  DecisionType,
+  EconomicConditions,
+  KeyEvent,
+  UserProfile,
+} from '@theguide/models'
+import { DEFAULT_DISTRIBUTIONS } from '../src/models/simulation-params'
+import type { RNG } from './rng'
+
+/**
+ * Registry mapping decision types to their outcome models
+ *
+ * Decision types without a registered model use the engine's generic
+ * income/expense projection.
+ */
+export class OutcomeModelRegistry {
+  private models = new Map<DecisionType, OutcomeModel>()
+
+  register(decisionType: DecisionType, model: OutcomeModel): this {
+    this.models.set(decisionType, model)
+    return this
+  }
+
+  get(decisionType: DecisionType): OutcomeModel | undefined {
+    return this.models.get(decisionType)
+  }
+
+  /**
+   * Registry with the built-in models for home purchase, education,
+   * retirement and startup decisions
+   */
+  static createDefault(): OutcomeModelRegistry {
+    return new OutcomeModelRegistry()
+      .register('home_purchase', new HomePurchaseModel())
+      .register('education', new EducationModel())
+      .register('retirement', new RetirementModel())
+      .register('business_startup', new StartupModel())
+  }
+}
+
+/**
+ * Home purchase: mortgage amortization, appreciation and ownership costs
+ *
+ * Ownership costs replace rent, so only the difference is added to expenses.
+ * The home is carried as an asset and the mortgage as a liability.
+ */
+export class HomePurchaseModel implements OutcomeModel<HomePurchaseState> {
+  initialize(context: OutcomeModelContext): { state: HomePurchaseState; upfrontCost: number } {
+    const params = context.option.parameters ?? {}
+    const homePrice = params.homePrice ?? context.userProfile.career.salary * 4
+    const downPayment = params.downPayment ?? homePrice * 0.2
+    const closingCosts = homePrice * (params.closingCostPercent ?? 0.03)
+    const annualRate = params.mortgageRate ?? DEFAULT_DISTRIBUTIONS.mortgageRate.likely
+    const termYears = params.mortgageTerm ?? 30
+
+    const principal = Math.max(0, homePrice - downPayment)
+    const monthlyRate = annualRate / 12
+    const payments = termYears * 12
+    const monthlyPayment =
+      monthlyRate > 0
+        ? (principal * monthlyRate) / (1 - (1 + monthlyRate) ** -payments)
+        : principal / payments
+
+    return {
+      state: {
+        homeValue: homePrice,
+        mortgageBalance: principal,
+        monthlyRate,
+        monthlyPayment,
+        rent: (params.currentRent ?? context.userProfile.financial.monthlyExpenses.housing) * 12,
+      },
+      upfrontCost: downPayment + closingCosts,
+    }
+  }
+
+  projectYear(
+    context: OutcomeModelContext,
+    previous: HomePurchaseState,
+    year: number,
+    rng: RNG
+  ): OutcomeModelStep<HomePurchaseState> {
+    const params = context.option.parameters ?? {}
+    const inflation = context.economicConditions.inflationRate / 100
+    const events: KeyEvent[] = []
+
+    // Amortize twelve monthly payments
+    let mortgageBalance = previous.mortgageBalance
+    let mortgagePaid = 0
+    let interestPaid = 0
+    for (let month = 0; month < 12 && mortgageBalance > 0; month++) {
+      const interest = mortgageBalance * previous.monthlyRate
+      const payment = Math.min(previous.monthlyPayment, mortgageBalance + interest)
+      mortgageBalance = mortgageBalance + interest - payment
+      mortgagePaid += payment
+      interestPaid += interest
+    }
+    if (previous.mortgageBalance > 0 && mortgageBalance <= 0) {
+      events.push({
+        year,
+        type: 'life_event',
+        description: 'Mortgage paid off',
+        impact: 'positive',
+      })
+    }
+
+    // Appreciation tracks the housing market around the long-run rate
+    const appreciation = rng.normal(
+      (params.appreciationRate ?? DEFAULT_DISTRIBUTIONS.homeAppreciationRate.likely) +
+        HOUSING_MARKET_ADJUSTMENT[context.economicConditions.marketCondition],
+      0.04
+    )
+    const homeValue = previous.homeValue * (1 + appreciation)
+
+    // Carrying costs scale with the home's value, which already reflects price
+    // growth; fixed amounts and the rent avoided grow with inflation
+    const propertyTax = homeValue * (params.propertyTaxRate ?? 0.011)
+    const maintenance = homeValue * (params.maintenanceCostPercent ?? 0.01)
+    const insurance =
+      params.insurance !== undefined
+        ? params.insurance * (1 + inflation) ** year
+        : homeValue * 0.004
+    const hoa = (params.hoa ?? 0) * 12 * (1 + inflation) ** year
+    const rent = previous.rent * (1 + inflation)
+
+    return {
+      state: { ...previous, homeValue, mortgageBalance: Math.max(0, mortgageBalance), rent },
+      adjustment: {
+        additionalExpenses: mortgagePaid + propertyTax + maintenance + insurance + hoa - rent,
+        assetValue: homeValue,
+        liabilityBalance: Math.max(0, mortgageBalance),
+        interestPaid,
+        events,
+      },
+    }
+  }
+}
+
+/**
+ * Education: tuition and forgone income while studying, then a salary uplift
+ *
+ * The uplift is only realized if the program is completed.
+ */
+export class EducationModel implements OutcomeModel<EducationState> {
+  initialize(context: OutcomeModelContext): { state: EducationState; upfrontCost: number } {
+    const params = context.option.parameters ?? {}
+    const programYears = Math.max(1, Math.round(params.duration ?? 2))
+
+    return {
+      state: {
+        programYears,
+        annualTuition: (params.totalCost ?? 60000) / programYears,
+        completed: false,
+      },
+      upfrontCost: 0,
+    }
+  }
+
+  projectYear(
+    context: OutcomeModelContext,
+    previous: EducationState,
+    year: number,
+    rng: RNG
+  ): OutcomeModelStep<EducationState> {
+    const params = context.option.parameters ?? {}
+
+    if (year <= previous.programYears) {
+      return {
+        state: previous,
+        adjustment: {
+          // Part-time programs keep roughly half of the paycheck
+          incomeShare: params.partTime ? 0.5 : 0,
+          additionalExpenses: previous.annualTuition,
+        },
+      }
+    }
+
+    if (year === previous.programYears + 1) {
+      const completionRate = params.completionRate ?? 0.85
+      if (rng.uniform(0, 1) >= completionRate) {
+        return {
+          state: previous,
+          adjustment: {
+            events: [
+              {
+                year,
+                type: 'other',
+                description: 'Program not completed; no salary uplift',
+                impact: 'negative',
+              },
+            ],
+          },
+        }
+      }
+
+      const expectedUplift =
+        params.salaryIncrease ?? EDUCATION_UPLIFT[params.programType ?? ''] ?? 0.15
+      const uplift = Math.max(0, rng.normal(expectedUplift, expectedUplift * 0.4))
+
+      return {
+        state: { ...previous, completed: true },
+        adjustment: {
+          salaryMultiplier: 1 + uplift,
+          events: [
+            {
+              year,
+              type: 'opportunity',
+              description: `Graduated with a ${(uplift * 100).toFixed(0)}% salary uplift`,
+              impact: 'positive',
+              financialImpact: context.userProfile.career.salary * uplift,
+            },
+          ],
+        },
+      }
+    }
+
+    return { state: previous, adjustment: {} }
+  }
+}
+
+/**
+ * Retirement: earned income stops and spending is drawn down from savings
+ *
+ * Social Security and pensions are indexed to inflation. Spending shortfalls
+ * are covered by the engine's usual draw on savings: taxable investments
+ * first, then the traditional and Roth retirement accounts.
+ */
+export class RetirementModel implements OutcomeModel<RetirementState> {
+  initialize(context: OutcomeModelContext): { state: RetirementState; upfrontCost: number } {
+    const params = context.option.parameters ?? {}
+    const retirementYear =
+      params.retirementYear ??
+      (params.retirementAge ? params.retirementAge - context.userProfile.demographics.age : 1)
+
+    return {
+      state: {
+        retirementYear: Math.max(1, retirementYear),
+        benefits: (params.socialSecurity ?? 0) + (params.pension ?? 0),
+      },
+      upfrontCost: 0,
+    }
+  }
+
+  projectYear(
+    context: OutcomeModelContext,
+    previous: RetirementState,
+    year: number
+  ): OutcomeModelStep<RetirementState> {
+    if (year < previous.retirementYear) {
+      return { state: previous, adjustment: {} }
+    }
+
+    const params = context.option.parameters ?? {}
+    const inflation = context.economicConditions.inflationRate / 100
+    const benefits = previous.benefits * (1 + inflation)
+
+    return {
+      state: { ...previous, benefits },
+      adjustment: {
+        incomeShare: 0,
+        additionalIncome: benefits,
+        expenseMultiplier: 1 + (params.expenseChange ?? -0.2),
+        events:
+          year === previous.retirementYear
+            ? [
+                {
+                  year,
+                  type: 'life_event',
+                  description: 'Retired; living expenses now drawn from savings',
+                  impact: 'neutral',
+                },
+              ]
+            : [],
+      },
+    }
+  }
+}
+
+/**
+ * Startup: founder pay cut, self-funded burn, funding rounds and failure
+ *
+ * Equity is illiquid and only counts toward net worth after an exit, when the
+ * founder's proceeds are taxed as long-term capital gains. If the company
+ * fails the founder returns to a salaried role the following year.
+ */
+export class StartupModel implements OutcomeModel<StartupState> {
+  initialize(context: OutcomeModelContext): { state: StartupState; upfrontCost: number } {
+    const params = context.option.parameters ?? {}
+
+    return {
+      state: {
+        status: 'operating',
+        funded: false,
+        ownership: 1,
+        valuation: params.initialValuation ?? 1000000,
+      },
+      upfrontCost: params.initialInvestment ?? 25000,
+    }
+  }
+
+  projectYear(
+    context: OutcomeModelContext,
+    previous: StartupState,
+    year: number,
+    rng: RNG
+  ): OutcomeModelStep<StartupState> {
+    if (previous.status !== 'operating') {
+      return { state: previous, adjustment: {} }
+    }
+
+    const params = context.option.parameters ?? {}
+    const market = context.economicConditions.marketCondition
+    const salary = context.userProfile.career.salary
+    // Without a salary to compare against, the founder has no earned income to keep
+    const founderShare =
+      salary > 0 ? Math.min(1, (params.founderSalary ?? salary * 0.4) / salary) : 0
+    // Founders cover the burn personally until the first priced round
+    const selfFundedBurn = previous.funded ? 0 : (params.monthlyBurn ?? 5000) * 12
+    const events: KeyEvent[] = []
+
+    // Most failures happen in the first few years and in weak markets
+    const baseHazard = params.failureRate ?? STARTUP_FAILURE_HAZARD[Math.min(year, 5) - 1]
+    if (rng.uniform(0, 1) < baseHazard * STARTUP_MARKET_FACTOR[market]) {
+      events.push({
+        year,
+        type: 'other',
+        description: 'Startup shut down; returning to a salaried role',
+        impact: 'negative',
+        financialImpact: -selfFundedBurn,
+      })
+      return {
+        state: { ...previous, status: 'failed' },
+        adjustment: {
+          incomeShare: founderShare,
+          additionalExpenses: selfFundedBurn / 2,
+          events,
+        },
+      }
+    }
+
+    let { funded, ownership, valuation } = previous
+    const roundProbability = (funded ? 0.15 : 0.25) / STARTUP_MARKET_FACTOR[market]
+    if (rng.uniform(0, 1) < roundProbability) {
+      // Priced round: step up the valuation and dilute the founder
+      valuation *= rng.uniform(2, 4)
+      ownership *= 0.8
+      funded = true
+      events.push({
+        year,
+        type: 'opportunity',
+        description: 'Raised a funding round',
+        impact: 'positive',
+      })
+    } else {
+      valuation *= 1 + rng.normal(0.1, 0.3)
+    }
+
+    if (funded && year >= 3 && rng.uniform(0, 1) < 0.05 / STARTUP_MARKET_FACTOR[market]) {
+      const proceeds = ownership * valuation
+      events.push({
+        year,
+        type: 'opportunity',
+        description: 'Startup acquired',
+        impact: 'positive',
+        financialImpact: proceeds,
+      })
+      return {
+        state: { status: 'exited', funded, ownership, valuation },
+        adjustment: {
+          incomeShare: founderShare,
+          additionalExpenses: selfFundedBurn,
+          capitalGains: proceeds,
+          events,
+        },
+      }
+    }
+
+    return {
+      state: { status: 'operating', funded, ownership, valuation },
+      adjustment: {
+        incomeShare: founderShare,
+        additionalExpenses: selfFundedBurn,
+        events,
+      },
+    }
+  }
+}
+
+// Housing returns relative to the long-run appreciation rate
+const HOUSING_MARKET_ADJUSTMENT: Record<EconomicConditions['marketCondition'], number> = {
+  recession: -0.05,
+  downturn: -0.02,
+  stable: 0,
+  growth: 0.01,
+  boom: 0.03,
+}
+
+// Expected salary uplift by program type
+const EDUCATION_UPLIFT: Record<string, number> = {
+  certificate: 0.07,
+  bootcamp: 0.1,
+  bachelors: 0.3,
+  masters: 0.18,
+  mba: 0.3,
+  phd: 0.25,
+}
+
+// Annual startup failure probability by year since founding (year 5+ uses the last)
+const STARTUP_FAILURE_HAZARD = [0.2, 0.25, 0.2, 0.15, 0.1]
+
+// Weak markets make failure more likely and funding harder to raise
+const STARTUP_MARKET_FACTOR: Record<EconomicConditions['marketCondition'], number> = {
+  recession: 1.6,
+  downturn: 1.25,
+  stable: 1,
+  growth: 0.85,
+  boom: 0.7,
+}
+
+// Type definitions
+export interface OutcomeModel<TState = unknown> {
+  /** Set up model state before year 1 and report any upfront cash outlay */
+  initialize(context: OutcomeModelContext, rng: RNG): { state: TState; upfrontCost: number }
+  /** Advance the model by one year */
+  projectYear(
+    context: OutcomeModelContext,
+    previous: TState,
+    year: number,
+    rng: RNG
+  ): OutcomeModelStep<TState>
+}
+
+export interface OutcomeModelContext {
+  decision: Decision
+  option: DecisionOption
+  userProfile: UserProfile
+  economicConditions: EconomicConditions
+}
+
+export interface OutcomeModelStep<TState> {
+  state: TState
+  adjustment: OutcomeAdjustment
+}
+
+export interface OutcomeAdjustment {
+  /** Permanent change to the salary run-rate from this year on */
+  salaryMultiplier?: number
+  /** Share of this year's salary actually earned (0 = no earned income) */
+  incomeShare?: number
+  additionalIncome?: number
+  /** Realized long-term gains received as cash (e.g. exit proceeds), taxed as capital gains */
+  capitalGains?: number
+  additionalExpenses?: number
+  /** Scales baseline living expenses for this year */
+  expenseMultiplier?: number
+  /** Year-end value of a decision-specific asset (e.g. the home) */
+  assetValue?: number
+  /** Year-end balance of a decision-specific liability (e.g. the mortgage) */
+  liabilityBalance?: number
+  /** Interest included in this year's additionalExpenses, for reporting */
+  interestPaid?: number
+  events?: KeyEvent[]
+}
+
+interface HomePurchaseState {
+  homeValue: number
+  mortgageBalance: number
+  monthlyRate: number
+  monthlyPayment: number
+  rent: number
+}
+
+interface EducationState {
+  programYears: number
+  annualTuition: number
+  completed: boolean
+}
+
+interface RetirementState {
+  retirementYear: number
+  benefits: number
+}
+
+interface StartupState {
+  status: 'operating' | 'failed' | 'exited'
+  funded: boolean
+  ownership: number
+  valuation: number
+}
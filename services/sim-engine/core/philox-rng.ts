@@ -4,6 +4,8 @@
  * Based on Random123 library
  */
 
+import type { ScenarioStreams } from './rng'
+
 export class PhiloxRNG {
   private readonly multipliers = [
     0xd2511f53, // Philox4x32-10 multiplier 1
@@ -62,6 +64,13 @@ export class PhiloxRNG {
     return z0 * stdDev + mean
   }
 
+  /**
+   * Uniform number in [min, max)
+   */
+  uniform(min: number, max: number): number {
+    return min + (max - min) * this.next()
+  }
+
   /**
    * Jump ahead by 2^64 steps for independent streams
    */
@@ -213,6 +222,8 @@ export class PhiloxRNG {
 export class PhiloxStreamFactory {
   private baseKey: Uint32Array
   private nextStreamId: number = 0
+  // Stream ids handed out since the last clearIssued(), for run manifests
+  private issued = new Set<number>()
 
   constructor(masterSeed: string | number) {
     const rng = new PhiloxRNG(masterSeed)
@@ -224,6 +235,7 @@ export class PhiloxStreamFactory {
    */
   createStream(workerId?: string): PhiloxRNG {
     const streamId = this.nextStreamId++
+    this.issued.add(streamId)
     const seed = workerId
       ? `${this.baseKey[0]}-${this.baseKey[1]}-${workerId}`
       : this.baseKey[0] ^ (streamId * 0x9e3779b9)
@@ -231,6 +243,32 @@ export class PhiloxStreamFactory {
     return new PhiloxRNG(seed, streamId, 0)
   }
 
+  /**
+   * Create the stream with a given id without advancing the factory
+   *
+   * Each call returns a fresh generator at the start of the stream, so
+   * several consumers can replay identical draws (common random numbers).
+   */
+  createStreamAt(streamId: number): PhiloxRNG {
+    this.issued.add(streamId)
+    return new PhiloxRNG(this.baseKey[0] ^ (streamId * 0x9e3779b9), streamId, 0)
+  }
+
+  /**
+   * Create the economy and idiosyncratic streams of a scenario index
+   *
+   * They are substreams 0 and 1 of stream `streamId`, so the economy stream
+   * matches createStreamAt(streamId) and draws from one never shift the other.
+   */
+  createScenarioStreamsAt(streamId: number): ScenarioStreams {
+    this.issued.add(streamId)
+    const seed = this.baseKey[0] ^ (streamId * 0x9e3779b9)
+    return {
+      economy: new PhiloxRNG(seed, streamId, 0),
+      idiosyncratic: new PhiloxRNG(seed, streamId, 1),
+    }
+  }
+
   /**
    * Create a batch of independent streams for parallel workers
    */
@@ -241,6 +279,24 @@ export class PhiloxStreamFactory {
     }
     return streams
   }
+
+  /**
+   * Stream ids handed out since the last clear, as inclusive [first, last] ranges
+   */
+  issuedStreams(): Array<[number, number]> {
+    const ids = [...this.issued].sort((a, b) => a - b)
+    const ranges: Array<[number, number]> = []
+    for (const id of ids) {
+      const last = ranges[ranges.length - 1]
+      if (last && id === last[1] + 1) last[1] = id
+      else ranges.push([id, id])
+    }
+    return ranges
+  }
+
+  clearIssued(): void {
+    this.issued.clear()
+  }
 }
 
 // Type definitions
@@ -0,0 +1,260 @@
+/**
+ * Multi-asset portfolio model
+ * Correlated stock, bond, cash and real estate returns by economic regime,
+ * with glide-path allocation, rebalancing and scheduled contributions to
+ * taxable, traditional and Roth accounts
+ */
+
+import type {
+  AccountBucket,
+  AssetAllocation,
+  DecisionType,
+  EconomicConditions,
+  EconomicRegime,
+  FinancialProfile,
+  RebalancingPolicy,
+} from '@theguide/models'
+import type { OutcomeModelContext } from './outcome-models'
+import { RegimeSwitchingEconomy } from './regime-switching'
+import type { RNG } from './rng'
+
+export class PortfolioModel {
+  static readonly DECISION_TYPES: DecisionType[] = ['investment', 'retirement']
+  // Stock share of the glide path is (110 - age) / 100, tilted by risk tolerance
+  private static readonly GLIDE_PATH_AGE = 110
+  private static readonly RISK_TILT: Record<FinancialProfile['riskTolerance'], number> = {
+    conservative: -0.2,
+    moderate: 0,
+    aggressive: 0.15,
+  }
+  private static readonly STOCK_SHARE_BOUNDS: [number, number] = [0.1, 0.95]
+  private static readonly REBALANCING_BAND = 0.05
+  // Annual Roth IRA limit in today's dollars
+  private static readonly ROTH_LIMIT = 7000
+
+  private economy: RegimeSwitchingEconomy
+  // Cholesky factors of each regime's stock/bond/real estate correlations
+  private factors: Record<EconomicRegime, number[][]>
+
+  constructor(economy: RegimeSwitchingEconomy) {
+    this.economy = economy
+    this.factors = Object.fromEntries(
+      RegimeSwitchingEconomy.REGIMES.map(regime => [
+        regime,
+        this.cholesky([
+          [1, STOCK_BOND_CORRELATION[regime], STOCK_REAL_ESTATE_CORRELATION],
+          [STOCK_BOND_CORRELATION[regime], 1, BOND_REAL_ESTATE_CORRELATION],
+          [STOCK_REAL_ESTATE_CORRELATION, BOND_REAL_ESTATE_CORRELATION, 1],
+        ]),
+      ])
+    ) as Record<EconomicRegime, number[][]>
+  }
+
+  static appliesTo(decisionType: DecisionType): boolean {
+    return PortfolioModel.DECISION_TYPES.includes(decisionType)
+  }
+
+  /**
+   * Portfolio settings from the option's parameters and the user's profile
+   */
+  createPlan(context: OutcomeModelContext): PortfolioPlan {
+    const params = context.option.parameters ?? {}
+    return {
+      allocation: params.allocation ? this.normalize(params.allocation) : undefined,
+      riskTolerance: context.userProfile.financial.riskTolerance ?? 'moderate',
+      startAge: context.userProfile.demographics.age,
+      rebalancing: params.rebalancing ?? 'annual',
+      monthlyContribution: Math.max(0, params.monthlyContribution ?? 0),
+      contributionGrowth: params.contributionGrowth ?? 0,
+      contributionAccount: params.contributionAccount ?? 'taxable',
+    }
+  }
+
+  /**
+   * Target weights for a projection year: the option's fixed mix, or the
+   * glide path at the user's age that year
+   */
+  target(plan: PortfolioPlan, year: number): AssetAllocation {
+    if (plan.allocation) return plan.allocation
+
+    const [low, high] = PortfolioModel.STOCK_SHARE_BOUNDS
+    const age = plan.startAge + year - 1
+    const stocks = Math.min(
+      high,
+      Math.max(
+        low,
+        (PortfolioModel.GLIDE_PATH_AGE - age) / 100 + PortfolioModel.RISK_TILT[plan.riskTolerance]
+      )
+    )
+    return { stocks, bonds: 1 - stocks, cash: 0 }
+  }
+
+  /**
+   * Contribution scheduled for a projection year; Roth contributions stop at
+   * the IRA limit, indexed to the price level
+   */
+  contribution(plan: PortfolioPlan, year: number, priceLevel: number): number {
+    const scheduled = plan.monthlyContribution * 12 * (1 + plan.contributionGrowth) ** (year - 1)
+    return plan.contributionAccount === 'roth'
+      ? Math.min(scheduled, PortfolioModel.ROTH_LIMIT * priceLevel)
+      : scheduled
+  }
+
+  /**
+   * One year's asset returns under the year's regime
+   *
+   * Stocks follow the economy's market return; bonds and real estate are
+   * drawn with them through the Cholesky factor of the regime's
+   * correlations, so bonds hedge in a crisis but fall with stocks when
+   * inflation is high. Cash earns inflation plus the regime's real rate.
+   */
+  drawReturns(conditions: EconomicConditions, rng: RNG): AssetReturns {
+    const regime = RegimeSwitchingEconomy.regimeOf(conditions)
+    const market = this.economy.returnDistribution(regime)
+    const z = [rng.normal(0, 1), rng.normal(0, 1), rng.normal(0, 1)]
+    const [stocks, bonds, realEstate] = this.factors[regime].map(row =>
+      row.reduce((sum, loading, j) => sum + loading * z[j], 0)
+    )
+
+    return {
+      stocks: market.mean + market.std * stocks,
+      bonds: BOND_RETURNS[regime].mean + BOND_RETURNS[regime].std * bonds,
+      cash: Math.max(0, conditions.inflationRate / 100 + CASH_REAL_RATE[regime]),
+      realEstate: REAL_ESTATE_RETURNS[regime].mean + REAL_ESTATE_RETURNS[regime].std * realEstate,
+    }
+  }
+
+  /**
+   * Grow the invested mix through one period of the year
+   *
+   * Weights drift with relative performance until the next rebalancing.
+   */
+  grow(
+    weights: AssetAllocation,
+    returns: AssetReturns,
+    periodsPerYear: number
+  ): { weights: AssetAllocation; periodReturn: number } {
+    const growth = {
+      stocks: (1 + returns.stocks) ** (1 / periodsPerYear),
+      bonds: (1 + returns.bonds) ** (1 / periodsPerYear),
+      cash: (1 + returns.cash) ** (1 / periodsPerYear),
+    }
+    const total =
+      weights.stocks * growth.stocks + weights.bonds * growth.bonds + weights.cash * growth.cash
+
+    return {
+      weights: {
+        stocks: (weights.stocks * growth.stocks) / total,
+        bonds: (weights.bonds * growth.bonds) / total,
+        cash: (weights.cash * growth.cash) / total,
+      },
+      periodReturn: total - 1,
+    }
+  }
+
+  /**
+   * Year-end weights under the plan's rebalancing policy; rebalancing moves
+   * to next year's target, so the glide path steps down once a year
+   */
+  rebalance(weights: AssetAllocation, plan: PortfolioPlan, year: number): AssetAllocation {
+    const target = this.target(plan, year + 1)
+    switch (plan.rebalancing) {
+      case 'none':
+        return weights
+      case 'threshold': {
+        const drift = Math.max(
+          Math.abs(weights.stocks - target.stocks),
+          Math.abs(weights.bonds - target.bonds),
+          Math.abs(weights.cash - target.cash)
+        )
+        return drift > PortfolioModel.REBALANCING_BAND ? target : weights
+      }
+      default:
+        return target
+    }
+  }
+
+  private normalize(allocation: AssetAllocation): AssetAllocation {
+    const stocks = Math.max(0, allocation.stocks ?? 0)
+    const bonds = Math.max(0, allocation.bonds ?? 0)
+    const cash = Math.max(0, allocation.cash ?? 0)
+    const total = stocks + bonds + cash
+    if (total <= 0) {
+      throw new Error('Portfolio allocation must have a positive weight')
+    }
+    return { stocks: stocks / total, bonds: bonds / total, cash: cash / total }
+  }
+
+  private cholesky(matrix: number[][]): number[][] {
+    const n = matrix.length
+    const lower = Array.from({ length: n }, () => new Array<number>(n).fill(0))
+    for (let i = 0; i < n; i++) {
+      for (let j = 0; j <= i; j++) {
+        let sum = matrix[i][j]
+        for (let k = 0; k < j; k++) sum -= lower[i][k] * lower[j][k]
+        lower[i][j] = i === j ? Math.sqrt(sum) : sum / lower[j][j]
+      }
+    }
+    return lower
+  }
+}
+
+// Type definitions
+export interface PortfolioPlan {
+  allocation?: AssetAllocation // fixed target; glide path when omitted
+  riskTolerance: FinancialProfile['riskTolerance']
+  startAge: number
+  rebalancing: RebalancingPolicy
+  monthlyContribution: number
+  contributionGrowth: number
+  contributionAccount: AccountBucket
+}
+
+export interface PortfolioState {
+  plan: PortfolioPlan
+  weights: AssetAllocation // current mix of the invested accounts
+}
+
+export interface AssetReturns {
+  stocks: number
+  bonds: number
+  cash: number
+  realEstate: number
+}
+
+// Annual bond and property returns by regime (decimal); stocks come from the economy
+const BOND_RETURNS: Record<EconomicRegime, { mean: number; std: number }> = {
+  crisis: { mean: 0.06, std: 0.07 },
+  recession: { mean: 0.05, std: 0.06 },
+  inflation: { mean: -0.02, std: 0.08 },
+  normal: { mean: 0.04, std: 0.05 },
+  boom: { mean: 0.02, std: 0.05 },
+}
+
+const REAL_ESTATE_RETURNS: Record<EconomicRegime, { mean: number; std: number }> = {
+  crisis: { mean: -0.12, std: 0.1 },
+  recession: { mean: -0.02, std: 0.07 },
+  inflation: { mean: 0.06, std: 0.06 },
+  normal: { mean: 0.05, std: 0.05 },
+  boom: { mean: 0.08, std: 0.06 },
+}
+
+// Real return of cash over inflation
+const CASH_REAL_RATE: Record<EconomicRegime, number> = {
+  crisis: -0.01,
+  recession: -0.005,
+  inflation: -0.02,
+  normal: 0.005,
+  boom: 0.01,
+}
+
+// Bonds hedge stocks in downturns and move with them when inflation drives rates
+const STOCK_BOND_CORRELATION: Record<EconomicRegime, number> = {
+  crisis: -0.4,
+  recession: -0.2,
+  inflation: 0.5,
+  normal: 0,
+  boom: 0.1,
+}
+const STOCK_REAL_ESTATE_CORRELATION = 0.5
+const BOND_REAL_ESTATE_CORRELATION = 0.1
@@ -3,19 +3,23 @@
  * Implements state-of-the-art variance reduction techniques
  */
 
+import type { EconomicRegime } from '@theguide/models'
 import { VineCopula } from './copulas'
 import { PhiloxRNG } from './philox-rng'
+import { RegimeSwitchingEconomy } from './regime-switching'
 import { ScrambledSobol } from './sobol'
 
 export class QMCEngine {
   private sobol: ScrambledSobol
   private copula: VineCopula
   private rng: PhiloxRNG
+  private economy: RegimeSwitchingEconomy
 
-  constructor(dimension: number, seed: string) {
+  constructor(dimension: number, seed: string, economy?: RegimeSwitchingEconomy) {
     this.sobol = new ScrambledSobol(dimension, seed)
     this.rng = new PhiloxRNG(seed)
     this.copula = new VineCopula()
+    this.economy = economy ?? new RegimeSwitchingEconomy()
   }
 
   /**
@@ -38,24 +42,30 @@ export class QMCEngine {
   /**
    * Transform uniform QMC points to correlated economic scenarios
    * using vine copulas for realistic dependence structures
+   *
+   * The first-year regime is the stationary-distribution quantile of the
+   * asset-return coordinate, so weak returns land in bad regimes; later
+   * years follow the regime-switching chain.
    */
   transformToScenarios(
     uniformSamples: number[][],
-    marketParams: MarketParameters
+    marketParams: MarketParameters,
+    years: number = 10
   ): EconomicScenario[] {
     const scenarios: EconomicScenario[] = []
 
-    // Fit vine copula to historical data
-    this.copula.fit({
-      wageGrowth: marketParams.historicalWageGrowth,
-      inflation: marketParams.historicalInflation,
-      assetReturns: marketParams.historicalReturns,
-      unemployment: marketParams.historicalUnemployment,
-    })
+    // Use the calibrated copula when supplied, otherwise fit one to the historical series
+    const copula = marketParams.copula ?? this.fitCopula(marketParams)
 
     for (const sample of uniformSamples) {
       // Transform through copula to get correlated uniforms
-      const correlated = this.copula.transform(sample)
+      const correlated = copula.transform(sample)
+
+      const regimePath = this.economy.simulateRegimes(
+        years,
+        this.rng,
+        this.economy.initialRegime(correlated[2])
+      )
 
       // Map to marginal distributions
       const scenario: EconomicScenario = {
@@ -64,8 +74,8 @@ export class QMCEngine {
         assetReturn: this.inverseCDF(correlated[2], marketParams.assetReturnDist),
         unemployment: this.inverseCDF(correlated[3], marketParams.unemploymentDist),
         housingAppreciation: this.inverseCDF(correlated[4], marketParams.housingDist),
-        // Capture tail dependence for market crashes
-        marketRegime: this.determineRegime(correlated),
+        marketRegime: regimePath[0],
+        regimePath,
       }
 
       scenarios.push(scenario)
@@ -110,15 +120,21 @@ export class QMCEngine {
   /**
    * Control variates using Stein's method for variance reduction
    * Can achieve 10-100x variance reduction on smooth functionals
+   *
+   * With the control's known expectation supplied, the mean of the adjusted
+   * values is the control-variate estimator; without it the adjustment only
+   * removes variance around the sample mean.
    */
   applyControlVariates(
     primaryValues: number[],
     controlFunction: (x: number[]) => number,
-    samples: number[][]
+    samples: number[][],
+    expectedControl?: number
   ): number[] {
     // Compute control variate values
     const controlValues = samples.map(s => controlFunction(s))
-    const controlMean = controlValues.reduce((sum, v) => sum + v, 0) / controlValues.length
+    const controlMean =
+      expectedControl ?? controlValues.reduce((sum, v) => sum + v, 0) / controlValues.length
 
     // Estimate optimal coefficient
     const cov = this.covariance(primaryValues, controlValues)
@@ -129,6 +145,27 @@ export class QMCEngine {
     return primaryValues.map((val, i) => val + beta * (controlValues[i] - controlMean))
   }
 
+  private fitCopula(marketParams: MarketParameters): VineCopula {
+    const { historicalWageGrowth, historicalInflation, historicalReturns, historicalUnemployment } =
+      marketParams
+    if (
+      !historicalWageGrowth ||
+      !historicalInflation ||
+      !historicalReturns ||
+      !historicalUnemployment
+    ) {
+      throw new Error('Market parameters need either a copula or historical series to fit one')
+    }
+
+    this.copula.fit({
+      wageGrowth: historicalWageGrowth,
+      inflation: historicalInflation,
+      assetReturns: historicalReturns,
+      unemployment: historicalUnemployment,
+    })
+    return this.copula
+  }
+
   /**
    * Inverse CDF for transforming uniforms to target distributions
    */
@@ -314,17 +351,6 @@ export class QMCEngine {
     return sortedValues[index] * (1 - alpha) + sortedValues[index + 1] * alpha
   }
 
-  private determineRegime(correlatedUniforms: number[]): MarketRegime {
-    // Use tail behavior to classify regime
-    const tailIndex = correlatedUniforms.filter(u => u < 0.1 || u > 0.9).length
-
-    if (tailIndex >= 3) return 'crisis'
-    if (correlatedUniforms[2] < 0.2) return 'recession'
-    if (correlatedUniforms[2] > 0.8) return 'boom'
-    if (correlatedUniforms[1] > 0.7) return 'inflation'
-    return 'normal'
-  }
-
   private covariance(x: number[], y: number[]): number {
     const meanX = x.reduce((sum, v) => sum + v, 0) / x.length
     const meanY = y.reduce((sum, v) => sum + v, 0) / y.length
@@ -339,11 +365,13 @@ export class QMCEngine {
 }
 
 // Type definitions
-interface MarketParameters {
-  historicalWageGrowth: number[]
-  historicalInflation: number[]
-  historicalReturns: number[]
-  historicalUnemployment: number[]
+export interface MarketParameters {
+  // Pre-fitted copula over (wage growth, inflation, asset return, unemployment)
+  copula?: VineCopula
+  historicalWageGrowth?: number[]
+  historicalInflation?: number[]
+  historicalReturns?: number[]
+  historicalUnemployment?: number[]
   wageGrowthDist: Distribution
   inflationDist: Distribution
   assetReturnDist: Distribution
@@ -351,7 +379,7 @@ interface MarketParameters {
   housingDist: Distribution
 }
 
-interface Distribution {
+export interface Distribution {
   type: 'normal' | 'lognormal' | 'beta' | 'empirical'
   mean?: number
   std?: number
@@ -370,7 +398,6 @@ interface EconomicScenario {
   assetReturn: number
   unemployment: number
   housingAppreciation: number
-  marketRegime: MarketRegime
+  marketRegime: EconomicRegime
+  regimePath: EconomicRegime[] // index 0 = year 1
 }
-
-type MarketRegime = 'crisis' | 'recession' | 'normal' | 'boom' | 'inflation'
@@ -0,0 +1,370 @@
+/**
+ * Multi-stage decisions with recourse
+ * Follow-up decision points are solved by backward induction over a reduced
+ * scenario tree, giving the optimal contingent policy for an option
+ */
+
+import type {
+  ContingentPolicyResult,
+  Decision,
+  DecisionOption,
+  DecisionPoint,
+  DecisionPointSummary,
+  FinancialProfile,
+  PolicyRule,
+  Scenario,
+  UserProfile,
+  YearlyOutcome,
+} from '@theguide/models'
+import type { ProjectionOptions, SimulationEngine } from './engine'
+import type { PhiloxStreamFactory } from './philox-rng'
+import type { MultistageScenario, ScenarioReducer, TreeNode } from './scenario-reduction'
+import type { UtilityModel } from './utility'
+
+export class RecoursePlanner {
+  private static readonly HORIZON = 10
+  private static readonly CONTINUE = 'continue'
+
+  private engine: SimulationEngine
+  private reducer: ScenarioReducer
+  private streamFactory: PhiloxStreamFactory
+
+  constructor(
+    engine: SimulationEngine,
+    reducer: ScenarioReducer,
+    streamFactory: PhiloxStreamFactory
+  ) {
+    this.engine = engine
+    this.reducer = reducer
+    this.streamFactory = streamFactory
+  }
+
+  /**
+   * Policy that maximizes expected utility of year-10 net worth
+   *
+   * Scenarios simulated under `option` form a tree whose stages are the
+   * decision point years and the horizon; nodes where a decision point's
+   * trigger held are labelled so reduction keeps them apart. Working back
+   * from the leaves, each such node compares carrying on (its subtree) with
+   * every follow-up option, simulated from the node's balance sheet for the
+   * remaining years on common random numbers. Taking a follow-up ends the
+   * plan on that branch: later decision points are not revisited. Follow-ups
+   * start a fresh projection, so promotion eligibility and tax-bracket
+   * indexing restart with them and their value is slightly understated.
+   *
+   * @param decision - Decision whose `followUps` are planned
+   * @param option - Option taken now
+   * @param userProfile - The user's profile
+   * @param utility - Utility the policy maximizes
+   * @param config - Scenario counts and projection options
+   */
+  async plan(
+    decision: Decision,
+    option: DecisionOption,
+    userProfile: Partial<UserProfile>,
+    utility: UtilityModel,
+    config: RecourseConfig
+  ): Promise<RecoursePlan> {
+    const points = [...(decision.followUps ?? [])].sort((a, b) => a.year - b.year)
+    this.validate(points)
+    const pointsById = new Map(points.map(point => [point.id, point]))
+    const years = [...points.map(point => point.year), RecoursePlanner.HORIZON]
+
+    const [scenarios] = await this.engine.runOnCommonPaths(
+      decision,
+      [option],
+      userProfile,
+      index => this.streamFactory.createScenarioStreamsAt(index),
+      config.scenarios,
+      config.projection
+    )
+    const paths: MultistageScenario[] = scenarios.map(scenario => ({
+      ...scenario,
+      values: years.map(year => this.state(this.outcomeAt(scenario, year))),
+      labels: years.map((_, stage) => {
+        const point = points[stage]
+        return point && this.isTriggered(point, scenario) ? point.id : ''
+      }),
+    }))
+    const tree = this.reducer.buildReducedTree(paths, config.treeSize, years.length)
+
+    // Follow-ups continue on streams after those of the tree scenarios
+    let nextStream = config.scenarios
+    const rules: PolicyRule[] = []
+    let leaves = 0
+
+    // Expected utility with the optimal policy and when always carrying on
+    const solve = async (node: TreeNode): Promise<{ contingent: number; fixed: number }> => {
+      if (node.children.length === 0) {
+        leaves++
+        const value = utility.utility(node.value?.[0] ?? 0)
+        return { contingent: value, fixed: value }
+      }
+
+      let contingent = 0
+      let fixed = 0
+      for (const child of node.children) {
+        const value = await solve(child)
+        const share = node.probability > 0 ? child.probability / node.probability : 0
+        contingent += share * value.contingent
+        fixed += share * value.fixed
+      }
+
+      const point = node.label ? pointsById.get(node.label) : undefined
+      if (!point || !node.value) return { contingent, fixed }
+
+      const netWorth = await this.continuations(
+        decision,
+        point,
+        node.value,
+        userProfile,
+        config,
+        nextStream
+      )
+      nextStream += config.continuationScenarios
+
+      const values: Record<string, number> = {
+        [RecoursePlanner.CONTINUE]: utility.inverse(contingent),
+      }
+      let best = contingent
+      let choice: string | null = null
+      for (const [i, followUp] of point.options.entries()) {
+        const expected =
+          netWorth[i].reduce((sum, v) => sum + utility.utility(v), 0) / netWorth[i].length
+        values[followUp.id] = utility.inverse(expected)
+        if (expected > best) {
+          best = expected
+          choice = followUp.id
+        }
+      }
+
+      const [nodeNetWorth, salary, liquidAssets, debt] = node.value
+      rules.push({
+        decisionPointId: point.id,
+        year: point.year,
+        probability: node.probability,
+        state: { netWorth: nodeNetWorth, salary, liquidAssets, debt },
+        choice,
+        values,
+      })
+      return { contingent: best, fixed }
+    }
+
+    const root = await solve(tree.root)
+    const contingentValue = utility.inverse(root.contingent)
+    const staticValue = utility.inverse(root.fixed)
+
+    return {
+      treeLeaves: leaves,
+      rules: rules.sort((a, b) => a.year - b.year || b.probability - a.probability),
+      decisionPoints: points.map(point => this.summarize(point, rules)),
+      contingentValue,
+      staticValue,
+      valueOfFlexibility: contingentValue - staticValue,
+    }
+  }
+
+  private validate(points: DecisionPoint[]): void {
+    for (const [i, point] of points.entries()) {
+      if (
+        !Number.isInteger(point.year) ||
+        point.year < 1 ||
+        point.year >= RecoursePlanner.HORIZON
+      ) {
+        throw new Error(
+          `Decision point "${point.title}" must be in a whole year from 1 to ${RecoursePlanner.HORIZON - 1}`
+        )
+      }
+      if (point.options.length === 0) {
+        throw new Error(`Decision point "${point.title}" has no options`)
+      }
+      if (i > 0 && points[i - 1].year === point.year) {
+        throw new Error(`Only one decision point per year is supported (year ${point.year})`)
+      }
+    }
+  }
+
+  // Net worth at the horizon for each follow-up option, simulated from a node's state
+  private async continuations(
+    decision: Decision,
+    point: DecisionPoint,
+    state: number[],
+    userProfile: Partial<UserProfile>,
+    config: RecourseConfig,
+    firstStream: number
+  ): Promise<number[][]> {
+    const followUp: Decision = {
+      ...decision,
+      id: `${decision.id}:${point.id}`,
+      type: point.type,
+      title: point.title,
+      options: point.options,
+      followUps: undefined,
+    }
+    const remaining = RecoursePlanner.HORIZON - point.year
+
+    const scenarioSets = await this.engine.runOnCommonPaths(
+      followUp,
+      point.options,
+      this.profileAt(userProfile, state, point.year),
+      index => this.streamFactory.createScenarioStreamsAt(firstStream + index),
+      config.continuationScenarios,
+      config.projection
+    )
+    return scenarioSets.map(set =>
+      set.map(s => this.outcomeAt(s, remaining).financialPosition.netWorth)
+    )
+  }
+
+  /**
+   * Profile whose balance sheet matches a tree node, for simulating a follow-up from it
+   *
+   * Liquid assets beyond the profile's cash reserve are invested and the rest
+   * of net worth is carried as retirement savings, since projections do not
+   * report it separately. Debts keep the profile's mix and expenses scale to
+   * the year's spending.
+   */
+  private profileAt(
+    profile: Partial<UserProfile>,
+    state: number[],
+    year: number
+  ): Partial<UserProfile> {
+    const [netWorth, salary, liquidAssets, debt, expenses] = state
+    const financial: Partial<FinancialProfile> = profile.financial ?? {}
+    const sum = (values: Record<string, number> = {}) =>
+      Object.values(values).reduce((total, v) => total + (v || 0), 0)
+
+    // The cash balance sets the reserve kept uninvested, so only that much stays in cash
+    const liquid = Math.max(0, liquidAssets)
+    const cash = Math.min(liquid, financial.assets?.cash ?? liquid)
+
+    const debtBefore = sum(financial.liabilities)
+    const liabilities: FinancialProfile['liabilities'] =
+      financial.liabilities && debtBefore > 0
+        ? {
+            creditCards: (financial.liabilities.creditCards * debt) / debtBefore,
+            studentLoans: (financial.liabilities.studentLoans * debt) / debtBefore,
+            mortgage: (financial.liabilities.mortgage * debt) / debtBefore,
+            other: (financial.liabilities.other * debt) / debtBefore,
+          }
+        : { creditCards: 0, studentLoans: 0, mortgage: 0, other: debt }
+
+    const monthlyBefore = sum(financial.monthlyExpenses)
+    const monthlyExpenses: FinancialProfile['monthlyExpenses'] =
+      financial.monthlyExpenses && monthlyBefore > 0
+        ? (Object.fromEntries(
+            Object.entries(financial.monthlyExpenses).map(([category, amount]) => [
+              category,
+              (amount * expenses) / 12 / monthlyBefore,
+            ])
+          ) as FinancialProfile['monthlyExpenses'])
+        : {
+            housing: 0,
+            transportation: 0,
+            food: 0,
+            utilities: 0,
+            entertainment: 0,
+            healthcare: 0,
+            other: expenses / 12,
+          }
+
+    return {
+      ...profile,
+      demographics: profile.demographics && {
+        ...profile.demographics,
+        age: profile.demographics.age + year,
+      },
+      career: profile.career && {
+        ...profile.career,
+        yearsExperience: (profile.career.yearsExperience ?? 0) + year,
+        salary,
+        compensation: profile.career.compensation && {
+          ...profile.career.compensation,
+          base: salary,
+        },
+      },
+      financial: {
+        ...financial,
+        assets: {
+          cash,
+          investments: liquid - cash,
+          retirement: netWorth - liquidAssets + debt,
+          realEstate: 0,
+          other: 0,
+        },
+        liabilities,
+        monthlyExpenses,
+      } as FinancialProfile,
+    }
+  }
+
+  private summarize(point: DecisionPoint, rules: PolicyRule[]): DecisionPointSummary {
+    const nodes = rules.filter(rule => rule.decisionPointId === point.id)
+    const choiceProbabilities: Record<string, number> = {}
+    for (const rule of nodes) {
+      const key = rule.choice ?? RecoursePlanner.CONTINUE
+      choiceProbabilities[key] = (choiceProbabilities[key] ?? 0) + rule.probability
+    }
+    return {
+      decisionPointId: point.id,
+      title: point.title,
+      year: point.year,
+      probabilityTriggered: nodes.reduce((sum, rule) => sum + rule.probability, 0),
+      choiceProbabilities,
+    }
+  }
+
+  private isTriggered(point: DecisionPoint, scenario: Scenario): boolean {
+    const trigger = point.trigger
+    if (!trigger) return true
+    if (
+      trigger.event &&
+      !scenario.keyEvents.some(e => e.type === trigger.event && e.year === point.year)
+    ) {
+      return false
+    }
+    return (
+      trigger.netWorthBelow === undefined ||
+      this.outcomeAt(scenario, point.year).financialPosition.netWorth < trigger.netWorthBelow
+    )
+  }
+
+  // Tree node values: [netWorth, salary, liquidAssets, debt, expenses]
+  private state(outcome: YearlyOutcome): number[] {
+    const position = outcome.financialPosition
+    return [
+      position.netWorth,
+      outcome.careerProgress.salary ?? position.income,
+      position.liquidAssets ?? position.netWorth,
+      position.debt ?? 0,
+      position.expenses,
+    ]
+  }
+
+  private outcomeAt(scenario: Scenario, year: number): YearlyOutcome {
+    const { outcomes } = scenario
+    if (outcomes.yearly?.[year - 1]) return outcomes.yearly[year - 1]
+    if (year >= 10) return outcomes.year10
+    if (year >= 5) return outcomes.year5
+    if (year >= 3) return outcomes.year3
+    return outcomes.year1
+  }
+}
+
+// Type definitions
+export interface RecourseConfig {
+  scenarios: number // simulated under the option before tree reduction
+  treeSize: number // target number of tree leaves
+  continuationScenarios: number // per follow-up option at each decision node
+  projection: ProjectionOptions
+}
+
+export type RecoursePlan = Pick<
+  ContingentPolicyResult,
+  | 'treeLeaves'
+  | 'rules'
+  | 'decisionPoints'
+  | 'contingentValue'
+  | 'staticValue'
+  | 'valueOfFlexibility'
+>
@@ -0,0 +1,345 @@
+/**
+ * Markov regime-switching economy
+ * Annual transitions between economic regimes with regime-dependent
+ * GDP growth, inflation, unemployment and market return distributions
+ */
+
+import type { EconomicConditions, EconomicRegime } from '@theguide/models'
+import type { RNG } from './rng'
+
+export class RegimeSwitchingEconomy {
+  // Ordered from worst to best market outcome so low uniforms map to bad regimes
+  static readonly REGIMES: EconomicRegime[] = ['crisis', 'recession', 'inflation', 'normal', 'boom']
+
+  private transitions: TransitionMatrix
+  private parameters: Record<EconomicRegime, RegimeParameters>
+  private stationary: Record<EconomicRegime, number>
+
+  constructor(
+    transitions: TransitionMatrix = DEFAULT_TRANSITIONS,
+    parameters: Record<EconomicRegime, RegimeParameters> = DEFAULT_PARAMETERS
+  ) {
+    for (const from of RegimeSwitchingEconomy.REGIMES) {
+      const total = RegimeSwitchingEconomy.REGIMES.reduce(
+        (sum, to) => sum + transitions[from][to],
+        0
+      )
+      if (Math.abs(total - 1) > 1e-6) {
+        throw new Error(`Transition probabilities from '${from}' must sum to 1`)
+      }
+    }
+    this.transitions = transitions
+    this.parameters = parameters
+    this.stationary = this.computeStationaryDistribution()
+  }
+
+  /**
+   * Long-run share of years spent in each regime
+   */
+  get stationaryDistribution(): Record<EconomicRegime, number> {
+    return { ...this.stationary }
+  }
+
+  /**
+   * Long-run mean of an economic variable: each regime's mean weighted by
+   * the share of years the chain spends in it
+   */
+  stationaryMean(variable: keyof RegimeParameters): number {
+    return RegimeSwitchingEconomy.REGIMES.reduce(
+      (sum, regime) => sum + this.stationary[regime] * this.parameters[regime][variable].mean,
+      0
+    )
+  }
+
+  /**
+   * Economy that enters the given regimes more often
+   *
+   * Every transition into a regime is scaled by its factor and each row is
+   * renormalized; conditions within a regime are unchanged. Used as an
+   * importance-sampling proposal, with `pathProbability` giving the weights.
+   */
+  tilted(factors: Partial<Record<EconomicRegime, number>>): RegimeSwitchingEconomy {
+    const regimes = RegimeSwitchingEconomy.REGIMES
+    const transitions = Object.fromEntries(
+      regimes.map(from => {
+        const scaled = regimes.map(to => this.transitions[from][to] * (factors[to] ?? 1))
+        const total = scaled.reduce((sum, p) => sum + p, 0)
+        return [from, Object.fromEntries(regimes.map((to, i) => [to, scaled[i] / total]))]
+      })
+    ) as TransitionMatrix
+    return new RegimeSwitchingEconomy(transitions, this.parameters)
+  }
+
+  /**
+   * Probability of a regime path started from the stationary distribution
+   */
+  pathProbability(path: EconomicRegime[]): number {
+    return path.reduce(
+      (probability, regime, year) =>
+        probability *
+        (year === 0 ? this.stationary[regime] : this.transitions[path[year - 1]][regime]),
+      1
+    )
+  }
+
+  /**
+   * Regime for a uniform draw from the stationary distribution (inverse CDF)
+   */
+  initialRegime(u: number): EconomicRegime {
+    return this.inverseCDF(this.stationary, u)
+  }
+
+  /**
+   * Next year's regime for a uniform draw from the current regime's transition row
+   */
+  nextRegime(current: EconomicRegime, u: number): EconomicRegime {
+    return this.inverseCDF(this.transitions[current], u)
+  }
+
+  /**
+   * Simulate a regime path, starting from the stationary distribution unless a start is given
+   */
+  simulateRegimes(years: number, rng: RNG, start?: EconomicRegime): EconomicRegime[] {
+    const path: EconomicRegime[] = []
+    let regime = start ?? this.initialRegime(rng.next())
+    for (let year = 0; year < years; year++) {
+      if (year > 0) regime = this.nextRegime(regime, rng.next())
+      path.push(regime)
+    }
+    return path
+  }
+
+  /**
+   * Simulate a regime path and draw each year's economic conditions
+   */
+  generatePath(years: number, rng: RNG, start?: EconomicRegime): EconomicConditions[] {
+    return this.simulateRegimes(years, rng, start).map(regime => this.drawConditions(regime, rng))
+  }
+
+  /**
+   * Draw one year's economic conditions within a regime
+   */
+  drawConditions(regime: EconomicRegime, rng: RNG): EconomicConditions {
+    const params = this.parameters[regime]
+    const gdpGrowth = rng.normal(params.gdpGrowth.mean, params.gdpGrowth.std)
+    const marketCondition = RegimeSwitchingEconomy.marketCondition(regime, gdpGrowth)
+
+    return {
+      gdpGrowth,
+      inflationRate: rng.normal(params.inflationRate.mean, params.inflationRate.std),
+      unemploymentRate: Math.max(
+        2,
+        rng.normal(params.unemploymentRate.mean, params.unemploymentRate.std)
+      ),
+      marketCondition,
+      industryOutlook: RegimeSwitchingEconomy.drawIndustryOutlook(marketCondition, rng),
+      regime,
+    }
+  }
+
+  /**
+   * Mean conditions of a regime, for paths generated without an RNG
+   */
+  expectedConditions(regime: EconomicRegime): EconomicConditions {
+    const params = this.parameters[regime]
+    const marketCondition = RegimeSwitchingEconomy.marketCondition(regime, params.gdpGrowth.mean)
+    return {
+      gdpGrowth: params.gdpGrowth.mean,
+      inflationRate: params.inflationRate.mean,
+      unemploymentRate: params.unemploymentRate.mean,
+      marketCondition,
+      industryOutlook: EXPECTED_OUTLOOK[marketCondition],
+      regime,
+    }
+  }
+
+  /**
+   * Draw a market return (decimal) from the regime's return distribution
+   */
+  drawReturn(regime: EconomicRegime, rng: RNG): number {
+    const { mean, std } = this.parameters[regime].marketReturn
+    return rng.normal(mean, std)
+  }
+
+  /**
+   * Mean and standard deviation of the regime's market return (decimal)
+   */
+  returnDistribution(regime: EconomicRegime): { mean: number; std: number } {
+    return this.parameters[regime].marketReturn
+  }
+
+  /**
+   * Scenario-level summary of a path: average rates, with the regime and
+   * market state of the first year (when the decision is made)
+   */
+  static summarize(path: EconomicConditions[]): EconomicConditions {
+    const average = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length
+    return {
+      ...path[0],
+      gdpGrowth: average(path.map(c => c.gdpGrowth)),
+      inflationRate: average(path.map(c => c.inflationRate)),
+      unemploymentRate: average(path.map(c => c.unemploymentRate)),
+    }
+  }
+
+  /**
+   * Regime behind a set of conditions, inferred from the market state when not recorded
+   */
+  static regimeOf(conditions: EconomicConditions): EconomicRegime {
+    if (conditions.regime) return conditions.regime
+    switch (conditions.marketCondition) {
+      case 'recession':
+        return 'crisis'
+      case 'downturn':
+        return 'recession'
+      case 'boom':
+        return 'boom'
+      default:
+        return 'normal'
+    }
+  }
+
+  /**
+   * Market state reported for a regime
+   */
+  static marketCondition(
+    regime: EconomicRegime,
+    gdpGrowth: number
+  ): EconomicConditions['marketCondition'] {
+    switch (regime) {
+      case 'crisis':
+        return 'recession'
+      case 'recession':
+      case 'inflation':
+        return 'downturn'
+      case 'normal':
+        return gdpGrowth >= 3.5 ? 'growth' : 'stable'
+      case 'boom':
+        return 'boom'
+    }
+  }
+
+  /**
+   * Draw industry outlook based on market conditions
+   *
+   * Market conditions shift the likelihood of each industry outlook; the
+   * draw comes from the supplied RNG so paths stay reproducible.
+   */
+  private static drawIndustryOutlook(
+    marketCondition: EconomicConditions['marketCondition'],
+    rng: RNG
+  ): EconomicConditions['industryOutlook'] {
+    const rand = rng.uniform(0, 1)
+    switch (marketCondition) {
+      case 'recession':
+        return rand < 0.7 ? 'declining' : 'stable'
+      case 'downturn':
+        return rand < 0.5 ? 'declining' : rand < 0.9 ? 'stable' : 'growing'
+      case 'stable':
+        return rand < 0.1
+          ? 'declining'
+          : rand < 0.7
+            ? 'stable'
+            : rand < 0.95
+              ? 'growing'
+              : 'booming'
+      case 'growth':
+        return rand < 0.3 ? 'stable' : rand < 0.8 ? 'growing' : 'booming'
+      case 'boom':
+        return rand < 0.4 ? 'growing' : 'booming'
+    }
+  }
+
+  private inverseCDF(weights: Record<EconomicRegime, number>, u: number): EconomicRegime {
+    let cumulative = 0
+    for (const regime of RegimeSwitchingEconomy.REGIMES) {
+      cumulative += weights[regime]
+      if (u < cumulative) return regime
+    }
+    return RegimeSwitchingEconomy.REGIMES[RegimeSwitchingEconomy.REGIMES.length - 1]
+  }
+
+  /**
+   * Stationary distribution of the chain by power iteration
+   */
+  private computeStationaryDistribution(): Record<EconomicRegime, number> {
+    const regimes = RegimeSwitchingEconomy.REGIMES
+    let distribution = regimes.map(() => 1 / regimes.length)
+    for (let iteration = 0; iteration < 1000; iteration++) {
+      const next = regimes.map(to =>
+        regimes.reduce((sum, from, i) => sum + distribution[i] * this.transitions[from][to], 0)
+      )
+      const change = next.reduce((sum, p, j) => sum + Math.abs(p - distribution[j]), 0)
+      distribution = next
+      if (change < 1e-12) break
+    }
+    return Object.fromEntries(regimes.map((regime, i) => [regime, distribution[i]])) as Record<
+      EconomicRegime,
+      number
+    >
+  }
+}
+
+// Type definitions
+export type TransitionMatrix = Record<EconomicRegime, Record<EconomicRegime, number>>
+
+export interface RegimeParameters {
+  gdpGrowth: { mean: number; std: number } // percent
+  inflationRate: { mean: number; std: number } // percent
+  unemploymentRate: { mean: number; std: number } // percent
+  marketReturn: { mean: number; std: number } // decimal, e.g. 0.08
+}
+
+// Annual transition probabilities (row = this year's regime)
+const DEFAULT_TRANSITIONS: TransitionMatrix = {
+  crisis: { crisis: 0.2, recession: 0.4, inflation: 0.05, normal: 0.3, boom: 0.05 },
+  recession: { crisis: 0.05, recession: 0.35, inflation: 0.05, normal: 0.5, boom: 0.05 },
+  inflation: { crisis: 0.05, recession: 0.15, inflation: 0.45, normal: 0.3, boom: 0.05 },
+  normal: { crisis: 0.02, recession: 0.08, inflation: 0.05, normal: 0.7, boom: 0.15 },
+  boom: { crisis: 0.05, recession: 0.1, inflation: 0.1, normal: 0.35, boom: 0.4 },
+}
+
+const DEFAULT_PARAMETERS: Record<EconomicRegime, RegimeParameters> = {
+  crisis: {
+    gdpGrowth: { mean: -3, std: 1.5 },
+    inflationRate: { mean: 1, std: 1 },
+    unemploymentRate: { mean: 9, std: 2 },
+    marketReturn: { mean: -0.25, std: 0.12 },
+  },
+  recession: {
+    gdpGrowth: { mean: -0.5, std: 1 },
+    inflationRate: { mean: 2, std: 0.7 },
+    unemploymentRate: { mean: 6.5, std: 1.2 },
+    marketReturn: { mean: -0.03, std: 0.15 },
+  },
+  inflation: {
+    gdpGrowth: { mean: 1.5, std: 1 },
+    inflationRate: { mean: 6, std: 1.5 },
+    unemploymentRate: { mean: 5, std: 1 },
+    marketReturn: { mean: 0.02, std: 0.15 },
+  },
+  normal: {
+    gdpGrowth: { mean: 2.5, std: 0.7 },
+    inflationRate: { mean: 2.5, std: 0.5 },
+    unemploymentRate: { mean: 4, std: 0.5 },
+    marketReturn: { mean: 0.09, std: 0.14 },
+  },
+  boom: {
+    gdpGrowth: { mean: 4, std: 0.7 },
+    inflationRate: { mean: 3, std: 0.7 },
+    unemploymentRate: { mean: 3.5, std: 0.5 },
+    marketReturn: { mean: 0.17, std: 0.13 },
+  },
+}
+
+// Most likely industry outlook for each market state
+const EXPECTED_OUTLOOK: Record<
+  EconomicConditions['marketCondition'],
+  EconomicConditions['industryOutlook']
+> = {
+  recession: 'declining',
+  downturn: 'declining',
+  stable: 'stable',
+  growth: 'growing',
+  boom: 'booming',
+}
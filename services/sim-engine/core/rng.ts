@@ -8,6 +8,19 @@ export interface RNG {
   uniform(min: number, max: number): number
 }
 
+/**
+ * Random streams for one scenario
+ *
+ * The economy stream drives the regime path and market returns; career,
+ * household, expense and outcome-model draws come from the idiosyncratic
+ * stream. Options that make different numbers of idiosyncratic draws still
+ * see the same market path.
+ */
+export interface ScenarioStreams {
+  economy: RNG
+  idiosyncratic: RNG
+}
+
 export class SeededRNG implements RNG {
   private seed: number
 
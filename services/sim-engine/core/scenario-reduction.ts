@@ -244,11 +244,7 @@ export class ScenarioReducer {
     stages: number,
     reconstructor?: (path: number[][], probability: number) => Scenario
   ): ReducedScenarioSet {
-    // Build scenario tree
-    const tree = this.buildScenarioTree(scenarios, stages)
-
-    // Apply nested distance algorithm
-    const reducedTree = this.nestedDistanceReduction(tree, targetCount)
+    const reducedTree = this.buildReducedTree(scenarios, targetCount, stages)
 
     // Extract scenarios from reduced tree
     const reducedScenarios = this.extractScenariosFromTree(
@@ -266,6 +262,21 @@ export class ScenarioReducer {
     }
   }
 
+  /**
+   * Build a scenario tree from path scenarios and reduce it to about `targetCount` leaves
+   *
+   * Node probabilities are unconditional, so a leaf's probability is that of
+   * its whole path. Sibling nodes with different labels are never merged.
+   */
+  buildReducedTree(
+    scenarios: MultistageScenario[],
+    targetCount: number,
+    stages: number
+  ): ScenarioTree {
+    const tree = this.buildScenarioTree(scenarios, stages)
+    return this.nestedDistanceReduction(tree, targetCount)
+  }
+
   /**
    * Build scenario tree from path scenarios
    */
@@ -276,6 +287,7 @@ export class ScenarioReducer {
       probability: 1,
       children: [],
     }
+    const totalProbability = scenarios.reduce((sum, s) => sum + s.probability, 0)
 
     // Group scenarios by common history
     for (const scenario of scenarios) {
@@ -283,23 +295,26 @@ export class ScenarioReducer {
 
       for (let stage = 1; stage <= stages; stage++) {
         const stageValue = scenario.values[stage - 1]
+        const label = scenario.labels?.[stage - 1]
 
         // Find or create child node
-        let childNode = currentNode.children.find(child =>
-          this.valuesEqual(child.value, stageValue)
+        let childNode = currentNode.children.find(
+          child => child.label === label && this.valuesEqual(child.value, stageValue)
         )
 
         if (!childNode) {
           childNode = {
             stage,
-            value: stageValue,
+            value: [...stageValue],
+            label,
             probability: 0,
             children: [],
           }
           currentNode.children.push(childNode)
         }
 
-        childNode.probability += scenario.probability / scenarios.length
+        childNode.probability +=
+          totalProbability > 0 ? scenario.probability / totalProbability : 1 / scenarios.length
         currentNode = childNode
       }
     }
@@ -309,21 +324,45 @@ export class ScenarioReducer {
 
   /**
    * Apply nested distance reduction to scenario tree
+   *
+   * Stages are reduced forward: the children of each node are merged down to
+   * the per-stage branching, and merged nodes pool their children before the
+   * next stage is reduced, so every node keeps a single parent.
    */
   private nestedDistanceReduction(tree: ScenarioTree, targetCount: number): ScenarioTree {
-    // Backward recursion through tree stages
-    for (let stage = tree.stages; stage >= 1; stage--) {
-      const nodes = this.getNodesAtStage(tree.root, stage)
+    // Equal branching at every stage gives about targetCount leaves
+    const branching = Math.max(1, Math.round(targetCount ** (1 / tree.stages)))
 
-      // Reduce nodes at this stage
-      if (nodes.length > targetCount / 2 ** (tree.stages - stage)) {
-        this.reduceStageNodes(nodes, targetCount / 2 ** (tree.stages - stage))
+    for (let stage = 0; stage < tree.stages; stage++) {
+      for (const node of this.getNodesAtStage(tree.root, stage)) {
+        this.reduceSiblings(node, branching)
       }
     }
 
     return tree
   }
 
+  /**
+   * Reduce the children of a node, label by label
+   *
+   * Each label keeps a share of the target in proportion to its probability,
+   * and at least one node.
+   */
+  private reduceSiblings(parent: TreeNode, targetCount: number): void {
+    const groups = new Map<string | undefined, TreeNode[]>()
+    for (const child of parent.children) {
+      groups.set(child.label, [...(groups.get(child.label) ?? []), child])
+    }
+    const total = parent.children.reduce((sum, child) => sum + child.probability, 0)
+
+    parent.children = [...groups.values()].flatMap(nodes => {
+      const mass = nodes.reduce((sum, node) => sum + node.probability, 0)
+      const share = Math.max(1, Math.round((targetCount * mass) / (total || 1)))
+      if (nodes.length > share) this.reduceStageNodes(nodes, share)
+      return nodes
+    })
+  }
+
   /**
    * Get all nodes at a specific stage
    */
@@ -428,6 +467,7 @@ export class ScenarioReducer {
   private createDefaultReconstructor(
     template: MultistageScenario
   ): (path: number[][], probability: number) => Scenario {
+    let reconstructed = 0
     return (path: number[][], probability: number): Scenario => {
       // Map path values to scenario outcomes
       // path[i] contains values for stage i+1
@@ -459,7 +499,7 @@ export class ScenarioReducer {
       }
 
       return {
-        id: `scenario-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`,
+        id: `scenario-${reconstructed++}`,
         probability,
         outcomes: {
           year1: mapPathToOutcome(0, 1),
@@ -489,18 +529,18 @@ export class ScenarioReducer {
   ): Scenario[] {
     const scenarios: Scenario[] = []
 
-    const traverse = (node: TreeNode, path: number[][], probability: number) => {
+    const traverse = (node: TreeNode, path: number[][]) => {
       if (node.children.length === 0) {
         // Leaf node - create scenario using reconstructor
-        scenarios.push(reconstructor(path, probability))
+        scenarios.push(reconstructor(path, node.probability))
       } else {
         for (const child of node.children) {
-          traverse(child, [...path, child.value || []], probability * child.probability)
+          traverse(child, [...path, child.value || []])
         }
       }
     }
 
-    traverse(tree.root, [], 1)
+    traverse(tree.root, [])
     return scenarios
   }
 
@@ -520,8 +560,9 @@ export class ScenarioReducer {
 }
 
 // Type definitions
-interface MultistageScenario extends Scenario {
-  values: number[][]
+export interface MultistageScenario extends Scenario {
+  values: number[][] // state at each stage
+  labels?: string[] // per stage; nodes with different labels are kept apart
 }
 
 interface ReducedScenarioSet {
@@ -533,14 +574,15 @@ interface ReducedScenarioSet {
   maxTransportCost: number
 }
 
-interface TreeNode {
+export interface TreeNode {
   stage: number
   value: number[] | null
-  probability: number
+  label?: string
+  probability: number // unconditional
   children: TreeNode[]
 }
 
-interface ScenarioTree {
+export interface ScenarioTree {
   root: TreeNode
   stages: number
 }
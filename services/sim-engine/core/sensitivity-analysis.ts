@@ -3,28 +3,41 @@
  * Identifies which input parameters drive outcome uncertainty
  */
 
+import { CancellationCheckpoint } from './cancellation'
 import { PhiloxRNG } from './philox-rng'
 import { SobolSequence } from './sobol'
 
 export class SensitivityAnalyzer {
+  private static readonly BOOTSTRAP_RESAMPLES = 200
+  private static readonly CONFIDENCE_LEVEL = 0.95
+  private static readonly CONVERGENCE_TOLERANCE = 0.05
+  private static readonly MIN_CONVERGENCE_SAMPLES = 16
+
   private sobol: SobolSequence
   private rng: PhiloxRNG
 
   constructor(seed: string = 'sensitivity') {
     this.rng = new PhiloxRNG(seed)
-    this.sobol = new SobolSequence(20) // Max 20 parameters
+    this.sobol = new SobolSequence(40) // A and B columns for up to 20 parameters
   }
 
   /**
    * Compute Sobol sensitivity indices
    * Returns first-order, total-order, and second-order indices
+   *
+   * Confidence intervals come from bootstrapping the rows of the evaluated
+   * Saltelli matrices, so the model is only evaluated once. Aborting
+   * `signal` stops evaluation with the signal's reason.
    */
   async computeSobolIndices(
     model: (inputs: number[]) => Promise<number>,
     parameterRanges: ParameterRange[],
-    numSamples: number = 1024
+    numSamples: number = 1024,
+    bootstrapResamples: number = SensitivityAnalyzer.BOOTSTRAP_RESAMPLES,
+    signal?: AbortSignal
   ): Promise<SobolIndicesResult> {
     const d = parameterRanges.length
+    const checkpoint = new CancellationCheckpoint(signal)
 
     // Generate sample matrices using Saltelli's scheme
     const { A, B, C } = this.generateSaltelliSamples(numSamples, d)
@@ -37,15 +50,15 @@ export class SensitivityAnalyzer {
     // Evaluate model
     console.log('Evaluating base samples...')
     console.log(`Sample A: ${samplesA.length} points`)
-    const fA = await this.evaluateModel(model, samplesA)
+    const fA = await this.evaluateModel(model, samplesA, checkpoint)
     console.log(`Sample B: ${samplesB.length} points`)
-    const fB = await this.evaluateModel(model, samplesB)
+    const fB = await this.evaluateModel(model, samplesB, checkpoint)
 
     console.log('Evaluating cross samples...')
     const fC: number[][] = []
     for (let i = 0; i < d; i++) {
       console.log(`Cross sample ${i + 1}/${d}: ${samplesC[i].length} points`)
-      fC[i] = await this.evaluateModel(model, samplesC[i])
+      fC[i] = await this.evaluateModel(model, samplesC[i], checkpoint)
     }
 
     // Compute indices
@@ -53,12 +66,7 @@ export class SensitivityAnalyzer {
     const totalOrder = this.computeTotalOrderIndices(fA, fB, fC)
     const secondOrder = this.computeSecondOrderIndices(fA, fB, fC, d)
 
-    // Skip bootstrap for now to avoid infinite recursion
-    // Bootstrap would re-run the entire sensitivity analysis
-    const confidence: ConfidenceIntervals = {
-      firstOrderCI: firstOrder.map(v => [v * 0.9, v * 1.1] as [number, number]),
-      totalOrderCI: totalOrder.map(v => [v * 0.9, v * 1.1] as [number, number]),
-    }
+    const confidence = this.bootstrapConfidenceIntervals(fA, fB, fC, bootstrapResamples)
 
     console.log('Sensitivity analysis complete')
 
@@ -68,11 +76,84 @@ export class SensitivityAnalyzer {
       totalOrder,
       secondOrder,
       confidence,
-      convergence: this.assessConvergence(firstOrder, totalOrder),
+      straddlesZero: {
+        firstOrder: confidence.firstOrderCI.map(([lower]) => lower <= 0),
+        totalOrder: confidence.totalOrderCI.map(([lower]) => lower <= 0),
+      },
+      convergence: this.assessConvergence(firstOrder, totalOrder, fA, fB, fC),
       totalVariance: this.variance([...fA, ...fB]),
     }
   }
 
+  /**
+   * Percentile bootstrap confidence intervals
+   *
+   * Each resample draws rows of A, B and the cross matrices together (with
+   * replacement) and recomputes the estimators on the reused model outputs.
+   * Intervals use the unclamped estimates, so an index whose interval
+   * reaches zero cannot be told apart from no effect.
+   */
+  private bootstrapConfidenceIntervals(
+    fA: number[],
+    fB: number[],
+    fC: number[][],
+    resamples: number
+  ): ConfidenceIntervals {
+    const n = fA.length
+    const d = fC.length
+    const firstOrderDraws: number[][] = Array.from({ length: d }, () => [])
+    const totalOrderDraws: number[][] = Array.from({ length: d }, () => [])
+
+    for (let b = 0; b < resamples; b++) {
+      const rows = Array.from({ length: n }, () => this.rng.nextInt(n))
+      const pick = (values: number[]) => rows.map(j => values[j])
+      const estimates = this.estimateIndices(
+        pick(fA),
+        pick(fB),
+        fC.map(values => pick(values))
+      )
+      for (let i = 0; i < d; i++) {
+        firstOrderDraws[i].push(estimates.firstOrder[i])
+        totalOrderDraws[i].push(estimates.totalOrder[i])
+      }
+    }
+
+    const alpha = (1 - SensitivityAnalyzer.CONFIDENCE_LEVEL) / 2
+    const interval = (draws: number[]): [number, number] => {
+      const sorted = draws.filter(Number.isFinite).sort((a, b) => a - b)
+      if (sorted.length === 0) return [Number.NaN, Number.NaN]
+      return [this.quantile(sorted, alpha), this.quantile(sorted, 1 - alpha)]
+    }
+
+    return {
+      firstOrderCI: firstOrderDraws.map(interval),
+      totalOrderCI: totalOrderDraws.map(interval),
+      level: SensitivityAnalyzer.CONFIDENCE_LEVEL,
+      resamples,
+    }
+  }
+
+  /**
+   * Unclamped first- and total-order estimators on a set of model outputs
+   */
+  private estimateIndices(
+    fA: number[],
+    fB: number[],
+    fC: number[][]
+  ): { firstOrder: number[]; totalOrder: number[] } {
+    const varY = this.variance([...fA, ...fB])
+    // Centering leaves the estimators unbiased but stops a large mean output
+    // from swamping the products below
+    const f0 = this.mean([...fA, ...fB])
+
+    return {
+      // S_i = V[E(Y|X_i)] / V(Y) (Saltelli 2010)
+      firstOrder: fC.map(fCi => this.mean(fB.map((fb, j) => (fb - f0) * (fCi[j] - fA[j]))) / varY),
+      // ST_i = E[V(Y|X_~i)] / V(Y) (Jansen), exactly zero for an inactive input
+      totalOrder: fC.map(fCi => this.mean(fA.map((fa, j) => (fa - fCi[j]) ** 2)) / (2 * varY)),
+    }
+  }
+
   /**
    * Generate Saltelli sample scheme for Sobol indices
    */
@@ -80,17 +161,18 @@ export class SensitivityAnalyzer {
     n: number,
     d: number
   ): { A: number[][]; B: number[][]; C: number[][][] } {
-    // Use Sobol sequence for better coverage
-    const totalSamples = n * (2 + d)
+    // Use Sobol sequence for better coverage. A and B take separate columns of
+    // each point: consecutive blocks of one sequence are digital shifts of each
+    // other, which would correlate the two matrices.
     const samples: number[][] = []
 
-    for (let i = 0; i < totalSamples; i++) {
-      samples.push(this.sobol.next().slice(0, d))
+    for (let i = 0; i < n; i++) {
+      samples.push(this.sobol.next().slice(0, 2 * d))
     }
 
     // Split into A and B matrices
-    const A = samples.slice(0, n)
-    const B = samples.slice(n, 2 * n)
+    const A = samples.map(point => point.slice(0, d))
+    const B = samples.map(point => point.slice(d, 2 * d))
 
     // Create C matrices (A with column i from B)
     const C: number[][][] = []
@@ -132,7 +214,8 @@ export class SensitivityAnalyzer {
    */
   private async evaluateModel(
     model: (inputs: number[]) => Promise<number>,
-    samples: number[][]
+    samples: number[][],
+    checkpoint: CancellationCheckpoint = new CancellationCheckpoint()
   ): Promise<number[]> {
     console.log(`evaluateModel: Processing ${samples.length} samples`)
     const results: number[] = []
@@ -140,6 +223,7 @@ export class SensitivityAnalyzer {
     // Batch evaluation for efficiency
     const batchSize = 10 // Reduced batch size
     for (let i = 0; i < samples.length; i += batchSize) {
+      await checkpoint.check()
       const batch = samples.slice(i, i + batchSize)
       console.log(`Processing batch ${i / batchSize + 1}/${Math.ceil(samples.length / batchSize)}`)
       const batchResults = await Promise.all(batch.map(sample => model(sample)))
@@ -154,39 +238,14 @@ export class SensitivityAnalyzer {
    * Compute first-order Sobol indices
    */
   private computeFirstOrderIndices(fA: number[], fB: number[], fC: number[][]): number[] {
-    const d = fC.length
-    const indices: number[] = []
-
-    const varY = this.variance([...fA, ...fB])
-
-    for (let i = 0; i < d; i++) {
-      // First-order index: S_i = V[E(Y|X_i)] / V(Y)
-      const numerator = this.mean(fB.map((fb, j) => fb * (fC[i][j] - fA[j])))
-
-      indices.push(Math.max(0, numerator / varY))
-    }
-
-    return indices
+    return this.estimateIndices(fA, fB, fC).firstOrder.map(s => Math.max(0, s))
   }
 
   /**
    * Compute total-order Sobol indices
    */
   private computeTotalOrderIndices(fA: number[], fB: number[], fC: number[][]): number[] {
-    const d = fC.length
-    const indices: number[] = []
-
-    const varY = this.variance([...fA, ...fB])
-    const E2 = this.mean(fA.map((fa, i) => fa * fB[i]))
-
-    for (let i = 0; i < d; i++) {
-      // Total-order index: ST_i = 1 - V[E(Y|X_~i)] / V(Y)
-      const E_i = this.mean(fA.map((fa, j) => fa * fC[i][j]))
-
-      indices.push(Math.min(1, Math.max(0, 1 - (E_i - E2) / varY)))
-    }
-
-    return indices
+    return this.estimateIndices(fA, fB, fC).totalOrder.map(s => Math.min(1, Math.max(0, s)))
   }
 
   /**
@@ -229,8 +288,18 @@ export class SensitivityAnalyzer {
 
   /**
    * Assess convergence of sensitivity indices
+   *
+   * Indices are recomputed on nested prefixes of the Sobol sample (n/8, n/4,
+   * n/2, n); they have converged when the last doubling moves no index by
+   * more than the tolerance and the estimates are internally consistent.
    */
-  private assessConvergence(firstOrder: number[], totalOrder: number[]): ConvergenceMetrics {
+  private assessConvergence(
+    firstOrder: number[],
+    totalOrder: number[],
+    fA: number[],
+    fB: number[],
+    fC: number[][]
+  ): ConvergenceMetrics {
     // Sum of first-order indices (should be ≤ 1)
     const sumFirstOrder = firstOrder.reduce((sum, s) => sum + s, 0)
 
@@ -240,11 +309,41 @@ export class SensitivityAnalyzer {
     // Interaction strength
     const interactionStrength = Math.max(0, 1 - sumFirstOrder)
 
+    const n = fA.length
+    const history: ConvergenceMetrics['history'] = []
+    for (const divisor of [8, 4, 2]) {
+      const samples = Math.floor(n / divisor)
+      if (samples < SensitivityAnalyzer.MIN_CONVERGENCE_SAMPLES) continue
+      const prefixA = fA.slice(0, samples)
+      const prefixB = fB.slice(0, samples)
+      const prefixC = fC.map(values => values.slice(0, samples))
+      history.push({
+        samples,
+        firstOrder: this.computeFirstOrderIndices(prefixA, prefixB, prefixC),
+        totalOrder: this.computeTotalOrderIndices(prefixA, prefixB, prefixC),
+      })
+    }
+    history.push({ samples: n, firstOrder, totalOrder })
+
+    // Largest change in any index over the final doubling of the sample size
+    const previous = history.length > 1 ? history[history.length - 2] : undefined
+    const maxChange = previous
+      ? Math.max(
+          ...firstOrder.map((s, i) => Math.abs(s - previous.firstOrder[i])),
+          ...totalOrder.map((s, i) => Math.abs(s - previous.totalOrder[i]))
+        )
+      : Number.POSITIVE_INFINITY
+
     return {
       sumFirstOrder,
       monotonicity,
       interactionStrength,
-      converged: sumFirstOrder <= 1.01 && monotonicity,
+      history,
+      maxChange,
+      converged:
+        sumFirstOrder <= 1.01 &&
+        monotonicity &&
+        maxChange <= SensitivityAnalyzer.CONVERGENCE_TOLERANCE,
     }
   }
 
@@ -383,6 +482,14 @@ export class SensitivityAnalyzer {
     return Math.sqrt(this.variance(values))
   }
 
+  // Linear interpolation between order statistics of sorted values
+  private quantile(sorted: number[], p: number): number {
+    const position = p * (sorted.length - 1)
+    const lower = Math.floor(position)
+    const upper = Math.ceil(position)
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower)
+  }
+
   private inverseNormalCDF(p: number): number {
     // Acklam's algorithm
     const a = [
@@ -438,6 +545,11 @@ export interface SobolIndicesResult {
   totalOrder: number[]
   secondOrder: number[][]
   confidence: ConfidenceIntervals
+  straddlesZero: {
+    // True where the lower confidence bound is at or below zero
+    firstOrder: boolean[]
+    totalOrder: boolean[]
+  }
   convergence: ConvergenceMetrics
   totalVariance: number
 }
@@ -445,12 +557,16 @@ export interface SobolIndicesResult {
 interface ConfidenceIntervals {
   firstOrderCI: Array<[number, number]>
   totalOrderCI: Array<[number, number]>
+  level: number
+  resamples: number
 }
 
 interface ConvergenceMetrics {
   sumFirstOrder: number
   monotonicity: boolean
   interactionStrength: number
+  history: Array<{ samples: number; firstOrder: number[]; totalOrder: number[] }>
+  maxChange: number // largest index change over the last doubling of samples
   converged: boolean
 }
 
@@ -39,8 +39,8 @@ export class SobolSequence {
 
     this.count++
 
-    // Convert to [0,1)
-    return this.x.map(val => val / 0x100000000)
+    // Convert to [0,1); XOR yields signed 32-bit integers
+    return this.x.map(val => (val >>> 0) / 0x100000000)
   }
 
   /**
@@ -85,38 +85,19 @@ export class SobolSequence {
       v[0][i] = 1 << (31 - i)
     }
 
-    // Initialize primitive polynomials and initial values
-    const primitivePolynomials = [
-      1, 3, 7, 11, 13, 19, 25, 37, 59, 47, 61, 55, 41, 67, 97, 91, 109, 103, 115, 131,
-    ]
-
-    const initialValues = [
-      [1],
-      [1, 1],
-      [1, 3, 7],
-      [1, 1, 5],
-      [1, 1, 7],
-      [1, 3, 3],
-      [1, 1, 3],
-      [1, 3, 7],
-      [1, 3, 3],
-      [1, 1, 5],
-    ]
-
-    // Generate direction numbers for each dimension
-    for (let d = 1; d < Math.min(dim, primitivePolynomials.length); d++) {
-      const s = this.degree(primitivePolynomials[d])
-      const a = primitivePolynomials[d]
+    // Remaining dimensions from the primitive polynomial table
+    for (let d = 1; d < Math.min(dim, JOE_KUO.length + 1); d++) {
+      const [s, a, m] = JOE_KUO[d - 1]
 
       v[d] = new Array(32).fill(0)
 
       // Copy initial values
-      const m = initialValues[Math.min(d - 1, initialValues.length - 1)]
-      for (let i = 0; i < m.length; i++) {
+      for (let i = 0; i < s; i++) {
         v[d][i] = m[i] << (31 - i)
       }
 
-      // Generate remaining direction numbers
+      // Generate remaining direction numbers; `a` holds the polynomial's
+      // interior coefficients, highest degree first
       for (let i = s; i < 32; i++) {
         v[d][i] = v[d][i - s] ^ (v[d][i - s] >>> s)
 
@@ -128,7 +109,7 @@ export class SobolSequence {
 
     // For higher dimensions, use random initialization
     const rng = new PhiloxRNG(12345) // Fixed seed for reproducibility
-    for (let d = primitivePolynomials.length; d < dim; d++) {
+    for (let d = JOE_KUO.length + 1; d < dim; d++) {
       v[d] = []
       for (let i = 0; i < 32; i++) {
         v[d][i] = Math.floor(rng.next() * 0x100000000)
@@ -137,16 +118,6 @@ export class SobolSequence {
 
     return v
   }
-
-  private degree(polynomial: number): number {
-    let d = 0
-    let p = polynomial
-    while (p > 1) {
-      p >>>= 1
-      d++
-    }
-    return d
-  }
 }
 
 /**
@@ -286,3 +257,47 @@ export class QMCSampleSizer {
     return Math.ceil(base * logFactor)
   }
 }
+
+// Joe-Kuo (2008) direction numbers for dimensions 2-40 (new-joe-kuo-6.21201):
+// polynomial degree s, interior coefficients a, initial values m_1..m_s
+const JOE_KUO: Array<[number, number, number[]]> = [
+  [1, 0, [1]],
+  [2, 1, [1, 3]],
+  [3, 1, [1, 3, 1]],
+  [3, 2, [1, 1, 1]],
+  [4, 1, [1, 1, 3, 3]],
+  [4, 4, [1, 3, 5, 13]],
+  [5, 2, [1, 1, 5, 5, 17]],
+  [5, 4, [1, 1, 5, 5, 5]],
+  [5, 7, [1, 1, 7, 11, 19]],
+  [5, 11, [1, 1, 5, 1, 1]],
+  [5, 13, [1, 1, 1, 3, 11]],
+  [5, 14, [1, 3, 5, 5, 31]],
+  [6, 1, [1, 3, 3, 9, 7, 49]],
+  [6, 13, [1, 1, 1, 15, 21, 21]],
+  [6, 16, [1, 3, 1, 13, 27, 49]],
+  [6, 19, [1, 1, 1, 15, 7, 5]],
+  [6, 22, [1, 3, 1, 15, 13, 25]],
+  [6, 25, [1, 1, 5, 5, 19, 61]],
+  [7, 1, [1, 3, 7, 11, 23, 15, 103]],
+  [7, 4, [1, 3, 7, 13, 13, 15, 69]],
+  [7, 7, [1, 1, 3, 13, 7, 35, 63]],
+  [7, 8, [1, 3, 5, 9, 1, 25, 53]],
+  [7, 14, [1, 3, 1, 13, 9, 35, 107]],
+  [7, 19, [1, 3, 1, 5, 27, 61, 31]],
+  [7, 21, [1, 1, 5, 11, 19, 41, 61]],
+  [7, 28, [1, 3, 5, 3, 3, 13, 69]],
+  [7, 31, [1, 1, 7, 13, 1, 19, 1]],
+  [7, 32, [1, 3, 7, 5, 13, 19, 59]],
+  [7, 37, [1, 1, 3, 9, 25, 29, 41]],
+  [7, 41, [1, 3, 5, 13, 23, 1, 55]],
+  [7, 42, [1, 3, 7, 3, 13, 59, 17]],
+  [7, 50, [1, 3, 1, 3, 5, 53, 69]],
+  [7, 55, [1, 1, 5, 5, 23, 33, 13]],
+  [7, 56, [1, 1, 7, 7, 1, 61, 123]],
+  [7, 59, [1, 1, 7, 9, 13, 61, 49]],
+  [7, 62, [1, 3, 3, 5, 3, 55, 33]],
+  [8, 14, [1, 3, 1, 15, 31, 13, 49, 245]],
+  [8, 21, [1, 3, 5, 15, 31, 59, 63, 97]],
+  [8, 22, [1, 3, 1, 11, 11, 11, 77, 249]],
+]
@@ -0,0 +1,153 @@
+/**
+ * Tail-risk analysis
+ * Value-at-risk and expected shortfall of net worth at each horizon, plus
+ * path risks: negative net worth, emergency fund depletion and drawdowns
+ */
+
+import type {
+  Scenario,
+  TailRiskHorizon,
+  TailRiskMetrics,
+  UserProfile,
+  YearlyOutcome,
+} from '@theguide/models'
+
+export class TailRiskAnalyzer {
+  private static readonly DEFAULT_LEVEL = 0.05
+  private static readonly DEFAULT_EMERGENCY_FUND_MONTHS = 3
+
+  private level: number
+  private emergencyFundMonths: number
+
+  constructor(
+    level: number = TailRiskAnalyzer.DEFAULT_LEVEL,
+    emergencyFundMonths: number = TailRiskAnalyzer.DEFAULT_EMERGENCY_FUND_MONTHS
+  ) {
+    if (level <= 0 || level >= 1) {
+      throw new Error('Tail level must be between 0 and 1')
+    }
+    this.level = level
+    this.emergencyFundMonths = emergencyFundMonths
+  }
+
+  /**
+   * Tail metrics across scenarios, weighted by scenario probability
+   *
+   * Horizons are every year of the yearly series when scenarios carry one,
+   * otherwise the year 1, 3, 5 and 10 snapshots; path risks are checked at
+   * the same points. The emergency fund buffer is the profile's monthly
+   * expenses, inflated at each scenario's inflation rate, and is compared
+   * with liquid assets (net worth when a projection does not report them).
+   */
+  analyze(scenarios: Scenario[], userProfile: Partial<UserProfile>): TailRiskMetrics {
+    const weights = this.normalizeWeights(scenarios.map(s => s.probability))
+    const paths = scenarios.map(s => this.path(s))
+    const years = paths[0]?.map(outcome => outcome.year) ?? []
+    const monthlyExpenses = Object.values(userProfile.financial?.monthlyExpenses ?? {}).reduce(
+      (sum, v) => sum + (v || 0),
+      0
+    )
+
+    const horizons = years.map((year, t) =>
+      this.horizon(
+        year,
+        paths.map(path => path[t].financialPosition.netWorth),
+        weights
+      )
+    )
+
+    let probabilityNegativeNetWorth = 0
+    let probabilityDepleted = 0
+    let expectedAmount = 0
+    const drawdowns: number[] = []
+    scenarios.forEach((scenario, i) => {
+      const path = paths[i]
+      const inflation = scenario.economicConditions.inflationRate / 100
+      if (path.some(o => o.financialPosition.netWorth < 0)) {
+        probabilityNegativeNetWorth += weights[i]
+      }
+      const depleted = path.some(o => {
+        const buffer = this.emergencyFundMonths * monthlyExpenses * (1 + inflation) ** o.year
+        const liquid = o.financialPosition.liquidAssets ?? o.financialPosition.netWorth
+        return liquid < buffer
+      })
+      if (depleted) probabilityDepleted += weights[i]
+
+      const drawdown = this.maxDrawdown(path.map(o => o.financialPosition.netWorth))
+      drawdowns.push(drawdown.fraction)
+      expectedAmount += weights[i] * drawdown.amount
+    })
+
+    return {
+      level: this.level,
+      horizons,
+      probabilityNegativeNetWorth,
+      emergencyFund: { months: this.emergencyFundMonths, probabilityDepleted },
+      maxDrawdown: {
+        expected: drawdowns.reduce((sum, d, i) => sum + weights[i] * d, 0),
+        // Large drawdowns are the bad tail, so take the upper quantile
+        tail: this.quantile(drawdowns, weights, 1 - this.level),
+        expectedAmount,
+      },
+    }
+  }
+
+  private horizon(year: number, netWorth: number[], weights: number[]): TailRiskHorizon {
+    const order = netWorth.map((_, i) => i).sort((a, b) => netWorth[a] - netWorth[b])
+
+    // Expected shortfall averages the worst `level` of probability mass,
+    // taking a fraction of the scenario that straddles the boundary
+    let mass = 0
+    let shortfall = 0
+    for (const i of order) {
+      const take = Math.min(weights[i], this.level - mass)
+      if (take <= 0) break
+      shortfall += take * netWorth[i]
+      mass += take
+    }
+
+    return {
+      year,
+      valueAtRisk: this.quantile(netWorth, weights, this.level),
+      expectedShortfall: mass > 0 ? shortfall / mass : 0,
+      probabilityNegative: netWorth.reduce((sum, v, i) => (v < 0 ? sum + weights[i] : sum), 0),
+    }
+  }
+
+  // Largest fall from a running peak; fractions need a positive peak and stop
+  // at 1 once all of it is lost, however far net worth falls below zero
+  private maxDrawdown(values: number[]): { fraction: number; amount: number } {
+    let peak = Number.NEGATIVE_INFINITY
+    let fraction = 0
+    let amount = 0
+    for (const value of values) {
+      peak = Math.max(peak, value)
+      amount = Math.max(amount, peak - value)
+      if (peak > 0) fraction = Math.max(fraction, Math.min(1, (peak - value) / peak))
+    }
+    return { fraction, amount }
+  }
+
+  private path(scenario: Scenario): YearlyOutcome[] {
+    const { outcomes } = scenario
+    if (outcomes.yearly?.length) return outcomes.yearly
+    return [outcomes.year1, outcomes.year3, outcomes.year5, outcomes.year10]
+  }
+
+  private quantile(values: number[], weights: number[], p: number): number {
+    const order = values.map((_, i) => i).sort((a, b) => values[a] - values[b])
+    let cumulative = 0
+    for (const i of order) {
+      cumulative += weights[i]
+      if (cumulative >= p) return values[i]
+    }
+    return values[order[order.length - 1]]
+  }
+
+  private normalizeWeights(probabilities: number[]): number[] {
+    const total = probabilities.reduce((sum, p) => sum + p, 0)
+    return total > 0
+      ? probabilities.map(p => p / total)
+      : probabilities.map(() => 1 / probabilities.length)
+  }
+}
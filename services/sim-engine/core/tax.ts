@@ -0,0 +1,144 @@
+/**
+ * Tax engine for after-tax income projections
+ * Federal brackets, state income tax, FICA and long-term capital gains
+ */
+
+import { LATEST_TAX_YEAR, TAX_TABLES, type TaxBracket, type TaxTable } from '../src/data/tax-tables'
+
+/**
+ * Computes the tax owed on one year of income
+ *
+ * Implementations can replace the bundled US tables (e.g. with a flat rate
+ * or another country's rules) by passing their own model to the engine.
+ */
+export interface TaxModel {
+  calculate(input: TaxInput): TaxBreakdown
+}
+
+export class TaxEngine implements TaxModel {
+  private table: TaxTable
+
+  constructor(table: TaxTable = TAX_TABLES[LATEST_TAX_YEAR]) {
+    this.table = table
+  }
+
+  /**
+   * Use the bundled table for a tax year, falling back to the closest
+   * earlier year (or the earliest bundled year) when it isn't available
+   */
+  static forYear(year: number): TaxEngine {
+    const years = Object.keys(TAX_TABLES)
+      .map(Number)
+      .sort((a, b) => a - b)
+    const match = years.filter(y => y <= year).pop() ?? years[0]
+    return new TaxEngine(TAX_TABLES[match])
+  }
+
+  calculate(input: TaxInput): TaxBreakdown {
+    const { federal, capitalGains, fica, retirementContributionLimit } = this.table
+    const status = input.filingStatus
+    const index = input.priceLevel ?? 1
+
+    // Pre-tax deferrals are capped at the (indexed) plan limit
+    const pretaxContributions = Math.min(
+      Math.max(0, input.pretaxContributions ?? 0),
+      retirementContributionLimit * index,
+      input.wages
+    )
+    const gains = Math.max(0, input.capitalGains ?? 0)
+    const otherIncome = input.otherIncome ?? 0
+    const spouseWages = input.spouseWages ?? 0
+    const adjustedGross = input.wages + spouseWages + otherIncome - pretaxContributions
+
+    // Federal ordinary income, with long-term gains stacked on top of it
+    const taxableIncome = Math.max(0, adjustedGross - federal.standardDeduction[status] * index)
+    const federalTax = TaxEngine.applyBrackets(federal.brackets[status], taxableIncome, index)
+    const capitalGainsTax =
+      TaxEngine.applyBrackets(capitalGains[status], taxableIncome + gains, index) -
+      TaxEngine.applyBrackets(capitalGains[status], taxableIncome, index)
+
+    // States tax capital gains as ordinary income
+    const stateSchedule = input.state ? this.table.states[input.state.toUpperCase()] : undefined
+    const stateIndex = index * (status === 'married' ? 2 : 1)
+    const stateTax = stateSchedule
+      ? TaxEngine.applyBrackets(
+          stateSchedule.brackets,
+          Math.max(0, adjustedGross + gains - (stateSchedule.standardDeduction ?? 0) * stateIndex),
+          stateIndex
+        )
+      : 0
+
+    // FICA applies to wages before pre-tax deferrals; the Social Security wage
+    // base is per earner, the additional Medicare threshold per return
+    const householdWages = input.wages + spouseWages
+    const ficaTax =
+      (Math.min(input.wages, fica.socialSecurityWageBase * index) +
+        Math.min(spouseWages, fica.socialSecurityWageBase * index)) *
+        fica.socialSecurityRate +
+      householdWages * fica.medicareRate +
+      Math.max(0, householdWages - fica.additionalMedicareThreshold[status]) *
+        fica.additionalMedicareRate
+
+    const total = federalTax + capitalGainsTax + stateTax + ficaTax
+    const grossIncome = householdWages + otherIncome + gains
+
+    return {
+      grossIncome,
+      taxableIncome,
+      pretaxContributions,
+      federal: federalTax,
+      state: stateTax,
+      fica: ficaTax,
+      capitalGains: capitalGainsTax,
+      total,
+      effectiveRate: grossIncome > 0 ? total / grossIncome : 0,
+    }
+  }
+
+  /**
+   * Tax on an amount under a progressive schedule with thresholds scaled by `index`
+   */
+  private static applyBrackets(brackets: TaxBracket[], amount: number, index: number): number {
+    let tax = 0
+    let lower = 0
+    for (const bracket of brackets) {
+      const upper = bracket.upTo * index
+      if (amount <= lower) break
+      tax += (Math.min(amount, upper) - lower) * bracket.rate
+      lower = upper
+    }
+    return tax
+  }
+}
+
+// Type definitions
+export type FilingStatus = 'single' | 'married'
+
+export interface TaxInput {
+  wages: number
+  /** Wages of a spouse on a joint return; pre-tax deferrals apply to `wages` only */
+  spouseWages?: number
+  /** Ordinary income that isn't subject to FICA (benefits, business proceeds) */
+  otherIncome?: number
+  /** Employee retirement deferrals; excluded from income tax but not from FICA */
+  pretaxContributions?: number
+  /** Realized long-term capital gains */
+  capitalGains?: number
+  filingStatus: FilingStatus
+  /** Two-letter state code; no state tax is applied when unknown */
+  state?: string
+  /** Cumulative inflation since the table's tax year, used to index thresholds */
+  priceLevel?: number
+}
+
+export interface TaxBreakdown {
+  grossIncome: number
+  taxableIncome: number
+  pretaxContributions: number
+  federal: number
+  state: number
+  fica: number
+  capitalGains: number
+  total: number
+  effectiveRate: number
+}
@@ -0,0 +1,191 @@
+/**
+ * Utility functions and risk-adjusted scoring
+ * CRRA and exponential utility, certainty equivalents, CVaR and
+ * preference-weighted multi-attribute scores derived from the user profile
+ */
+
+import type {
+  FinancialProfile,
+  RiskAdjustedMetrics,
+  Scenario,
+  UserPreferences,
+  UserProfile,
+  UtilitySettings,
+} from '@theguide/models'
+
+export class UtilityModel {
+  // Risk aversion implied by the stated risk tolerance, before preference adjustments
+  private static readonly RISK_AVERSION: Record<FinancialProfile['riskTolerance'], number> = {
+    conservative: 4,
+    moderate: 2,
+    aggressive: 1,
+  }
+  private static readonly DEFAULT_CVAR_LEVEL = 0.05
+  private static readonly MIN_REFERENCE_WEALTH = 10000
+  // Shifted CRRA wealth is floored at this fraction of the reference wealth
+  private static readonly CRRA_FLOOR = 0.01
+
+  private settings: ResolvedUtilitySettings
+
+  constructor(settings: ResolvedUtilitySettings) {
+    this.settings = settings
+  }
+
+  /**
+   * Derive the utility model from a profile
+   *
+   * Risk aversion comes from `riskTolerance`, scaled up for users who favour
+   * stability and down for those who favour growth. Attribute weights follow
+   * the preferences: growth orientation raises the career weight, work-life
+   * balance and family orientation raise the lifestyle weight. Wealth is
+   * measured against ten years of the user's current expenses.
+   */
+  static fromProfile(profile: Partial<UserProfile>): UtilityModel {
+    const preferences: Partial<UserPreferences> = profile.preferences ?? {}
+    const stabilityVsGrowth = preferences.stabilityVsGrowth ?? 5
+    const workLifeBalance = preferences.workLifeBalance ?? 5
+    const familyOrientation = preferences.familyOrientation ?? 5
+    const utility: Partial<UtilitySettings> = preferences.utility ?? {}
+
+    const baseAversion = UtilityModel.RISK_AVERSION[profile.financial?.riskTolerance ?? 'moderate']
+    const riskAversion = utility.riskAversion ?? baseAversion * (1 + (5 - stabilityVsGrowth) / 10)
+
+    const raw = {
+      financial: 1,
+      career: 0.5 + stabilityVsGrowth / 10,
+      lifestyle: 0.5 + (workLifeBalance + familyOrientation) / 20,
+    }
+    const total = raw.financial + raw.career + raw.lifestyle
+
+    const monthlyExpenses = Object.values(profile.financial?.monthlyExpenses ?? {}).reduce(
+      (sum, v) => sum + (v || 0),
+      0
+    )
+    const annualSpend = monthlyExpenses > 0 ? monthlyExpenses * 12 : (profile.career?.salary ?? 0)
+
+    return new UtilityModel({
+      function: utility.function ?? 'crra',
+      riskAversion: Math.max(0, riskAversion),
+      cvarLevel: utility.cvarLevel ?? UtilityModel.DEFAULT_CVAR_LEVEL,
+      attributeWeights: {
+        financial: raw.financial / total,
+        career: raw.career / total,
+        lifestyle: raw.lifestyle / total,
+      },
+      referenceWealth: Math.max(UtilityModel.MIN_REFERENCE_WEALTH, annualSpend * 10),
+    })
+  }
+
+  /**
+   * Utility of a net worth level
+   *
+   * CRRA is applied to net worth shifted by the reference wealth, so it stays
+   * defined for moderately negative outcomes; exponential utility handles any
+   * sign directly.
+   */
+  utility(netWorth: number): number {
+    const { riskAversion: gamma } = this.settings
+    if (this.settings.function === 'exponential') {
+      const x = netWorth / this.settings.referenceWealth
+      return gamma === 0 ? x : (1 - Math.exp(-gamma * x)) / gamma
+    }
+
+    const x = this.shiftedWealth(netWorth)
+    return gamma === 1 ? Math.log(x) : (x ** (1 - gamma) - 1) / (1 - gamma)
+  }
+
+  /**
+   * Net worth whose utility equals `utility` (inverse of `utility`)
+   */
+  inverse(utility: number): number {
+    const { riskAversion: gamma, referenceWealth } = this.settings
+    if (this.settings.function === 'exponential') {
+      const x = gamma === 0 ? utility : -Math.log(Math.max(1e-300, 1 - gamma * utility)) / gamma
+      return x * referenceWealth
+    }
+
+    const x =
+      gamma === 1 ? Math.exp(utility) : Math.max(0, (1 - gamma) * utility + 1) ** (1 / (1 - gamma))
+    return (x - 1) * referenceWealth
+  }
+
+  /**
+   * Sure amount the user values as much as the weighted distribution of outcomes
+   */
+  certaintyEquivalent(values: number[], weights: number[]): number {
+    const normalized = this.normalizeWeights(weights)
+    const expected = values.reduce((sum, v, i) => sum + this.utility(v) * normalized[i], 0)
+    return this.inverse(expected)
+  }
+
+  /**
+   * Conditional value at risk: the weighted mean of the worst `level` share of outcomes
+   */
+  cvar(values: number[], weights: number[], level = this.settings.cvarLevel): number {
+    const normalized = this.normalizeWeights(weights)
+    const order = values.map((_, i) => i).sort((a, b) => values[a] - values[b])
+
+    let mass = 0
+    let total = 0
+    for (const i of order) {
+      const take = Math.min(normalized[i], level - mass)
+      if (take <= 0) break
+      total += values[i] * take
+      mass += take
+    }
+    return mass > 0 ? total / mass : 0
+  }
+
+  /**
+   * Risk-adjusted metrics for a set of scenarios
+   *
+   * @param scenarios - Simulated scenarios
+   * @param horizon - Year whose outcomes are scored
+   */
+  evaluate(scenarios: Scenario[], horizon = 10): RiskAdjustedMetrics {
+    const outcomes = scenarios.map(s => s.outcomes.yearly?.[horizon - 1] ?? s.outcomes.year10)
+    const weights = this.normalizeWeights(scenarios.map(s => s.probability))
+    const netWorth = outcomes.map(o => o.financialPosition.netWorth)
+    const mean = (values: number[]) => values.reduce((sum, v, i) => sum + v * weights[i], 0)
+
+    const certaintyEquivalent = this.certaintyEquivalent(netWorth, weights)
+    const { attributeWeights, referenceWealth } = this.settings
+
+    // Financial score: 5 at a certainty equivalent of zero, rising with wealth
+    const financialScore = 10 / (1 + Math.exp(-certaintyEquivalent / referenceWealth))
+    const careerScore = mean(outcomes.map(o => o.careerProgress.jobSatisfaction))
+    const lifestyleScore = mean(outcomes.map(o => o.lifeMetrics.overallHappiness))
+
+    return {
+      utilityFunction: this.settings.function,
+      riskAversion: this.settings.riskAversion,
+      certaintyEquivalent,
+      cvar: this.cvar(netWorth, weights),
+      cvarLevel: this.settings.cvarLevel,
+      attributeWeights,
+      score:
+        attributeWeights.financial * financialScore +
+        attributeWeights.career * careerScore +
+        attributeWeights.lifestyle * lifestyleScore,
+    }
+  }
+
+  private shiftedWealth(netWorth: number): number {
+    return Math.max(UtilityModel.CRRA_FLOOR, 1 + netWorth / this.settings.referenceWealth)
+  }
+
+  private normalizeWeights(weights: number[]): number[] {
+    const total = weights.reduce((sum, w) => sum + w, 0)
+    return total > 0 ? weights.map(w => w / total) : weights.map(() => 1 / weights.length)
+  }
+}
+
+// Type definitions
+export interface ResolvedUtilitySettings {
+  function: UtilitySettings['function']
+  riskAversion: number
+  cvarLevel: number
+  attributeWeights: RiskAdjustedMetrics['attributeWeights']
+  /** Wealth scale: CRRA shift and unit of absolute risk aversion */
+  referenceWealth: number
+}
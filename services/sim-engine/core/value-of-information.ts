@@ -0,0 +1,296 @@
+/**
+ * Value of information for missing and estimated profile answers
+ * Expected value of perfect information (all missing and estimated answers) and of
+ * partial perfect information (one answer at a time), in certainty-equivalent
+ * dollars of year-10 net worth
+ */
+
+import type {
+  Decision,
+  DecisionOption,
+  QuestionWorthAnswering,
+  UserProfile,
+  ValueOfInformationResult,
+} from '@theguide/models'
+import type { SimulationEngine } from './engine'
+import type { PhiloxStreamFactory } from './philox-rng'
+import { UtilityModel } from './utility'
+
+export class ValueOfInformationAnalyzer {
+  private engine: SimulationEngine
+  private streamFactory: PhiloxStreamFactory
+
+  constructor(engine: SimulationEngine, streamFactory: PhiloxStreamFactory) {
+    this.engine = engine
+    this.streamFactory = streamFactory
+  }
+
+  /**
+   * Rank the missing and estimated profile answers by how much knowing them is worth
+   *
+   * Each question has a handful of equally likely plausible answers: spread
+   * around the engine's defaults when the field is missing, and around the
+   * user's figure when they only gave an estimate of it. For every
+   * answer the options are simulated on the same Philox streams and scored by
+   * the certainty equivalent of year-10 net worth under that answer's
+   * utility. The value of an answer set is the expected gain from picking the
+   * best option per answer over the option that is best on average; when one
+   * question is resolved the other answers keep the engine's defaults or the
+   * user's estimates. Questions that cannot change the choice (a single option, or
+   * a dominant one) are ranked by how much they move the outcome. Free-text
+   * fields without plausible answers, such as city or role, are not ranked.
+   *
+   * @param decision - The decision being made
+   * @param options - Options to choose between
+   * @param userProfile - The user's profile as answered so far
+   * @param scenarios - Scenarios per option and answer
+   * @param estimatedFields - Answered profile paths the user is unsure of
+   */
+  async analyze(
+    decision: Decision,
+    options: DecisionOption[],
+    userProfile: Partial<UserProfile>,
+    scenarios: number,
+    estimatedFields: string[] = []
+  ): Promise<Pick<ValueOfInformationResult, 'recommendedOptionId' | 'evpi' | 'questions'>> {
+    if (options.length === 0) {
+      throw new Error('At least one option is required')
+    }
+
+    const critical = new Set(
+      this.engine
+        .getMissingFields(userProfile, decision.type)
+        .filter(field => field.critical)
+        .map(field => field.path)
+    )
+    const estimated = new Set(estimatedFields)
+    const answers = new Map<string, unknown[]>()
+    for (const [path, prior] of Object.entries(FIELD_PRIORS)) {
+      const value = this.valueAt(userProfile, path)
+      if (value === undefined || value === null) {
+        answers.set(path, prior.answers)
+      } else if (estimated.has(path) && prior.estimateScales) {
+        answers.set(
+          path,
+          prior.estimateScales.map(scale => this.scaled(value, scale))
+        )
+      }
+    }
+    const fields = [...answers.keys()]
+
+    const evaluate = (profiles: Partial<UserProfile>[]) =>
+      this.evaluate(decision, options, profiles, scenarios)
+
+    const questions: QuestionWorthAnswering[] = []
+    for (const field of fields) {
+      const values = await evaluate(
+        answers.get(field)!.map(answer => this.withValue(userProfile, field, answer))
+      )
+      const value = this.informationValue(values)
+      questions.push({
+        field,
+        question: FIELD_PRIORS[field].question,
+        critical: critical.has(field),
+        estimated: !this.isMissing(userProfile, field),
+        evppi: value.evppi,
+        probabilityChangesChoice: value.probabilityChangesChoice,
+        outcomeSpread: value.outcomeSpread,
+      })
+    }
+    questions.sort((a, b) => b.evppi - a.evppi || b.outcomeSpread - a.outcomeSpread)
+
+    // All unknown answers at once: stratified joint draws, one answer of each
+    // question per draw, shuffled independently across questions
+    const draws = Math.max(1, ...fields.map(field => answers.get(field)!.length))
+    const rng = this.streamFactory.createStreamAt(scenarios)
+    const orders = fields.map(field => {
+      const order = Array.from({ length: draws }, (_, k) => k % answers.get(field)!.length)
+      for (let i = order.length - 1; i > 0; i--) {
+        const j = Math.floor(rng.uniform(0, i + 1))
+        ;[order[i], order[j]] = [order[j], order[i]]
+      }
+      return order
+    })
+    const joint = await evaluate(
+      Array.from({ length: fields.length > 0 ? draws : 1 }, (_, k) =>
+        fields.reduce(
+          (profile, field, f) => this.withValue(profile, field, answers.get(field)![orders[f][k]]),
+          userProfile
+        )
+      )
+    )
+    const overall = this.informationValue(joint)
+
+    return {
+      recommendedOptionId: options[overall.chosen].id,
+      evpi: overall.evppi,
+      questions,
+    }
+  }
+
+  // Certainty equivalent of year-10 net worth per answer profile (rows) and option (columns)
+  private async evaluate(
+    decision: Decision,
+    options: DecisionOption[],
+    profiles: Partial<UserProfile>[],
+    scenarios: number
+  ): Promise<number[][]> {
+    const values: number[][] = []
+    for (const profile of profiles) {
+      const scenarioSets = await this.engine.runOnCommonPaths(
+        decision,
+        options,
+        profile,
+        index => this.streamFactory.createScenarioStreamsAt(index),
+        scenarios
+      )
+      const utility = UtilityModel.fromProfile(profile)
+      values.push(
+        scenarioSets.map(set =>
+          utility.certaintyEquivalent(
+            set.map(s => s.outcomes.year10.financialPosition.netWorth),
+            set.map(s => s.probability)
+          )
+        )
+      )
+    }
+    return values
+  }
+
+  // Value of knowing which (equally likely) answer holds, given the values per answer and option
+  private informationValue(values: number[][]): {
+    chosen: number
+    evppi: number
+    probabilityChangesChoice: number
+    outcomeSpread: number
+  } {
+    const answers = values.length
+    const optionCount = values[0].length
+    const averages = Array.from(
+      { length: optionCount },
+      (_, o) => values.reduce((sum, row) => sum + row[o], 0) / answers
+    )
+    const chosen = averages.indexOf(Math.max(...averages))
+
+    let gain = 0
+    let changes = 0
+    for (const row of values) {
+      const best = Math.max(...row)
+      gain += best - row[chosen]
+      if (row.indexOf(best) !== chosen) changes++
+    }
+    const outcomes = values.map(row => row[chosen])
+
+    return {
+      chosen,
+      evppi: gain / answers,
+      probabilityChangesChoice: changes / answers,
+      outcomeSpread: Math.max(...outcomes) - Math.min(...outcomes),
+    }
+  }
+
+  private isMissing(profile: Partial<UserProfile>, path: string): boolean {
+    const value = this.valueAt(profile, path)
+    return value === undefined || value === null
+  }
+
+  private valueAt(profile: Partial<UserProfile>, path: string): unknown {
+    return path
+      .split('.')
+      .reduce<unknown>(
+        (current, key) => (current as Record<string, unknown> | undefined)?.[key],
+        profile
+      )
+  }
+
+  // An answer with every amount in it scaled, e.g. each monthly expense category
+  private scaled(value: unknown, scale: number): unknown {
+    if (typeof value === 'number') return value * scale
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, v]) => [key, this.scaled(v, scale)])
+      )
+    }
+    return value
+  }
+
+  // Copy of the profile with one field answered
+  private withValue(
+    profile: Partial<UserProfile>,
+    path: string,
+    value: unknown
+  ): Partial<UserProfile> {
+    const copy = JSON.parse(JSON.stringify(profile))
+    const keys = path.split('.')
+    let target = copy
+    for (const key of keys.slice(0, -1)) {
+      target[key] = target[key] ?? {}
+      target = target[key]
+    }
+    target[keys[keys.length - 1]] = value
+    return copy
+  }
+}
+
+// Type definitions
+interface FieldPrior {
+  question: string
+  answers: unknown[] // equally likely plausible answers
+  estimateScales?: number[] // equally likely multiples of an estimated answer's amounts
+}
+
+// Plausible answers for profile fields the user may not have given, spread
+// around the engine's defaults, and for amounts the user may only have estimated
+const FIELD_PRIORS: Record<string, FieldPrior> = {
+  'demographics.age': {
+    question: 'How old are you?',
+    answers: [25, 32, 40, 50, 60],
+  },
+  'career.salary': {
+    question: 'What is your current annual salary?',
+    answers: [35000, 50000, 65000, 90000, 130000],
+    estimateScales: [0.8, 0.9, 1, 1.1, 1.2],
+  },
+  'career.yearsExperience': {
+    question: 'How many years of work experience do you have?',
+    answers: [1, 4, 8, 15, 25],
+  },
+  'financial.monthlyExpenses': {
+    question: 'What are your typical monthly expenses?',
+    answers: [0.6, 0.8, 1, 1.25, 1.6].map(scale => ({
+      housing: 1500 * scale,
+      transportation: 500 * scale,
+      food: 600 * scale,
+      utilities: 200 * scale,
+      entertainment: 300 * scale,
+      healthcare: 200 * scale,
+      other: 200 * scale,
+    })),
+    estimateScales: [0.75, 0.9, 1, 1.1, 1.25],
+  },
+  'financial.assets': {
+    question: 'How much do you have in savings, investments and retirement accounts?',
+    answers: [0.1, 0.4, 1, 2, 4].map(scale => ({
+      cash: 20000 * scale,
+      investments: 30000 * scale,
+      retirement: 50000 * scale,
+      realEstate: 0,
+      other: 0,
+    })),
+    estimateScales: [0.7, 0.85, 1, 1.15, 1.3],
+  },
+  'financial.liabilities': {
+    question: 'What debts do you owe (credit cards, student loans, other)?',
+    answers: [0, 0, 0.5, 1, 2].map(scale => ({
+      creditCards: 5000 * scale,
+      studentLoans: 25000 * scale,
+      mortgage: 0,
+      other: 0,
+    })),
+    estimateScales: [0.7, 0.85, 1, 1.15, 1.3],
+  },
+  'financial.riskTolerance': {
+    question: 'How comfortable are you with investment risk?',
+    answers: ['conservative', 'moderate', 'aggressive'],
+  },
+}
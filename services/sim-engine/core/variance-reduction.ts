@@ -0,0 +1,237 @@
+/**
+ * Variance reduction for scenario generation
+ * Antithetic stream pairs, control variates against the analytic no-shock
+ * baseline, and importance sampling that oversamples bad economic regimes
+ */
+
+import type { EconomicRegime, Scenario } from '@theguide/models'
+import type { PhiloxStreamFactory } from './philox-rng'
+import type { QMCEngine } from './qmc-engine'
+import { RegimeSwitchingEconomy } from './regime-switching'
+import type { RNG, ScenarioStreams } from './rng'
+
+/**
+ * Mirror image of another generator
+ *
+ * Every uniform u becomes 1 - u and every normal draw is reflected about its
+ * mean, so a scenario and its antithetic twin see opposite shocks.
+ */
+export class AntitheticRNG implements RNG {
+  private base: RNG
+
+  constructor(base: RNG) {
+    this.base = base
+  }
+
+  next(): number {
+    return 1 - this.base.next()
+  }
+
+  normal(mean: number = 0, stdDev: number = 1): number {
+    return 2 * mean - this.base.normal(mean, stdDev)
+  }
+
+  uniform(min: number, max: number): number {
+    return min + max - this.base.uniform(min, max)
+  }
+}
+
+export class VarianceReducer {
+  // Crashes and recessions drive the loss tail, so they are entered more often.
+  // Transitions compound over the horizon: steeper tilts shrink the effective
+  // sample size faster than they add tail scenarios.
+  private static readonly DEFAULT_TILT: Partial<Record<EconomicRegime, number>> = {
+    crisis: 1.5,
+    recession: 1.25,
+  }
+  private static readonly TAIL_QUANTILE = 0.1
+
+  private economy: RegimeSwitchingEconomy
+  private qmcEngine: QMCEngine
+
+  constructor(economy: RegimeSwitchingEconomy, qmcEngine: QMCEngine) {
+    this.economy = economy
+    this.qmcEngine = qmcEngine
+  }
+
+  /**
+   * Random streams for each scenario index
+   *
+   * With antithetic pairs, scenario 2k replays stream k and scenario 2k + 1
+   * its mirror image, economy and idiosyncratic draws alike.
+   */
+  streamAt(
+    factory: PhiloxStreamFactory,
+    config: VarianceReductionConfig
+  ): (index: number) => ScenarioStreams {
+    if (!config.antithetic) return index => factory.createScenarioStreamsAt(index)
+    return index => {
+      const streams = factory.createScenarioStreamsAt(Math.floor(index / 2))
+      return index % 2 === 0
+        ? streams
+        : {
+            economy: new AntitheticRNG(streams.economy),
+            idiosyncratic: new AntitheticRNG(streams.idiosyncratic),
+          }
+    }
+  }
+
+  /**
+   * Economy regime paths are drawn from: the tilted proposal under importance sampling
+   */
+  samplingEconomy(config: VarianceReductionConfig): RegimeSwitchingEconomy {
+    return config.importanceSampling
+      ? this.economy.tilted(config.regimeTilt ?? VarianceReducer.DEFAULT_TILT)
+      : this.economy
+  }
+
+  /**
+   * Reweight scenarios drawn from `proposal` to the target economy
+   *
+   * Each probability becomes the scenario's likelihood ratio, normalized so
+   * the probabilities sum to one.
+   */
+  reweight(scenarios: Scenario[], proposal: RegimeSwitchingEconomy): void {
+    const ratios = scenarios.map(scenario => {
+      const path = (scenario.regimePath ?? []).map(RegimeSwitchingEconomy.regimeOf)
+      return this.economy.pathProbability(path) / proposal.pathProbability(path)
+    })
+    const total = ratios.reduce((sum, r) => sum + r, 0)
+    scenarios.forEach((scenario, i) => {
+      scenario.probability = ratios[i] / total
+    })
+  }
+
+  /**
+   * Estimate expected year-10 net worth and the variance reduction achieved
+   *
+   * Factors compare the per-sample variance plain Monte Carlo would have
+   * with that of each technique's estimator, so 2 means the same precision
+   * from half the scenarios. Antithetic pairs are judged on pair means,
+   * control variates on the adjusted values, and importance sampling on the
+   * probability of falling below the 10th percentile of net worth.
+   */
+  assess(scenarios: Scenario[], config: VarianceReductionConfig): VarianceReductionReport {
+    const n = scenarios.length
+    const totalProbability = scenarios.reduce((sum, s) => sum + s.probability, 0)
+    // Likelihood ratios scaled to average one; all ones without importance sampling
+    const scale = scenarios.map(s => (n * s.probability) / totalProbability)
+    const netWorth = scenarios.map(s => s.outcomes.year10.financialPosition.netWorth)
+    const weighted = this.contributions(netWorth, scale)
+    const mean = this.mean(weighted)
+    const plainVariance = netWorth.reduce((sum, y, i) => sum + (scale[i] / n) * (y - mean) ** 2, 0)
+
+    const report: VarianceReductionReport = {
+      techniques: VARIANCE_REDUCTION_TECHNIQUES.filter(t => config[t]),
+      expectedNetWorth: mean,
+      standardError: 0,
+      plainStandardError: Math.sqrt(plainVariance / n),
+      factors: {},
+    }
+
+    let values = weighted
+    if (config.controlVariates) {
+      // Mean GDP growth along the path, whose expectation is the stationary
+      // mean of the regime chain (the analytic no-shock baseline)
+      const gdpGrowth = this.contributions(
+        scenarios.map(s => s.economicConditions.gdpGrowth),
+        scale
+      )
+      values = this.qmcEngine.applyControlVariates(
+        weighted,
+        ([growth]) => growth,
+        gdpGrowth.map(growth => [growth]),
+        this.economy.stationaryMean('gdpGrowth')
+      )
+      report.expectedNetWorth = this.mean(values)
+      report.factors.controlVariates = this.sampleVariance(weighted) / this.sampleVariance(values)
+    }
+
+    if (config.antithetic) {
+      const pairs = this.pairMeans(values)
+      report.factors.antithetic = this.sampleVariance(values) / (2 * this.sampleVariance(pairs))
+      report.standardError = Math.sqrt(this.sampleVariance(pairs) / pairs.length)
+    } else {
+      report.standardError = Math.sqrt(this.sampleVariance(values) / n)
+    }
+
+    if (config.importanceSampling) {
+      const order = netWorth.map((_, i) => i).sort((a, b) => netWorth[a] - netWorth[b])
+      let cumulative = 0
+      let threshold = netWorth[order[order.length - 1]]
+      for (const i of order) {
+        cumulative += scale[i] / n
+        if (cumulative >= VarianceReducer.TAIL_QUANTILE) {
+          threshold = netWorth[i]
+          break
+        }
+      }
+      const indicators = this.contributions(
+        netWorth.map(y => (y <= threshold ? 1 : 0)),
+        scale
+      )
+      const probability = this.mean(indicators)
+      report.factors.importanceSampling =
+        (probability * (1 - probability)) / this.sampleVariance(indicators)
+      report.tail = { quantile: VarianceReducer.TAIL_QUANTILE, threshold, probability }
+      report.effectiveSampleSize = n ** 2 / scale.reduce((sum, s) => sum + s * s, 0)
+    }
+
+    return report
+  }
+
+  /**
+   * Per-scenario terms of the self-normalized importance-sampling estimator
+   *
+   * The terms average to the weighted mean and their variance is that of the
+   * estimator, so plain-sample formulas (pairing, control variates) apply.
+   */
+  private contributions(values: number[], scale: number[]): number[] {
+    const mean = values.reduce((sum, v, i) => sum + scale[i] * v, 0) / values.length
+    return values.map((v, i) => mean + scale[i] * (v - mean))
+  }
+
+  private pairMeans(values: number[]): number[] {
+    const pairs: number[] = []
+    for (let i = 0; i + 1 < values.length; i += 2) {
+      pairs.push((values[i] + values[i + 1]) / 2)
+    }
+    return pairs
+  }
+
+  // Statistical utilities
+  private mean(values: number[]): number {
+    return values.reduce((sum, v) => sum + v, 0) / values.length
+  }
+
+  private sampleVariance(values: number[]): number {
+    const m = this.mean(values)
+    return values.reduce((sum, v) => sum + (v - m) ** 2, 0) / (values.length - 1)
+  }
+}
+
+// Type definitions
+export type VarianceReductionTechnique = (typeof VARIANCE_REDUCTION_TECHNIQUES)[number]
+
+export interface VarianceReductionConfig {
+  antithetic?: boolean
+  controlVariates?: boolean
+  importanceSampling?: boolean
+  regimeTilt?: Partial<Record<EconomicRegime, number>> // transition multipliers for the proposal
+}
+
+export interface VarianceReductionReport {
+  techniques: VarianceReductionTechnique[]
+  expectedNetWorth: number // year 10, after every enabled technique
+  standardError: number
+  plainStandardError: number // plain Monte Carlo with the same number of scenarios
+  factors: Partial<Record<VarianceReductionTechnique, number>> // > 1 is a reduction
+  effectiveSampleSize?: number
+  tail?: { quantile: number; threshold: number; probability: number }
+}
+
+export const VARIANCE_REDUCTION_TECHNIQUES = [
+  'antithetic',
+  'controlVariates',
+  'importanceSampling',
+] as const
@@ -0,0 +1,311 @@
+/**
+ * Wealth path generator for multilevel Monte Carlo
+ * Household balance sheet in continuous time (portfolio, salary, home and
+ * mortgage) discretized with 2^L Euler steps per year at level L
+ */
+
+import type { Decision, DecisionOption, FinancialProfile, UserProfile } from '@theguide/models'
+import type { Path, PathGenerator } from './mlmc-engine'
+import type { PhiloxRNG } from './philox-rng'
+
+export class WealthPathGenerator implements PathGenerator {
+  // Brownian factors: market, wage (idiosyncratic part), home price
+  readonly dimension = 3
+
+  private static readonly EQUITY_SHARE: Record<FinancialProfile['riskTolerance'], number> = {
+    conservative: 0.4,
+    moderate: 0.6,
+    aggressive: 0.8,
+  }
+  private static readonly BOND_RETURN = 0.04
+  private static readonly BORROWING_RATE = 0.08
+  private static readonly EFFECTIVE_TAX_RATE = 0.22
+  private static readonly WAGE_VOLATILITY = 0.05
+  private static readonly WAGE_MARKET_CORRELATION = 0.3
+  private static readonly HOME_VOLATILITY = 0.06
+  private static readonly OWNERSHIP_COST_RATE = 0.025 // property tax, insurance, maintenance
+  private static readonly HORIZON = 10
+
+  private params: WealthPathParameters
+
+  constructor(params: WealthPathParameters) {
+    this.params = params
+  }
+
+  /**
+   * Path parameters for a decision option
+   *
+   * Home purchases move the down payment and closing costs into a home
+   * financed by an amortizing mortgage; retirement stops earned income at the
+   * retirement year; investment options may set `equityAllocation`,
+   * `expectedReturn` and `volatility`. Taxes are a flat effective rate, since
+   * the fine levels take hundreds of steps per path.
+   */
+  static fromDecision(
+    decision: Decision,
+    option: DecisionOption,
+    userProfile: Partial<UserProfile>,
+    market: MarketAssumptions
+  ): WealthPathGenerator {
+    const params = option.parameters ?? {}
+    const assets = userProfile.financial?.assets
+    const liabilities = userProfile.financial?.liabilities
+    const salary = userProfile.career?.salary ?? 0
+    const expenses =
+      Object.values(userProfile.financial?.monthlyExpenses ?? {}).reduce(
+        (sum, v) => sum + (v || 0),
+        0
+      ) * 12
+
+    const liquid = (assets?.cash ?? 0) + (assets?.investments ?? 0) + (assets?.retirement ?? 0)
+    const unsecuredDebt =
+      (liabilities?.creditCards ?? 0) + (liabilities?.studentLoans ?? 0) + (liabilities?.other ?? 0)
+    const existingEquity =
+      (assets?.realEstate ?? 0) + (assets?.other ?? 0) - (liabilities?.mortgage ?? 0)
+
+    const equityShare =
+      params.equityAllocation ??
+      WealthPathGenerator.EQUITY_SHARE[userProfile.financial?.riskTolerance ?? 'moderate']
+    const bondShare = 1 - equityShare
+
+    let initialPortfolio = liquid - unsecuredDebt
+    let home: WealthPathParameters['home']
+    if (decision.type === 'home_purchase') {
+      const price = params.homePrice ?? salary * 4
+      const downPayment = params.downPayment ?? price * 0.2
+      const mortgageRate = params.mortgageRate ?? 0.07
+      const termYears = params.mortgageTerm ?? 30
+      const balance = Math.max(0, price - downPayment)
+      const monthlyRate = mortgageRate / 12
+      const payments = termYears * 12
+      const monthlyPayment =
+        monthlyRate > 0
+          ? (balance * monthlyRate) / (1 - (1 + monthlyRate) ** -payments)
+          : balance / payments
+
+      initialPortfolio -= downPayment + price * (params.closingCostPercent ?? 0.03)
+      home = {
+        value: price,
+        appreciation: params.appreciationRate ?? 0.035,
+        volatility: WealthPathGenerator.HOME_VOLATILITY,
+        mortgageBalance: balance,
+        mortgageRate,
+        annualPayment: monthlyPayment * 12,
+        rentSaved:
+          (params.currentRent ?? userProfile.financial?.monthlyExpenses?.housing ?? 0) * 12,
+      }
+    }
+
+    let retirementYear: number | undefined
+    if (decision.type === 'retirement') {
+      const age = userProfile.demographics?.age
+      retirementYear = Math.max(
+        0,
+        params.retirementYear ?? (params.retirementAge && age ? params.retirementAge - age : 0)
+      )
+    }
+
+    return new WealthPathGenerator({
+      years: WealthPathGenerator.HORIZON,
+      scale: Math.max(10000, salary, Math.abs(liquid)),
+      initialPortfolio,
+      otherNetWorth: existingEquity,
+      salary,
+      wageGrowth: market.wageGrowth,
+      wageVolatility: WealthPathGenerator.WAGE_VOLATILITY,
+      wageMarketCorrelation: WealthPathGenerator.WAGE_MARKET_CORRELATION,
+      taxRate: WealthPathGenerator.EFFECTIVE_TAX_RATE,
+      expenses,
+      inflation: market.inflation,
+      portfolioReturn:
+        params.expectedReturn ??
+        equityShare * market.equityReturn + bondShare * WealthPathGenerator.BOND_RETURN,
+      portfolioVolatility: params.volatility ?? equityShare * market.equityVolatility,
+      borrowingRate: WealthPathGenerator.BORROWING_RATE,
+      retirementYear,
+      retirementIncome: (params.socialSecurity ?? 0) + (params.pension ?? 0),
+      retirementExpenseMultiplier: 1 + (params.expenseChange ?? -0.2),
+      home,
+    })
+  }
+
+  /**
+   * Net worth is reported in multiples of this amount by `evaluate`
+   */
+  get scale(): number {
+    return this.params.scale
+  }
+
+  getStepsForLevel(level: number): number {
+    return this.params.years * 2 ** level
+  }
+
+  async generate(level: number, rng: PhiloxRNG): Promise<Path> {
+    const steps = this.getStepsForLevel(level)
+    const sqrtDt = Math.sqrt(1 / steps)
+    const noise = Array.from({ length: steps }, () =>
+      Array.from({ length: this.dimension }, () => rng.normal(0, sqrtDt))
+    )
+    return this.generateFromNoise(level, noise)
+  }
+
+  /**
+   * Simulate a path from Brownian increments
+   *
+   * Increments are over a unit horizon (variance 1/steps each), as produced
+   * by `MLMCEngine`; they are rescaled to the projection horizon here. Summing
+   * pairs of fine increments gives the coupled coarse path.
+   */
+  async generateFromNoise(level: number, noise: number[][]): Promise<Path> {
+    const p = this.params
+    const steps = noise.length
+    const dt = p.years / steps
+    const horizonScale = Math.sqrt(p.years)
+    const logInflation = Math.log(1 + p.inflation)
+    const wageIdiosyncratic = Math.sqrt(1 - p.wageMarketCorrelation ** 2)
+
+    let portfolio = p.initialPortfolio
+    let salary = p.salary
+    let homeValue = p.home?.value ?? 0
+    let mortgage = p.home?.mortgageBalance ?? 0
+
+    const times = [0]
+    const values = [this.snapshot(portfolio, salary, homeValue, mortgage)]
+
+    for (let step = 0; step < steps; step++) {
+      const t = step * dt
+      const [dMarket, dWage, dHome] = noise[step].map(z => z * horizonScale)
+      const priceLevel = Math.exp(logInflation * t)
+      const employed = p.retirementYear === undefined || t < p.retirementYear
+
+      const income = employed ? salary * (1 - p.taxRate) : p.retirementIncome * priceLevel
+      let spending = p.expenses * priceLevel * (employed ? 1 : p.retirementExpenseMultiplier)
+      let principalPaid = 0
+      if (p.home) {
+        // Mortgage payment for this step; other flows are annual rates
+        const interest = mortgage * p.home.mortgageRate * dt
+        const payment = mortgage > 0 ? Math.min(p.home.annualPayment * dt, mortgage + interest) : 0
+        principalPaid = payment - interest
+        spending +=
+          payment / dt +
+          WealthPathGenerator.OWNERSHIP_COST_RATE * homeValue -
+          p.home.rentSaved * priceLevel
+      }
+
+      // Shortfalls are borrowed, so a negative portfolio accrues interest instead of returns
+      const growth =
+        portfolio >= 0
+          ? portfolio * (p.portfolioReturn * dt + p.portfolioVolatility * dMarket)
+          : portfolio * p.borrowingRate * dt
+      portfolio += growth + (income - spending) * dt
+
+      salary *=
+        1 +
+        p.wageGrowth * dt +
+        p.wageVolatility * (p.wageMarketCorrelation * dMarket + wageIdiosyncratic * dWage)
+      if (p.home) {
+        homeValue *= 1 + p.home.appreciation * dt + p.home.volatility * dHome
+        mortgage = Math.max(0, mortgage - principalPaid)
+      }
+
+      times.push((step + 1) * dt)
+      values.push(this.snapshot(portfolio, salary, homeValue, mortgage))
+    }
+
+    return { times, values, level }
+  }
+
+  async generateFromUniform(level: number, uniform: number[]): Promise<Path> {
+    const steps = this.getStepsForLevel(level)
+    const sqrtDt = Math.sqrt(1 / steps)
+    const noise = Array.from({ length: steps }, (_, t) =>
+      Array.from(
+        { length: this.dimension },
+        (_, d) => this.inverseNormalCDF(uniform[(t * this.dimension + d) % uniform.length]) * sqrtDt
+      )
+    )
+    return this.generateFromNoise(level, noise)
+  }
+
+  /**
+   * Terminal net worth in multiples of `scale`
+   */
+  evaluate(path: Path): number {
+    return path.values[path.values.length - 1][0] / this.params.scale
+  }
+
+  // Row layout: [netWorth, portfolio, salary, homeEquity]
+  private snapshot(portfolio: number, salary: number, homeValue: number, mortgage: number) {
+    const homeEquity = homeValue - mortgage
+    return [portfolio + homeEquity + this.params.otherNetWorth, portfolio, salary, homeEquity]
+  }
+
+  private inverseNormalCDF(p: number): number {
+    // Acklam's algorithm, clamped away from 0 and 1
+    const u = Math.min(1 - 1e-12, Math.max(1e-12, p))
+    const a = [
+      -3.969683028665376e1, 2.209460984245205e2, -2.759285104469687e2, 1.38357751867269e2,
+      -3.066479806614716e1, 2.506628277459239,
+    ]
+    const b = [
+      -5.447609879822406e1, 1.615858368580409e2, -1.556989798598866e2, 6.680131188771972e1,
+      -1.328068155288572e1,
+    ]
+    const c = [
+      -7.784894002430293e-3, -3.223964580411365e-1, -2.400758277161838, -2.549732539343734,
+      4.374664141464968, 2.938163982698783,
+    ]
+    const d = [7.784695709041462e-3, 3.224671290700398e-1, 2.445134137142996, 3.754408661907416]
+
+    const tail = (q: number) =>
+      (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1)
+
+    if (u < 0.02425) return tail(Math.sqrt(-2 * Math.log(u)))
+    if (u > 1 - 0.02425) return -tail(Math.sqrt(-2 * Math.log(1 - u)))
+
+    const q = u - 0.5
+    const r = q * q
+    return (
+      ((((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q) /
+      (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1)
+    )
+  }
+}
+
+// Type definitions
+export interface MarketAssumptions {
+  equityReturn: number // annual, decimal
+  equityVolatility: number
+  inflation: number
+  wageGrowth: number // nominal
+}
+
+export interface WealthPathParameters {
+  years: number
+  scale: number
+  initialPortfolio: number // liquid assets net of unsecured debt
+  otherNetWorth: number // held constant: existing real estate and other assets net of mortgage
+  salary: number
+  wageGrowth: number
+  wageVolatility: number
+  wageMarketCorrelation: number
+  taxRate: number
+  expenses: number // annual, today's dollars
+  inflation: number
+  portfolioReturn: number
+  portfolioVolatility: number
+  borrowingRate: number
+  retirementYear?: number // earned income stops from this year
+  retirementIncome: number // annual benefits in today's dollars
+  retirementExpenseMultiplier: number
+  home?: {
+    value: number
+    appreciation: number
+    volatility: number
+    mortgageBalance: number
+    mortgageRate: number
+    annualPayment: number
+    rentSaved: number // annual rent in today's dollars, no longer paid
+  }
+}
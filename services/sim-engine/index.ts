@@ -2,12 +2,41 @@
 
 // Export advanced simulation components
 export { AdvancedSimulationEngine } from './core/advanced-engine'
+export { CalibrationRegistry, Calibrator } from './core/calibration'
 export { VineCopula } from './core/copulas'
 export { SimulationEngine } from './core/engine'
+export { GoalAnalyzer } from './core/goals'
+export { HouseholdModel } from './core/household'
 // Export intelligent addon that enhances algorithmic engines with LLM-MCTS
 export { IntelligentMCTSAddon } from './core/intelligent-mcts-addon'
+export { LiabilityLedger } from './core/liabilities'
+export { ManifestRecorder } from './core/manifest'
 export { MLMCEngine } from './core/mlmc-engine'
+export { OptionComparator } from './core/option-comparison'
+export {
+  EducationModel,
+  HomePurchaseModel,
+  type OutcomeModel,
+  OutcomeModelRegistry,
+  RetirementModel,
+  StartupModel,
+} from './core/outcome-models'
 export { PhiloxRNG, PhiloxStreamFactory } from './core/philox-rng'
+export { PortfolioModel } from './core/portfolio'
 export { QMCEngine } from './core/qmc-engine'
+export { RecoursePlanner } from './core/recourse'
+export { RegimeSwitchingEconomy } from './core/regime-switching'
 export { ScenarioReducer } from './core/scenario-reduction'
 export { SensitivityAnalyzer } from './core/sensitivity-analysis'
+export { TailRiskAnalyzer } from './core/tail-risk'
+export { TaxEngine, type TaxModel } from './core/tax'
+export { UtilityModel } from './core/utility'
+export { ValueOfInformationAnalyzer } from './core/value-of-information'
+export { AntitheticRNG, VarianceReducer } from './core/variance-reduction'
+export { WealthPathGenerator } from './core/wealth-paths'
+export { MonteCarloEngine, RandomGenerator, type SimulationModel } from './src/core/monte-carlo'
+export {
+  CareerChangeSimulation,
+  HomePurchaseSimulation,
+  RelocationSimulation,
+} from './src/core/simulation-models'
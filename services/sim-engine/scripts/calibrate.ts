@@ -0,0 +1,27 @@
+/**
+ * Fit a calibration from a historical CSV and write it as JSON
+ * Usage: bun scripts/calibrate.ts [name] [csv] [output]
+ */
+
+import { readFileSync, writeFileSync } from 'node:fs'
+import { basename, resolve } from 'node:path'
+import { Calibrator } from '../core/calibration'
+
+const [
+  name = 'us-macro-1970-2023',
+  csvPath = 'src/data/historical/us-macro-annual.csv',
+  outputPath = `src/data/calibrations/${name}.json`,
+] = process.argv.slice(2)
+
+const dataset = Calibrator.parseCSV(readFileSync(resolve(csvPath), 'utf8'))
+const model = new Calibrator().calibrate(name, dataset, basename(csvPath))
+
+writeFileSync(resolve(outputPath), `${JSON.stringify(model, null, 2)}\n`)
+console.log(
+  `Wrote ${outputPath}: ${model.observations} observations of ${model.variables.join(', ')}`
+)
+for (const pair of model.copula.pairs) {
+  console.log(
+    `  ${pair.edge}: ${pair.family} (${pair.parameters.map(p => p.toFixed(3)).join(', ')})`
+  )
+}
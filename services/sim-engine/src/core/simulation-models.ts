@@ -0,0 +1,333 @@
+// Decision simulation models for MonteCarloEngine
+// Uncertain inputs are {min, max, likely} ranges sampled from triangular
+// distributions. Ranges filled in from DEFAULT_DISTRIBUTIONS are widened by
+// UNCERTAINTY_MULTIPLIERS.noData; user-supplied ranges are widened by
+// partialData unless the financial profile is complete.
+
+import {
+  type CareerChangeParams,
+  DEFAULT_DISTRIBUTIONS,
+  type FinancialParams,
+  type HomePurchaseParams,
+  type RelocationParams,
+  UNCERTAINTY_MULTIPLIERS,
+} from '../models/simulation-params'
+import type { MetricDefinition, RandomGenerator, SimulationModel } from './monte-carlo'
+
+// Career change: switch to a new role after an unpaid training period, compared
+// with staying in the current role
+export class CareerChangeSimulation implements SimulationModel<CareerChangeOutcome> {
+  version = '1.0.0'
+
+  metrics: MetricDefinition[] = [
+    {
+      name: 'cumulativeEarningsDelta',
+      extract: (r: CareerChangeOutcome) => r.cumulativeEarningsDelta,
+      thresholds: [{ name: 'earnsMore', value: 0 }],
+    },
+    { name: 'netPresentValue', extract: (r: CareerChangeOutcome) => r.netPresentValue },
+    { name: 'finalSalary', extract: (r: CareerChangeOutcome) => r.finalSalary },
+    { name: 'breakEvenYear', extract: (r: CareerChangeOutcome) => r.breakEvenYear },
+  ]
+
+  async simulate(
+    params: CareerChangeParams,
+    random: RandomGenerator
+  ): Promise<CareerChangeOutcome> {
+    const { currentRole, newRole, financial, timeHorizon } = params
+    const ranges = new RangeResolver(financial)
+
+    const successProbability =
+      newRole.successProbability ?? DEFAULT_DISTRIBUTIONS.careerTransitionSuccess
+    const success = random.uniform() < successProbability
+
+    // A failed transition lands back in a comparable role at a small discount
+    const startingSalary = success
+      ? random.triangular(...ranges.provided(newRole.estimatedSalary, 0))
+      : currentRole.salary * random.triangular(0.85, 0.95, 1)
+    const currentGrowth = random.triangular(...ranges.get('salaryGrowthRate'))
+    const newGrowth = random.triangular(...ranges.get('salaryGrowthRate'))
+    const inflation = random.triangular(...ranges.get('inflationRate'))
+
+    const trainingYears = Math.max(0, newRole.trainingDuration) / 12
+    let cumulativeEarningsDelta = -newRole.transitionCost
+    let netPresentValue = -newRole.transitionCost
+    let breakEvenYear = timeHorizon + 1
+    let finalSalary = startingSalary
+
+    for (let year = 1; year <= timeHorizon; year++) {
+      const stayEarnings = currentRole.salary * (1 + currentGrowth) ** (year - 1)
+      // Share of this year spent working after the training period
+      const working = Math.min(1, Math.max(0, year - trainingYears))
+      finalSalary = startingSalary * (1 + newGrowth) ** Math.max(0, year - 1 - trainingYears)
+      const delta = finalSalary * working - stayEarnings
+
+      cumulativeEarningsDelta += delta
+      netPresentValue += delta / (1 + inflation) ** year
+      if (breakEvenYear > timeHorizon && cumulativeEarningsDelta >= 0) breakEvenYear = year
+    }
+
+    return {
+      success,
+      startingSalary,
+      finalSalary,
+      cumulativeEarningsDelta,
+      netPresentValue,
+      breakEvenYear,
+    }
+  }
+}
+
+// Relocation: moving costs and a cost-of-living shift against a salary
+// adjustment driven by the destination job market
+export class RelocationSimulation implements SimulationModel<RelocationOutcome> {
+  version = '1.0.0'
+
+  metrics: MetricDefinition[] = [
+    {
+      name: 'cumulativeSavingsDelta',
+      extract: (r: RelocationOutcome) => r.cumulativeSavingsDelta,
+      thresholds: [{ name: 'savesMoney', value: 0 }],
+    },
+    { name: 'annualCashFlowDelta', extract: (r: RelocationOutcome) => r.annualCashFlowDelta },
+    { name: 'movingCost', extract: (r: RelocationOutcome) => r.movingCost },
+    { name: 'breakEvenYear', extract: (r: RelocationOutcome) => r.breakEvenYear },
+  ]
+
+  async simulate(params: RelocationParams, random: RandomGenerator): Promise<RelocationOutcome> {
+    const { currentLocation, targetLocation, financial, family, timeHorizon } = params
+    const ranges = new RangeResolver(financial)
+
+    const salary = financial.currentSalary ?? 0
+    const movingCost = random.triangular(...ranges.provided(targetLocation.movingCost, 0))
+    // Housing costs are monthly
+    const newHousing = random.triangular(...ranges.provided(targetLocation.estimatedHousingCost, 0))
+    const inflation = random.triangular(...ranges.get('inflationRate'))
+    const salaryGrowth = random.triangular(...ranges.get('salaryGrowthRate'))
+
+    // Job market strength (1-10) moves the expected salary by 2% per point around 5
+    const likelyAdjustment = 1 + (targetLocation.jobMarketStrength - 5) * 0.02
+    const salaryAdjustment = random.triangular(
+      ...ranges.widen([likelyAdjustment - 0.1, likelyAdjustment, likelyAdjustment + 0.1], 0)
+    )
+    const adjustmentMonths = random.triangular(
+      ...ranges.widen(
+        [
+          0,
+          DEFAULT_DISTRIBUTIONS.relocationAdjustmentPeriod,
+          DEFAULT_DISTRIBUTIONS.relocationAdjustmentPeriod * 2,
+        ],
+        0
+      )
+    )
+
+    const colRatio = targetLocation.costOfLivingIndex / currentLocation.costOfLivingIndex
+    const otherMonthlyExpenses = Math.max(
+      0,
+      (financial.monthlyExpenses ?? currentLocation.housingCost) - currentLocation.housingCost
+    )
+    const schooling = family.dependents > 0 ? (family.schoolingCosts ?? 0) : 0
+    const annualExpenseDelta =
+      (newHousing - currentLocation.housingCost + otherMonthlyExpenses * (colRatio - 1)) * 12 +
+      schooling
+    const annualIncomeDelta = salary * (salaryAdjustment - 1)
+
+    let cumulativeSavingsDelta = -movingCost
+    let breakEvenYear = timeHorizon + 1
+    for (let year = 1; year <= timeHorizon; year++) {
+      const growth = (1 + inflation) ** (year - 1)
+      // The salary change only takes effect once the adjustment period is over
+      const adjusted = Math.min(1, Math.max(0, year - adjustmentMonths / 12))
+      const incomeDelta = annualIncomeDelta * adjusted * (1 + salaryGrowth) ** (year - 1)
+
+      cumulativeSavingsDelta += incomeDelta - annualExpenseDelta * growth
+      if (breakEvenYear > timeHorizon && cumulativeSavingsDelta >= 0) breakEvenYear = year
+    }
+
+    return {
+      movingCost,
+      adjustmentMonths,
+      annualCashFlowDelta: annualIncomeDelta - annualExpenseDelta,
+      cumulativeSavingsDelta,
+      breakEvenYear,
+    }
+  }
+}
+
+// Home purchase: buying against renting and investing the difference, with the
+// home sold at the end of the horizon
+export class HomePurchaseSimulation implements SimulationModel<HomePurchaseOutcome> {
+  version = '1.0.0'
+
+  private static readonly SELLING_COST = 0.06
+  private static readonly CLOSING_COST = 0.03
+
+  metrics: MetricDefinition[] = [
+    {
+      name: 'buyAdvantage',
+      extract: (r: HomePurchaseOutcome) => r.buyAdvantage,
+      thresholds: [{ name: 'buyingWins', value: 0 }],
+    },
+    { name: 'homeEquity', extract: (r: HomePurchaseOutcome) => r.homeEquity },
+    { name: 'finalHomeValue', extract: (r: HomePurchaseOutcome) => r.finalHomeValue },
+    { name: 'monthlyPayment', extract: (r: HomePurchaseOutcome) => r.monthlyPayment },
+  ]
+
+  async simulate(
+    params: HomePurchaseParams,
+    random: RandomGenerator
+  ): Promise<HomePurchaseOutcome> {
+    const { property, market, financial, timeHorizon } = params
+    const ranges = new RangeResolver(financial)
+
+    const mortgageRate = random.triangular(
+      ...ranges.provided(property.mortgageRate ?? DEFAULT_DISTRIBUTIONS.mortgageRate, 0)
+    )
+    const appreciation = random.triangular(
+      ...ranges.provided(market.appreciationRate ?? DEFAULT_DISTRIBUTIONS.homeAppreciationRate)
+    )
+    const rentGrowth = random.triangular(
+      ...ranges.provided(market.rentGrowthRate ?? DEFAULT_DISTRIBUTIONS.inflationRate)
+    )
+    const investmentReturn = random.triangular(...ranges.get('investmentReturnRate'))
+
+    const downPayment = property.price * property.downPaymentPercent
+    const principal = property.price - downPayment
+    const monthlyRate = mortgageRate / 12
+    const payments = property.mortgageTerm * 12
+    const monthlyPayment =
+      monthlyRate > 0
+        ? (principal * monthlyRate) / (1 - (1 + monthlyRate) ** -payments)
+        : principal / payments
+
+    // The renter invests the upfront cash; each year whoever pays less invests the difference
+    let renterPortfolio = downPayment + property.price * HomePurchaseSimulation.CLOSING_COST
+    let ownerPortfolio = 0
+    let balance = principal
+    let homeValue = property.price
+    let rent = market.currentRent * 12
+    let totalOwnershipCost = 0
+
+    for (let year = 1; year <= timeHorizon; year++) {
+      let mortgagePaid = 0
+      for (let month = 0; month < 12 && balance > 0; month++) {
+        const interest = balance * monthlyRate
+        const payment = Math.min(monthlyPayment, balance + interest)
+        balance -= payment - interest
+        mortgagePaid += payment
+      }
+
+      const ownerCost =
+        mortgagePaid +
+        homeValue * (property.propertyTaxRate + property.maintenanceCostPercent) +
+        property.insurance +
+        (property.hoa ?? 0) * 12
+      totalOwnershipCost += ownerCost
+
+      renterPortfolio = renterPortfolio * (1 + investmentReturn) + Math.max(0, ownerCost - rent)
+      ownerPortfolio = ownerPortfolio * (1 + investmentReturn) + Math.max(0, rent - ownerCost)
+
+      homeValue *= 1 + appreciation
+      rent *= 1 + rentGrowth
+    }
+
+    const homeEquity = homeValue - balance
+    const saleProceeds = homeValue * (1 - HomePurchaseSimulation.SELLING_COST) - balance
+
+    return {
+      mortgageRate,
+      monthlyPayment,
+      finalHomeValue: homeValue,
+      homeEquity,
+      totalOwnershipCost,
+      buyAdvantage: saleProceeds + ownerPortfolio - renterPortfolio,
+    }
+  }
+}
+
+// Resolves {min, max, likely} ranges into triangular parameters, widening them
+// around the likely value by the applicable uncertainty multiplier
+class RangeResolver {
+  private providedMultiplier: number
+
+  constructor(private financial: FinancialParams) {
+    const fields: (keyof FinancialParams)[] = [
+      'currentSalary',
+      'salaryGrowthRate',
+      'inflationRate',
+      'savingsRate',
+      'currentSavings',
+      'monthlyExpenses',
+      'investmentReturnRate',
+    ]
+    const complete = fields.every(field => financial[field] !== undefined)
+    this.providedMultiplier = complete
+      ? UNCERTAINTY_MULTIPLIERS.fullData
+      : UNCERTAINTY_MULTIPLIERS.partialData
+  }
+
+  // Financial range, falling back to the default distribution when missing
+  get(
+    field: 'salaryGrowthRate' | 'inflationRate' | 'investmentReturnRate'
+  ): [number, number, number] {
+    const range = this.financial[field]
+    if (range) return this.provided(range)
+    return this.widen(
+      [
+        DEFAULT_DISTRIBUTIONS[field].min,
+        DEFAULT_DISTRIBUTIONS[field].likely,
+        DEFAULT_DISTRIBUTIONS[field].max,
+      ],
+      undefined,
+      UNCERTAINTY_MULTIPLIERS.noData
+    )
+  }
+
+  // User-supplied range
+  provided(range: Range, floor?: number): [number, number, number] {
+    return this.widen([range.min, range.likely, range.max], floor)
+  }
+
+  widen(
+    [min, likely, max]: [number, number, number],
+    floor?: number,
+    multiplier: number = this.providedMultiplier
+  ): [number, number, number] {
+    const lower = likely - (likely - min) * multiplier
+    const upper = likely + (max - likely) * multiplier
+    return [Math.max(floor ?? Number.NEGATIVE_INFINITY, lower), likely, upper]
+  }
+}
+
+// Type definitions
+interface Range {
+  min: number
+  max: number
+  likely: number
+}
+
+export interface CareerChangeOutcome {
+  success: boolean
+  startingSalary: number
+  finalSalary: number
+  cumulativeEarningsDelta: number // against staying, net of transition cost
+  netPresentValue: number // deltas discounted at the sampled inflation rate
+  breakEvenYear: number // timeHorizon + 1 when it never breaks even
+}
+
+export interface RelocationOutcome {
+  movingCost: number
+  adjustmentMonths: number
+  annualCashFlowDelta: number // first full year, income minus expenses
+  cumulativeSavingsDelta: number
+  breakEvenYear: number // timeHorizon + 1 when it never breaks even
+}
+
+export interface HomePurchaseOutcome {
+  mortgageRate: number
+  monthlyPayment: number
+  finalHomeValue: number
+  homeEquity: number
+  totalOwnershipCost: number
+  buyAdvantage: number // buyer's wealth after selling minus the renter's
+}
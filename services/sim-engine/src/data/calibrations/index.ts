@@ -0,0 +1,10 @@
+// Calibrations fitted offline from the datasets in src/data/historical
+// Regenerate with `bun run calibrate` after changing a dataset
+
+import type { CalibrationModel } from '../../../core/calibration'
+import usMacro from './us-macro-1970-2023.json'
+
+export const DEFAULT_CALIBRATION = 'us-macro-1970-2023'
+
+// JSON imports widen literal and tuple types, hence the cast
+export const BUNDLED_CALIBRATIONS: CalibrationModel[] = [usMacro as unknown as CalibrationModel]
@@ -0,0 +1,262 @@
+// Bundled offline tax tables, one per tax year
+// Thresholds are in tax-year dollars; the tax engine indexes them forward with inflation
+
+export interface TaxBracket {
+  upTo: number // upper bound of the bracket; Infinity for the top bracket
+  rate: number
+}
+
+export interface FilingSchedule {
+  single: TaxBracket[]
+  married: TaxBracket[]
+}
+
+export interface StateTaxSchedule {
+  brackets: TaxBracket[] // single filer; married thresholds are doubled
+  standardDeduction?: number
+}
+
+export interface TaxTable {
+  year: number
+  federal: {
+    brackets: FilingSchedule
+    standardDeduction: { single: number; married: number }
+  }
+  capitalGains: FilingSchedule // long-term rates, stacked on top of ordinary income
+  fica: {
+    socialSecurityRate: number
+    socialSecurityWageBase: number
+    medicareRate: number
+    additionalMedicareRate: number
+    additionalMedicareThreshold: { single: number; married: number } // not indexed
+  }
+  retirementContributionLimit: number // employee 401(k) deferral limit
+  states: Record<string, StateTaxSchedule>
+}
+
+const flat = (rate: number): StateTaxSchedule => ({ brackets: [{ upTo: Infinity, rate }] })
+
+// States without a graduated schedule below use a flat or typical marginal rate
+const STATE_TAX_2024: Record<string, StateTaxSchedule> = {
+  AK: flat(0),
+  AL: flat(0.05),
+  AR: flat(0.044),
+  AZ: flat(0.025),
+  CA: {
+    brackets: [
+      { upTo: 10756, rate: 0.01 },
+      { upTo: 25499, rate: 0.02 },
+      { upTo: 40245, rate: 0.04 },
+      { upTo: 55866, rate: 0.06 },
+      { upTo: 70606, rate: 0.08 },
+      { upTo: 360659, rate: 0.093 },
+      { upTo: 432787, rate: 0.103 },
+      { upTo: 721314, rate: 0.113 },
+      { upTo: 1000000, rate: 0.123 },
+      { upTo: Infinity, rate: 0.133 },
+    ],
+    standardDeduction: 5540,
+  },
+  CO: flat(0.0425),
+  CT: {
+    brackets: [
+      { upTo: 10000, rate: 0.02 },
+      { upTo: 50000, rate: 0.045 },
+      { upTo: 100000, rate: 0.055 },
+      { upTo: 200000, rate: 0.06 },
+      { upTo: 250000, rate: 0.065 },
+      { upTo: 500000, rate: 0.069 },
+      { upTo: Infinity, rate: 0.0699 },
+    ],
+  },
+  DC: {
+    brackets: [
+      { upTo: 10000, rate: 0.04 },
+      { upTo: 40000, rate: 0.06 },
+      { upTo: 60000, rate: 0.065 },
+      { upTo: 250000, rate: 0.085 },
+      { upTo: 500000, rate: 0.0925 },
+      { upTo: 1000000, rate: 0.0975 },
+      { upTo: Infinity, rate: 0.1075 },
+    ],
+    standardDeduction: 14600,
+  },
+  DE: flat(0.066),
+  FL: flat(0),
+  GA: flat(0.0539),
+  HI: flat(0.0825),
+  IA: flat(0.057),
+  ID: flat(0.058),
+  IL: flat(0.0495),
+  IN: flat(0.0305),
+  KS: flat(0.057),
+  KY: flat(0.04),
+  LA: flat(0.0425),
+  MA: {
+    brackets: [
+      { upTo: 1053750, rate: 0.05 },
+      { upTo: Infinity, rate: 0.09 },
+    ],
+  },
+  MD: flat(0.0475),
+  ME: flat(0.0675),
+  MI: flat(0.0425),
+  MN: flat(0.068),
+  MO: flat(0.048),
+  MS: flat(0.047),
+  MT: flat(0.059),
+  NC: flat(0.045),
+  ND: flat(0.0195),
+  NE: flat(0.0584),
+  NH: flat(0),
+  NJ: {
+    brackets: [
+      { upTo: 20000, rate: 0.014 },
+      { upTo: 35000, rate: 0.0175 },
+      { upTo: 40000, rate: 0.035 },
+      { upTo: 75000, rate: 0.05525 },
+      { upTo: 500000, rate: 0.0637 },
+      { upTo: 1000000, rate: 0.0897 },
+      { upTo: Infinity, rate: 0.1075 },
+    ],
+  },
+  NM: flat(0.049),
+  NV: flat(0),
+  NY: {
+    brackets: [
+      { upTo: 8500, rate: 0.04 },
+      { upTo: 11700, rate: 0.045 },
+      { upTo: 13900, rate: 0.0525 },
+      { upTo: 80650, rate: 0.055 },
+      { upTo: 215400, rate: 0.06 },
+      { upTo: 1077550, rate: 0.0685 },
+      { upTo: 5000000, rate: 0.0965 },
+      { upTo: 25000000, rate: 0.103 },
+      { upTo: Infinity, rate: 0.109 },
+    ],
+    standardDeduction: 8000,
+  },
+  OH: flat(0.035),
+  OK: flat(0.0475),
+  OR: {
+    brackets: [
+      { upTo: 4300, rate: 0.0475 },
+      { upTo: 10750, rate: 0.0675 },
+      { upTo: 125000, rate: 0.0875 },
+      { upTo: Infinity, rate: 0.099 },
+    ],
+  },
+  PA: flat(0.0307),
+  RI: flat(0.0475),
+  SC: flat(0.064),
+  SD: flat(0),
+  TN: flat(0),
+  TX: flat(0),
+  UT: flat(0.0455),
+  VA: flat(0.0575),
+  VT: flat(0.066),
+  WA: flat(0),
+  WI: flat(0.053),
+  WV: flat(0.0512),
+  WY: flat(0),
+}
+
+export const TAX_TABLES: Record<number, TaxTable> = {
+  2024: {
+    year: 2024,
+    federal: {
+      brackets: {
+        single: [
+          { upTo: 11600, rate: 0.1 },
+          { upTo: 47150, rate: 0.12 },
+          { upTo: 100525, rate: 0.22 },
+          { upTo: 191950, rate: 0.24 },
+          { upTo: 243725, rate: 0.32 },
+          { upTo: 609350, rate: 0.35 },
+          { upTo: Infinity, rate: 0.37 },
+        ],
+        married: [
+          { upTo: 23200, rate: 0.1 },
+          { upTo: 94300, rate: 0.12 },
+          { upTo: 201050, rate: 0.22 },
+          { upTo: 383900, rate: 0.24 },
+          { upTo: 487450, rate: 0.32 },
+          { upTo: 731200, rate: 0.35 },
+          { upTo: Infinity, rate: 0.37 },
+        ],
+      },
+      standardDeduction: { single: 14600, married: 29200 },
+    },
+    capitalGains: {
+      single: [
+        { upTo: 47025, rate: 0 },
+        { upTo: 518900, rate: 0.15 },
+        { upTo: Infinity, rate: 0.2 },
+      ],
+      married: [
+        { upTo: 94050, rate: 0 },
+        { upTo: 583750, rate: 0.15 },
+        { upTo: Infinity, rate: 0.2 },
+      ],
+    },
+    fica: {
+      socialSecurityRate: 0.062,
+      socialSecurityWageBase: 168600,
+      medicareRate: 0.0145,
+      additionalMedicareRate: 0.009,
+      additionalMedicareThreshold: { single: 200000, married: 250000 },
+    },
+    retirementContributionLimit: 23000,
+    states: STATE_TAX_2024,
+  },
+  2025: {
+    year: 2025,
+    federal: {
+      brackets: {
+        single: [
+          { upTo: 11925, rate: 0.1 },
+          { upTo: 48475, rate: 0.12 },
+          { upTo: 103350, rate: 0.22 },
+          { upTo: 197300, rate: 0.24 },
+          { upTo: 250525, rate: 0.32 },
+          { upTo: 626350, rate: 0.35 },
+          { upTo: Infinity, rate: 0.37 },
+        ],
+        married: [
+          { upTo: 23850, rate: 0.1 },
+          { upTo: 96950, rate: 0.12 },
+          { upTo: 206700, rate: 0.22 },
+          { upTo: 394600, rate: 0.24 },
+          { upTo: 501050, rate: 0.32 },
+          { upTo: 751600, rate: 0.35 },
+          { upTo: Infinity, rate: 0.37 },
+        ],
+      },
+      standardDeduction: { single: 15750, married: 31500 },
+    },
+    capitalGains: {
+      single: [
+        { upTo: 48350, rate: 0 },
+        { upTo: 533400, rate: 0.15 },
+        { upTo: Infinity, rate: 0.2 },
+      ],
+      married: [
+        { upTo: 96700, rate: 0 },
+        { upTo: 600050, rate: 0.15 },
+        { upTo: Infinity, rate: 0.2 },
+      ],
+    },
+    fica: {
+      socialSecurityRate: 0.062,
+      socialSecurityWageBase: 176100,
+      medicareRate: 0.0145,
+      additionalMedicareRate: 0.009,
+      additionalMedicareThreshold: { single: 200000, married: 250000 },
+    },
+    retirementContributionLimit: 23500,
+    // State schedules have not been refreshed for 2025; the 2024 rates apply
+    states: STATE_TAX_2024,
+  },
+}
+
+export const LATEST_TAX_YEAR = 2025